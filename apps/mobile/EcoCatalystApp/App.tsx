@@ -9,6 +9,15 @@ import { ProductsProvider } from './src/contexts/products/ProductsContext';
 import { FootprintProvider } from './src/contexts/footprint/FootprintContext';
 import { DietProvider } from './src/contexts/diet/DietContext';
 import { GamificationProvider } from './src/contexts/gamification/GamificationContext';
+import { SyncProvider } from './src/contexts/sync/SyncContext';
+import { DataBackend } from './src/services/repositories/types';
+import { firebaseBackend } from './src/services/repositories/firebaseRepositories';
+import { createInMemoryBackend } from './src/services/repositories/inMemoryRepositories';
+
+// Set EXPO_PUBLIC_DATA_BACKEND=memory to run against an in-memory store with no backend
+const backend: DataBackend = process.env.EXPO_PUBLIC_DATA_BACKEND === 'memory'
+  ? createInMemoryBackend()
+  : firebaseBackend;
 
 export default function App() {
   return (
@@ -16,16 +25,18 @@ export default function App() {
       <PreferencesProvider>
         <ThemeProvider>
           <AuthProvider>
-            <ProductsProvider>
-              <FootprintProvider>
-                <DietProvider>
-                  <GamificationProvider>
-                    <RootNavigator />
-                    <StatusBar style="auto" />
-                  </GamificationProvider>
-                </DietProvider>
-              </FootprintProvider>
-            </ProductsProvider>
+            <SyncProvider remote={backend.remote}>
+              <ProductsProvider repository={backend.products}>
+                <FootprintProvider repository={backend.footprint}>
+                  <DietProvider repository={backend.diet}>
+                    <GamificationProvider repository={backend.gamification}>
+                      <RootNavigator />
+                      <StatusBar style="auto" />
+                    </GamificationProvider>
+                  </DietProvider>
+                </FootprintProvider>
+              </ProductsProvider>
+            </SyncProvider>
           </AuthProvider>
         </ThemeProvider>
       </PreferencesProvider>
@@ -1,9 +1,45 @@
-import React, { createContext, useState, useEffect, useContext } from 'react';
-import { database } from '../../services/firebase';
-import { ref, onValue, set, push, remove, get, query, orderByChild, limitToLast, equalTo, startAt } from 'firebase/database';
+import React, { createContext, useState, useEffect, useContext, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContext } from '../AuthContext';
 import { usePreferences } from '../preferences/PreferencesContext';
+import { useSync } from '../sync/SyncContext';
+import { MealFootprint, useFootprint } from '../footprint/FootprintContext';
+import { DietRepository } from '../../services/repositories/types';
+import { firebaseDietRepository } from '../../services/repositories/firebaseRepositories';
+import { paths } from '../../services/repositories/paths';
+import { estimateMealCarbon, estimateMealWater } from '../../services/footprint/foodEmissions';
+import { getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { BodyMetrics, selectActivePlan, validatePlanDates } from '../../services/diet/plans';
+import { reconcileFood } from '../../services/diet/foodDatabase';
+import { mealTotals } from '../../services/diet/nutrition';
+import {
+  generateMealSuggestion as suggestMeal,
+  MealSuggestionError,
+  selectHistory,
+  streamDietResponse,
+} from '../../services/diet/assistant';
+import {
+  CHAT_PAGE_SIZE,
+  DEFAULT_THREAD_TITLE,
+  legacyThread,
+  rewindTo,
+  sortMessages,
+  sortThreads,
+  threadTitleFrom,
+} from '../../services/diet/chatThreads';
+import {
+  ProfileChange,
+  ProfileMemory,
+  activeProfileItems,
+  cleanProfileValue,
+  learnFromMeals,
+  profileConstraints,
+  rememberFromChat,
+} from '../../services/diet/dietProfile';
+import { FoodRules, dietRules as rulesFor, foodRules } from '../../services/diet/restrictions';
+import { isAnonymousRecord } from '../../services/sync/migration';
+import { LLMClient } from '../../services/llm/client';
+import { defaultLLMClient } from '../../services/llm/defaultClient';
 
 export interface DietPlan {
   id: string;
@@ -19,6 +55,8 @@ export interface DietPlan {
   fatTarget: number;
   restrictions: string[];
   preferences: string[];
+  metrics?: BodyMetrics; // what the targets were calculated from
+  activatedAt?: number; // when the user last switched to this plan
   createdAt: number;
   updatedAt: number;
 }
@@ -36,6 +74,8 @@ export interface MealEntry {
   totalProtein: number;
   totalCarbs: number;
   totalFat: number;
+  carbonFootprint?: number; // in kg CO2e; estimated from the foods when not set
+  waterUsage?: number; // in liters; estimated from the foods when not set
   imageUrl?: string;
   createdAt: number;
   updatedAt: number;
@@ -43,28 +83,77 @@ export interface MealEntry {
 
 export interface FoodItem {
   id: string;
+  foodId?: string; // food database record the values were checked against
   name: string;
   servingSize: string;
+  servings?: number; // how many servingSize portions were eaten, 1 when unset; macros are for all of them
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
   sustainabilityScore?: number; // 0-100
   carbonFootprint?: number; // in kg CO2e
+  waterUsage?: number; // in liters
+}
+
+export interface ChatThread {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number; // when the last message was sent
 }
 
 export interface ChatMessage {
   id: string;
   userId: string;
+  threadId: string;
   content: string;
   sender: 'user' | 'ai';
   timestamp: number;
+  editedAt?: number;
   relatedTo?: {
     type: 'meal' | 'plan' | 'food';
     id: string;
   };
+  proposals?: ProposedAction[]; // changes the assistant suggested in this reply
+}
+
+export type DietProfileKind = 'like' | 'dislike' | 'allergy' | 'goal';
+
+/**
+ * Something the assistant knows about the user's eating, learned or entered by them
+ */
+export interface DietProfileItem {
+  id: string;
+  userId: string;
+  kind: DietProfileKind;
+  value: string; // a food or a short goal, e.g. "mushrooms" or "eat more fibre"
+  source: 'chat' | 'meals' | 'user'; // learned from the chat or meal logs, or entered by the user
+  evidence: number; // times mentioned in chat, or days logged in the last month
+  dismissed?: boolean; // removed by the user; kept so it isn't learned again
+  createdAt: number;
+  updatedAt: number;
 }
 
+export type ProposalStatus = 'pending' | 'applied' | 'dismissed';
+
+export type PlanChanges = Partial<Pick<DietPlan,
+  'calorieTarget' | 'proteinTarget' | 'carbTarget' | 'fatTarget' | 'restrictions' | 'preferences'
+>>;
+
+/**
+ * A change the assistant suggested, made only once the user confirms it
+ */
+export type ProposedAction = {
+  id: string; // unique within its message
+  summary: string; // shown to the user
+  status: ProposalStatus;
+} & (
+  | { type: 'add_meal'; meal: Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'> }
+  | { type: 'update_plan'; planId: string; changes: PlanChanges }
+);
+
 export type DietType = 
   | 'balanced' 
   | 'vegetarian' 
@@ -82,80 +171,220 @@ export type MealType =
 
 interface DietContextType {
   currentPlan: DietPlan | null;
+  dietPlans: DietPlan[];
   mealEntries: MealEntry[];
-  chatHistory: ChatMessage[];
+  chatThreads: ChatThread[]; // most recently active first
+  activeThreadId: string | null;
+  chatHistory: ChatMessage[]; // the loaded messages of the active thread, oldest first
+  hasOlderMessages: boolean;
+  streamingReply: string | null; // the assistant's reply so far while it arrives
+  dietProfile: DietProfileItem[]; // what the assistant knows about the user, most evidence first
+  dietRules: FoodRules; // what the plan and the profile's allergies and dislikes rule out
+  applyingProposals: string[]; // ids of proposals being applied
   isLoading: boolean;
   error: string | null;
   createDietPlan: (plan: Omit<DietPlan, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<string>;
   updateDietPlan: (id: string, updates: Partial<Omit<DietPlan, 'id' | 'userId'>>) => Promise<void>;
   deleteDietPlan: (id: string) => Promise<void>;
+  setActivePlan: (id: string) => Promise<void>;
   addMealEntry: (meal: Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<string>;
+  addMealEntries: (meals: Array<Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>) => Promise<string[]>;
   updateMealEntry: (id: string, updates: Partial<Omit<MealEntry, 'id' | 'userId'>>) => Promise<void>;
   deleteMealEntry: (id: string) => Promise<void>;
   getMealsByDate: (date: string) => MealEntry[];
   getMealsByDateRange: (startDate: string, endDate: string) => Promise<MealEntry[]>;
+  createChatThread: () => Promise<string>;
+  selectChatThread: (id: string) => void;
+  renameChatThread: (id: string, title: string) => Promise<void>;
+  deleteChatThread: (id: string) => Promise<void>;
+  loadOlderMessages: () => void;
   sendChatMessage: (content: string, relatedTo?: { type: 'meal' | 'plan' | 'food'; id: string }) => Promise<void>;
+  editChatMessage: (id: string, content: string) => Promise<void>;
+  deleteChatMessage: (id: string) => Promise<void>;
+  regenerateResponse: (id: string) => Promise<void>;
   clearChatHistory: () => Promise<void>;
+  applyProposal: (messageId: string, proposalId: string) => Promise<void>;
+  dismissProposal: (messageId: string, proposalId: string) => Promise<void>;
   generateMealSuggestion: (mealType: MealType, date: string) => Promise<MealEntry | null>;
+  addProfileItem: (kind: DietProfileKind, value: string) => Promise<void>;
+  updateProfileItem: (id: string, updates: Partial<Pick<DietProfileItem, 'kind' | 'value'>>) => Promise<void>;
+  removeProfileItem: (id: string) => Promise<void>;
   clearError: () => void;
 }
 
-const CURRENT_PLAN_STORAGE_KEY = 'ecocatalyst_current_diet_plan';
+/**
+ * The footprint entry a meal contributes, using the meal's own carbon and water values when it has them
+ */
+const toMealFootprint = (meal: MealEntry): MealFootprint => ({
+  date: meal.date,
+  carbonAmount: typeof meal.carbonFootprint === 'number' ? meal.carbonFootprint : estimateMealCarbon(meal.foods || []).carbonAmount,
+  waterUsage: typeof meal.waterUsage === 'number' ? meal.waterUsage : estimateMealWater(meal.foods || []),
+  description: meal.name,
+});
+
+const DIET_PLANS_STORAGE_KEY = 'ecocatalyst_diet_plans';
+// Older versions cached only the current plan
+const LEGACY_CURRENT_PLAN_STORAGE_KEY = 'ecocatalyst_current_diet_plan';
 const MEAL_ENTRIES_STORAGE_KEY = 'ecocatalyst_meal_entries';
-const CHAT_HISTORY_STORAGE_KEY = 'ecocatalyst_diet_chat_history';
+const DIET_PROFILE_STORAGE_KEY = 'ecocatalyst_diet_profile';
+const CHAT_THREADS_STORAGE_KEY = 'ecocatalyst_diet_chat_threads';
+const chatMessagesStorageKey = (threadId: string) => `ecocatalyst_diet_chat_${threadId}`;
+// Older versions kept a single conversation
+const LEGACY_CHAT_HISTORY_STORAGE_KEY = 'ecocatalyst_diet_chat_history';
+
+/**
+ * Cached plans, moving a plan cached under the legacy key into the list
+ */
+const readCachedPlans = async (): Promise<DietPlan[]> => {
+  const cachedPlans = await AsyncStorage.getItem(DIET_PLANS_STORAGE_KEY);
+  if (cachedPlans) {
+    return JSON.parse(cachedPlans);
+  }
+
+  const legacyPlan = await AsyncStorage.getItem(LEGACY_CURRENT_PLAN_STORAGE_KEY);
+  if (!legacyPlan) {
+    return [];
+  }
+
+  const plans: DietPlan[] = [JSON.parse(legacyPlan)];
+  await AsyncStorage.setItem(DIET_PLANS_STORAGE_KEY, JSON.stringify(plans));
+  await AsyncStorage.removeItem(LEGACY_CURRENT_PLAN_STORAGE_KEY);
+  return plans;
+};
+
+/**
+ * Cached threads, moving a conversation cached under the legacy key into a thread. Only messages
+ * written while signed out are moved here; synced ones are moved on the server.
+ */
+const readCachedThreads = async (): Promise<ChatThread[]> => {
+  const cachedThreads = await AsyncStorage.getItem(CHAT_THREADS_STORAGE_KEY);
+  const threads: ChatThread[] = cachedThreads ? JSON.parse(cachedThreads) : [];
+
+  const legacyChat = await AsyncStorage.getItem(LEGACY_CHAT_HISTORY_STORAGE_KEY);
+  if (!legacyChat) {
+    return threads;
+  }
+
+  const anonymousMessages = (JSON.parse(legacyChat) as ChatMessage[]).filter(isAnonymousRecord);
+  if (anonymousMessages.length > 0) {
+    const { thread, messages } = legacyThread(anonymousMessages, `local_${Date.now()}`, 'anonymous');
+    threads.push(thread);
+    await AsyncStorage.setItem(chatMessagesStorageKey(thread.id), JSON.stringify(messages));
+    await AsyncStorage.setItem(CHAT_THREADS_STORAGE_KEY, JSON.stringify(threads));
+  }
+  await AsyncStorage.removeItem(LEGACY_CHAT_HISTORY_STORAGE_KEY);
+  return threads;
+};
 
 export const DietContext = createContext<DietContextType>({
   currentPlan: null,
+  dietPlans: [],
   mealEntries: [],
+  chatThreads: [],
+  activeThreadId: null,
   chatHistory: [],
+  hasOlderMessages: false,
+  streamingReply: null,
+  dietProfile: [],
+  dietRules: foodRules('balanced', []),
+  applyingProposals: [],
   isLoading: true,
   error: null,
   createDietPlan: async () => '',
   updateDietPlan: async () => {},
   deleteDietPlan: async () => {},
+  setActivePlan: async () => {},
   addMealEntry: async () => '',
+  addMealEntries: async () => [],
   updateMealEntry: async () => {},
   deleteMealEntry: async () => {},
   getMealsByDate: () => [],
   getMealsByDateRange: async () => [],
+  createChatThread: async () => '',
+  selectChatThread: () => {},
+  renameChatThread: async () => {},
+  deleteChatThread: async () => {},
+  loadOlderMessages: () => {},
   sendChatMessage: async () => {},
+  editChatMessage: async () => {},
+  deleteChatMessage: async () => {},
+  regenerateResponse: async () => {},
   clearChatHistory: async () => {},
+  applyProposal: async () => {},
+  dismissProposal: async () => {},
   generateMealSuggestion: async () => null,
+  addProfileItem: async () => {},
+  updateProfileItem: async () => {},
+  removeProfileItem: async () => {},
   clearError: () => {},
 });
 
 export const useDiet = () => useContext(DietContext);
 
-export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [currentPlan, setCurrentPlan] = useState<DietPlan | null>(null);
+interface DietProviderProps {
+  children: React.ReactNode;
+  repository?: DietRepository;
+  llm?: LLMClient;
+}
+
+export const DietProvider: React.FC<DietProviderProps> = ({ children, repository = firebaseDietRepository, llm = defaultLLMClient }) => {
+  const [dietPlans, setDietPlans] = useState<DietPlan[]>([]);
   const [mealEntries, setMealEntries] = useState<MealEntry[]>([]);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadMessages, setThreadMessages] = useState<ChatMessage[]>([]);
+  const [messageLimit, setMessageLimit] = useState(CHAT_PAGE_SIZE);
+  const [hasMoreOnServer, setHasMoreOnServer] = useState(false);
+  const [streaming, setStreaming] = useState<{ threadId: string; text: string } | null>(null);
+  // Replies finish after the user may have switched threads; they only update the screen for the open one
+  const activeThreadRef = useRef<string | null>(null);
+  const [profileItems, setProfileItems] = useState<DietProfileItem[]>([]);
+  // Marked before anything is awaited, so a second tap can't apply the same proposal twice
+  const applyingProposalsRef = useRef(new Set<string>());
+  const [applyingProposals, setApplyingProposals] = useState<string[]>([]);
+  // The latest items, so changes made across awaits build on each other and on synced updates
+  const profileItemsRef = useRef<DietProfileItem[]>([]);
+  // Learning waits for the profile, cached or from the server, so it doesn't add what is already there
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  const [profileSynced, setProfileSynced] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const { user } = useContext(AuthContext);
   const { preferences } = usePreferences();
+  const {
+    isReady: syncReady,
+    createRecordId,
+    setRecord,
+    updateRecord,
+    removeRecord,
+    withPendingWrites,
+    migrateAnonymousData,
+  } = useSync();
+  const { summary: footprintSummary, setMealFootprint, setMealFootprints, remapMealIds } = useFootprint();
+  
+  const currentPlan = selectActivePlan(dietPlans, toLocalDate(Date.now(), getDeviceTimeZone()));
   
   useEffect(() => {
     const loadCachedData = async () => {
       try {
-        const cachedPlan = await AsyncStorage.getItem(CURRENT_PLAN_STORAGE_KEY);
-        if (cachedPlan) {
-          setCurrentPlan(JSON.parse(cachedPlan));
-        }
+        setDietPlans(await readCachedPlans());
         
         const cachedMeals = await AsyncStorage.getItem(MEAL_ENTRIES_STORAGE_KEY);
         if (cachedMeals) {
           setMealEntries(JSON.parse(cachedMeals));
         }
         
-        const cachedChat = await AsyncStorage.getItem(CHAT_HISTORY_STORAGE_KEY);
-        if (cachedChat) {
-          setChatHistory(JSON.parse(cachedChat));
+        setChatThreads(sortThreads(await readCachedThreads()));
+        
+        const cachedProfile = await AsyncStorage.getItem(DIET_PROFILE_STORAGE_KEY);
+        if (cachedProfile) {
+          replaceProfileItems(JSON.parse(cachedProfile));
         }
       } catch (error) {
         console.error('Failed to load cached diet data:', error);
       } finally {
+        setProfileLoaded(true);
         setIsLoading(false);
       }
     };
@@ -169,142 +398,274 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
     
+    if (!syncReady) return;
+    
     setIsLoading(true);
+    setProfileSynced(false);
     
-    const userDietPlanRef = query(
-      ref(database, `dietPlans/${user.uid}`),
-      orderByChild('endDate'),
-      startAt(new Date().toISOString().split('T')[0])
-    );
+    const plansPath = paths.dietPlans(user.uid);
+    const mealsPath = paths.mealEntries(user.uid);
+    const threadsPath = paths.dietChatThreads(user.uid);
+    const profilePath = paths.dietProfile(user.uid);
+    let unsubscribers: Array<() => void> = [];
+    let cancelled = false;
     
-    const planUnsubscribe = onValue(userDietPlanRef, (snapshot) => {
+    const subscribe = async () => {
       try {
-        const data = snapshot.val();
-        if (data) {
-          const plans = Object.keys(data).map(key => ({
-            id: key,
-            ...data[key]
-          }));
-          
-          plans.sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
-          
-          const latestPlan = plans[0];
-          setCurrentPlan(latestPlan);
-          
-          AsyncStorage.setItem(CURRENT_PLAN_STORAGE_KEY, JSON.stringify(latestPlan))
-            .catch(err => console.error('Failed to cache current diet plan:', err));
-        } else {
-          setCurrentPlan(null);
+        // Plans first so meals that reference a local plan pick up its new id
+        await readCachedPlans();
+        const planIds = await migrateAnonymousData({ storageKey: DIET_PLANS_STORAGE_KEY, basePath: plansPath });
+        const mealIds = await migrateAnonymousData({
+          storageKey: MEAL_ENTRIES_STORAGE_KEY,
+          basePath: mealsPath,
+          idMap: planIds,
+          references: ['dietPlanId'],
+        });
+        remapMealIds(mealIds);
+        await migrateAnonymousData({ storageKey: DIET_PROFILE_STORAGE_KEY, basePath: profilePath });
+        
+        // Threads first, then each thread's messages under the thread's new id
+        await readCachedThreads();
+        const threadIds = await migrateAnonymousData({ storageKey: CHAT_THREADS_STORAGE_KEY, basePath: threadsPath });
+        for (const [localId, threadId] of Object.entries(threadIds)) {
+          const cachedMessages = await AsyncStorage.getItem(chatMessagesStorageKey(localId));
+          if (cachedMessages) {
+            await AsyncStorage.setItem(chatMessagesStorageKey(threadId), cachedMessages);
+            await AsyncStorage.removeItem(chatMessagesStorageKey(localId));
+            await migrateAnonymousData({
+              storageKey: chatMessagesStorageKey(threadId),
+              basePath: paths.dietChatMessages(user.uid, threadId),
+              idMap: threadIds,
+              references: ['threadId'],
+            });
+          }
+        }
+        if (Object.keys(threadIds).length > 0) {
+          switchThread(activeThreadRef.current ? threadIds[activeThreadRef.current] || activeThreadRef.current : null);
         }
       } catch (error) {
-        console.error('Error fetching diet plan:', error);
+        console.error('Failed to migrate local diet data:', error);
       }
-    });
-    
-    const userMealsRef = query(
-      ref(database, `mealEntries/${user.uid}`),
-      orderByChild('date'),
-      startAt(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]) // Last 30 days
-    );
-    
-    const mealsUnsubscribe = onValue(userMealsRef, (snapshot) => {
+      
       try {
-        const data = snapshot.val();
-        if (data) {
-          const mealsList = Object.keys(data).map(key => ({
-            id: key,
-            ...data[key]
-          }));
-          
-          mealsList.sort((a, b) => {
-            const dateCompare = new Date(b.date).getTime() - new Date(a.date).getTime();
-            if (dateCompare !== 0) return dateCompare;
-            
-            const mealTypeOrder: Record<MealType, number> = { breakfast: 0, lunch: 1, dinner: 2, snack: 3 };
-            return mealTypeOrder[a.mealType as MealType] - mealTypeOrder[b.mealType as MealType];
-          });
-          
-          setMealEntries(mealsList);
-          
-          AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(mealsList))
-            .catch(err => console.error('Failed to cache meal entries:', err));
-        } else {
-          setMealEntries([]);
-        }
+        await moveLegacyChat(user.uid);
       } catch (error) {
-        console.error('Error fetching meal entries:', error);
+        console.error('Failed to move earlier chat messages into a thread:', error);
       }
-    });
+      if (cancelled) return;
+      
+      const today = new Date().toISOString().split('T')[0];
+      const planUnsubscribe = repository.subscribeToPlans(user.uid, today, (plans) => {
+        try {
+          const data = withPendingWrites(plansPath, plans);
+          if (data) {
+            const plans = Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            }));
+            
+            plans.sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
+            
+            setDietPlans(plans);
+            
+            AsyncStorage.setItem(DIET_PLANS_STORAGE_KEY, JSON.stringify(plans))
+              .catch(err => console.error('Failed to cache diet plans:', err));
+          } else {
+            setDietPlans([]);
+          }
+        } catch (error) {
+          console.error('Error fetching diet plan:', error);
+        }
+      });
+      
+      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Last 30 days
+      const mealsUnsubscribe = repository.subscribeToMeals(user.uid, thirtyDaysAgo, (meals) => {
+        try {
+          const data = withPendingWrites(mealsPath, meals);
+          if (data) {
+            const mealsList = Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            }));
+            
+            mealsList.sort((a, b) => {
+              const dateCompare = new Date(b.date).getTime() - new Date(a.date).getTime();
+              if (dateCompare !== 0) return dateCompare;
+              
+              const mealTypeOrder: Record<MealType, number> = { breakfast: 0, lunch: 1, dinner: 2, snack: 3 };
+              return mealTypeOrder[a.mealType as MealType] - mealTypeOrder[b.mealType as MealType];
+            });
+            
+            setMealEntries(mealsList);
+            
+            AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(mealsList))
+              .catch(err => console.error('Failed to cache meal entries:', err));
+          } else {
+            setMealEntries([]);
+          }
+        } catch (error) {
+          console.error('Error fetching meal entries:', error);
+        }
+      });
+      
+      const threadsUnsubscribe = repository.subscribeToChatThreads(user.uid, (threads) => {
+        try {
+          const data = withPendingWrites(threadsPath, threads);
+          if (data) {
+            const threadList = sortThreads(Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            })));
+            
+            setChatThreads(threadList);
+            
+            AsyncStorage.setItem(CHAT_THREADS_STORAGE_KEY, JSON.stringify(threadList))
+              .catch(err => console.error('Failed to cache chat threads:', err));
+          } else {
+            setChatThreads([]);
+          }
+        } catch (error) {
+          console.error('Error fetching chat threads:', error);
+        } finally {
+          setIsLoading(false);
+        }
+      });
+      
+      const profileUnsubscribe = repository.subscribeToProfile(user.uid, (items) => {
+        try {
+          const data = withPendingWrites(profilePath, items);
+          if (data) {
+            const profileList = Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            }));
+            
+            replaceProfileItems(profileList);
+            
+            AsyncStorage.setItem(DIET_PROFILE_STORAGE_KEY, JSON.stringify(profileList))
+              .catch(err => console.error('Failed to cache diet profile:', err));
+          } else {
+            replaceProfileItems([]);
+          }
+        } catch (error) {
+          console.error('Error fetching diet profile:', error);
+        } finally {
+          setProfileSynced(true);
+        }
+      });
+      
+      unsubscribers = [planUnsubscribe, mealsUnsubscribe, threadsUnsubscribe, profileUnsubscribe];
+    };
     
-    const userChatRef = query(
-      ref(database, `dietChat/${user.uid}`),
-      orderByChild('timestamp'),
-      limitToLast(50)
-    );
+    subscribe();
     
-    const chatUnsubscribe = onValue(userChatRef, (snapshot) => {
-      try {
-        const data = snapshot.val();
-        if (data) {
-          const chatList = Object.keys(data).map(key => ({
-            id: key,
-            ...data[key]
-          }));
-          
-          chatList.sort((a, b) => a.timestamp - b.timestamp);
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [user, syncReady, repository]);
+  
+  // Foods logged often become likes in the profile
+  useEffect(() => {
+    if (!profileLoaded || (user && !profileSynced)) return;
+    
+    const changes = learnFromMeals(profileItemsRef.current, mealEntries, toLocalDate(Date.now(), getDeviceTimeZone()));
+    if (changes.length > 0) {
+      applyProfileChanges(changes).catch(err => console.error('Failed to learn from meals:', err));
+    }
+  }, [mealEntries, profileItems, profileLoaded, profileSynced, user]);
+  
+  // Open the most recent thread when none is open or the open one was deleted
+  useEffect(() => {
+    if (activeThreadId && chatThreads.some(thread => thread.id === activeThreadId)) return;
+    switchThread(chatThreads.length > 0 ? chatThreads[0].id : null);
+  }, [chatThreads]);
+  
+  useEffect(() => {
+    if (!activeThreadId) {
+      setThreadMessages([]);
+      setHasMoreOnServer(false);
+      return;
+    }
+    
+    const storageKey = chatMessagesStorageKey(activeThreadId);
+    let unsubscribe = () => {};
+    let cancelled = false;
+    let fromServer = false;
+    
+    AsyncStorage.getItem(storageKey)
+      .then(cached => {
+        if (!cancelled && !fromServer) {
+          setThreadMessages(cached ? sortMessages(JSON.parse(cached)) : []);
+        }
+      })
+      .catch(err => console.error('Failed to load cached chat messages:', err));
+    
+    if (user && syncReady) {
+      const messagesPath = paths.dietChatMessages(user.uid, activeThreadId);
+      unsubscribe = repository.subscribeToChatMessages(user.uid, activeThreadId, messageLimit, (messages) => {
+        try {
+          fromServer = true;
+          const data = withPendingWrites(messagesPath, messages);
+          const messageList = data
+            ? sortMessages(Object.keys(data).map(key => ({ id: key, ...data[key] })))
+            : [];
           
-          setChatHistory(chatList);
+          setThreadMessages(messageList);
+          // A full page means there may be older messages to load
+          setHasMoreOnServer(messageList.length >= messageLimit);
           
-          AsyncStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(chatList))
-            .catch(err => console.error('Failed to cache chat history:', err));
-        } else {
-          setChatHistory([]);
+          AsyncStorage.setItem(storageKey, JSON.stringify(messageList))
+            .catch(err => console.error('Failed to cache chat messages:', err));
+        } catch (error) {
+          console.error('Error fetching chat messages:', error);
         }
-      } catch (error) {
-        console.error('Error fetching chat history:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    });
+      });
+    }
     
     return () => {
-      planUnsubscribe();
-      mealsUnsubscribe();
-      chatUnsubscribe();
+      cancelled = true;
+      unsubscribe();
     };
-  }, [user]);
+  }, [activeThreadId, messageLimit, user, syncReady, repository]);
+  
+  const saveMealEntries = async (updatedMeals: MealEntry[]) => {
+    setMealEntries(updatedMeals);
+    await AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(updatedMeals));
+  };
+  
+  const saveDietPlans = async (updatedPlans: DietPlan[]) => {
+    setDietPlans(updatedPlans);
+    await AsyncStorage.setItem(DIET_PLANS_STORAGE_KEY, JSON.stringify(updatedPlans));
+  };
   
   const createDietPlan = async (plan: Omit<DietPlan, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+    const dateError = validatePlanDates(plan.startDate, plan.endDate, toLocalDate(Date.now(), getDeviceTimeZone()));
+    if (dateError) {
+      setError(dateError);
+      return '';
+    }
+    
     try {
       const timestamp = Date.now();
       
-      if (!user) {
-        const newPlan: DietPlan = {
-          id: `local_${timestamp}`,
-          userId: 'anonymous',
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          ...plan
-        };
-        
-        setCurrentPlan(newPlan);
-        
-        await AsyncStorage.setItem(CURRENT_PLAN_STORAGE_KEY, JSON.stringify(newPlan));
-        return newPlan.id;
-      }
-      
-      const userDietPlanRef = ref(database, `dietPlans/${user.uid}`);
-      const newPlanRef = push(userDietPlanRef);
-      
-      const planData: Omit<DietPlan, 'id'> = {
-        userId: user.uid,
+      // A new plan becomes the active one
+      const newPlan: DietPlan = {
+        id: user ? createRecordId(paths.dietPlans(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
+        activatedAt: timestamp,
         createdAt: timestamp,
         updatedAt: timestamp,
         ...plan
       };
       
-      await set(newPlanRef, planData);
-      return newPlanRef.key || '';
+      await saveDietPlans([newPlan, ...dietPlans]);
+      
+      if (user) {
+        const { id, ...planData } = newPlan;
+        await setRecord(`${paths.dietPlans(user.uid)}/${id}`, planData);
+      }
+      return newPlan.id;
     } catch (error) {
       console.error('Error creating diet plan:', error);
       setError('Failed to create diet plan. Please try again.');
@@ -314,37 +675,32 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
   
   const updateDietPlan = async (id: string, updates: Partial<Omit<DietPlan, 'id' | 'userId'>>): Promise<void> => {
     try {
-      const timestamp = Date.now();
+      const existing = dietPlans.find(plan => plan.id === id);
+      if (!existing) {
+        throw new Error('Diet plan not found');
+      }
       
-      if (!user) {
-        if (currentPlan && currentPlan.id === id) {
-          const updatedPlan = {
-            ...currentPlan,
-            ...updates,
-            updatedAt: timestamp
-          };
-          
-          setCurrentPlan(updatedPlan);
-          
-          await AsyncStorage.setItem(CURRENT_PLAN_STORAGE_KEY, JSON.stringify(updatedPlan));
+      if (updates.startDate !== undefined || updates.endDate !== undefined) {
+        const dateError = validatePlanDates(
+          updates.startDate ?? existing.startDate,
+          updates.endDate ?? existing.endDate,
+          toLocalDate(Date.now(), getDeviceTimeZone())
+        );
+        if (dateError) {
+          setError(dateError);
+          return;
         }
-        return;
       }
       
-      const planRef = ref(database, `dietPlans/${user.uid}/${id}`);
+      const changes = { ...updates, updatedAt: Date.now() };
       
-      const snapshot = await get(planRef);
-      const currentData = snapshot.val();
+      await saveDietPlans(dietPlans.map(plan => 
+        plan.id === id ? { ...plan, ...changes } : plan
+      ));
       
-      if (!currentData) {
-        throw new Error('Diet plan not found');
+      if (user) {
+        await updateRecord(`${paths.dietPlans(user.uid)}/${id}`, changes);
       }
-      
-      await set(planRef, {
-        ...currentData,
-        ...updates,
-        updatedAt: timestamp
-      });
     } catch (error) {
       console.error('Error updating diet plan:', error);
       setError('Failed to update diet plan. Please try again.');
@@ -353,54 +709,49 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
   
   const deleteDietPlan = async (id: string): Promise<void> => {
     try {
-      if (!user) {
-        if (currentPlan && currentPlan.id === id) {
-          setCurrentPlan(null);
-          await AsyncStorage.removeItem(CURRENT_PLAN_STORAGE_KEY);
-        }
-        return;
-      }
+      await saveDietPlans(dietPlans.filter(plan => plan.id !== id));
       
-      const planRef = ref(database, `dietPlans/${user.uid}/${id}`);
-      await remove(planRef);
+      if (user) {
+        await removeRecord(`${paths.dietPlans(user.uid)}/${id}`);
+      }
     } catch (error) {
       console.error('Error deleting diet plan:', error);
       setError('Failed to delete diet plan. Please try again.');
     }
   };
   
+  /**
+   * Follow a different plan; the choice syncs with the plan so other devices switch too
+   */
+  const setActivePlan = async (id: string): Promise<void> => {
+    if (!dietPlans.some(plan => plan.id === id)) {
+      setError('That diet plan is no longer available.');
+      return;
+    }
+    await updateDietPlan(id, { activatedAt: Date.now() });
+  };
+  
   const addMealEntry = async (meal: Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'>): Promise<string> => {
     try {
       const timestamp = Date.now();
       
-      if (!user) {
-        const newMeal: MealEntry = {
-          id: `local_${timestamp}`,
-          userId: 'anonymous',
-          createdAt: timestamp,
-          updatedAt: timestamp,
-          ...meal
-        };
-        
-        const updatedMeals = [newMeal, ...mealEntries];
-        setMealEntries(updatedMeals);
-        
-        await AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(updatedMeals));
-        return newMeal.id;
-      }
-      
-      const userMealsRef = ref(database, `mealEntries/${user.uid}`);
-      const newMealRef = push(userMealsRef);
-      
-      const mealData: Omit<MealEntry, 'id'> = {
-        userId: user.uid,
+      const newMeal: MealEntry = {
+        id: user ? createRecordId(paths.mealEntries(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
         createdAt: timestamp,
         updatedAt: timestamp,
         ...meal
       };
       
-      await set(newMealRef, mealData);
-      return newMealRef.key || '';
+      await saveMealEntries([newMeal, ...mealEntries]);
+      
+      if (user) {
+        const { id, ...mealData } = newMeal;
+        await setRecord(`${paths.mealEntries(user.uid)}/${id}`, mealData);
+      }
+      
+      await setMealFootprint(newMeal.id, toMealFootprint(newMeal));
+      return newMeal.id;
     } catch (error) {
       console.error('Error adding meal entry:', error);
       setError('Failed to save meal entry. Please try again.');
@@ -408,35 +759,64 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
-  const updateMealEntry = async (id: string, updates: Partial<Omit<MealEntry, 'id' | 'userId'>>): Promise<void> => {
+  /**
+   * Add several meals at once, such as a planned week, saving them together
+   */
+  const addMealEntries = async (meals: Array<Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<string[]> => {
+    if (meals.length === 0) return [];
+    
     try {
       const timestamp = Date.now();
       
-      if (!user) {
-        const updatedMeals = mealEntries.map(meal => 
-          meal.id === id ? { ...meal, ...updates, updatedAt: timestamp } : meal
-        );
-        
-        setMealEntries(updatedMeals);
-        
-        await AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(updatedMeals));
-        return;
-      }
+      const newMeals: MealEntry[] = meals.map((meal, index) => ({
+        id: user ? createRecordId(paths.mealEntries(user.uid)) : `local_${timestamp}_${index}`,
+        userId: user ? user.uid : 'anonymous',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        ...meal
+      }));
       
-      const mealRef = ref(database, `mealEntries/${user.uid}/${id}`);
+      await saveMealEntries([...newMeals, ...mealEntries]);
       
-      const snapshot = await get(mealRef);
-      const currentData = snapshot.val();
+      if (user) {
+        for (const newMeal of newMeals) {
+          const { id, ...mealData } = newMeal;
+          await setRecord(`${paths.mealEntries(user.uid)}/${id}`, mealData);
+        }
+      }
       
-      if (!currentData) {
+      await setMealFootprints(
+        newMeals.reduce<Record<string, MealFootprint>>((footprints, newMeal) => ({
+          ...footprints,
+          [newMeal.id]: toMealFootprint(newMeal),
+        }), {})
+      );
+      return newMeals.map(newMeal => newMeal.id);
+    } catch (error) {
+      console.error('Error adding meal entries:', error);
+      setError('Failed to save meal entries. Please try again.');
+      return [];
+    }
+  };
+  
+  const updateMealEntry = async (id: string, updates: Partial<Omit<MealEntry, 'id' | 'userId'>>): Promise<void> => {
+    try {
+      const existing = mealEntries.find(meal => meal.id === id);
+      if (!existing) {
         throw new Error('Meal entry not found');
       }
       
-      await set(mealRef, {
-        ...currentData,
-        ...updates,
-        updatedAt: timestamp
-      });
+      const changes = { ...updates, updatedAt: Date.now() };
+      
+      await saveMealEntries(mealEntries.map(meal => 
+        meal.id === id ? { ...meal, ...changes } : meal
+      ));
+      
+      if (user) {
+        await updateRecord(`${paths.mealEntries(user.uid)}/${id}`, changes);
+      }
+      
+      await setMealFootprint(id, toMealFootprint({ ...existing, ...changes }));
     } catch (error) {
       console.error('Error updating meal entry:', error);
       setError('Failed to update meal entry. Please try again.');
@@ -445,17 +825,13 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
   
   const deleteMealEntry = async (id: string): Promise<void> => {
     try {
-      if (!user) {
-        const updatedMeals = mealEntries.filter(meal => meal.id !== id);
-        
-        setMealEntries(updatedMeals);
-        
-        await AsyncStorage.setItem(MEAL_ENTRIES_STORAGE_KEY, JSON.stringify(updatedMeals));
-        return;
+      await saveMealEntries(mealEntries.filter(meal => meal.id !== id));
+      
+      if (user) {
+        await removeRecord(`${paths.mealEntries(user.uid)}/${id}`);
       }
       
-      const mealRef = ref(database, `mealEntries/${user.uid}/${id}`);
-      await remove(mealRef);
+      await setMealFootprint(id, null);
     } catch (error) {
       console.error('Error deleting meal entry:', error);
       setError('Failed to delete meal entry. Please try again.');
@@ -482,97 +858,319 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
+  const switchThread = (id: string | null) => {
+    activeThreadRef.current = id;
+    setActiveThreadId(id);
+    setMessageLimit(CHAT_PAGE_SIZE);
+  };
+  
+  /**
+   * Move a conversation saved before chats had threads into a thread of its own
+   */
+  const moveLegacyChat = async (userId: string) => {
+    const legacyMessages = await repository.getLegacyChat(userId);
+    if (!legacyMessages || Object.keys(legacyMessages).length === 0) return;
+    
+    const threadsPath = paths.dietChatThreads(userId);
+    const { thread, messages } = legacyThread(
+      Object.keys(legacyMessages).map(key => ({ ...legacyMessages[key], id: key })),
+      createRecordId(threadsPath),
+      userId
+    );
+    const { id: threadId, ...threadData } = thread;
+    await setRecord(`${threadsPath}/${threadId}`, threadData);
+    for (const message of messages) {
+      const { id, ...messageData } = message;
+      await setRecord(`${paths.dietChatMessages(userId, threadId)}/${id}`, messageData);
+    }
+    await removeRecord(paths.dietChat(userId));
+  };
+  
+  const saveChatThreads = async (updatedThreads: ChatThread[]) => {
+    const sorted = sortThreads(updatedThreads);
+    setChatThreads(sorted);
+    await AsyncStorage.setItem(CHAT_THREADS_STORAGE_KEY, JSON.stringify(sorted));
+  };
+  
+  /**
+   * Cache a thread's messages, and show them if it is still the open thread
+   */
+  const saveThreadMessages = async (threadId: string, messages: ChatMessage[]) => {
+    if (activeThreadRef.current === threadId) {
+      setThreadMessages(messages);
+    }
+    await AsyncStorage.setItem(chatMessagesStorageKey(threadId), JSON.stringify(messages));
+  };
+  
+  const messagesPath = (threadId: string) => (user ? paths.dietChatMessages(user.uid, threadId) : null);
+  
+  const createChatThread = async (): Promise<string> => {
+    try {
+      // An empty new thread is reused rather than piling up more of them
+      const active = chatThreads.find(thread => thread.id === activeThreadId);
+      if (active && active.title === DEFAULT_THREAD_TITLE && threadMessages.length === 0) {
+        return active.id;
+      }
+      
+      const timestamp = Date.now();
+      const threadsPath = user ? paths.dietChatThreads(user.uid) : null;
+      const thread: ChatThread = {
+        id: threadsPath ? createRecordId(threadsPath) : `local_${timestamp}`,
+        userId: user?.uid || 'anonymous',
+        title: DEFAULT_THREAD_TITLE,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      
+      await saveChatThreads([thread, ...chatThreads]);
+      switchThread(thread.id);
+      
+      if (threadsPath) {
+        const { id, ...threadData } = thread;
+        await setRecord(`${threadsPath}/${id}`, threadData);
+      }
+      
+      return thread.id;
+    } catch (error) {
+      console.error('Error creating chat thread:', error);
+      setError('Failed to start a new conversation. Please try again.');
+      return '';
+    }
+  };
+  
+  const selectChatThread = (id: string) => {
+    if (id !== activeThreadId && chatThreads.some(thread => thread.id === id)) {
+      switchThread(id);
+    }
+  };
+  
+  const renameChatThread = async (id: string, title: string): Promise<void> => {
+    try {
+      const trimmed = title.trim();
+      if (!trimmed) {
+        setError('Please enter a name for the conversation.');
+        return;
+      }
+      
+      await saveChatThreads(chatThreads.map(thread => (thread.id === id ? { ...thread, title: trimmed } : thread)));
+      
+      if (user) {
+        await updateRecord(`${paths.dietChatThreads(user.uid)}/${id}`, { title: trimmed });
+      }
+    } catch (error) {
+      console.error('Error renaming chat thread:', error);
+      setError('Failed to rename the conversation. Please try again.');
+    }
+  };
+  
+  const deleteChatThread = async (id: string): Promise<void> => {
+    try {
+      const remaining = chatThreads.filter(thread => thread.id !== id);
+      await saveChatThreads(remaining);
+      if (id === activeThreadId) {
+        switchThread(remaining.length > 0 ? remaining[0].id : null);
+      }
+      await AsyncStorage.removeItem(chatMessagesStorageKey(id));
+      
+      if (user) {
+        await removeRecord(`${paths.dietChatThreads(user.uid)}/${id}`);
+        await removeRecord(paths.dietChatMessages(user.uid, id));
+      }
+    } catch (error) {
+      console.error('Error deleting chat thread:', error);
+      setError('Failed to delete the conversation. Please try again.');
+    }
+  };
+  
+  const loadOlderMessages = () => {
+    setMessageLimit(limit => limit + CHAT_PAGE_SIZE);
+  };
+  
+  /**
+   * Stream the assistant's answer to a user message into its thread. `history` is the thread
+   * before the message.
+   */
+  const respond = async (threadId: string, history: ChatMessage[], prompt: ChatMessage) => {
+    setIsLoading(true);
+    setStreaming({ threadId, text: '' });
+    try {
+      const toolContext = {
+        today: toLocalDate(Date.now(), getDeviceTimeZone()),
+        plan: currentPlan,
+        meals: mealEntries,
+        footprint: footprintSummary,
+        profile: profileItems,
+      };
+      
+      let reply = '';
+      const aiResponseData = await streamDietResponse(llm, prompt.content, selectHistory(history), toolContext, text => {
+        reply += text;
+        setStreaming({ threadId, text: reply });
+      });
+      
+      const path = messagesPath(threadId);
+      const timestamp = Math.max(Date.now(), prompt.timestamp + 1);
+      const aiResponse: ChatMessage = {
+        id: path ? createRecordId(path) : `local_${timestamp}`,
+        userId: user?.uid || 'anonymous',
+        threadId,
+        content: aiResponseData.content,
+        sender: 'ai',
+        timestamp,
+        ...(prompt.relatedTo ? { relatedTo: prompt.relatedTo } : {}),
+        ...(aiResponseData.proposals.length > 0 ? { proposals: aiResponseData.proposals } : {})
+      };
+      
+      await saveThreadMessages(threadId, [...history, prompt, aiResponse]);
+      
+      if (path) {
+        const { id, ...messageData } = aiResponse;
+        await setRecord(`${path}/${id}`, messageData);
+      }
+      
+      await rememberFromReply(aiResponseData.memories);
+    } catch (error) {
+      console.error('Error getting AI response:', error);
+      setError('Failed to get AI response. Please try again.');
+    } finally {
+      setStreaming(null);
+      setIsLoading(false);
+    }
+  };
+  
   const sendChatMessage = async (content: string, relatedTo?: { type: 'meal' | 'plan' | 'food'; id: string }): Promise<void> => {
     try {
       const timestamp = Date.now();
+      const threadsPath = user ? paths.dietChatThreads(user.uid) : null;
       
+      // The first message names the thread, unless the user already has
+      const existing = chatThreads.find(thread => thread.id === activeThreadId);
+      const isUntitled = !existing || (existing.title === DEFAULT_THREAD_TITLE && threadMessages.length === 0);
+      const thread: ChatThread = {
+        id: existing?.id || (threadsPath ? createRecordId(threadsPath) : `local_${timestamp}`),
+        userId: user?.uid || 'anonymous',
+        title: isUntitled ? threadTitleFrom(content) : existing!.title,
+        createdAt: existing?.createdAt || timestamp,
+        updatedAt: timestamp,
+      };
+      const history = existing ? threadMessages : [];
+      
+      await saveChatThreads([thread, ...chatThreads.filter(item => item.id !== thread.id)]);
+      if (!existing) {
+        switchThread(thread.id);
+      }
+      
+      const path = messagesPath(thread.id);
       const userMessage: ChatMessage = {
-        id: `user_${timestamp}`,
+        id: path ? createRecordId(path) : `local_${timestamp}`,
         userId: user?.uid || 'anonymous',
+        threadId: thread.id,
         content,
         sender: 'user',
         timestamp,
-        relatedTo
+        ...(relatedTo ? { relatedTo } : {})
       };
       
-      const updatedChat = [...chatHistory, userMessage];
-      setChatHistory(updatedChat);
-      setIsLoading(true);
+      await saveThreadMessages(thread.id, [...history, userMessage]);
       
-      if (user) {
-        const userChatRef = ref(database, `dietChat/${user.uid}`);
-        const newMessageRef = push(userChatRef);
-        
-        await set(newMessageRef, {
-          userId: user.uid,
-          content,
-          sender: 'user',
-          timestamp,
-          relatedTo
-        });
+      if (threadsPath && path) {
+        if (existing) {
+          await updateRecord(`${threadsPath}/${thread.id}`, { title: thread.title, updatedAt: timestamp });
+        } else {
+          const { id, ...threadData } = thread;
+          await setRecord(`${threadsPath}/${id}`, threadData);
+        }
+        const { id, ...messageData } = userMessage;
+        await setRecord(`${path}/${id}`, messageData);
       }
       
-      const openAIHistory = chatHistory.slice(-10).map(msg => ({
-        content: msg.content,
-        sender: msg.sender
-      }));
-      
-      import('../../services/openai').then(async ({ generateDietResponse }) => {
-        try {
-          const aiResponseData = await generateDietResponse(content, openAIHistory);
-          
-          const aiResponse: ChatMessage = {
-            id: `ai_${timestamp + 1}`,
-            userId: user?.uid || 'anonymous',
-            content: aiResponseData.content,
-            sender: 'ai',
-            timestamp: timestamp + 1,
-            relatedTo
-          };
-          
-          const finalChat = [...updatedChat, aiResponse];
-          setChatHistory(finalChat);
-          
-          if (user) {
-            const userChatRef = ref(database, `dietChat/${user.uid}`);
-            const aiMessageRef = push(userChatRef);
-            
-            await set(aiMessageRef, {
-              userId: user.uid,
-              content: aiResponse.content,
-              sender: 'ai',
-              timestamp: aiResponse.timestamp,
-              relatedTo
-            });
-          }
-          
-          await AsyncStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(finalChat));
-        } catch (error) {
-          console.error('Error getting AI response:', error);
-          setError('Failed to get AI response. Please try again.');
-        } finally {
-          setIsLoading(false);
-        }
-      }).catch(error => {
-        console.error('Error importing OpenAI service:', error);
-        setError('Failed to load AI service. Please try again.');
-        setIsLoading(false);
-      });
+      respond(thread.id, history, userMessage);
     } catch (error) {
       console.error('Error sending chat message:', error);
       setError('Failed to send message. Please try again.');
-      setIsLoading(false);
+    }
+  };
+  
+  /**
+   * Replace a user message and answer it again; the replies that followed it are removed
+   */
+  const editChatMessage = async (id: string, content: string): Promise<void> => {
+    try {
+      const rewind = rewindTo(threadMessages, id);
+      if (!rewind || rewind.prompt.id !== id || !content.trim()) {
+        return;
+      }
+      
+      const threadId = rewind.prompt.threadId;
+      const edited: ChatMessage = { ...rewind.prompt, content, editedAt: Date.now() };
+      await saveThreadMessages(threadId, [...rewind.history, edited]);
+      
+      const path = messagesPath(threadId);
+      if (path) {
+        await updateRecord(`${path}/${id}`, { content, editedAt: edited.editedAt });
+        for (const message of rewind.removed) {
+          await removeRecord(`${path}/${message.id}`);
+        }
+      }
+      
+      respond(threadId, rewind.history, edited);
+    } catch (error) {
+      console.error('Error editing chat message:', error);
+      setError('Failed to edit message. Please try again.');
+    }
+  };
+  
+  const deleteChatMessage = async (id: string): Promise<void> => {
+    try {
+      const message = threadMessages.find(msg => msg.id === id);
+      if (!message) return;
+      
+      await saveThreadMessages(message.threadId, threadMessages.filter(msg => msg.id !== id));
+      
+      const path = messagesPath(message.threadId);
+      if (path) {
+        await removeRecord(`${path}/${id}`);
+      }
+    } catch (error) {
+      console.error('Error deleting chat message:', error);
+      setError('Failed to delete message. Please try again.');
+    }
+  };
+  
+  /**
+   * Answer the user message behind an assistant reply again, replacing the reply and anything after it
+   */
+  const regenerateResponse = async (id: string): Promise<void> => {
+    try {
+      const rewind = rewindTo(threadMessages, id);
+      if (!rewind) return;
+      
+      const threadId = rewind.prompt.threadId;
+      await saveThreadMessages(threadId, [...rewind.history, rewind.prompt]);
+      
+      const path = messagesPath(threadId);
+      if (path) {
+        for (const message of rewind.removed) {
+          await removeRecord(`${path}/${message.id}`);
+        }
+      }
+      
+      respond(threadId, rewind.history, rewind.prompt);
+    } catch (error) {
+      console.error('Error regenerating response:', error);
+      setError('Failed to regenerate the response. Please try again.');
     }
   };
   
   const clearChatHistory = async (): Promise<void> => {
+    if (!activeThreadId) return;
+    
     try {
-      setChatHistory([]);
-      await AsyncStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+      await saveThreadMessages(activeThreadId, []);
       
-      if (user) {
-        const userChatRef = ref(database, `dietChat/${user.uid}`);
-        await remove(userChatRef);
+      const path = messagesPath(activeThreadId);
+      if (path) {
+        await removeRecord(path);
       }
     } catch (error) {
       console.error('Error clearing chat history:', error);
@@ -580,60 +1178,254 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
+  const setProposalStatus = async (
+    messageId: string,
+    proposalId: string,
+    status: ProposalStatus,
+    relatedTo?: ChatMessage['relatedTo']
+  ): Promise<void> => {
+    const message = threadMessages.find(msg => msg.id === messageId);
+    if (!message) return;
+    
+    const proposals = (message.proposals || []).map(proposal =>
+      proposal.id === proposalId ? { ...proposal, status } : proposal
+    );
+    // The reply links to what it changed, unless it already links to something
+    const updates = { proposals, ...(relatedTo && !message.relatedTo ? { relatedTo } : {}) };
+    await saveThreadMessages(message.threadId, threadMessages.map(msg => (msg.id === messageId ? { ...msg, ...updates } : msg)));
+    
+    const path = messagesPath(message.threadId);
+    if (path) {
+      await updateRecord(`${path}/${messageId}`, updates);
+    }
+  };
+  
+  /**
+   * Make a change the assistant proposed, once the user has confirmed it
+   */
+  const applyProposal = async (messageId: string, proposalId: string): Promise<void> => {
+    const proposal = threadMessages
+      .find(msg => msg.id === messageId)?.proposals
+      ?.find(item => item.id === proposalId);
+    if (!proposal || proposal.status !== 'pending' || applyingProposalsRef.current.has(proposalId)) {
+      return;
+    }
+    
+    applyingProposalsRef.current.add(proposalId);
+    setApplyingProposals([...applyingProposalsRef.current]);
+    try {
+      if (proposal.type === 'add_meal') {
+        const mealId = await addMealEntry(proposal.meal);
+        if (!mealId) return;
+        await setProposalStatus(messageId, proposalId, 'applied', { type: 'meal', id: mealId });
+      } else {
+        if (!dietPlans.some(plan => plan.id === proposal.planId)) {
+          setError('That diet plan is no longer available.');
+          return;
+        }
+        await updateDietPlan(proposal.planId, proposal.changes);
+        await setProposalStatus(messageId, proposalId, 'applied', { type: 'plan', id: proposal.planId });
+      }
+    } catch (error) {
+      console.error('Error applying proposal:', error);
+      setError('Failed to apply the suggestion. Please try again.');
+    } finally {
+      applyingProposalsRef.current.delete(proposalId);
+      setApplyingProposals([...applyingProposalsRef.current]);
+    }
+  };
+  
+  const dismissProposal = async (messageId: string, proposalId: string): Promise<void> => {
+    try {
+      await setProposalStatus(messageId, proposalId, 'dismissed');
+    } catch (error) {
+      console.error('Error dismissing proposal:', error);
+      setError('Failed to dismiss the suggestion. Please try again.');
+    }
+  };
+  
   const generateMealSuggestion = async (mealType: MealType, date: string): Promise<MealEntry | null> => {
     try {
       setIsLoading(true);
       const timestamp = Date.now();
-      const mealId = `suggestion_${timestamp}`;
       
-      const preferences = currentPlan?.preferences || [];
-      const restrictions = currentPlan?.restrictions || [];
+      const learned = profileConstraints(profileItems);
+      const preferences = [...(currentPlan?.preferences || []), ...learned.preferences];
+      const restrictions = [...(currentPlan?.restrictions || []), ...learned.restrictions];
       
-      try {
-        const { generateMealSuggestion } = await import('../../services/openai');
-        const mealData = await generateMealSuggestion(
-          mealType,
-          preferences,
-          restrictions
-        );
-        
-        const suggestion: MealEntry = {
-          id: mealId,
-          userId: user?.uid || 'anonymous',
-          date,
-          mealType,
-          name: mealData.name,
-          description: mealData.description,
-          foods: mealData.foods.map(food => ({
-            id: `food_${Math.random().toString(36).substring(2, 9)}`,
-            name: food.name,
-            servingSize: food.servingSize,
-            calories: food.calories,
-            protein: food.protein,
-            carbs: food.carbs,
-            fat: food.fat,
-            sustainabilityScore: food.sustainabilityScore || 80
-          })),
-          totalCalories: mealData.totalCalories,
-          totalProtein: mealData.totalProtein,
-          totalCarbs: mealData.totalCarbs,
-          totalFat: mealData.totalFat,
-          createdAt: timestamp,
-          updatedAt: timestamp
-        };
-        
-        return suggestion;
-      } catch (error) {
-        console.error('Error with OpenAI meal generation:', error);
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
+      const mealData = await suggestMeal(
+        llm,
+        mealType,
+        preferences,
+        restrictions,
+        rulesFor(currentPlan, profileItems)
+      );
+      
+      // The model's numbers are checked against the food database, so totals come from the foods
+      const foods = mealData.foods.map(food => reconcileFood({
+        id: `food_${Math.random().toString(36).substring(2, 9)}`,
+        name: food.name,
+        servingSize: food.servingSize,
+        calories: food.calories,
+        protein: food.protein,
+        carbs: food.carbs,
+        fat: food.fat,
+        ...(food.sustainabilityScore !== undefined ? { sustainabilityScore: food.sustainabilityScore } : {})
+      }).food);
+      
+      return {
+        id: `suggestion_${timestamp}`,
+        userId: user?.uid || 'anonymous',
+        date,
+        mealType,
+        name: mealData.name,
+        description: mealData.description,
+        foods,
+        ...mealTotals(foods),
+        createdAt: timestamp,
+        updatedAt: timestamp
+      };
     } catch (error) {
       console.error('Error generating meal suggestion:', error);
-      setError('Failed to generate meal suggestion. Please try again.');
-      setIsLoading(false);
+      if (error instanceof MealSuggestionError && error.kind === 'invalid_output') {
+        setError('The suggested meal didn\'t add up, so it wasn\'t used. Please try again.');
+      } else if (error instanceof MealSuggestionError && error.kind === 'restricted') {
+        setError('The suggested meal didn\'t fit your allergies or restrictions, so it wasn\'t used. Please try again.');
+      } else if (error instanceof MealSuggestionError && error.cause?.kind === 'not_configured') {
+        setError('Meal suggestions are not set up in this version of the app.');
+      } else {
+        setError('Failed to generate meal suggestion. Please try again.');
+      }
       return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const replaceProfileItems = (items: DietProfileItem[]) => {
+    profileItemsRef.current = items;
+    setProfileItems(items);
+  };
+  
+  const saveProfileItems = async (update: (items: DietProfileItem[]) => DietProfileItem[]) => {
+    const updatedItems = update(profileItemsRef.current);
+    replaceProfileItems(updatedItems);
+    await AsyncStorage.setItem(DIET_PROFILE_STORAGE_KEY, JSON.stringify(updatedItems));
+  };
+  
+  /**
+   * Save changes to the profile. They are applied locally before anything is awaited,
+   * so a change made meanwhile, or learning that runs again, sees them.
+   */
+  const applyProfileChanges = async (changes: ProfileChange[]): Promise<void> => {
+    const timestamp = Date.now();
+    const profilePath = user ? paths.dietProfile(user.uid) : null;
+    const added: DietProfileItem[] = [];
+    
+    changes.forEach((change, index) => {
+      if (change.type === 'add') {
+        added.push({
+          id: profilePath ? createRecordId(profilePath) : `local_${timestamp}_${index}`,
+          userId: user ? user.uid : 'anonymous',
+          ...change.item,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        });
+      }
+    });
+    
+    const updates = changes.flatMap(change =>
+      change.type === 'update' ? [{ id: change.id, updates: { ...change.updates, updatedAt: timestamp } }] : []
+    );
+    
+    await saveProfileItems(items => [
+      ...items.map(item => updates.reduce((current, update) => (update.id === item.id ? { ...current, ...update.updates } : current), item)),
+      ...added,
+    ]);
+    
+    if (profilePath) {
+      for (const item of added) {
+        const { id, ...itemData } = item;
+        await setRecord(`${profilePath}/${id}`, itemData);
+      }
+      for (const update of updates) {
+        await updateRecord(`${profilePath}/${update.id}`, update.updates);
+      }
+    }
+  };
+  
+  const rememberFromReply = async (memories: ProfileMemory[]) => {
+    try {
+      for (const memory of memories) {
+        const change = rememberFromChat(profileItemsRef.current, memory);
+        if (change) {
+          await applyProfileChanges([change]);
+        }
+      }
+    } catch (error) {
+      console.error('Error saving to diet profile:', error);
+    }
+  };
+  
+  const addProfileItem = async (kind: DietProfileKind, value: string): Promise<void> => {
+    try {
+      const cleaned = cleanProfileValue(value);
+      if (!cleaned) {
+        setError('Please enter a food or goal of up to 60 characters.');
+        return;
+      }
+      
+      // Adding something already known, even if removed, replaces it rather than repeating it
+      const existing = profileItemsRef.current.find(item => item.value.toLowerCase() === cleaned.toLowerCase());
+      await applyProfileChanges([
+        existing
+          ? { type: 'update', id: existing.id, updates: { kind, value: cleaned, source: 'user', dismissed: false } }
+          : { type: 'add', item: { kind, value: cleaned, source: 'user', evidence: 1 } }
+      ]);
+    } catch (error) {
+      console.error('Error adding to diet profile:', error);
+      setError('Failed to save to your diet profile. Please try again.');
+    }
+  };
+  
+  const updateProfileItem = async (id: string, updates: Partial<Pick<DietProfileItem, 'kind' | 'value'>>): Promise<void> => {
+    try {
+      const cleaned = updates.value !== undefined ? cleanProfileValue(updates.value) : undefined;
+      if (cleaned === null) {
+        setError('Please enter a food or goal of up to 60 characters.');
+        return;
+      }
+      
+      // Once the user has edited an item it is theirs, and is no longer changed by learning
+      await applyProfileChanges([
+        { type: 'update', id, updates: { ...updates, ...(cleaned ? { value: cleaned } : {}), source: 'user' } }
+      ]);
+    } catch (error) {
+      console.error('Error updating diet profile:', error);
+      setError('Failed to save to your diet profile. Please try again.');
+    }
+  };
+  
+  /**
+   * Remove an item. Learned items are kept, marked dismissed, so they aren't learned again.
+   */
+  const removeProfileItem = async (id: string): Promise<void> => {
+    try {
+      const item = profileItemsRef.current.find(entry => entry.id === id);
+      if (!item) return;
+      
+      if (item.source !== 'user') {
+        await applyProfileChanges([{ type: 'update', id, updates: { dismissed: true } }]);
+        return;
+      }
+      
+      await saveProfileItems(items => items.filter(entry => entry.id !== id));
+      if (user) {
+        await removeRecord(`${paths.dietProfile(user.uid)}/${id}`);
+      }
+    } catch (error) {
+      console.error('Error removing from diet profile:', error);
+      setError('Failed to update your diet profile. Please try again.');
     }
   };
   
@@ -641,23 +1433,51 @@ export const DietProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setError(null);
   };
   
+  // Signed in, the server sends the loaded pages; signed out, the cache holds the whole thread
+  const chatHistory = threadMessages.slice(-messageLimit);
+  const hasOlderMessages = user ? hasMoreOnServer : threadMessages.length > messageLimit;
+  const streamingReply = streaming && streaming.threadId === activeThreadId ? streaming.text : null;
+  
   const value = {
     currentPlan,
+    dietPlans,
     mealEntries,
+    chatThreads,
+    activeThreadId,
     chatHistory,
+    hasOlderMessages,
+    streamingReply,
+    dietProfile: activeProfileItems(profileItems),
+    dietRules: rulesFor(currentPlan, profileItems),
+    applyingProposals,
     isLoading,
     error,
     createDietPlan,
     updateDietPlan,
     deleteDietPlan,
+    setActivePlan,
     addMealEntry,
+    addMealEntries,
     updateMealEntry,
     deleteMealEntry,
     getMealsByDate,
     getMealsByDateRange,
+    createChatThread,
+    selectChatThread,
+    renameChatThread,
+    deleteChatThread,
+    loadOlderMessages,
     sendChatMessage,
+    editChatMessage,
+    deleteChatMessage,
+    regenerateResponse,
     clearChatHistory,
+    applyProposal,
+    dismissProposal,
     generateMealSuggestion,
+    addProfileItem,
+    updateProfileItem,
+    removeProfileItem,
     clearError,
   };
   
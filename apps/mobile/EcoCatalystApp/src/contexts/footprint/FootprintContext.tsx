@@ -1,19 +1,80 @@
-import React, { createContext, useState, useEffect, useContext } from 'react';
-import { database } from '../../services/firebase';
-import { ref, onValue, set, push, remove, get, query, orderByChild, limitToLast, equalTo } from 'firebase/database';
+import React, { createContext, useState, useEffect, useContext, useRef, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContext } from '../AuthContext';
 import { usePreferences } from '../preferences/PreferencesContext';
+import { useSync } from '../sync/SyncContext';
+import { ErrorListener, FootprintRepository, RecordMap, Unsubscribe } from '../../services/repositories/types';
+import { firebaseFootprintRepository } from '../../services/repositories/firebaseRepositories';
+import { paths } from '../../services/repositories/paths';
+import { LOCAL_ID_PREFIX } from '../../services/sync/migration';
+import {
+  ActivityInput,
+  EmissionFactorReference,
+  QuantityUnit,
+  calculateEmissions,
+} from '../../services/footprint/emissionFactors';
+import {
+  DailyTotal,
+  PeriodTotals,
+  PeriodTrends,
+  SummaryPeriod,
+  WaterSummary,
+  addDays,
+  entriesBetween,
+  getDeviceTimeZone,
+  summarizeFootprint,
+  toLocalDate,
+} from '../../services/footprint/summary';
+import {
+  CarbonGoal,
+  GoalEvent,
+  GoalProgress,
+  detectGoalCrossings,
+  evaluateGoal,
+  settleGoal,
+} from '../../services/footprint/goals';
+import {
+  ActivityTemplate,
+  EntryDetails,
+  FootprintSeries,
+  RecurrenceRule,
+  cleanRule,
+  detailChanges,
+  entryFromDetails,
+  materializeSeries,
+  occursOn,
+  seriesEntryId,
+} from '../../services/footprint/recurrence';
+import {
+  ExportFormat,
+  ImportResult,
+  buildGhgReport,
+  entriesToCsv,
+  entriesToJson,
+  parseFootprintImport,
+  reportToCsv,
+} from '../../services/footprint/exchange';
 
 export interface CarbonFootprintEntry {
   id: string;
   userId: string;
   date: string; // ISO date string
   timestamp: number;
+  updatedAt?: number;
   category: FootprintCategory;
   activityType: string;
   carbonAmount: number; // in kg CO2e
+  waterUsage?: number; // in liters
+  quantity?: number; // as entered, in `unit`
+  unit?: QuantityUnit;
+  emissionFactor?: EmissionFactorReference;
   description?: string;
+  seriesId?: string; // set on occurrences of a recurring entry
+  occurrenceDate?: string;
+  detached?: boolean; // edited on its own, so changes to the series leave it alone
+  mealId?: string; // set on the entry kept in step with a logged meal
+  productId?: string; // set on purchases of a scanned product
+  scanId?: string;
   location?: {
     latitude: number;
     longitude: number;
@@ -29,13 +90,20 @@ export type FootprintCategory =
   | 'other';
 
 export interface FootprintSummary {
-  daily: number;
-  weekly: number;
-  monthly: number;
-  yearly: number;
-  byCategory: Record<FootprintCategory, number>;
-  totalSaved: number;
-  averagePerDay: number;
+  daily: number; // today
+  weekly: number; // last 7 days
+  monthly: number; // since the same date last month
+  yearly: number; // since the same date last year
+  byCategory: Record<FootprintCategory, number>; // all time
+  totalSaved: number; // reduction of the rolling month versus the month before it
+  averagePerDay: number; // over days tracked in the rolling month
+  daysTracked: number;
+  timeZone: string;
+  rolling: Record<SummaryPeriod, PeriodTotals>;
+  calendar: Record<SummaryPeriod, PeriodTotals>;
+  series: DailyTotal[];
+  trends: Record<'week' | 'month', PeriodTrends>;
+  water: WaterSummary;
 }
 
 interface FootprintContextType {
@@ -44,32 +112,54 @@ interface FootprintContextType {
   isLoading: boolean;
   error: string | null;
   addFootprintEntry: (entry: Omit<CarbonFootprintEntry, 'id' | 'userId' | 'timestamp'>) => Promise<void>;
+  addActivityEntry: (activity: FootprintActivity) => Promise<void>;
   updateFootprintEntry: (id: string, updates: Partial<Omit<CarbonFootprintEntry, 'id' | 'userId'>>) => Promise<void>;
   deleteFootprintEntry: (id: string) => Promise<void>;
   getFootprintByDateRange: (startDate: string, endDate: string) => Promise<CarbonFootprintEntry[]>;
   getFootprintByCategory: (category: FootprintCategory) => CarbonFootprintEntry[];
   calculateSummary: () => FootprintSummary;
+  goals: CarbonGoal[];
+  goalProgress: GoalProgress[];
+  setGoal: (goal: Pick<CarbonGoal, 'period' | 'category' | 'budget'>) => Promise<void>;
+  removeGoal: (id: string) => Promise<void>;
+  subscribeToGoalEvents: (listener: GoalEventListener) => () => void;
+  templates: ActivityTemplate[];
+  series: FootprintSeries[];
+  saveTemplate: (template: EntryDetails & { name: string }) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+  addEntryFromTemplate: (templateId: string, date: string) => Promise<void>;
+  addRecurringEntry: (details: EntryDetails, rule: RecurrenceRule, templateId?: string) => Promise<void>;
+  updateSeries: (id: string, updates: Partial<EntryDetails> & { rule?: RecurrenceRule }) => Promise<void>;
+  deleteSeries: (id: string, removeEntries?: boolean) => Promise<void>;
+  exportFootprint: (format: ExportFormat, startDate: string, endDate: string) => Promise<string | null>;
+  importFootprint: (content: string) => Promise<ImportResult | null>;
+  setMealFootprint: (mealId: string, meal: MealFootprint | null) => Promise<void>;
+  setMealFootprints: (meals: Record<string, MealFootprint | null>) => Promise<void>;
+  remapMealIds: (idMap: Record<string, string>) => void;
   clearError: () => void;
 }
 
+export type GoalEventListener = (event: GoalEvent) => void;
+
+/**
+ * What the footprint entry of a logged meal records
+ */
+export type MealFootprint = Pick<CarbonFootprintEntry, 'date' | 'carbonAmount'> &
+  Partial<Pick<CarbonFootprintEntry, 'waterUsage' | 'description'>>;
+
+/**
+ * An activity described by its quantity, converted to kg CO2e with the emission factor library
+ */
+export type FootprintActivity = ActivityInput &
+  Pick<CarbonFootprintEntry, 'date'> &
+  Partial<Pick<CarbonFootprintEntry, 'description' | 'location'>>;
+
 const FOOTPRINT_ENTRIES_STORAGE_KEY = 'ecocatalyst_footprint_entries';
+const FOOTPRINT_GOALS_STORAGE_KEY = 'ecocatalyst_footprint_goals';
+const FOOTPRINT_SERIES_STORAGE_KEY = 'ecocatalyst_footprint_series';
+const ACTIVITY_TEMPLATES_STORAGE_KEY = 'ecocatalyst_activity_templates';
 
-const defaultSummary: FootprintSummary = {
-  daily: 0,
-  weekly: 0,
-  monthly: 0,
-  yearly: 0,
-  byCategory: {
-    transportation: 0,
-    food: 0,
-    housing: 0,
-    products: 0,
-    services: 0,
-    other: 0
-  },
-  totalSaved: 0,
-  averagePerDay: 0
-};
+const defaultSummary: FootprintSummary = summarizeFootprint([]);
 
 export const FootprintContext = createContext<FootprintContextType>({
   entries: [],
@@ -77,24 +167,70 @@ export const FootprintContext = createContext<FootprintContextType>({
   isLoading: true,
   error: null,
   addFootprintEntry: async () => {},
+  addActivityEntry: async () => {},
   updateFootprintEntry: async () => {},
   deleteFootprintEntry: async () => {},
   getFootprintByDateRange: async () => [],
   getFootprintByCategory: () => [],
   calculateSummary: () => defaultSummary,
+  goals: [],
+  goalProgress: [],
+  setGoal: async () => {},
+  removeGoal: async () => {},
+  subscribeToGoalEvents: () => () => {},
+  templates: [],
+  series: [],
+  saveTemplate: async () => {},
+  deleteTemplate: async () => {},
+  addEntryFromTemplate: async () => {},
+  addRecurringEntry: async () => {},
+  updateSeries: async () => {},
+  deleteSeries: async () => {},
+  exportFootprint: async () => null,
+  importFootprint: async () => null,
+  setMealFootprint: async () => {},
+  setMealFootprints: async () => {},
+  remapMealIds: () => {},
   clearError: () => {},
 });
 
 export const useFootprint = () => useContext(FootprintContext);
 
-export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface FootprintProviderProps {
+  children: React.ReactNode;
+  repository?: FootprintRepository;
+}
+
+export const FootprintProvider: React.FC<FootprintProviderProps> = ({
+  children,
+  repository = firebaseFootprintRepository,
+}) => {
   const [entries, setEntries] = useState<CarbonFootprintEntry[]>([]);
   const [summary, setSummary] = useState<FootprintSummary>(defaultSummary);
+  const [goals, setGoals] = useState<CarbonGoal[]>([]);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress[]>([]);
+  const [series, setSeries] = useState<FootprintSeries[]>([]);
+  const [templates, setTemplates] = useState<ActivityTemplate[]>([]);
+  const [pendingMealIds, setPendingMealIds] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const { user } = useContext(AuthContext);
   const { preferences } = usePreferences();
+  const {
+    isReady: syncReady,
+    createRecordId,
+    setRecord,
+    updateRecord,
+    removeRecord,
+    withPendingWrites,
+    migrateAnonymousData,
+  } = useSync();
+  
+  const goalListenersRef = useRef(new Set<GoalEventListener>());
+  const previousProgressRef = useRef<Record<string, GoalProgress>>({});
+  const settledRef = useRef(new Set<string>());
+  const materializingRef = useRef(false);
   
   useEffect(() => {
     const loadCachedData = async () => {
@@ -107,6 +243,21 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           const calculatedSummary = calculateSummaryFromEntries(parsedEntries);
           setSummary(calculatedSummary);
         }
+        
+        const cachedGoals = await AsyncStorage.getItem(FOOTPRINT_GOALS_STORAGE_KEY);
+        if (cachedGoals) {
+          setGoals(JSON.parse(cachedGoals));
+        }
+        
+        const cachedSeries = await AsyncStorage.getItem(FOOTPRINT_SERIES_STORAGE_KEY);
+        if (cachedSeries) {
+          setSeries(JSON.parse(cachedSeries));
+        }
+        
+        const cachedTemplates = await AsyncStorage.getItem(ACTIVITY_TEMPLATES_STORAGE_KEY);
+        if (cachedTemplates) {
+          setTemplates(JSON.parse(cachedTemplates));
+        }
       } catch (error) {
         console.error('Failed to load cached footprint data:', error);
       } finally {
@@ -123,171 +274,261 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       return;
     }
     
+    if (!syncReady) return;
+    
     setIsLoading(true);
     
-    const userFootprintRef = ref(database, `footprints/${user.uid}`);
-    const unsubscribe = onValue(userFootprintRef, (snapshot) => {
+    const basePath = paths.footprints(user.uid);
+    const goalsPath = paths.footprintGoals(user.uid);
+    const seriesPath = paths.footprintSeries(user.uid);
+    const templatesPath = paths.activityTemplates(user.uid);
+    let unsubscribe: (() => void) | null = null;
+    let listUnsubscribes: Array<() => void> = [];
+    let cancelled = false;
+    
+    // Goals, series and templates are small lists that are cached and replaced wholesale
+    const subscribeToList = <T extends { id: string }>(
+      subscribeFn: (userId: string, onChange: (data: RecordMap<T> | null) => void, onError?: ErrorListener) => Unsubscribe,
+      path: string,
+      storageKey: string,
+      setList: (list: T[]) => void
+    ) => {
+      return subscribeFn(user.uid, (stored) => {
+        const data = withPendingWrites(path, stored);
+        const list = data
+          ? Object.keys(data).map(key => ({ ...data[key], id: key }) as T)
+          : [];
+        
+        setList(list);
+        AsyncStorage.setItem(storageKey, JSON.stringify(list))
+          .catch(err => console.error(`Failed to cache ${storageKey}:`, err));
+      }, (error) => {
+        console.error(`Error fetching ${path}:`, error);
+      });
+    };
+    
+    const subscribe = async () => {
       try {
-        const data = snapshot.val();
-        if (data) {
-          const entriesList = Object.keys(data).map(key => ({
-            id: key,
-            ...data[key]
-          }));
-          
-          entriesList.sort((a, b) => b.timestamp - a.timestamp);
-          
-          setEntries(entriesList);
-          
-          const calculatedSummary = calculateSummaryFromEntries(entriesList);
-          setSummary(calculatedSummary);
-          
-          AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(entriesList))
-            .catch(err => console.error('Failed to cache footprint entries:', err));
-        } else {
-          setEntries([]);
-          setSummary(defaultSummary);
-        }
-        setIsLoading(false);
+        // Templates first, then series and entries, so references follow the new ids
+        const templateIds = await migrateAnonymousData({ storageKey: ACTIVITY_TEMPLATES_STORAGE_KEY, basePath: templatesPath });
+        const seriesIds = await migrateAnonymousData({
+          storageKey: FOOTPRINT_SERIES_STORAGE_KEY,
+          basePath: seriesPath,
+          idMap: templateIds,
+          references: ['templateId'],
+        });
+        await migrateAnonymousData({
+          storageKey: FOOTPRINT_ENTRIES_STORAGE_KEY,
+          basePath,
+          idMap: seriesIds,
+          references: ['seriesId'],
+        });
+        await migrateAnonymousData({ storageKey: FOOTPRINT_GOALS_STORAGE_KEY, basePath: goalsPath });
       } catch (error) {
-        console.error('Error fetching footprint entries:', error);
-        setError('Failed to fetch footprint data. Please try again later.');
-        setIsLoading(false);
+        console.error('Failed to migrate local footprint entries:', error);
       }
-    }, (error) => {
-      console.error('Database error:', error);
-      setError('Database connection error. Please check your internet connection.');
-      setIsLoading(false);
-    });
+      if (cancelled) return;
+      
+      listUnsubscribes = [
+        subscribeToList<CarbonGoal>(repository.subscribeToGoals, goalsPath, FOOTPRINT_GOALS_STORAGE_KEY, setGoals),
+        subscribeToList<FootprintSeries>(repository.subscribeToSeries, seriesPath, FOOTPRINT_SERIES_STORAGE_KEY, setSeries),
+        subscribeToList<ActivityTemplate>(repository.subscribeToTemplates, templatesPath, ACTIVITY_TEMPLATES_STORAGE_KEY, setTemplates),
+      ];
+      
+      unsubscribe = repository.subscribeToEntries(user.uid, (stored) => {
+        try {
+          const data = withPendingWrites(basePath, stored);
+          if (data) {
+            const entriesList = Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            }));
+            
+            entriesList.sort((a, b) => b.timestamp - a.timestamp);
+            
+            setEntries(entriesList);
+            
+            const calculatedSummary = calculateSummaryFromEntries(entriesList);
+            setSummary(calculatedSummary);
+            
+            AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(entriesList))
+              .catch(err => console.error('Failed to cache footprint entries:', err));
+          } else {
+            setEntries([]);
+            setSummary(defaultSummary);
+          }
+          setIsLoading(false);
+        } catch (error) {
+          console.error('Error fetching footprint entries:', error);
+          setError('Failed to fetch footprint data. Please try again later.');
+          setIsLoading(false);
+        }
+      }, (error) => {
+        console.error('Database error:', error);
+        setError('Database connection error. Please check your internet connection.');
+        setIsLoading(false);
+      });
+    };
     
-    return () => unsubscribe();
-  }, [user]);
-  
-  const calculateSummaryFromEntries = (entriesList: CarbonFootprintEntry[]): FootprintSummary => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
-    const oneWeekAgo = new Date(today - 7 * 24 * 60 * 60 * 1000).getTime();
-    const oneMonthAgo = new Date(now.getFullYear(), now.getMonth() - 1, now.getDate()).getTime();
-    const oneYearAgo = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate()).getTime();
+    subscribe();
     
-    const categoryTotals: Record<FootprintCategory, number> = {
-      transportation: 0,
-      food: 0,
-      housing: 0,
-      products: 0,
-      services: 0,
-      other: 0
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      listUnsubscribes.forEach(listUnsubscribe => listUnsubscribe());
     };
+  }, [user, syncReady, repository]);
+  
+  useEffect(() => {
+    if (isLoading) return;
     
-    let dailyTotal = 0;
-    let weeklyTotal = 0;
-    let monthlyTotal = 0;
-    let yearlyTotal = 0;
-    let totalSaved = 0; // This would be calculated based on improvements over time
+    const events: GoalEvent[] = [];
+    const progressById: Record<string, GoalProgress> = {};
+    const progressList = goals.map(goal => {
+      const progress = evaluateGoal(goal, entries);
+      progressById[goal.id] = progress;
+      events.push(...detectGoalCrossings(previousProgressRef.current[goal.id], progress));
+      return progress;
+    });
     
-    entriesList.forEach(entry => {
-      const entryTimestamp = entry.timestamp;
-      
-      categoryTotals[entry.category] += entry.carbonAmount;
-      
-      if (entryTimestamp >= today) {
-        dailyTotal += entry.carbonAmount;
-      }
-      
-      if (entryTimestamp >= oneWeekAgo) {
-        weeklyTotal += entry.carbonAmount;
-      }
+    previousProgressRef.current = progressById;
+    setGoalProgress(progressList);
+    
+    const settledPeriods: Record<string, string> = {};
+    goals.forEach(goal => {
+      const settled = settleGoal(goal, entries);
+      if (!settled) return;
       
-      if (entryTimestamp >= oneMonthAgo) {
-        monthlyTotal += entry.carbonAmount;
-      }
+      const key = `${goal.id}:${settled.periodStart}`;
+      if (settledRef.current.has(key)) return;
+      settledRef.current.add(key);
       
-      if (entryTimestamp >= oneYearAgo) {
-        yearlyTotal += entry.carbonAmount;
-      }
+      events.push(settled);
+      settledPeriods[goal.id] = settled.periodStart;
     });
     
-    const daysInMonth = 30; // Approximation
-    const averagePerDay = monthlyTotal > 0 ? monthlyTotal / daysInMonth : 0;
+    if (Object.keys(settledPeriods).length > 0) {
+      markGoalsSettled(settledPeriods);
+    }
+    
+    events.forEach(event => {
+      goalListenersRef.current.forEach(listener => listener(event));
+    });
+  }, [entries, goals, isLoading]);
+  
+  useEffect(() => {
+    if (isLoading || series.length === 0 || materializingRef.current) return;
     
-    return {
-      daily: dailyTotal,
-      weekly: weeklyTotal,
-      monthly: monthlyTotal,
-      yearly: yearlyTotal,
-      byCategory: categoryTotals,
-      totalSaved,
-      averagePerDay
+    materializingRef.current = true;
+    materializeRecurringEntries().finally(() => {
+      materializingRef.current = false;
+    });
+  }, [series, isLoading]);
+  
+  // Meals get new ids when anonymous data moves to an account; follow them once the entries are uploaded too
+  useEffect(() => {
+    if (isLoading || !user || Object.keys(pendingMealIds).length === 0) return;
+    
+    const relinked = entries.filter(entry =>
+      entry.mealId && pendingMealIds[entry.mealId] && !entry.id.startsWith(LOCAL_ID_PREFIX)
+    );
+    if (relinked.length === 0) return;
+    
+    const applied = new Set(relinked.map(entry => entry.mealId!));
+    setPendingMealIds(current => {
+      const remaining = { ...current };
+      applied.forEach(mealId => delete remaining[mealId]);
+      return remaining;
+    });
+    
+    const relink = async () => {
+      const updatedAt = Date.now();
+      await saveEntries(entries.map(entry =>
+        relinked.includes(entry) ? { ...entry, mealId: pendingMealIds[entry.mealId!], updatedAt } : entry
+      ));
+      for (const entry of relinked) {
+        await updateRecord(`${paths.footprints(user.uid)}/${entry.id}`, { mealId: pendingMealIds[entry.mealId!], updatedAt });
+      }
     };
+    
+    relink().catch(error => console.error('Error relinking meal footprint entries:', error));
+  }, [entries, pendingMealIds, isLoading, user]);
+  
+  const calculateSummaryFromEntries = (entriesList: CarbonFootprintEntry[]): FootprintSummary => {
+    return summarizeFootprint(entriesList);
+  };
+  
+  const saveEntries = async (updatedEntries: CarbonFootprintEntry[]) => {
+    setEntries(updatedEntries);
+    
+    const calculatedSummary = calculateSummaryFromEntries(updatedEntries);
+    setSummary(calculatedSummary);
+    
+    await AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(updatedEntries));
   };
   
   const addFootprintEntry = async (entry: Omit<CarbonFootprintEntry, 'id' | 'userId' | 'timestamp'>): Promise<void> => {
     try {
       const timestamp = Date.now();
       
-      if (!user) {
-        const newEntry: CarbonFootprintEntry = {
-          id: `local_${timestamp}`,
-          userId: 'anonymous',
-          timestamp,
-          ...entry
-        };
-        
-        const updatedEntries = [newEntry, ...entries];
-        setEntries(updatedEntries);
-        
-        const calculatedSummary = calculateSummaryFromEntries(updatedEntries);
-        setSummary(calculatedSummary);
-        
-        await AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(updatedEntries));
-        return;
-      }
-      
-      const userFootprintRef = ref(database, `footprints/${user.uid}`);
-      const newEntryRef = push(userFootprintRef);
-      
-      const entryData: Omit<CarbonFootprintEntry, 'id'> = {
-        userId: user.uid,
+      const newEntry: CarbonFootprintEntry = {
+        id: user ? createRecordId(paths.footprints(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
         timestamp,
+        updatedAt: timestamp,
         ...entry
       };
       
-      await set(newEntryRef, entryData);
+      // Save locally first so the entry survives being offline; the sync engine uploads it
+      await saveEntries([newEntry, ...entries]);
+      
+      if (user) {
+        const { id, ...entryData } = newEntry;
+        await setRecord(`${paths.footprints(user.uid)}/${id}`, entryData);
+      }
     } catch (error) {
       console.error('Error adding footprint entry:', error);
       setError('Failed to save footprint entry. Please try again.');
     }
   };
   
+  const addActivityEntry = async (activity: FootprintActivity): Promise<void> => {
+    const { quantity, unit, region, ...details } = activity;
+    let calculation;
+    try {
+      calculation = calculateEmissions(activity, preferences.measurementUnit);
+    } catch (error) {
+      console.error('Error calculating footprint entry:', error);
+      setError('Could not calculate emissions for this activity. Please check the amount and unit.');
+      return;
+    }
+    
+    await addFootprintEntry({
+      ...details,
+      carbonAmount: calculation.carbonAmount,
+      quantity: calculation.quantity,
+      unit: calculation.unit,
+      emissionFactor: calculation.factor,
+    });
+  };
+  
   const updateFootprintEntry = async (id: string, updates: Partial<Omit<CarbonFootprintEntry, 'id' | 'userId'>>): Promise<void> => {
     try {
-      if (!user) {
-        const updatedEntries = entries.map(entry => 
-          entry.id === id ? { ...entry, ...updates } : entry
-        );
-        
-        setEntries(updatedEntries);
-        
-        const calculatedSummary = calculateSummaryFromEntries(updatedEntries);
-        setSummary(calculatedSummary);
-        
-        await AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(updatedEntries));
-        return;
+      const existing = entries.find(entry => entry.id === id);
+      if (!existing) {
+        throw new Error('Entry not found');
       }
       
-      const entryRef = ref(database, `footprints/${user.uid}/${id}`);
+      // Editing one occurrence of a recurring entry detaches it from the series
+      const changes = { ...updates, updatedAt: Date.now(), ...(existing.seriesId ? { detached: true } : {}) };
       
-      const snapshot = await get(entryRef);
-      const currentData = snapshot.val();
+      await saveEntries(entries.map(entry => 
+        entry.id === id ? { ...entry, ...changes } : entry
+      ));
       
-      if (!currentData) {
-        throw new Error('Entry not found');
+      if (user) {
+        await updateRecord(`${paths.footprints(user.uid)}/${id}`, changes);
       }
-      
-      await set(entryRef, {
-        ...currentData,
-        ...updates
-      });
     } catch (error) {
       console.error('Error updating footprint entry:', error);
       setError('Failed to update footprint entry. Please try again.');
@@ -296,34 +537,238 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   
   const deleteFootprintEntry = async (id: string): Promise<void> => {
     try {
-      if (!user) {
-        const updatedEntries = entries.filter(entry => entry.id !== id);
-        
-        setEntries(updatedEntries);
-        
-        const calculatedSummary = calculateSummaryFromEntries(updatedEntries);
-        setSummary(calculatedSummary);
-        
-        await AsyncStorage.setItem(FOOTPRINT_ENTRIES_STORAGE_KEY, JSON.stringify(updatedEntries));
-        return;
+      const existing = entries.find(entry => entry.id === id);
+      await saveEntries(entries.filter(entry => entry.id !== id));
+      
+      if (user) {
+        await removeRecord(`${paths.footprints(user.uid)}/${id}`);
       }
       
-      const entryRef = ref(database, `footprints/${user.uid}/${id}`);
-      await remove(entryRef);
+      // Skip a deleted occurrence so it is not created again
+      const parent = existing?.seriesId ? series.find(item => item.id === existing.seriesId) : undefined;
+      if (parent && existing?.occurrenceDate) {
+        const changes = {
+          skippedDates: [...(parent.skippedDates || []), existing.occurrenceDate],
+          updatedAt: Date.now(),
+        };
+        await saveSeries(series.map(item => (item.id === parent.id ? { ...item, ...changes } : item)));
+        
+        if (user) {
+          await updateRecord(`${paths.footprintSeries(user.uid)}/${parent.id}`, changes);
+        }
+      }
     } catch (error) {
       console.error('Error deleting footprint entry:', error);
       setError('Failed to delete footprint entry. Please try again.');
     }
   };
   
-  const getFootprintByDateRange = async (startDate: string, endDate: string): Promise<CarbonFootprintEntry[]> => {
+  const saveSeries = async (updatedSeries: FootprintSeries[]) => {
+    setSeries(updatedSeries);
+    await AsyncStorage.setItem(FOOTPRINT_SERIES_STORAGE_KEY, JSON.stringify(updatedSeries));
+  };
+  
+  const saveTemplates = async (updatedTemplates: ActivityTemplate[]) => {
+    setTemplates(updatedTemplates);
+    await AsyncStorage.setItem(ACTIVITY_TEMPLATES_STORAGE_KEY, JSON.stringify(updatedTemplates));
+  };
+  
+  /**
+   * Create the entries recurring series are due up to today
+   */
+  const materializeRecurringEntries = async (): Promise<void> => {
     try {
-      const startTimestamp = new Date(startDate).getTime();
-      const endTimestamp = new Date(endDate).getTime() + (24 * 60 * 60 * 1000 - 1); // End of the day
+      const today = toLocalDate(Date.now(), getDeviceTimeZone());
+      const timestamp = Date.now();
+      const existing = new Set(
+        entries
+          .filter(entry => entry.seriesId && entry.occurrenceDate)
+          .map(entry => seriesEntryId(entry.seriesId!, entry.occurrenceDate!))
+      );
+      
+      const created: CarbonFootprintEntry[] = [];
+      const due = series.filter(item => !item.materializedThrough || item.materializedThrough < today);
+      if (due.length === 0) return;
+      
+      due.forEach(item => {
+        created.push(...materializeSeries(item, existing, today, timestamp));
+      });
       
-      return entries.filter(entry => 
-        entry.timestamp >= startTimestamp && entry.timestamp <= endTimestamp
+      if (created.length > 0) {
+        await saveEntries([...created, ...entries].sort((a, b) => b.timestamp - a.timestamp));
+      }
+      
+      const dueIds = new Set(due.map(item => item.id));
+      const changes = { materializedThrough: today, updatedAt: timestamp };
+      await saveSeries(series.map(item => (dueIds.has(item.id) ? { ...item, ...changes } : item)));
+      
+      if (user) {
+        for (const entry of created) {
+          const { id, ...entryData } = entry;
+          await setRecord(`${paths.footprints(user.uid)}/${id}`, entryData);
+        }
+        for (const id of dueIds) {
+          await updateRecord(`${paths.footprintSeries(user.uid)}/${id}`, changes);
+        }
+      }
+    } catch (error) {
+      console.error('Error creating recurring footprint entries:', error);
+      setError('Failed to add recurring entries. Please try again.');
+    }
+  };
+  
+  const addRecurringEntry = async (details: EntryDetails, rule: RecurrenceRule, templateId?: string): Promise<void> => {
+    try {
+      if (rule.endDate && rule.endDate < rule.startDate) {
+        throw new Error('Recurrence ends before it starts');
+      }
+      
+      const timestamp = Date.now();
+      const newSeries: FootprintSeries = {
+        id: user ? createRecordId(paths.footprintSeries(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
+        ...entryFromDetails(details),
+        rule: cleanRule(rule),
+        ...(templateId ? { templateId } : {}),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      
+      // Occurrences are created by materializeRecurringEntries once the series is saved
+      await saveSeries([...series, newSeries]);
+      
+      if (user) {
+        const { id, ...seriesData } = newSeries;
+        await setRecord(`${paths.footprintSeries(user.uid)}/${id}`, seriesData);
+      }
+    } catch (error) {
+      console.error('Error adding recurring footprint entry:', error);
+      setError('Failed to save recurring entry. Please try again.');
+    }
+  };
+  
+  const updateSeries = async (id: string, updates: Partial<EntryDetails> & { rule?: RecurrenceRule }): Promise<void> => {
+    try {
+      if (!series.some(item => item.id === id)) {
+        throw new Error('Series not found');
+      }
+      
+      const timestamp = Date.now();
+      const { rule: newRule, ...detailUpdates } = updates;
+      const changedDetails = detailChanges(detailUpdates);
+      
+      const rule = newRule ? cleanRule(newRule) : undefined;
+      const seriesChanges = {
+        ...changedDetails,
+        // Rematerialize from the new start; occurrences that already exist are kept
+        ...(rule ? { rule, materializedThrough: addDays(rule.startDate, -1) } : {}),
+        updatedAt: timestamp,
+      };
+      
+      const occurrences = entries.filter(entry => entry.seriesId === id && !entry.detached);
+      const removedIds = new Set(
+        rule ? occurrences.filter(entry => !occursOn(rule, entry.occurrenceDate || entry.date)).map(entry => entry.id) : []
+      );
+      const entryChanges = { ...changedDetails, updatedAt: timestamp };
+      const hasEntryChanges = Object.keys(changedDetails).length > 0;
+      
+      await saveEntries(entries
+        .filter(entry => !removedIds.has(entry.id))
+        .map(entry => (entry.seriesId === id && !entry.detached && hasEntryChanges ? { ...entry, ...entryChanges } : entry))
       );
+      await saveSeries(series.map(item => (item.id === id ? { ...item, ...seriesChanges } : item)));
+      
+      if (user) {
+        await updateRecord(`${paths.footprintSeries(user.uid)}/${id}`, seriesChanges);
+        for (const entry of occurrences) {
+          if (removedIds.has(entry.id)) {
+            await removeRecord(`${paths.footprints(user.uid)}/${entry.id}`);
+          } else if (hasEntryChanges) {
+            await updateRecord(`${paths.footprints(user.uid)}/${entry.id}`, entryChanges);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error updating recurring footprint entry:', error);
+      setError('Failed to update recurring entry. Please try again.');
+    }
+  };
+  
+  /**
+   * Stop a series. Its past occurrences stay in the footprint unless removeEntries is set.
+   */
+  const deleteSeries = async (id: string, removeEntries: boolean = false): Promise<void> => {
+    try {
+      const removed = removeEntries ? entries.filter(entry => entry.seriesId === id && !entry.detached) : [];
+      const removedIds = new Set(removed.map(entry => entry.id));
+      
+      if (removed.length > 0) {
+        await saveEntries(entries.filter(entry => !removedIds.has(entry.id)));
+      }
+      await saveSeries(series.filter(item => item.id !== id));
+      
+      if (user) {
+        await removeRecord(`${paths.footprintSeries(user.uid)}/${id}`);
+        for (const entryId of removedIds) {
+          await removeRecord(`${paths.footprints(user.uid)}/${entryId}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting recurring footprint entry:', error);
+      setError('Failed to delete recurring entry. Please try again.');
+    }
+  };
+  
+  const saveTemplate = async (template: EntryDetails & { name: string }): Promise<void> => {
+    try {
+      const timestamp = Date.now();
+      const newTemplate: ActivityTemplate = {
+        id: user ? createRecordId(paths.activityTemplates(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
+        name: template.name,
+        ...entryFromDetails(template),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      
+      await saveTemplates([...templates, newTemplate]);
+      
+      if (user) {
+        const { id, ...templateData } = newTemplate;
+        await setRecord(`${paths.activityTemplates(user.uid)}/${id}`, templateData);
+      }
+    } catch (error) {
+      console.error('Error saving activity template:', error);
+      setError('Failed to save template. Please try again.');
+    }
+  };
+  
+  const deleteTemplate = async (id: string): Promise<void> => {
+    try {
+      await saveTemplates(templates.filter(template => template.id !== id));
+      
+      if (user) {
+        await removeRecord(`${paths.activityTemplates(user.uid)}/${id}`);
+      }
+    } catch (error) {
+      console.error('Error deleting activity template:', error);
+      setError('Failed to delete template. Please try again.');
+    }
+  };
+  
+  const addEntryFromTemplate = async (templateId: string, date: string): Promise<void> => {
+    const template = templates.find(item => item.id === templateId);
+    if (!template) {
+      setError('That template no longer exists.');
+      return;
+    }
+    
+    await addFootprintEntry({ ...entryFromDetails(template), date });
+  };
+  
+  const getFootprintByDateRange = async (startDate: string, endDate: string): Promise<CarbonFootprintEntry[]> => {
+    try {
+      return entriesBetween(entries, startDate, endDate);
     } catch (error) {
       console.error('Error getting footprint by date range:', error);
       setError('Failed to get footprint data for the selected date range.');
@@ -331,6 +776,150 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   };
   
+  /**
+   * Entries between two dates as CSV, JSON, or a CSV report grouped by category and scope
+   */
+  const exportFootprint = async (format: ExportFormat, startDate: string, endDate: string): Promise<string | null> => {
+    try {
+      const range = { startDate, endDate };
+      const rangeEntries = await getFootprintByDateRange(startDate, endDate);
+      
+      switch (format) {
+        case 'csv':
+          return entriesToCsv(rangeEntries);
+        case 'json':
+          return entriesToJson(rangeEntries, range);
+        case 'report':
+          return reportToCsv(buildGhgReport(rangeEntries, range));
+      }
+    } catch (error) {
+      console.error('Error exporting footprint:', error);
+      setError('Failed to export footprint data. Please try again.');
+      return null;
+    }
+  };
+  
+  /**
+   * Add the valid, non-duplicate entries of a CSV or JSON export
+   */
+  const importFootprint = async (content: string): Promise<ImportResult | null> => {
+    try {
+      const preview = parseFootprintImport(content, entries);
+      const timestamp = Date.now();
+      const seriesIds = new Set(series.map(item => item.id));
+      
+      const imported: CarbonFootprintEntry[] = preview.entries.map(({ id, seriesId, occurrenceDate, detached, ...entry }, index) => ({
+        ...entry,
+        // Occurrences stay linked only when their series exists in this account
+        ...(seriesId && seriesIds.has(seriesId) ? { seriesId, occurrenceDate } : {}),
+        id: user ? createRecordId(paths.footprints(user.uid)) : `local_${timestamp}_${index}`,
+        userId: user ? user.uid : 'anonymous',
+        updatedAt: timestamp,
+      }));
+      
+      if (imported.length > 0) {
+        await saveEntries([...imported, ...entries].sort((a, b) => b.timestamp - a.timestamp));
+        
+        if (user) {
+          for (const entry of imported) {
+            const { id, ...entryData } = entry;
+            await setRecord(`${paths.footprints(user.uid)}/${id}`, entryData);
+          }
+        }
+      }
+      
+      return {
+        imported: imported.length,
+        duplicates: preview.duplicates.length,
+        issues: preview.issues,
+      };
+    } catch (error) {
+      console.error('Error importing footprint:', error);
+      setError('Failed to import footprint data. Please try again.');
+      return null;
+    }
+  };
+  
+  /**
+   * Create, update or remove the food entries that mirror meals, so the footprint follows the diary.
+   * A null value removes the meal's entry. All changes are saved together.
+   */
+  const setMealFootprints = async (meals: Record<string, MealFootprint | null>): Promise<void> => {
+    try {
+      const timestamp = Date.now();
+      let updatedEntries = entries;
+      const created: CarbonFootprintEntry[] = [];
+      const updated: Array<{ id: string; details: Partial<CarbonFootprintEntry> }> = [];
+      const removed: string[] = [];
+      
+      Object.keys(meals).forEach((mealId, index) => {
+        const meal = meals[mealId];
+        const linked = updatedEntries.find(entry => entry.mealId === mealId);
+        
+        if (!meal) {
+          if (!linked) return;
+          updatedEntries = updatedEntries.filter(entry => entry.id !== linked.id);
+          removed.push(linked.id);
+          return;
+        }
+        
+        const details = {
+          date: meal.date,
+          timestamp: new Date(`${meal.date.slice(0, 10)}T12:00:00`).getTime(),
+          carbonAmount: meal.carbonAmount,
+          ...(meal.waterUsage !== undefined ? { waterUsage: meal.waterUsage } : {}),
+          ...(meal.description ? { description: meal.description } : {}),
+          updatedAt: timestamp,
+        };
+        
+        if (linked) {
+          updatedEntries = updatedEntries.map(entry => (entry.id === linked.id ? { ...entry, ...details } : entry));
+          updated.push({ id: linked.id, details });
+          return;
+        }
+        
+        const newEntry: CarbonFootprintEntry = {
+          id: user ? createRecordId(paths.footprints(user.uid)) : `local_${timestamp}_${index}`,
+          userId: user ? user.uid : 'anonymous',
+          category: 'food',
+          activityType: 'meal',
+          mealId,
+          ...details,
+        };
+        updatedEntries = [newEntry, ...updatedEntries];
+        created.push(newEntry);
+      });
+      
+      if (created.length + updated.length + removed.length === 0) return;
+      await saveEntries(updatedEntries);
+      
+      if (user) {
+        for (const id of removed) {
+          await removeRecord(`${paths.footprints(user.uid)}/${id}`);
+        }
+        for (const { id, details } of updated) {
+          await updateRecord(`${paths.footprints(user.uid)}/${id}`, details);
+        }
+        for (const entry of created) {
+          const { id, ...entryData } = entry;
+          await setRecord(`${paths.footprints(user.uid)}/${id}`, entryData);
+        }
+      }
+    } catch (error) {
+      console.error('Error updating meal footprint:', error);
+      setError('Failed to update the footprint for this meal. Please try again.');
+    }
+  };
+  
+  const setMealFootprint = async (mealId: string, meal: MealFootprint | null): Promise<void> => {
+    await setMealFootprints({ [mealId]: meal });
+  };
+  
+  const remapMealIds = useCallback((idMap: Record<string, string>) => {
+    if (Object.keys(idMap).length === 0) return;
+    setPendingMealIds(current => ({ ...current, ...idMap }));
+  }, []);
+  
   const getFootprintByCategory = (category: FootprintCategory): CarbonFootprintEntry[] => {
     return entries.filter(entry => entry.category === category);
   };
@@ -339,6 +928,103 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return calculateSummaryFromEntries(entries);
   };
   
+  const saveGoals = async (updatedGoals: CarbonGoal[]) => {
+    setGoals(updatedGoals);
+    await AsyncStorage.setItem(FOOTPRINT_GOALS_STORAGE_KEY, JSON.stringify(updatedGoals));
+  };
+  
+  const setGoal = async (goal: Pick<CarbonGoal, 'period' | 'category' | 'budget'>): Promise<void> => {
+    try {
+      if (!Number.isFinite(goal.budget) || goal.budget <= 0) {
+        throw new Error('Budget must be a positive number');
+      }
+      
+      const timestamp = Date.now();
+      const existing = goals.find(item => item.period === goal.period && item.category === goal.category);
+      
+      if (existing) {
+        await updateGoal(existing.id, { budget: goal.budget });
+        return;
+      }
+      
+      const newGoal: CarbonGoal = {
+        id: user ? createRecordId(paths.footprintGoals(user.uid)) : `local_${timestamp}`,
+        userId: user ? user.uid : 'anonymous',
+        period: goal.period,
+        budget: goal.budget,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        ...(goal.category ? { category: goal.category } : {}),
+      };
+      
+      await saveGoals([...goals, newGoal]);
+      
+      if (user) {
+        const { id, ...goalData } = newGoal;
+        await setRecord(`${paths.footprintGoals(user.uid)}/${id}`, goalData);
+      }
+    } catch (error) {
+      console.error('Error saving footprint goal:', error);
+      setError('Failed to save goal. Please try again.');
+    }
+  };
+  
+  const updateGoal = async (id: string, updates: Partial<Omit<CarbonGoal, 'id' | 'userId'>>): Promise<void> => {
+    try {
+      const changes = { ...updates, updatedAt: Date.now() };
+      
+      await saveGoals(goals.map(goal => (goal.id === id ? { ...goal, ...changes } : goal)));
+      
+      if (user) {
+        await updateRecord(`${paths.footprintGoals(user.uid)}/${id}`, changes);
+      }
+    } catch (error) {
+      console.error('Error updating footprint goal:', error);
+      setError('Failed to update goal. Please try again.');
+    }
+  };
+  
+  /**
+   * Record the periods met/missed events were raised for so they are not raised again
+   */
+  const markGoalsSettled = async (settledPeriods: Record<string, string>): Promise<void> => {
+    try {
+      const timestamp = Date.now();
+      
+      await saveGoals(goals.map(goal => 
+        settledPeriods[goal.id] ? { ...goal, lastSettledPeriod: settledPeriods[goal.id], updatedAt: timestamp } : goal
+      ));
+      
+      if (user) {
+        for (const id of Object.keys(settledPeriods)) {
+          await updateRecord(`${paths.footprintGoals(user.uid)}/${id}`, { lastSettledPeriod: settledPeriods[id], updatedAt: timestamp });
+        }
+      }
+    } catch (error) {
+      console.error('Error updating footprint goals:', error);
+    }
+  };
+  
+  const removeGoal = async (id: string): Promise<void> => {
+    try {
+      await saveGoals(goals.filter(goal => goal.id !== id));
+      
+      if (user) {
+        await removeRecord(`${paths.footprintGoals(user.uid)}/${id}`);
+      }
+    } catch (error) {
+      console.error('Error removing footprint goal:', error);
+      setError('Failed to remove goal. Please try again.');
+    }
+  };
+  
+  const subscribeToGoalEvents = useCallback((listener: GoalEventListener) => {
+    goalListenersRef.current.add(listener);
+    return () => {
+      goalListenersRef.current.delete(listener);
+    };
+  }, []);
+  
   const clearError = () => {
     setError(null);
   };
@@ -349,11 +1035,30 @@ export const FootprintProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     isLoading,
     error,
     addFootprintEntry,
+    addActivityEntry,
     updateFootprintEntry,
     deleteFootprintEntry,
     getFootprintByDateRange,
     getFootprintByCategory,
     calculateSummary,
+    goals,
+    goalProgress,
+    setGoal,
+    removeGoal,
+    subscribeToGoalEvents,
+    templates,
+    series,
+    saveTemplate,
+    deleteTemplate,
+    addEntryFromTemplate,
+    addRecurringEntry,
+    updateSeries,
+    deleteSeries,
+    exportFootprint,
+    importFootprint,
+    setMealFootprint,
+    setMealFootprints,
+    remapMealIds,
     clearError,
   };
   
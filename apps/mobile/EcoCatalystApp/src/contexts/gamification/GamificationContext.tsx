@@ -1,8 +1,11 @@
-import React, { createContext, useState, useEffect, useContext } from 'react';
-import { database } from '../../services/firebase';
-import { ref, onValue, set, push, remove, get, query, orderByChild, limitToLast, equalTo } from 'firebase/database';
+import React, { createContext, useState, useEffect, useContext, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContext } from '../AuthContext';
+import { useSync } from '../sync/SyncContext';
+import { useFootprint } from '../footprint/FootprintContext';
+import { GamificationRepository } from '../../services/repositories/types';
+import { firebaseGamificationRepository } from '../../services/repositories/firebaseRepositories';
+import { paths } from '../../services/repositories/paths';
 
 export interface Achievement {
   id: string;
@@ -108,15 +111,27 @@ export const GamificationContext = createContext<GamificationContextType>({
 
 export const useGamification = () => useContext(GamificationContext);
 
-export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface GamificationProviderProps {
+  children: React.ReactNode;
+  repository?: GamificationRepository;
+}
+
+export const GamificationProvider: React.FC<GamificationProviderProps> = ({
+  children,
+  repository = firebaseGamificationRepository,
+}) => {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [userAchievements, setUserAchievements] = useState<UserAchievement[]>([]);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
+  // Cached stats can be stale, so signed-in users' stats are only written once the server copy has loaded
+  const [statsSynced, setStatsSynced] = useState(false);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const { user } = useContext(AuthContext);
+  const { isReady: syncReady, createRecordId, setRecord, updateRecord, withPendingWrites } = useSync();
+  const { subscribeToGoalEvents } = useFootprint();
   
   useEffect(() => {
     const loadCachedData = async () => {
@@ -148,10 +163,8 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
   useEffect(() => {
     setIsLoading(true);
     
-    const achievementsRef = ref(database, 'achievements');
-    const unsubscribe = onValue(achievementsRef, (snapshot) => {
+    const unsubscribe = repository.subscribeToAchievements((data) => {
       try {
-        const data = snapshot.val();
         if (data) {
           const achievementsList = Object.keys(data).map(key => ({
             id: key,
@@ -176,20 +189,26 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
     });
     
     return () => unsubscribe();
-  }, []);
+  }, [repository]);
   
   useEffect(() => {
+    setStatsSynced(false);
+    
     if (!user) {
       setIsLoading(false);
       return;
     }
     
+    if (!syncReady) return;
+    
     setIsLoading(true);
     
-    const userAchievementsRef = ref(database, `userAchievements/${user.uid}`);
-    const achievementsUnsubscribe = onValue(userAchievementsRef, (snapshot) => {
+    const achievementsPath = paths.userAchievements(user.uid);
+    const statsPath = paths.userStats(user.uid);
+    
+    const achievementsUnsubscribe = repository.subscribeToUserAchievements(user.uid, (stored) => {
       try {
-        const data = snapshot.val();
+        const data = withPendingWrites(achievementsPath, stored);
         if (data) {
           const userAchievementsList = Object.keys(data).map(key => ({
             id: key,
@@ -208,10 +227,9 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     });
     
-    const userStatsRef = ref(database, `userStats/${user.uid}`);
-    const statsUnsubscribe = onValue(userStatsRef, (snapshot) => {
+    const statsUnsubscribe = repository.subscribeToUserStats(user.uid, (stored) => {
       try {
-        const data = snapshot.val();
+        const data = withPendingWrites(statsPath, stored);
         if (data) {
           const stats = {
             id: user.uid,
@@ -238,7 +256,7 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
           
           setUserStats(initialStats);
           
-          set(userStatsRef, {
+          setRecord(statsPath, {
             userId: initialStats.userId,
             totalPoints: initialStats.totalPoints,
             level: initialStats.level,
@@ -248,11 +266,12 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
             consecutiveDays: initialStats.consecutiveDays,
             lastActive: initialStats.lastActive,
             updatedAt: initialStats.updatedAt
-          });
+          }).catch(err => console.error('Failed to save initial user stats:', err));
           
           AsyncStorage.setItem(USER_STATS_STORAGE_KEY, JSON.stringify(initialStats))
             .catch(err => console.error('Failed to cache initial user stats:', err));
         }
+        setStatsSynced(true);
         setIsLoading(false);
       } catch (error) {
         console.error('Error fetching user stats:', error);
@@ -264,7 +283,35 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
       achievementsUnsubscribe();
       statsUnsubscribe();
     };
-  }, [user]);
+  }, [user, syncReady, repository]);
+  
+  const recordActivityRef = useRef<(activityType: RequirementType, value: number) => Promise<void>>(async () => {});
+  // Carbon saved under a budget that hasn't been credited yet. Periods settle as soon as the
+  // footprint loads, usually before the stats do, so credits wait here until they can be recorded.
+  const pendingCarbonSavedRef = useRef(0);
+  
+  const creditCarbonSavedRef = useRef(async () => {});
+  creditCarbonSavedRef.current = async () => {
+    const saved = pendingCarbonSavedRef.current;
+    if (!user || !userStats || !statsSynced || saved <= 0) return;
+    
+    pendingCarbonSavedRef.current = 0;
+    await recordActivityRef.current('reduce_carbon', saved);
+  };
+  
+  useEffect(() => {
+    // Carbon cut from one period to the next while keeping to a budget counts towards reduce_carbon achievements
+    return subscribeToGoalEvents((event) => {
+      if (event.type === 'goal_met' && event.saved > 0) {
+        pendingCarbonSavedRef.current += event.saved;
+        creditCarbonSavedRef.current();
+      }
+    });
+  }, [subscribeToGoalEvents]);
+  
+  useEffect(() => {
+    creditCarbonSavedRef.current();
+  }, [user, userStats, statsSynced]);
   
   const checkAchievements = async (): Promise<UserAchievement[]> => {
     try {
@@ -318,8 +365,7 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
             };
             
             if (user) {
-              const achievementRef = ref(database, `userAchievements/${user.uid}/${existingAchievement.id}`);
-              await set(achievementRef, updatedAchievement);
+              await setRecord(`${paths.userAchievements(user.uid)}/${existingAchievement.id}`, updatedAchievement);
             }
             
             setUserAchievements(prev => 
@@ -344,9 +390,7 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
           };
           
           if (user) {
-            const userAchievementsRef = ref(database, `userAchievements/${user.uid}`);
-            const newAchievementRef = push(userAchievementsRef);
-            await set(newAchievementRef, newUserAchievement);
+            await setRecord(`${paths.userAchievements(user.uid)}/${createRecordId(paths.userAchievements(user.uid))}`, newUserAchievement);
           }
           
           setUserAchievements(prev => [...prev, newUserAchievement]);
@@ -388,50 +432,38 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
         return;
       }
       
-      const statsRef = ref(database, `userStats/${user.uid}`);
+      if (!userStats || !statsSynced) return;
       
-      const snapshot = await get(statsRef);
-      const currentData = snapshot.val();
-      
-      const updatedData = {
-        ...(currentData || {
-          userId: user.uid,
-          totalPoints: 0,
-          level: 1,
-          productsScanned: 0,
-          ecoAlternativesUsed: 0,
-          carbonSaved: 0,
-          consecutiveDays: 0,
-          lastActive: timestamp
-        }),
+      // Only the changed fields are written, so they don't overwrite newer totals from another device
+      const changes: Partial<Omit<UserStats, 'id' | 'userId'>> = {
         ...updates,
         updatedAt: timestamp
       };
       
       if (updates.totalPoints !== undefined) {
-        updatedData.level = Math.max(1, Math.floor(updatedData.totalPoints / 100) + 1);
+        changes.level = Math.max(1, Math.floor(updates.totalPoints / 100) + 1);
       }
       
       if (updates.lastActive !== undefined) {
-        const lastActiveDate = new Date(currentData?.lastActive || 0);
+        const lastActiveDate = new Date(userStats.lastActive || 0);
         const newActiveDate = new Date(updates.lastActive);
         
         if (newActiveDate.getTime() - lastActiveDate.getTime() > 48 * 60 * 60 * 1000) {
-          updatedData.consecutiveDays = 1;
+          changes.consecutiveDays = 1;
         } 
         else if (
           newActiveDate.getTime() - lastActiveDate.getTime() > 20 * 60 * 60 * 1000 &&
           newActiveDate.getDate() !== lastActiveDate.getDate()
         ) {
-          updatedData.consecutiveDays = (currentData?.consecutiveDays || 0) + 1;
+          changes.consecutiveDays = (userStats.consecutiveDays || 0) + 1;
         }
       }
       
-      await set(statsRef, updatedData);
+      await updateRecord(paths.userStats(user.uid), changes);
       
       setUserStats({
-        id: user.uid,
-        ...updatedData
+        ...userStats,
+        ...changes
       });
       
       await checkAchievements();
@@ -470,26 +502,9 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
         return leaderboard.slice(0, limit);
       }
       
-      const leaderboardRef = query(
-        ref(database, 'userStats'),
-        orderByChild('totalPoints'),
-        limitToLast(limit)
-      );
-      
-      const snapshot = await get(leaderboardRef);
-      const data = snapshot.val();
+      const entries = await repository.getLeaderboard(limit);
       
-      if (data) {
-        const entries = Object.keys(data).map(key => ({
-          userId: key,
-          displayName: data[key].displayName || 'Anonymous',
-          photoURL: data[key].photoURL,
-          totalPoints: data[key].totalPoints || 0,
-          level: data[key].level || 1
-        }));
-        
-        entries.sort((a, b) => b.totalPoints - a.totalPoints);
-        
+      if (entries.length > 0) {
         setLeaderboard(entries);
         return entries;
       }
@@ -529,6 +544,8 @@ export const GamificationProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
   
+  recordActivityRef.current = recordActivity;
+  
   const clearError = () => {
     setError(null);
   };
@@ -1,8 +1,14 @@
 import React, { createContext, useState, useEffect, useContext } from 'react';
-import { database } from '../../services/firebase';
-import { ref, onValue, set, push, remove, get, query, orderByChild, limitToLast, equalTo } from 'firebase/database';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthContext } from '../AuthContext';
+import { useSync } from '../sync/SyncContext';
+import { withCurrentScore } from '../../services/sustainability/scoring';
+import { ProductDataSource, lookupBarcodeInSources, lookupIdInSources } from '../../services/products/productDataSource';
+import { OpenFoodFactsDataset } from '../../services/products/openFoodFacts';
+import { openFoodFactsFixture } from '../../services/products/fixtures/openFoodFactsFixture';
+import { ProductRepository } from '../../services/repositories/types';
+import { firebaseProductRepository } from '../../services/repositories/firebaseRepositories';
+import { paths } from '../../services/repositories/paths';
 
 export interface Product {
   id: string;
@@ -11,6 +17,7 @@ export interface Product {
   brand: string;
   category: string;
   sustainabilityScore: number; // 0-100
+  scoringVersion?: number; // version of the scoring model that produced sustainabilityScore
   carbonFootprint: number; // in kg CO2e
   waterUsage: number; // in liters
   recyclable: boolean;
@@ -19,6 +26,11 @@ export interface Product {
   ingredients: string[];
   certifications: string[];
   imageUrl?: string;
+  ecoScore?: {
+    grade: string; // a-e
+    score?: number; // 0-100
+  };
+  dataSource?: string; // set when the product came from an external source rather than our database
   createdAt: number;
   updatedAt: number;
 }
@@ -52,7 +64,7 @@ interface ProductsContextType {
   getProductById: (id: string) => Promise<Product | null>;
   getProductByBarcode: (barcode: string) => Promise<Product | null>;
   getAlternativesForProduct: (productId: string) => Promise<AlternativeProduct[]>;
-  addProductScan: (productId: string, location?: { latitude: number; longitude: number }) => Promise<void>;
+  addProductScan: (productId: string, location?: { latitude: number; longitude: number }) => Promise<string>;
   clearRecentScans: () => Promise<void>;
   clearError: () => void;
 }
@@ -70,14 +82,27 @@ export const ProductsContext = createContext<ProductsContextType>({
   getProductById: async () => null,
   getProductByBarcode: async () => null,
   getAlternativesForProduct: async () => [],
-  addProductScan: async () => {},
+  addProductScan: async () => '',
   clearRecentScans: async () => {},
   clearError: () => {},
 });
 
 export const useProducts = () => useContext(ProductsContext);
 
-export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+const defaultFallbackSources: ProductDataSource[] = [new OpenFoodFactsDataset(openFoodFactsFixture)];
+
+interface ProductsProviderProps {
+  children: React.ReactNode;
+  repository?: ProductRepository;
+  /** Sources consulted, in order, for barcodes that are not in the products database */
+  fallbackSources?: ProductDataSource[];
+}
+
+export const ProductsProvider: React.FC<ProductsProviderProps> = ({
+  children,
+  repository = firebaseProductRepository,
+  fallbackSources = defaultFallbackSources,
+}) => {
   const [products, setProducts] = useState<Product[]>([]);
   const [recentScans, setRecentScans] = useState<ProductScan[]>([]);
   const [alternativeProducts, setAlternativeProducts] = useState<Record<string, AlternativeProduct[]>>({});
@@ -85,6 +110,46 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const [error, setError] = useState<string | null>(null);
   
   const { user } = useContext(AuthContext);
+  const { isReady: syncReady, createRecordId, setRecord, removeRecord, withPendingWrites, migrateAnonymousData } = useSync();
+  
+  const cacheProduct = (product: Product) => {
+    setProducts(prev => {
+      const updated = [...prev];
+      const index = updated.findIndex(p => p.id === product.id);
+      if (index >= 0) {
+        updated[index] = product;
+      } else {
+        updated.push(product);
+      }
+      return updated;
+    });
+  };
+  
+  const findInFallbackSources = async (barcode: string): Promise<Product | null> => {
+    const product = await lookupBarcodeInSources(fallbackSources, barcode);
+    if (product) {
+      cacheProduct(product);
+    }
+    return product;
+  };
+  
+  const queryProductByBarcode = async (barcode: string): Promise<Product | null> => {
+    try {
+      const stored = await repository.findByBarcode(barcode);
+      
+      if (!stored) {
+        return null;
+      }
+      
+      const product = withCurrentScore(stored);
+      cacheProduct(product);
+      return product;
+    } catch (error) {
+      // Still try the fallback sources when the database is unreachable
+      console.error('Error querying products database:', error);
+      return null;
+    }
+  };
   
   useEffect(() => {
     const loadCachedData = async () => {
@@ -109,12 +174,10 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   useEffect(() => {
     setIsLoading(true);
     
-    const productsRef = ref(database, 'products');
-    const unsubscribe = onValue(productsRef, (snapshot) => {
+    const unsubscribe = repository.subscribeToProducts((data) => {
       try {
-        const data = snapshot.val();
         if (data) {
-          const productsList = Object.keys(data).map(key => ({
+          const productsList = Object.keys(data).map(key => withCurrentScore({
             id: key,
             ...data[key]
           }));
@@ -137,40 +200,52 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     });
     
     return () => unsubscribe();
-  }, []);
+  }, [repository]);
   
   useEffect(() => {
-    if (!user) return;
+    if (!user || !syncReady) return;
     
-    const userScansRef = query(
-      ref(database, `userScans/${user.uid}`),
-      orderByChild('timestamp'),
-      limitToLast(10)
-    );
+    const scansPath = paths.userScans(user.uid);
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
     
-    const unsubscribe = onValue(userScansRef, (snapshot) => {
+    const subscribe = async () => {
       try {
-        const data = snapshot.val();
-        if (data) {
-          const scansList = Object.keys(data).map(key => ({
-            id: key,
-            ...data[key]
-          }));
-          
-          scansList.sort((a, b) => b.timestamp - a.timestamp);
-          
-          setRecentScans(scansList);
-          
-          AsyncStorage.setItem(RECENT_SCANS_STORAGE_KEY, JSON.stringify(scansList))
-            .catch(err => console.error('Failed to cache recent scans:', err));
-        }
+        await migrateAnonymousData({ storageKey: RECENT_SCANS_STORAGE_KEY, basePath: scansPath });
       } catch (error) {
-        console.error('Error fetching user scans:', error);
+        console.error('Failed to migrate local scans:', error);
       }
-    });
+      if (cancelled) return;
+      
+      unsubscribe = repository.subscribeToRecentScans(user.uid, 10, (scans) => {
+        try {
+          const data = withPendingWrites(scansPath, scans);
+          if (data) {
+            const scansList = Object.keys(data).map(key => ({
+              id: key,
+              ...data[key]
+            }));
+            
+            scansList.sort((a, b) => b.timestamp - a.timestamp);
+            
+            setRecentScans(scansList.slice(0, 10));
+            
+            AsyncStorage.setItem(RECENT_SCANS_STORAGE_KEY, JSON.stringify(scansList.slice(0, 10)))
+              .catch(err => console.error('Failed to cache recent scans:', err));
+          }
+        } catch (error) {
+          console.error('Error fetching user scans:', error);
+        }
+      });
+    };
     
-    return () => unsubscribe();
-  }, [user]);
+    subscribe();
+    
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [user, syncReady, repository]);
   
   const scanProduct = async (barcode: string): Promise<Product | null> => {
     try {
@@ -179,33 +254,11 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       let product = products.find(p => p.barcode === barcode) || null;
       
       if (!product) {
-        const productQuery = query(
-          ref(database, 'products'),
-          orderByChild('barcode'),
-          equalTo(barcode)
-        );
-        
-        const snapshot = await get(productQuery);
-        const data = snapshot.val();
-        
-        if (data) {
-          const key = Object.keys(data)[0];
-          product = {
-            id: key,
-            ...data[key]
-          };
-          
-          setProducts(prev => {
-            const updated = [...prev];
-            const index = updated.findIndex(p => p.id === product!.id);
-            if (index >= 0) {
-              updated[index] = product!;
-            } else {
-              updated.push(product!);
-            }
-            return updated;
-          });
-        }
+        product = await queryProductByBarcode(barcode);
+      }
+      
+      if (!product) {
+        product = await findInFallbackSources(barcode);
       }
       
       return product;
@@ -223,26 +276,19 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       let product = products.find(p => p.id === id) || null;
       
       if (!product) {
-        const productRef = ref(database, `products/${id}`);
-        const snapshot = await get(productRef);
-        const data = snapshot.val();
+        // Fallback sources only answer for ids they issued, so ask them before the database
+        product = await lookupIdInSources(fallbackSources, id);
+        if (product) {
+          cacheProduct(product);
+        }
+      }
+      
+      if (!product) {
+        const stored = await repository.findById(id);
         
-        if (data) {
-          product = {
-            id,
-            ...data
-          };
-          
-          setProducts(prev => {
-            const updated = [...prev];
-            const index = updated.findIndex(p => p.id === id);
-            if (index >= 0) {
-              updated[index] = product!;
-            } else {
-              updated.push(product!);
-            }
-            return updated;
-          });
+        if (stored) {
+          product = withCurrentScore(stored);
+          cacheProduct(product);
         }
       }
       
@@ -259,33 +305,11 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       let product = products.find(p => p.barcode === barcode) || null;
       
       if (!product) {
-        const productQuery = query(
-          ref(database, 'products'),
-          orderByChild('barcode'),
-          equalTo(barcode)
-        );
-        
-        const snapshot = await get(productQuery);
-        const data = snapshot.val();
-        
-        if (data) {
-          const key = Object.keys(data)[0];
-          product = {
-            id: key,
-            ...data[key]
-          };
-          
-          setProducts(prev => {
-            const updated = [...prev];
-            const index = updated.findIndex(p => p.id === product!.id);
-            if (index >= 0) {
-              updated[index] = product!;
-            } else {
-              updated.push(product!);
-            }
-            return updated;
-          });
-        }
+        product = await queryProductByBarcode(barcode);
+      }
+      
+      if (!product) {
+        product = await findInFallbackSources(barcode);
       }
       
       return product;
@@ -302,16 +326,9 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         return alternativeProducts[productId];
       }
       
-      const alternativesRef = ref(database, `alternatives/${productId}`);
-      const snapshot = await get(alternativesRef);
-      const data = snapshot.val();
+      const alternatives = await repository.getAlternatives(productId);
       
-      if (data) {
-        const alternatives = Object.keys(data).map(key => ({
-          id: key,
-          ...data[key]
-        }));
-        
+      if (alternatives.length > 0) {
         setAlternativeProducts(prev => ({
           ...prev,
           [productId]: alternatives
@@ -328,38 +345,32 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
   
-  const addProductScan = async (productId: string, location?: { latitude: number; longitude: number }): Promise<void> => {
+  const addProductScan = async (productId: string, location?: { latitude: number; longitude: number }): Promise<string> => {
     try {
-      if (!user) {
-        const newScan: ProductScan = {
-          id: `local_${Date.now()}`,
-          productId,
-          userId: 'anonymous',
-          timestamp: Date.now(),
-          location
-        };
-        
-        const updatedScans = [newScan, ...recentScans.slice(0, 9)];
-        setRecentScans(updatedScans);
-        
-        await AsyncStorage.setItem(RECENT_SCANS_STORAGE_KEY, JSON.stringify(updatedScans));
-        return;
-      }
-      
-      const userScansRef = ref(database, `userScans/${user.uid}`);
-      const newScanRef = push(userScansRef);
+      const timestamp = Date.now();
       
-      const scanData: Omit<ProductScan, 'id'> = {
+      const newScan: ProductScan = {
+        id: user ? createRecordId(paths.userScans(user.uid)) : `local_${timestamp}`,
         productId,
-        userId: user.uid,
-        timestamp: Date.now(),
+        userId: user ? user.uid : 'anonymous',
+        timestamp,
         location
       };
       
-      await set(newScanRef, scanData);
+      const updatedScans = [newScan, ...recentScans.slice(0, 9)];
+      setRecentScans(updatedScans);
+      
+      await AsyncStorage.setItem(RECENT_SCANS_STORAGE_KEY, JSON.stringify(updatedScans));
+      
+      if (user) {
+        const { id, ...scanData } = newScan;
+        await setRecord(`${paths.userScans(user.uid)}/${id}`, scanData);
+      }
+      return newScan.id;
     } catch (error) {
       console.error('Error adding product scan:', error);
       setError('Failed to save scan. Please try again.');
+      return '';
     }
   };
   
@@ -369,8 +380,7 @@ export const ProductsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       await AsyncStorage.removeItem(RECENT_SCANS_STORAGE_KEY);
       
       if (user) {
-        const userScansRef = ref(database, `userScans/${user.uid}`);
-        await remove(userScansRef);
+        await removeRecord(paths.userScans(user.uid));
       }
     } catch (error) {
       console.error('Error clearing recent scans:', error);
@@ -0,0 +1,157 @@
+import React, { createContext, useState, useEffect, useContext, useRef } from 'react';
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthContext } from '../AuthContext';
+import { Outbox } from '../../services/sync/outbox';
+import { SyncEngine, SyncStatus } from '../../services/sync/syncEngine';
+import { RemoteStore, firebaseRemoteStore } from '../../services/sync/remoteStore';
+import { AnonymousMigrationOptions, LOCAL_ID_PREFIX, migrateAnonymousRecords } from '../../services/sync/migration';
+
+interface SyncContextType extends SyncStatus {
+  isReady: boolean;
+  createRecordId: (path: string) => string;
+  setRecord: (path: string, data: Record<string, any>) => Promise<void>;
+  updateRecord: (path: string, updates: Record<string, any>) => Promise<void>;
+  removeRecord: (path: string) => Promise<void>;
+  withPendingWrites: <T = any>(path: string, value: T | null) => T | null;
+  migrateAnonymousData: (options: Omit<AnonymousMigrationOptions, 'userId'>) => Promise<Record<string, string>>;
+  syncNow: () => Promise<void>;
+}
+
+const defaultStatus: SyncStatus = {
+  pendingCount: 0,
+  isSyncing: false,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+export const SyncContext = createContext<SyncContextType>({
+  ...defaultStatus,
+  isReady: false,
+  createRecordId: () => `${LOCAL_ID_PREFIX}${Date.now()}`,
+  setRecord: async () => {},
+  updateRecord: async () => {},
+  removeRecord: async () => {},
+  withPendingWrites: (_path, value) => value,
+  migrateAnonymousData: async () => ({}),
+  syncNow: async () => {},
+});
+
+export const useSync = () => useContext(SyncContext);
+
+interface SyncProviderProps {
+  children: React.ReactNode;
+  outbox?: Outbox;
+  remote?: RemoteStore;
+}
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children, outbox: outboxProp, remote = firebaseRemoteStore }) => {
+  const outboxRef = useRef<Outbox>(outboxProp || new Outbox());
+  const engineRef = useRef<SyncEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new SyncEngine({
+      outbox: outboxRef.current,
+      remote,
+      onConflict: (operation) => console.warn(`Discarded local change to ${operation.path}: the server copy is newer.`),
+    });
+  }
+
+  const [status, setStatus] = useState<SyncStatus>(defaultStatus);
+  const [isReady, setIsReady] = useState(false);
+
+  const { user } = useContext(AuthContext);
+
+  useEffect(() => {
+    const engine = engineRef.current!;
+    const unsubscribe = engine.subscribe(setStatus);
+
+    outboxRef.current.load().then(() => setIsReady(true));
+
+    return () => {
+      unsubscribe();
+      engine.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    const engine = engineRef.current!;
+    engine.setUser(user ? user.uid : null);
+    if (user) {
+      engine.flush().catch(error => console.error('Error syncing pending changes:', error));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    // Retry straight away when the app comes back to the foreground
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && user) {
+        engineRef.current!.flush().catch(error => console.error('Error syncing pending changes:', error));
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user]);
+
+  const enqueue = async (type: 'set' | 'update' | 'remove', path: string, data?: Record<string, any>): Promise<void> => {
+    if (!user) {
+      throw new Error('Cannot sync changes while signed out');
+    }
+
+    await outboxRef.current.enqueue({ type, path, data, userId: user.uid });
+    engineRef.current!.flush().catch(error => console.error('Error syncing pending changes:', error));
+  };
+
+  const createRecordId = (path: string): string => {
+    return user ? remote.createKey(path) : `${LOCAL_ID_PREFIX}${Date.now()}`;
+  };
+
+  const setRecord = (path: string, data: Record<string, any>) => enqueue('set', path, data);
+
+  const updateRecord = (path: string, updates: Record<string, any>) => enqueue('update', path, updates);
+
+  const removeRecord = (path: string) => enqueue('remove', path);
+
+  const withPendingWrites = <T = any,>(path: string, value: T | null): T | null => {
+    return user ? outboxRef.current.applyPending(path, value, user.uid) : value;
+  };
+
+  const migrateAnonymousData = async (options: Omit<AnonymousMigrationOptions, 'userId'>): Promise<Record<string, string>> => {
+    if (!user) return {};
+
+    const migrated = await migrateAnonymousRecords(
+      {
+        storage: AsyncStorage,
+        enqueue: (operation) => outboxRef.current.enqueue(operation),
+        createKey: (path) => remote.createKey(path),
+      },
+      { ...options, userId: user.uid }
+    );
+
+    if (Object.keys(migrated).length > 0) {
+      engineRef.current!.flush().catch(error => console.error('Error syncing migrated data:', error));
+    }
+    return migrated;
+  };
+
+  const syncNow = async (): Promise<void> => {
+    await engineRef.current!.flush();
+  };
+
+  const value = {
+    ...status,
+    isReady,
+    createRecordId,
+    setRecord,
+    updateRecord,
+    removeRecord,
+    withPendingWrites,
+    migrateAnonymousData,
+    syncNow,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
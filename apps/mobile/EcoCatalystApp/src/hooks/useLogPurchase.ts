@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useProducts } from '../contexts/products/ProductsContext';
+import { useFootprint } from '../contexts/footprint/FootprintContext';
+import { useGamification } from '../contexts/gamification/GamificationContext';
+import { getDeviceTimeZone, toLocalDate } from '../services/footprint/summary';
+import {
+  findReplacedAlternative,
+  hasPurchaseFootprint,
+  previouslyScannedProductIds,
+  purchaseEntry,
+} from '../services/products/purchases';
+
+export interface PurchaseOptions {
+  productId: string;
+  scanId?: string;
+  quantity?: number;
+}
+
+/**
+ * "I bought this": logs a scanned product as a 'products' footprint entry, and counts it as an
+ * eco alternative when it was suggested for something scanned earlier.
+ * Lives outside the providers because it needs products, footprint and gamification together.
+ */
+export const useLogPurchase = () => {
+  const { recentScans, getProductById, getAlternativesForProduct } = useProducts();
+  const { entries, addFootprintEntry } = useFootprint();
+  const { recordActivity } = useGamification();
+
+  const [isLogging, setIsLogging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPurchaseLogged = (scanId?: string): boolean => {
+    return !!scanId && entries.some(entry => entry.scanId === scanId);
+  };
+
+  /**
+   * Returns whether the purchase was logged
+   */
+  const logPurchase = async ({ productId, scanId, quantity = 1 }: PurchaseOptions): Promise<boolean> => {
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      setError('Please enter how many you bought.');
+      return false;
+    }
+    if (isPurchaseLogged(scanId)) {
+      setError('This purchase is already in your footprint.');
+      return false;
+    }
+
+    setIsLogging(true);
+    try {
+      const product = await getProductById(productId);
+      if (!product) {
+        throw new Error(`Product ${productId} not found`);
+      }
+      if (!hasPurchaseFootprint(product)) {
+        setError("We don't have carbon data for this product yet, so it can't be added to your footprint.");
+        return false;
+      }
+
+      const scan = scanId ? recentScans.find(item => item.id === scanId) : undefined;
+      const purchasedAt = scan ? scan.timestamp : Date.now();
+      await addFootprintEntry(purchaseEntry(product, quantity, toLocalDate(purchasedAt, getDeviceTimeZone()), scanId));
+
+      for (const originalId of previouslyScannedProductIds(recentScans, productId, purchasedAt)) {
+        const alternatives = await getAlternativesForProduct(originalId);
+        if (findReplacedAlternative(productId, alternatives)) {
+          await recordActivity('use_alternatives', 1);
+          break;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Error logging purchase:', error);
+      setError('Failed to log this purchase. Please try again.');
+      return false;
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  const clearError = () => {
+    setError(null);
+  };
+
+  return { logPurchase, isPurchaseLogged, isLogging, error, clearError };
+};
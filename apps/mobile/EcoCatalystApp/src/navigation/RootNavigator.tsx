@@ -5,6 +5,12 @@ import { RootStackParamList } from './types';
 
 import AuthNavigator from './AuthNavigator';
 import MainNavigator from './MainNavigator';
+import ProductDetailScreen from '../screens/main/ProductDetailScreen';
+import MealEditorScreen from '../screens/main/MealEditorScreen';
+import PlanBuilderScreen from '../screens/main/PlanBuilderScreen';
+import WeekPlannerScreen from '../screens/main/WeekPlannerScreen';
+import DietProfileScreen from '../screens/main/DietProfileScreen';
+import LogActivityScreen from '../screens/main/LogActivityScreen';
 
 import { AuthContext } from '../contexts/AuthContext';
 
@@ -21,7 +27,63 @@ const RootNavigator = () => {
         }}
       >
         {isAuthenticated ? (
-          <Stack.Screen name="Main" component={MainNavigator} />
+          <>
+            <Stack.Screen name="Main" component={MainNavigator} />
+            <Stack.Screen
+              name="ProductDetail"
+              component={ProductDetailScreen}
+              options={{
+                headerShown: true,
+                title: 'Product Details',
+                headerTintColor: '#4CAF50',
+              }}
+            />
+            <Stack.Screen
+              name="MealEditor"
+              component={MealEditorScreen}
+              options={({ route }) => ({
+                headerShown: true,
+                title: route.params.mealId ? 'Edit Meal' : 'Add Meal',
+                headerTintColor: '#4CAF50',
+              })}
+            />
+            <Stack.Screen
+              name="PlanBuilder"
+              component={PlanBuilderScreen}
+              options={({ route }) => ({
+                headerShown: true,
+                title: route.params?.planId ? 'Edit Diet Plan' : 'New Diet Plan',
+                headerTintColor: '#4CAF50',
+              })}
+            />
+            <Stack.Screen
+              name="WeekPlanner"
+              component={WeekPlannerScreen}
+              options={{
+                headerShown: true,
+                title: 'Plan My Week',
+                headerTintColor: '#4CAF50',
+              }}
+            />
+            <Stack.Screen
+              name="DietProfile"
+              component={DietProfileScreen}
+              options={{
+                headerShown: true,
+                title: 'What the Assistant Knows',
+                headerTintColor: '#4CAF50',
+              }}
+            />
+            <Stack.Screen
+              name="LogActivity"
+              component={LogActivityScreen}
+              options={{
+                headerShown: true,
+                title: 'Log Activity',
+                headerTintColor: '#4CAF50',
+              }}
+            />
+          </>
         ) : (
           <Stack.Screen name="Auth" component={AuthNavigator} />
         )}
@@ -1,6 +1,14 @@
+import { MealType } from '../contexts/diet/DietContext';
+
 export type RootStackParamList = {
   Auth: undefined;
   Main: undefined;
+  ProductDetail: { productId: string; scanId?: string };
+  MealEditor: { date: string; mealType: MealType; mealId?: string };
+  PlanBuilder: { planId?: string } | undefined;
+  WeekPlanner: { startDate?: string } | undefined;
+  DietProfile: undefined;
+  LogActivity: undefined;
 };
 
 export type AuthStackParamList = {
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { DietProfileItem, DietProfileKind, useDiet } from '../../contexts/diet/DietContext';
+import { PROFILE_KINDS, PROFILE_KIND_LABELS } from '../../services/diet/dietProfile';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/inputs/TextInput';
+import Alert from '../../components/feedback/Alert';
+
+const KIND_OPTIONS: Array<{ value: DietProfileKind; label: string }> = [
+  { value: 'like', label: 'Like' },
+  { value: 'dislike', label: 'Dislike' },
+  { value: 'allergy', label: 'Allergy' },
+  { value: 'goal', label: 'Goal' },
+];
+
+const describeSource = (item: DietProfileItem): string => {
+  if (item.source === 'meals') return `Logged on ${item.evidence} ${item.evidence === 1 ? 'day' : 'days'} this month`;
+  if (item.source === 'chat') return item.evidence > 1 ? `Mentioned ${item.evidence} times in chat` : 'Mentioned in chat';
+  return 'Added by you';
+};
+
+/**
+ * What the diet assistant has learned about the user, for them to review, correct and add to
+ */
+const DietProfileScreen: React.FC = () => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const { dietProfile, addProfileItem, updateProfileItem, removeProfileItem, error, clearError } = useDiet();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [kind, setKind] = useState<DietProfileKind>('like');
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (item: DietProfileItem) => {
+    setEditingId(item.id);
+    setKind(item.kind);
+    setValue(item.value);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setValue('');
+  };
+
+  const handleSave = async () => {
+    if (!value.trim()) return;
+
+    setIsSaving(true);
+    if (editingId) {
+      await updateProfileItem(editingId, { kind, value });
+    } else {
+      await addProfileItem(kind, value);
+    }
+    setIsSaving(false);
+    resetForm();
+  };
+
+  const renderItem = (item: DietProfileItem) => (
+    <View key={item.id} style={[styles.item, item.id === editingId && styles.itemEditing]}>
+      <View style={styles.itemText}>
+        <Typography variant="body1">{item.value}</Typography>
+        <Typography variant="caption" color={theme.colors.textSecondary}>{describeSource(item)}</Typography>
+      </View>
+      <TouchableOpacity onPress={() => startEditing(item)} accessibilityLabel={`Edit ${item.value}`} style={styles.iconButton}>
+        <MaterialIcons name="edit" size={20} color={theme.colors.primary} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => removeProfileItem(item.id)} accessibilityLabel={`Remove ${item.value}`} style={styles.iconButton}>
+        <MaterialIcons name="delete-outline" size={20} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Typography variant="body2" color={theme.colors.textSecondary} style={styles.note}>
+        The assistant uses this to tailor its advice and meal suggestions. It learns from what you tell it
+        and the foods you log often. Edit or remove anything that isn't right.
+      </Typography>
+
+      {PROFILE_KINDS.map(profileKind => {
+        const items = dietProfile.filter(item => item.kind === profileKind);
+        return (
+          <Card key={profileKind}>
+            <Typography variant="h6">{PROFILE_KIND_LABELS[profileKind]}</Typography>
+            {items.length > 0 ? items.map(renderItem) : (
+              <Typography variant="body2" color={theme.colors.textSecondary}>Nothing yet</Typography>
+            )}
+          </Card>
+        );
+      })}
+
+      <Card>
+        <Typography variant="h6">{editingId ? 'Edit' : 'Add'}</Typography>
+        <View style={styles.chips}>
+          {KIND_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, kind === option.value && styles.chipSelected]}
+              onPress={() => setKind(option.value)}
+              accessibilityState={{ selected: kind === option.value }}
+            >
+              <Typography variant="body2" color={kind === option.value ? theme.colors.onPrimary : theme.colors.textPrimary}>
+                {option.label}
+              </Typography>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          label={kind === 'goal' ? 'Goal' : 'Food'}
+          value={value}
+          onChangeText={setValue}
+          placeholder={kind === 'goal' ? 'e.g. Eat more fibre' : 'e.g. Mushrooms'}
+        />
+        <Button label={editingId ? 'Save' : 'Add'} onPress={handleSave} loading={isSaving} disabled={!value.trim()} />
+        {editingId && <Button label="Cancel" variant="text" onPress={resetForm} style={styles.action} />}
+      </Card>
+
+      <Alert
+        visible={!!error}
+        type="error"
+        title="Something went wrong"
+        message={error || ''}
+        onDismiss={clearError}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.m,
+  },
+  note: {
+    marginBottom: theme.spacing.m,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.s,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  itemEditing: {
+    backgroundColor: theme.colors.background,
+  },
+  itemText: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: theme.spacing.s,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.s,
+    marginBottom: theme.spacing.s,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  action: {
+    marginTop: theme.spacing.s,
+  },
+});
+
+export default DietProfileScreen;
@@ -1,41 +1,280 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
-import { useDiet } from '../../contexts/diet/DietContext';
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { ChatMessage, ChatThread, ProposedAction, useDiet } from '../../contexts/diet/DietContext';
+import { RootStackParamList } from '../../navigation/types';
+import { getFoodById } from '../../services/diet/foodDatabase';
+import MealDiary from './MealDiary';
+
+type DietView = 'diary' | 'assistant';
 
 const DietScreen: React.FC = () => {
+  const [view, setView] = useState<DietView>('diary');
   const [message, setMessage] = useState('');
-  const { chatHistory, sendChatMessage, isLoading, clearChatHistory } = useDiet();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const chatScroll = useRef<ScrollView>(null);
+  // Loading older messages adds them above, so the view stays where it is instead of jumping to the end
+  const keepScrollPosition = useRef(false);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const {
+    dietPlans,
+    mealEntries,
+    chatThreads,
+    activeThreadId,
+    chatHistory,
+    hasOlderMessages,
+    streamingReply,
+    createChatThread,
+    selectChatThread,
+    renameChatThread,
+    deleteChatThread,
+    loadOlderMessages,
+    sendChatMessage,
+    editChatMessage,
+    deleteChatMessage,
+    regenerateResponse,
+    isLoading,
+    clearChatHistory,
+    applyProposal,
+    dismissProposal,
+    applyingProposals,
+  } = useDiet();
   
   const handleSendMessage = async () => {
     if (message.trim() === '') return;
     
-    await sendChatMessage(message);
+    if (editingId) {
+      await editChatMessage(editingId, message);
+      setEditingId(null);
+    } else {
+      await sendChatMessage(message);
+    }
     setMessage('');
   };
 
-  return (
-    <View style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>EcoDiet Assistant</Text>
-        <Text style={styles.subtitle}>AI-powered sustainable diet planning</Text>
-        <TouchableOpacity style={styles.clearButton} onPress={clearChatHistory}>
-          <Text style={styles.clearButtonText}>Clear Chat</Text>
-        </TouchableOpacity>
+  const startEditing = (msg: ChatMessage) => {
+    setEditingId(msg.id);
+    setMessage(msg.content);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setMessage('');
+  };
+
+  const handleMessageLongPress = (msg: ChatMessage) => {
+    if (isLoading) return;
+    
+    Alert.alert(msg.sender === 'user' ? 'Your message' : 'Assistant reply', undefined, [
+      msg.sender === 'user'
+        ? { text: 'Edit', onPress: () => startEditing(msg) }
+        : { text: 'Regenerate', onPress: () => regenerateResponse(msg.id) },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteChatMessage(msg.id) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSelectThread = (id: string) => {
+    if (editingId) cancelEditing();
+    selectChatThread(id);
+  };
+
+  const handleThreadLongPress = (thread: ChatThread) => {
+    Alert.alert(thread.title, undefined, [
+      { text: 'Rename', onPress: () => setRenaming({ id: thread.id, title: thread.title }) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => Alert.alert('Delete conversation?', 'Its messages will be deleted too.', [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Delete', style: 'destructive', onPress: () => deleteChatThread(thread.id) },
+        ]),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    
+    await renameChatThread(renaming.id, renaming.title);
+    setRenaming(null);
+  };
+
+  const handleLoadOlder = () => {
+    keepScrollPosition.current = true;
+    loadOlderMessages();
+  };
+
+  /**
+   * A chip opening the meal, plan or food a message is about; nothing when it no longer exists
+   */
+  const renderRelated = (relatedTo: NonNullable<ChatMessage['relatedTo']>) => {
+    let label: string | null = null;
+    let open = () => {};
+    
+    if (relatedTo.type === 'meal') {
+      const meal = mealEntries.find(entry => entry.id === relatedTo.id);
+      if (meal) {
+        label = meal.name;
+        open = () => navigation.navigate('MealEditor', { date: meal.date, mealType: meal.mealType, mealId: meal.id });
+      }
+    } else if (relatedTo.type === 'plan') {
+      const plan = dietPlans.find(item => item.id === relatedTo.id);
+      if (plan) {
+        label = plan.name;
+        open = () => navigation.navigate('PlanBuilder', { planId: plan.id });
+      }
+    } else {
+      const food = getFoodById(relatedTo.id);
+      if (food) {
+        label = food.name;
+        open = () => Alert.alert(
+          food.name,
+          `Per 100 g: ${food.per100g.calories} kcal, ${food.per100g.protein} g protein, ` +
+            `${food.per100g.carbs} g carbs, ${food.per100g.fat} g fat\n` +
+            `Carbon: ${food.kgCO2ePerKg} kg CO2e per kg`
+        );
+      }
+    }
+    
+    if (!label) return null;
+    return (
+      <TouchableOpacity style={styles.relatedChip} onPress={open}>
+        <Text style={styles.relatedChipText}>{`${relatedTo.type === 'meal' ? 'Meal' : relatedTo.type === 'plan' ? 'Plan' : 'Food'}: ${label}`}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderThreads = () => (
+    <View style={styles.threadBar}>
+      {renaming ? (
+        <View style={styles.renameRow}>
+          <TextInput
+            style={styles.renameInput}
+            value={renaming.title}
+            onChangeText={title => setRenaming({ ...renaming, title })}
+            onSubmitEditing={handleRename}
+            autoFocus
+          />
+          <TouchableOpacity style={styles.threadAction} onPress={() => setRenaming(null)}>
+            <Text style={styles.threadActionText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.threadAction} onPress={handleRename}>
+            <Text style={[styles.threadActionText, styles.threadActionPrimary]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.threadList}>
+          <TouchableOpacity style={styles.threadChip} onPress={createChatThread} disabled={isLoading}>
+            <Text style={styles.threadChipText}>+ New</Text>
+          </TouchableOpacity>
+          {chatThreads.map(thread => (
+            <TouchableOpacity
+              key={thread.id}
+              style={[styles.threadChip, thread.id === activeThreadId && styles.activeThreadChip]}
+              onPress={() => handleSelectThread(thread.id)}
+              onLongPress={() => handleThreadLongPress(thread)}
+            >
+              <Text
+                style={[styles.threadChipText, thread.id === activeThreadId && styles.activeThreadChipText]}
+                numberOfLines={1}
+              >
+                {thread.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+
+  const renderProposal = (messageId: string, proposal: ProposedAction) => {
+    const applying = applyingProposals.includes(proposal.id);
+    return (
+      <View key={proposal.id} style={styles.proposalCard}>
+        <Text style={styles.proposalTitle}>
+          {proposal.type === 'add_meal' ? 'Add to diary' : 'Update plan'}
+        </Text>
+        <Text style={styles.proposalSummary}>{proposal.summary}</Text>
+        {proposal.type === 'add_meal' && (
+          <Text style={styles.proposalDetail}>
+            {proposal.meal.foods.map(food => food.name).join(', ')}
+          </Text>
+        )}
+        {proposal.status === 'pending' ? (
+          <View style={styles.proposalActions}>
+            <TouchableOpacity style={styles.dismissButton} onPress={() => dismissProposal(messageId, proposal.id)} disabled={applying}>
+              <Text style={styles.dismissButtonText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.confirmButton, applying && styles.confirmButtonDisabled]}
+              onPress={() => applyProposal(messageId, proposal.id)}
+              disabled={applying}
+            >
+              <Text style={styles.confirmButtonText}>{applying ? 'Saving...' : 'Confirm'}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Text style={styles.proposalStatus}>{proposal.status === 'applied' ? 'Done' : 'Dismissed'}</Text>
+        )}
       </View>
-      
-      <ScrollView style={styles.chatContainer}>
+    );
+  };
+
+  const renderAssistant = () => (
+    <>
+      {renderThreads()}
+      <ScrollView
+        ref={chatScroll}
+        style={styles.chatContainer}
+        onContentSizeChange={() => {
+          if (keepScrollPosition.current) {
+            keepScrollPosition.current = false;
+            return;
+          }
+          chatScroll.current?.scrollToEnd({ animated: true });
+        }}
+      >
+        {hasOlderMessages && (
+          <TouchableOpacity style={styles.loadOlderButton} onPress={handleLoadOlder}>
+            <Text style={styles.loadOlderText}>Load earlier messages</Text>
+          </TouchableOpacity>
+        )}
         {chatHistory.map((msg) => (
-          <View 
-            key={msg.id} 
-            style={[
-              styles.messageBubble, 
-              msg.sender === 'user' ? styles.userMessage : styles.aiMessage
-            ]}
-          >
-            <Text style={styles.messageText}>{msg.content}</Text>
+          <View key={msg.id}>
+            <TouchableOpacity
+              activeOpacity={0.8}
+              onLongPress={() => handleMessageLongPress(msg)}
+              style={[
+                styles.messageBubble, 
+                msg.sender === 'user' ? styles.userMessage : styles.aiMessage,
+                msg.id === editingId && styles.editingMessage
+              ]}
+            >
+              <Text style={styles.messageText}>{msg.content}</Text>
+              {msg.editedAt && <Text style={styles.editedLabel}>edited</Text>}
+            </TouchableOpacity>
+            {msg.relatedTo && (
+              <View style={msg.sender === 'user' ? styles.relatedUser : styles.relatedAi}>
+                {renderRelated(msg.relatedTo)}
+              </View>
+            )}
+            {(msg.proposals || []).map(proposal => renderProposal(msg.id, proposal))}
           </View>
         ))}
-        {chatHistory.length === 0 && (
+        {streamingReply !== null && (
+          <View style={[styles.messageBubble, styles.aiMessage]}>
+            {streamingReply ? (
+              <Text style={styles.messageText}>{streamingReply}</Text>
+            ) : (
+              <ActivityIndicator color="#4CAF50" size="small" />
+            )}
+          </View>
+        )}
+        {chatHistory.length === 0 && streamingReply === null && (
           <View style={styles.welcomeMessage}>
             <Text style={styles.welcomeText}>
               Hello! I'm your EcoDiet assistant. How can I help you with sustainable food choices today?
@@ -43,7 +282,15 @@ const DietScreen: React.FC = () => {
           </View>
         )}
       </ScrollView>
-      
+    
+      {editingId && (
+        <View style={styles.editingBar}>
+          <Text style={styles.editingText}>Editing message. Replies after it will be replaced.</Text>
+          <TouchableOpacity onPress={cancelEditing}>
+            <Text style={styles.threadActionText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
       <View style={styles.inputContainer}>
         <TextInput
           style={styles.input}
@@ -60,10 +307,47 @@ const DietScreen: React.FC = () => {
           </View>
         ) : (
           <TouchableOpacity style={styles.sendButton} onPress={handleSendMessage}>
-            <Text style={styles.sendButtonText}>Send</Text>
+            <Text style={styles.sendButtonText}>{editingId ? 'Save' : 'Send'}</Text>
           </TouchableOpacity>
         )}
       </View>
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{view === 'diary' ? 'EcoDiet Diary' : 'EcoDiet Assistant'}</Text>
+        <Text style={styles.subtitle}>
+          {view === 'diary' ? 'Track your meals against your plan' : 'AI-powered sustainable diet planning'}
+        </Text>
+        {view === 'assistant' && (
+          <>
+            <TouchableOpacity style={styles.profileButton} onPress={() => navigation.navigate('DietProfile')}>
+              <Text style={styles.clearButtonText}>What I Know</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.clearButton} onPress={clearChatHistory}>
+              <Text style={styles.clearButtonText}>Clear Chat</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {(['diary', 'assistant'] as DietView[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.tab, view === option && styles.activeTab]}
+            onPress={() => setView(option)}
+          >
+            <Text style={[styles.tabText, view === option && styles.activeTabText]}>
+              {option === 'diary' ? 'Diary' : 'Assistant'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {view === 'diary' ? <MealDiary /> : renderAssistant()}
     </View>
   );
 };
@@ -94,10 +378,40 @@ const styles = StyleSheet.create({
     bottom: 10,
     padding: 5,
   },
+  profileButton: {
+    position: 'absolute',
+    left: 10,
+    bottom: 10,
+    padding: 5,
+  },
   clearButtonText: {
     color: 'white',
     fontSize: 12,
   },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: '#4CAF50',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  activeTabText: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
   chatContainer: {
     flex: 1,
     padding: 15,
@@ -122,6 +436,174 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  editingMessage: {
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  editedLabel: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'right',
+  },
+  relatedUser: {
+    alignSelf: 'flex-end',
+    marginTop: -4,
+    marginBottom: 10,
+  },
+  relatedAi: {
+    alignSelf: 'flex-start',
+    marginTop: -4,
+    marginBottom: 10,
+  },
+  relatedChip: {
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    backgroundColor: 'white',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  relatedChipText: {
+    fontSize: 13,
+    color: '#4CAF50',
+  },
+  threadBar: {
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  threadList: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  threadChip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    maxWidth: 180,
+  },
+  activeThreadChip: {
+    backgroundColor: '#4CAF50',
+    borderColor: '#4CAF50',
+  },
+  threadChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  activeThreadChipText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  renameInput: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  threadAction: {
+    marginLeft: 10,
+    padding: 5,
+  },
+  threadActionText: {
+    color: '#666',
+  },
+  threadActionPrimary: {
+    color: '#4CAF50',
+    fontWeight: 'bold',
+  },
+  loadOlderButton: {
+    alignSelf: 'center',
+    padding: 8,
+    marginBottom: 10,
+  },
+  loadOlderText: {
+    color: '#4CAF50',
+    fontSize: 14,
+  },
+  editingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    backgroundColor: '#E8F5E9',
+  },
+  editingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+    marginRight: 10,
+  },
+  proposalCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#C8E6C9',
+    padding: 12,
+    marginBottom: 10,
+    maxWidth: '85%',
+    alignSelf: 'flex-start',
+  },
+  proposalTitle: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  proposalSummary: {
+    fontSize: 15,
+    color: '#333',
+  },
+  proposalDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  proposalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
+  confirmButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  confirmButtonDisabled: {
+    opacity: 0.6,
+  },
+  confirmButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  dismissButton: {
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  dismissButtonText: {
+    color: '#666',
+  },
+  proposalStatus: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+    textAlign: 'right',
+  },
   welcomeMessage: {
     backgroundColor: '#E8F5E9',
     padding: 12,
@@ -1,181 +1,476 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity, Share } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { FootprintCategory, useFootprint } from '../../contexts/footprint/FootprintContext';
+import { FOOTPRINT_CATEGORIES, addDays, addMonths, getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { ExportFormat } from '../../services/footprint/exchange';
+import { GoalPeriod } from '../../services/footprint/goals';
+import { RecurrenceFrequency } from '../../services/footprint/recurrence';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/inputs/TextInput';
+import Alert from '../../components/feedback/Alert';
+import { formatCarbon, formatChange, formatWater } from '../../utils/format';
+
+export const CATEGORY_LABELS: Record<FootprintCategory, string> = {
+  transportation: 'Transportation',
+  food: 'Food',
+  housing: 'Home Energy',
+  products: 'Products',
+  services: 'Services',
+  other: 'Other',
+};
+
+const CATEGORY_COLORS: Record<FootprintCategory, string> = {
+  transportation: '#FF9800',
+  food: '#4CAF50',
+  housing: '#2196F3',
+  products: '#9C27B0',
+  services: '#00BCD4',
+  other: '#9E9E9E',
+};
+
+export const REPEAT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Every day',
+  weekdays: 'Weekdays',
+  weekly: 'Every week',
+  monthly: 'Every month',
+};
+
+const EXPORTS: Array<{ format: ExportFormat; label: string; title: string }> = [
+  { format: 'csv', label: 'Export entries (CSV)', title: 'Carbon footprint entries' },
+  { format: 'report', label: 'Share emissions report', title: 'Carbon footprint report' },
+];
+
+const WATER_COLOR = '#2196F3';
+
+const GOAL_PERIODS: Array<{ period: GoalPeriod; label: string }> = [
+  { period: 'month', label: 'Monthly' },
+  { period: 'year', label: 'Yearly' },
+];
 
 const FootprintScreen: React.FC = () => {
-  return (
-    <ScrollView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>Carbon Footprint</Text>
-        <Text style={styles.subtitle}>Track your environmental impact</Text>
-      </View>
-      
-      <View style={styles.summaryCard}>
-        <Text style={styles.summaryTitle}>Your Carbon Footprint</Text>
-        <Text style={styles.summaryValue}>2.3 tons CO₂e</Text>
-        <Text style={styles.summaryDescription}>15% below average</Text>
-        <View style={styles.progressContainer}>
-          <View style={[styles.progressBar, { width: '65%' }]} />
-        </View>
-        <Text style={styles.progressText}>Goal: 2.0 tons CO₂e</Text>
-      </View>
-      
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Breakdown</Text>
-        
-        <View style={styles.categoryCard}>
-          <View style={styles.categoryHeader}>
-            <Text style={styles.categoryTitle}>Food</Text>
-            <Text style={styles.categoryValue}>0.8 tons</Text>
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const {
+    entries,
+    summary,
+    goals,
+    goalProgress,
+    setGoal,
+    removeGoal,
+    templates,
+    series,
+    addEntryFromTemplate,
+    deleteTemplate,
+    deleteSeries,
+    isLoading,
+    error,
+    clearError,
+    exportFootprint,
+  } = useFootprint();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [budgetPeriod, setBudgetPeriod] = useState<GoalPeriod>('month');
+  const [budgetText, setBudgetText] = useState('');
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  // Budgets set here cover all categories
+  const overallGoals = goals.filter(item => !item.category);
+  const budget = Number(budgetText.replace(',', '.'));
+  const budgetValid = budgetText.trim() !== '' && Number.isFinite(budget) && budget > 0;
+
+  const yearTotal = summary.rolling.year.total;
+  const yearWater = summary.water.rolling.year.total;
+  const breakdown = FOOTPRINT_CATEGORIES
+    .map(category => ({
+      category,
+      amount: summary.rolling.year.byCategory[category],
+      water: summary.water.rolling.year.byCategory[category],
+    }))
+    .filter(item => item.amount > 0 || item.water > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+  // The overall budget for the year, or failing that for the month
+  const goal =
+    goalProgress.find(progress => !progress.category && progress.period === 'year') ||
+    goalProgress.find(progress => !progress.category && progress.period === 'month');
+
+  // Exports cover the same 12 months as the summary
+  const handleExport = async (format: ExportFormat, title: string) => {
+    const endDate = toLocalDate(Date.now(), getDeviceTimeZone());
+    const startDate = addDays(addMonths(endDate, -12), 1);
+
+    setExporting(format);
+    try {
+      const content = await exportFootprint(format, startDate, endDate);
+      if (content) {
+        await Share.share({ title, message: content });
+      }
+    } catch (shareError) {
+      console.error('Error sharing footprint export:', shareError);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const selectBudgetPeriod = (period: GoalPeriod) => {
+    setBudgetPeriod(period);
+    const existing = overallGoals.find(item => item.period === period);
+    setBudgetText(existing ? String(existing.budget) : '');
+  };
+
+  const handleSaveBudget = async () => {
+    if (!budgetValid) return;
+
+    setSavingBudget(true);
+    await setGoal({ period: budgetPeriod, budget });
+    setSavingBudget(false);
+    setBudgetText('');
+  };
+
+  const renderRegular = () => (
+    <View style={styles.section}>
+      <Typography variant="h6" style={styles.sectionTitle}>Regular Activities</Typography>
+      <Card>
+        {templates.map(template => (
+          <View key={template.id} style={styles.budgetRow}>
+            <View style={styles.budgetLabel}>
+              <Typography variant="body1">{template.name}</Typography>
+              <Typography variant="caption" color={theme.colors.textSecondary}>{formatCarbon(template.carbonAmount)}</Typography>
+            </View>
+            <TouchableOpacity
+              onPress={() => addEntryFromTemplate(template.id, toLocalDate(Date.now(), getDeviceTimeZone()))}
+              accessibilityLabel={`Log ${template.name} today`}
+              style={styles.iconButton}
+            >
+              <MaterialIcons name="add-circle-outline" size={20} color={theme.colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => deleteTemplate(template.id)} accessibilityLabel={`Delete ${template.name}`} style={styles.iconButton}>
+              <MaterialIcons name="delete-outline" size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
           </View>
-          <View style={styles.progressContainer}>
-            <View style={[styles.progressBar, { width: '35%', backgroundColor: '#4CAF50' }]} />
+        ))}
+        {series.map(item => (
+          <View key={item.id} style={styles.budgetRow}>
+            <View style={styles.budgetLabel}>
+              <Typography variant="body1">{item.description || CATEGORY_LABELS[item.category]}</Typography>
+              <Typography variant="caption" color={theme.colors.textSecondary}>
+                {`${REPEAT_LABELS[item.rule.frequency]} · ${formatCarbon(item.carbonAmount)}`}
+              </Typography>
+            </View>
+            {/* Stopping keeps what was already logged */}
+            <TouchableOpacity onPress={() => deleteSeries(item.id)} accessibilityLabel="Stop repeating" style={styles.iconButton}>
+              <MaterialIcons name="stop-circle" size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
           </View>
-        </View>
-        
-        <View style={styles.categoryCard}>
-          <View style={styles.categoryHeader}>
-            <Text style={styles.categoryTitle}>Transportation</Text>
-            <Text style={styles.categoryValue}>1.2 tons</Text>
+        ))}
+        {templates.length === 0 && series.length === 0 && (
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Save an activity as a template or set it to repeat when you log it.
+          </Typography>
+        )}
+        <Button label="Log activity" onPress={() => navigation.navigate('LogActivity')} style={styles.logButton} />
+      </Card>
+    </View>
+  );
+
+  const renderBudget = () => (
+    <View style={styles.section}>
+      <Typography variant="h6" style={styles.sectionTitle}>Carbon Budget</Typography>
+      <Card>
+        {overallGoals.map(item => (
+          <View key={item.id} style={styles.budgetRow}>
+            <Typography variant="body1" style={styles.budgetLabel}>
+              {`${item.period === 'year' ? 'Yearly' : 'Monthly'}: ${formatCarbon(item.budget)}`}
+            </Typography>
+            <TouchableOpacity
+              onPress={() => removeGoal(item.id)}
+              accessibilityLabel={`Remove ${item.period === 'year' ? 'yearly' : 'monthly'} budget`}
+              style={styles.iconButton}
+            >
+              <MaterialIcons name="delete-outline" size={20} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
           </View>
+        ))}
+        <View style={styles.chips}>
+          {GOAL_PERIODS.map(({ period, label }) => (
+            <TouchableOpacity
+              key={period}
+              style={[styles.chip, budgetPeriod === period && styles.chipSelected]}
+              onPress={() => selectBudgetPeriod(period)}
+              accessibilityState={{ selected: budgetPeriod === period }}
+            >
+              <Typography variant="body2" color={budgetPeriod === period ? theme.colors.onPrimary : theme.colors.textPrimary}>
+                {label}
+              </Typography>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TextInput
+          label="Budget (kg CO₂e)"
+          value={budgetText}
+          onChangeText={setBudgetText}
+          keyboardType="decimal-pad"
+          placeholder={budgetPeriod === 'year' ? 'e.g. 4000' : 'e.g. 350'}
+        />
+        <Button
+          label={overallGoals.some(item => item.period === budgetPeriod) ? 'Update budget' : 'Set budget'}
+          onPress={handleSaveBudget}
+          loading={savingBudget}
+          disabled={!budgetValid}
+        />
+      </Card>
+    </View>
+  );
+
+  const renderExports = () => (
+    <View style={styles.section}>
+      <Typography variant="h6" style={styles.sectionTitle}>Your Data</Typography>
+      {EXPORTS.map(({ format, label, title }) => (
+        <TouchableOpacity
+          key={format}
+          style={styles.exportButton}
+          onPress={() => handleExport(format, title)}
+          disabled={exporting !== null}
+          accessibilityRole="button"
+        >
+          <Typography variant="body1">{label}</Typography>
+          {exporting === format && <ActivityIndicator color={theme.colors.primary} />}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderSummary = () => (
+    <Card elevation={3} style={styles.summaryCard}>
+      <Typography variant="h6">Your Carbon Footprint</Typography>
+      <Typography variant="caption" color={theme.colors.textSecondary}>Over the last 12 months</Typography>
+      <View style={styles.metrics}>
+        <View style={styles.metric}>
+          <Typography variant="h4" color={theme.colors.primary} style={styles.summaryValue}>
+            {formatCarbon(yearTotal)}
+          </Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            {formatChange(summary.trends.month.total.changePercent, 'the month before')}
+          </Typography>
+        </View>
+        <View style={styles.metric}>
+          <Typography variant="h4" color={WATER_COLOR} style={styles.summaryValue}>
+            {formatWater(yearWater)}
+          </Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            {formatChange(summary.water.trends.month.total.changePercent, 'the month before')}
+          </Typography>
+        </View>
+      </View>
+
+      {goal ? (
+        <View style={styles.goal}>
           <View style={styles.progressContainer}>
-            <View style={[styles.progressBar, { width: '52%', backgroundColor: '#FF9800' }]} />
+            <View
+              style={[
+                styles.progressBar,
+                {
+                  width: `${Math.min(100, goal.percentUsed)}%`,
+                  backgroundColor: goal.status === 'on_track' ? theme.colors.success : goal.status === 'at_risk' ? theme.colors.warning : theme.colors.error,
+                },
+              ]}
+            />
           </View>
+          <Typography variant="caption" color={theme.colors.textSecondary} style={styles.goalText}>
+            {`${goal.period === 'year' ? 'Yearly' : 'Monthly'} goal: ${formatCarbon(goal.budget)} · on pace for ${formatCarbon(goal.projected)}`}
+          </Typography>
         </View>
-        
-        <View style={styles.categoryCard}>
+      ) : (
+        <Typography variant="caption" color={theme.colors.textSecondary} style={styles.goalText}>
+          No carbon budget set
+        </Typography>
+      )}
+    </Card>
+  );
+
+  const renderBreakdown = () => (
+    <View style={styles.section}>
+      <Typography variant="h6" style={styles.sectionTitle}>Breakdown</Typography>
+      {breakdown.map(({ category, amount, water }) => (
+        <Card key={category}>
           <View style={styles.categoryHeader}>
-            <Text style={styles.categoryTitle}>Home Energy</Text>
-            <Text style={styles.categoryValue}>0.3 tons</Text>
+            <Typography variant="subtitle2">{CATEGORY_LABELS[category]}</Typography>
+            <Typography variant="subtitle2">{formatCarbon(amount)}</Typography>
           </View>
           <View style={styles.progressContainer}>
-            <View style={[styles.progressBar, { width: '13%', backgroundColor: '#2196F3' }]} />
+            <View
+              style={[
+                styles.progressBar,
+                { width: `${yearTotal > 0 ? (amount / yearTotal) * 100 : 0}%`, backgroundColor: CATEGORY_COLORS[category] },
+              ]}
+            />
           </View>
-        </View>
+          {water > 0 && (
+            <Typography variant="caption" color={theme.colors.textSecondary}>{formatWater(water)}</Typography>
+          )}
+        </Card>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Typography variant="h5" color={theme.colors.onPrimary} bold>Carbon Footprint</Typography>
+        <Typography variant="subtitle1" color={theme.colors.onPrimary}>Track your environmental impact</Typography>
       </View>
-      
+
+      {isLoading && entries.length === 0 ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+      ) : entries.length === 0 ? (
+        <Card style={styles.summaryCard}>
+          <Typography variant="subtitle2">No activities logged yet</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Log your travel, meals and energy use to see where your footprint comes from.
+          </Typography>
+        </Card>
+      ) : (
+        <>
+          {renderSummary()}
+          {breakdown.length > 0 && renderBreakdown()}
+          {renderExports()}
+        </>
+      )}
+
+      {renderRegular()}
+      {renderBudget()}
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Tips to Reduce</Text>
-        <View style={styles.tipCard}>
-          <Text style={styles.tipTitle}>Eat more plant-based meals</Text>
-          <Text style={styles.tipDescription}>Reducing meat consumption by 50% can lower your food carbon footprint by up to 40%.</Text>
-        </View>
-        <View style={styles.tipCard}>
-          <Text style={styles.tipTitle}>Use public transportation</Text>
-          <Text style={styles.tipDescription}>Taking the bus instead of driving can reduce your transportation emissions by up to 60%.</Text>
-        </View>
+        <Typography variant="h6" style={styles.sectionTitle}>Tips to Reduce</Typography>
+        <Card>
+          <Typography variant="subtitle2">Eat more plant-based meals</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Reducing meat consumption by 50% can lower your food carbon footprint by up to 40%.
+          </Typography>
+        </Card>
+        <Card>
+          <Typography variant="subtitle2">Use public transportation</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Taking the bus instead of driving can reduce your transportation emissions by up to 60%.
+          </Typography>
+        </Card>
       </View>
+
+      <Alert
+        visible={!!error}
+        type="error"
+        title="Something went wrong"
+        message={error || ''}
+        onDismiss={clearError}
+      />
     </ScrollView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: any) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: theme.colors.background,
   },
   header: {
-    padding: 20,
-    backgroundColor: '#4CAF50',
+    padding: theme.spacing.l,
+    backgroundColor: theme.colors.primary,
     alignItems: 'center',
   },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: 'white',
+  summaryCard: {
+    margin: theme.spacing.m,
   },
-  subtitle: {
-    fontSize: 16,
-    color: 'white',
-    marginTop: 5,
+  summaryValue: {
+    marginVertical: theme.spacing.s,
   },
-  summaryCard: {
-    margin: 15,
-    padding: 20,
-    backgroundColor: 'white',
-    borderRadius: 10,
-    elevation: 3,
+  metrics: {
+    flexDirection: 'row',
   },
-  summaryTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: '#333',
+  metric: {
+    flex: 1,
+    marginRight: theme.spacing.s,
   },
-  summaryValue: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    color: '#4CAF50',
-    marginVertical: 10,
+  goal: {
+    marginTop: theme.spacing.m,
   },
-  summaryDescription: {
-    fontSize: 16,
-    color: '#666',
-    marginBottom: 15,
+  goalText: {
+    textAlign: 'right',
+    marginTop: theme.spacing.xs,
   },
   progressContainer: {
     height: 10,
-    backgroundColor: '#E0E0E0',
+    backgroundColor: theme.colors.divider,
     borderRadius: 5,
-    marginVertical: 5,
+    marginVertical: theme.spacing.xs,
   },
   progressBar: {
     height: 10,
-    backgroundColor: '#4CAF50',
     borderRadius: 5,
   },
-  progressText: {
-    fontSize: 14,
-    color: '#666',
-    textAlign: 'right',
-  },
   section: {
-    padding: 15,
-    marginBottom: 10,
+    padding: theme.spacing.m,
+    paddingTop: 0,
   },
   sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    color: '#333',
-  },
-  categoryCard: {
-    backgroundColor: 'white',
-    borderRadius: 8,
-    padding: 15,
-    marginBottom: 10,
-    elevation: 2,
+    marginBottom: theme.spacing.xs,
   },
   categoryHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 10,
-  },
-  categoryTitle: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  categoryValue: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  tipCard: {
-    backgroundColor: 'white',
-    borderRadius: 8,
-    padding: 15,
-    marginBottom: 10,
-    elevation: 2,
-  },
-  tipTitle: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#333',
-    marginBottom: 5,
-  },
-  tipDescription: {
-    fontSize: 14,
-    color: '#666',
+    marginBottom: theme.spacing.s,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.shape.borderRadius.small,
+    padding: theme.spacing.m,
+    marginBottom: theme.spacing.s,
+  },
+  budgetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  budgetLabel: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  logButton: {
+    marginTop: theme.spacing.s,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: theme.spacing.s,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.s,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  loading: {
+    marginVertical: theme.spacing.l,
   },
 });
 
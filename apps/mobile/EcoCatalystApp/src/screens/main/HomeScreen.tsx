@@ -1,97 +1,201 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import React, { useContext, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { AuthContext } from '../../contexts/AuthContext';
+import { useFootprint } from '../../contexts/footprint/FootprintContext';
+import { Product, useProducts } from '../../contexts/products/ProductsContext';
+import { Achievement, useGamification } from '../../contexts/gamification/GamificationContext';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Alert from '../../components/feedback/Alert';
+import { formatCarbon, formatChange } from '../../utils/format';
+
+const RECENT_SCAN_COUNT = 3;
 
 const HomeScreen: React.FC = () => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const { user } = useContext(AuthContext);
+  const { summary, entries, isLoading: footprintLoading, error: footprintError, clearError: clearFootprintError } = useFootprint();
+  const {
+    products,
+    recentScans,
+    getProductById,
+    isLoading: productsLoading,
+    error: productsError,
+    clearError: clearProductsError,
+  } = useProducts();
+  const {
+    achievements,
+    getCompletedAchievements,
+    getInProgressAchievements,
+    error: gamificationError,
+    clearError: clearGamificationError,
+  } = useGamification();
+
+  const currentError = [
+    { message: footprintError, clear: clearFootprintError },
+    { message: productsError, clear: clearProductsError },
+    { message: gamificationError, clear: clearGamificationError },
+  ].find(item => item.message);
+
+  // Products found outside the database, like Open Food Facts, drop out of the products list when it syncs
+  const [lookedUp, setLookedUp] = useState<Record<string, Product>>({});
+  const recent = recentScans.slice(0, RECENT_SCAN_COUNT);
+  const findScanned = (productId: string): Product | null => {
+    return products.find(product => product.id === productId) || lookedUp[productId] || null;
+  };
+
+  useEffect(() => {
+    const missing = recent.map(scan => scan.productId).filter(productId => !findScanned(productId));
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(missing.map(productId => getProductById(productId))).then(found => {
+      if (cancelled) return;
+      const resolved = found.filter((product): product is Product => !!product);
+      if (resolved.length === 0) return;
+      setLookedUp(prev => resolved.reduce((all, product) => ({ ...all, [product.id]: product }), prev));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [recentScans, products]);
+
+  const scans = recent.map(scan => ({
+    scan,
+    product: findScanned(scan.productId),
+  }));
+
+  const completed = getCompletedAchievements()
+    .sort((a, b) => b.completedAt - a.completedAt)
+    .map(userAchievement => achievements.find(achievement => achievement.id === userAchievement.achievementId))
+    .filter((achievement): achievement is Achievement => !!achievement);
+  const nextUp = getInProgressAchievements().sort((a, b) => b.userAchievement.progress - a.userAchievement.progress)[0];
+
+  const renderLoading = () => (
+    <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+  );
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>EcoCatalyst</Text>
-        <Text style={styles.subtitle}>Accelerating Green Decisions</Text>
+        <Typography variant="h4" color={theme.colors.onPrimary} bold>EcoCatalyst</Typography>
+        <Typography variant="subtitle1" color={theme.colors.onPrimary}>
+          {user?.displayName ? `Welcome back, ${user.displayName}` : 'Accelerating Green Decisions'}
+        </Typography>
       </View>
-      
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Your Impact</Text>
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>Carbon Footprint</Text>
-          <Text style={styles.cardValue}>2.3 tons</Text>
-          <Text style={styles.cardDescription}>15% below average</Text>
-        </View>
+        <Typography variant="h6" style={styles.sectionTitle}>Your Impact</Typography>
+        {footprintLoading && entries.length === 0 ? renderLoading() : (
+          <Card>
+            <Typography variant="subtitle2">Carbon footprint this month</Typography>
+            <Typography variant="h4" color={theme.colors.primary} style={styles.value}>
+              {formatCarbon(summary.calendar.month.total)}
+            </Typography>
+            <Typography variant="body2" color={theme.colors.textSecondary}>
+              {entries.length === 0
+                ? 'Log an activity to start tracking your footprint.'
+                : formatChange(summary.trends.month.total.changePercent, 'the month before')}
+            </Typography>
+          </Card>
+        )}
       </View>
-      
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Recent Scans</Text>
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>Organic Tomatoes</Text>
-          <Text style={styles.cardDescription}>Sustainability Score: 8.5/10</Text>
-        </View>
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>Plastic Water Bottle</Text>
-          <Text style={styles.cardDescription}>Sustainability Score: 3.2/10</Text>
-        </View>
+        <Typography variant="h6" style={styles.sectionTitle}>Recent Scans</Typography>
+        {productsLoading && recentScans.length === 0 ? renderLoading() : scans.length === 0 ? (
+          <Card>
+            <Typography variant="body2" color={theme.colors.textSecondary}>
+              No scans yet. Scan a product barcode to see how sustainable it is.
+            </Typography>
+          </Card>
+        ) : (
+          scans.map(({ scan, product }) => (
+            <Card
+              key={scan.id}
+              pressable={!!product}
+              onPress={() => product && navigation.navigate('ProductDetail', { productId: product.id, scanId: scan.id })}
+              accessibilityLabel={product ? `View ${product.name}` : undefined}
+            >
+              <Typography variant="subtitle2">{product ? product.name : 'Unknown product'}</Typography>
+              <Typography variant="body2" color={theme.colors.textSecondary}>
+                {product
+                  ? `Sustainability Score: ${Math.round(product.sustainabilityScore)}/100`
+                  : `Scanned ${new Date(scan.timestamp).toLocaleDateString()}`}
+              </Typography>
+            </Card>
+          ))
+        )}
       </View>
-      
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Achievements</Text>
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>Green Beginner</Text>
-          <Text style={styles.cardDescription}>Completed 5 sustainable actions</Text>
-        </View>
+        <Typography variant="h6" style={styles.sectionTitle}>Achievements</Typography>
+        {completed.length === 0 && !nextUp ? (
+          <Card>
+            <Typography variant="body2" color={theme.colors.textSecondary}>
+              Scan products and log sustainable choices to earn your first achievement.
+            </Typography>
+          </Card>
+        ) : (
+          <>
+            {completed.slice(0, 2).map(achievement => (
+              <Card key={achievement.id}>
+                <Typography variant="subtitle2">{achievement.title}</Typography>
+                <Typography variant="body2" color={theme.colors.textSecondary}>{achievement.description}</Typography>
+              </Card>
+            ))}
+            {nextUp && (
+              <Card>
+                <Typography variant="subtitle2">{nextUp.achievement.title}</Typography>
+                <Typography variant="body2" color={theme.colors.textSecondary}>
+                  {`${nextUp.userAchievement.progress}% complete`}
+                </Typography>
+              </Card>
+            )}
+          </>
+        )}
       </View>
+
+      <Alert
+        visible={!!currentError}
+        type="error"
+        title="Something went wrong"
+        message={currentError?.message || ''}
+        onDismiss={() => currentError?.clear()}
+      />
     </ScrollView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: any) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: theme.colors.background,
   },
   header: {
-    padding: 20,
-    backgroundColor: '#4CAF50',
+    padding: theme.spacing.l,
+    backgroundColor: theme.colors.primary,
     alignItems: 'center',
   },
-  title: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: 'white',
-  },
-  subtitle: {
-    fontSize: 16,
-    color: 'white',
-    marginTop: 5,
-  },
   section: {
-    padding: 15,
-    marginBottom: 10,
+    padding: theme.spacing.m,
+    paddingBottom: 0,
   },
   sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    color: '#333',
-  },
-  card: {
-    backgroundColor: 'white',
-    borderRadius: 8,
-    padding: 15,
-    marginBottom: 10,
-    elevation: 2,
-  },
-  cardTitle: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#333',
+    marginBottom: theme.spacing.xs,
   },
-  cardValue: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#4CAF50',
-    marginVertical: 5,
+  value: {
+    marginVertical: theme.spacing.xs,
   },
-  cardDescription: {
-    fontSize: 14,
-    color: '#666',
+  loading: {
+    marginVertical: theme.spacing.m,
   },
 });
 
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { FootprintCategory, useFootprint } from '../../contexts/footprint/FootprintContext';
+import { usePreferences } from '../../contexts/preferences/PreferencesContext';
+import { EmissionCalculation, calculateEmissions, defaultUnitFor, listEmissionFactors } from '../../services/footprint/emissionFactors';
+import { EntryDetails, RecurrenceFrequency } from '../../services/footprint/recurrence';
+import { FOOTPRINT_CATEGORIES, getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/inputs/TextInput';
+import Alert from '../../components/feedback/Alert';
+import { formatCarbon } from '../../utils/format';
+import { CATEGORY_LABELS, REPEAT_LABELS } from './FootprintScreen';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'LogActivity'>;
+
+const REPEAT_OPTIONS: Array<RecurrenceFrequency | 'once'> = ['once', 'daily', 'weekdays', 'weekly', 'monthly'];
+
+/**
+ * Log an activity once or on a schedule, optionally keeping it as a template to log again later
+ */
+const LogActivityScreen: React.FC<Props> = ({ navigation }) => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const { preferences } = usePreferences();
+  const { addActivityEntry, addRecurringEntry, saveTemplate, error, clearError } = useFootprint();
+
+  const [category, setCategory] = useState<FootprintCategory>('transportation');
+  const [activityType, setActivityType] = useState<string | null>(null);
+  const [quantityText, setQuantityText] = useState('');
+  const [description, setDescription] = useState('');
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | 'once'>('once');
+  const [templateName, setTemplateName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const factors = listEmissionFactors(category);
+  const factor = factors.find(item => item.activityType === activityType) || null;
+  const unit = factor ? defaultUnitFor(factor.dimension, preferences.measurementUnit) : null;
+  const quantity = Number(quantityText.replace(',', '.'));
+
+  let calculation: EmissionCalculation | null = null;
+  if (factor && quantityText.trim() !== '' && Number.isFinite(quantity) && quantity > 0) {
+    try {
+      calculation = calculateEmissions({ category, activityType: factor.activityType, quantity }, preferences.measurementUnit);
+    } catch (calculationError) {
+      calculation = null;
+    }
+  }
+
+  const selectCategory = (value: FootprintCategory) => {
+    setCategory(value);
+    setActivityType(null);
+  };
+
+  const handleSave = async () => {
+    if (!factor || !calculation) return;
+
+    setIsSaving(true);
+    const today = toLocalDate(Date.now(), getDeviceTimeZone());
+    const details: EntryDetails = {
+      category,
+      activityType: factor.activityType,
+      carbonAmount: calculation.carbonAmount,
+      quantity: calculation.quantity,
+      unit: calculation.unit,
+      emissionFactor: calculation.factor,
+      ...(description.trim() ? { description: description.trim() } : {}),
+    };
+
+    if (repeat === 'once') {
+      await addActivityEntry({
+        category,
+        activityType: factor.activityType,
+        quantity,
+        date: today,
+        ...(description.trim() ? { description: description.trim() } : {}),
+      });
+    } else {
+      // Occurrences up to today are logged straight away, later ones as their days come
+      await addRecurringEntry(details, { frequency: repeat, startDate: today });
+    }
+    if (templateName.trim()) {
+      await saveTemplate({ ...details, name: templateName.trim() });
+    }
+    setIsSaving(false);
+    navigation.goBack();
+  };
+
+  const renderChips = <T extends string>(options: T[], selected: T | null, label: (value: T) => string, onSelect: (value: T) => void) => (
+    <View style={styles.chips}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+          accessibilityState={{ selected: selected === option }}
+        >
+          <Typography variant="body2" color={selected === option ? theme.colors.onPrimary : theme.colors.textPrimary}>
+            {label(option)}
+          </Typography>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card>
+        <Typography variant="h6">Activity</Typography>
+        {renderChips(FOOTPRINT_CATEGORIES, category, value => CATEGORY_LABELS[value], selectCategory)}
+        {renderChips(
+          factors.map(item => item.activityType),
+          activityType,
+          value => factors.find(item => item.activityType === value)!.label,
+          setActivityType
+        )}
+        {factor && unit && (
+          <TextInput
+            label={`Amount (${unit})`}
+            value={quantityText}
+            onChangeText={setQuantityText}
+            keyboardType="decimal-pad"
+          />
+        )}
+        <TextInput label="Note" value={description} onChangeText={setDescription} placeholder="Optional" />
+        {calculation && (
+          <Typography variant="subtitle2" color={theme.colors.primary}>{formatCarbon(calculation.carbonAmount)}</Typography>
+        )}
+      </Card>
+
+      <Card>
+        <Typography variant="h6">Repeat</Typography>
+        {renderChips(REPEAT_OPTIONS, repeat, value => (value === 'once' ? 'Just today' : REPEAT_LABELS[value]), setRepeat)}
+        <TextInput
+          label="Save as template"
+          value={templateName}
+          onChangeText={setTemplateName}
+          placeholder="Name it to log it again in one tap"
+        />
+      </Card>
+
+      <Button
+        label={repeat === 'once' ? 'Log activity' : 'Start repeating'}
+        onPress={handleSave}
+        loading={isSaving}
+        disabled={!calculation}
+        style={styles.action}
+      />
+
+      <Alert
+        visible={!!error}
+        type="error"
+        title="Something went wrong"
+        message={error || ''}
+        onDismiss={clearError}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.m,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: theme.spacing.s,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.s,
+    marginBottom: theme.spacing.s,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  action: {
+    marginTop: theme.spacing.s,
+  },
+});
+
+export default LogActivityScreen;
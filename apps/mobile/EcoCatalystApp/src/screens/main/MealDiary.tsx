@@ -0,0 +1,436 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { FoodItem, MealEntry, MealType, useDiet } from '../../contexts/diet/DietContext';
+import { MEAL_TYPES, Macro, groupByMealType, progressAgainstPlan, sumMeals } from '../../services/diet/nutrition';
+import { checkFoodItems, describeViolation } from '../../services/diet/restrictions';
+import { addDays, getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import Alert from '../../components/feedback/Alert';
+
+export const MEAL_TYPE_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snacks',
+};
+
+export const MACRO_LABELS: Record<Macro, { label: string; unit: string }> = {
+  calories: { label: 'Calories', unit: 'kcal' },
+  protein: { label: 'Protein', unit: 'g' },
+  carbs: { label: 'Carbs', unit: 'g' },
+  fat: { label: 'Fat', unit: 'g' },
+};
+
+const formatDay = (date: string, today: string): string => {
+  if (date === today) return 'Today';
+  if (date === addDays(today, -1)) return 'Yesterday';
+  if (date === addDays(today, 1)) return 'Tomorrow';
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+/**
+ * Daily meal diary: meals grouped by type, totals against the diet plan, and AI suggestions
+ */
+const MealDiary: React.FC = () => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const {
+    currentPlan,
+    dietPlans,
+    setActivePlan,
+    mealEntries,
+    getMealsByDate,
+    getMealsByDateRange,
+    addMealEntry,
+    generateMealSuggestion,
+    dietRules,
+    isLoading,
+    error,
+    clearError,
+  } = useDiet();
+
+  const today = toLocalDate(Date.now(), getDeviceTimeZone());
+  const [date, setDate] = useState(today);
+  const [suggestion, setSuggestion] = useState<MealEntry | null>(null);
+  const [suggesting, setSuggesting] = useState<MealType | null>(null);
+  const [weekAverage, setWeekAverage] = useState<number | null>(null);
+  const [showPlans, setShowPlans] = useState(false);
+
+  const meals = getMealsByDate(date);
+  const groups = groupByMealType(meals);
+  const totals = sumMeals(meals);
+  const progress = progressAgainstPlan(totals, currentPlan);
+
+  // Average calories over the days logged in the week ending on the selected day
+  useEffect(() => {
+    let cancelled = false;
+    getMealsByDateRange(addDays(date, -6), date).then(weekMeals => {
+      if (cancelled) return;
+      const days = new Set(weekMeals.map(meal => meal.date)).size;
+      setWeekAverage(days > 0 ? sumMeals(weekMeals).calories / days : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, mealEntries]);
+
+  const changeDay = (days: number) => {
+    setDate(current => addDays(current, days));
+    setSuggestion(null);
+  };
+
+  const handleSuggest = async (mealType: MealType) => {
+    setSuggesting(mealType);
+    setSuggestion(await generateMealSuggestion(mealType, date));
+    setSuggesting(null);
+  };
+
+  const handleAcceptSuggestion = async () => {
+    if (!suggestion) return;
+    const { id, userId, createdAt, updatedAt, ...meal } = suggestion;
+    if (await addMealEntry(meal)) {
+      setSuggestion(null);
+    }
+  };
+
+  const handleSwitchPlan = async (planId: string) => {
+    await setActivePlan(planId);
+    setShowPlans(false);
+  };
+
+  const renderPlan = () => {
+    if (!currentPlan) {
+      return (
+        <Card style={styles.planCard}>
+          <Typography variant="subtitle2">No diet plan yet</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Build a plan to get calorie and macro targets that fit you.
+          </Typography>
+          <Button label="Create a plan" size="small" onPress={() => navigation.navigate('PlanBuilder')} style={styles.planButton} />
+        </Card>
+      );
+    }
+
+    const otherPlans = dietPlans.filter(plan => plan.id !== currentPlan.id && plan.endDate >= today);
+    return (
+      <Card style={styles.planCard}>
+        <View style={styles.planRow}>
+          <View style={styles.mealInfo}>
+            <Typography variant="overline" color={theme.colors.textSecondary}>Current plan</Typography>
+            <Typography variant="subtitle2">{currentPlan.name}</Typography>
+          </View>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('PlanBuilder', { planId: currentPlan.id })}
+            accessibilityLabel="Edit plan"
+            style={styles.iconButton}
+          >
+            <MaterialIcons name="edit" size={20} color={theme.colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('WeekPlanner', { startDate: date })}
+            accessibilityLabel="Plan my week"
+            style={styles.iconButton}
+          >
+            <MaterialIcons name="date-range" size={20} color={theme.colors.primary} />
+          </TouchableOpacity>
+          {otherPlans.length > 0 && (
+            <TouchableOpacity
+              onPress={() => setShowPlans(!showPlans)}
+              accessibilityLabel="Switch plan"
+              style={styles.iconButton}
+            >
+              <MaterialIcons name="swap-horiz" size={20} color={theme.colors.primary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => navigation.navigate('PlanBuilder')}
+            accessibilityLabel="New plan"
+            style={styles.iconButton}
+          >
+            <MaterialIcons name="add" size={20} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
+        {showPlans && otherPlans.map(plan => (
+          <View key={plan.id} style={styles.planOption}>
+            <View style={styles.mealInfo}>
+              <Typography variant="body2">{plan.name}</Typography>
+              <Typography variant="caption" color={theme.colors.textSecondary}>
+                {`${plan.startDate} to ${plan.endDate} · ${plan.calorieTarget} kcal`}
+              </Typography>
+            </View>
+            <Button label="Use" variant="outlined" size="small" onPress={() => handleSwitchPlan(plan.id)} />
+          </View>
+        ))}
+      </Card>
+    );
+  };
+
+  const renderTotals = () => (
+    <Card elevation={3} style={styles.totalsCard}>
+      <Typography variant="h6">{`${Math.round(totals.calories)} kcal`}</Typography>
+      {weekAverage !== null && (
+        <Typography variant="caption" color={theme.colors.textSecondary}>
+          {`7-day average: ${Math.round(weekAverage)} kcal`}
+        </Typography>
+      )}
+      {progress.length === 0 ? (
+        <Typography variant="body2" color={theme.colors.textSecondary} style={styles.totalsNote}>
+          {`Protein ${totals.protein} g · Carbs ${totals.carbs} g · Fat ${totals.fat} g`}
+        </Typography>
+      ) : (
+        progress.map(item => (
+          <View key={item.macro} style={styles.target}>
+            <View style={styles.targetHeader}>
+              <Typography variant="body2">{MACRO_LABELS[item.macro].label}</Typography>
+              <Typography variant="body2" color={item.remaining < 0 ? theme.colors.error : theme.colors.textSecondary}>
+                {`${Math.round(item.consumed)} / ${Math.round(item.target)} ${MACRO_LABELS[item.macro].unit}`}
+              </Typography>
+            </View>
+            <View style={styles.progressContainer}>
+              <View
+                style={[
+                  styles.progressBar,
+                  {
+                    width: `${Math.min(100, item.percent)}%`,
+                    backgroundColor: item.percent > 100 ? theme.colors.error : theme.colors.primary,
+                  },
+                ]}
+              />
+            </View>
+          </View>
+        ))
+      )}
+    </Card>
+  );
+
+  // Foods that go against the plan or the user's allergies; allergies and restrictions in red
+  const renderViolations = (foods: FoodItem[]) => checkFoodItems(foods, dietRules).map((violation, index) => (
+    <View key={index} style={styles.violation}>
+      <MaterialIcons
+        name={violation.hard ? 'error-outline' : 'info-outline'}
+        size={14}
+        color={violation.hard ? theme.colors.error : theme.colors.warning}
+      />
+      <Typography variant="caption" color={violation.hard ? theme.colors.error : theme.colors.warning} style={styles.violationText}>
+        {describeViolation(violation)}
+      </Typography>
+    </View>
+  ));
+
+  const renderSuggestion = (mealType: MealType) => {
+    if (suggesting === mealType) {
+      return <ActivityIndicator style={styles.loading} color={theme.colors.primary} />;
+    }
+    if (!suggestion || suggestion.mealType !== mealType) return null;
+
+    return (
+      <Card style={styles.suggestion}>
+        <Typography variant="overline" color={theme.colors.primary}>Suggestion</Typography>
+        <Typography variant="subtitle2">{suggestion.name}</Typography>
+        {!!suggestion.description && (
+          <Typography variant="body2" color={theme.colors.textSecondary}>{suggestion.description}</Typography>
+        )}
+        {suggestion.foods.map(food => (
+          <Typography key={food.id} variant="caption" color={theme.colors.textSecondary}>
+            {`${food.name} · ${food.servingSize} · ${Math.round(food.calories)} kcal`}
+          </Typography>
+        ))}
+        {renderViolations(suggestion.foods)}
+        <View style={styles.suggestionActions}>
+          <Button label="Dismiss" variant="text" size="small" onPress={() => setSuggestion(null)} />
+          <Button label="Add to diary" size="small" onPress={handleAcceptSuggestion} />
+        </View>
+      </Card>
+    );
+  };
+
+  const renderMealType = (mealType: MealType) => (
+    <View key={mealType} style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Typography variant="h6">{MEAL_TYPE_LABELS[mealType]}</Typography>
+        <View style={styles.sectionActions}>
+          <TouchableOpacity
+            onPress={() => handleSuggest(mealType)}
+            disabled={suggesting !== null}
+            accessibilityLabel={`Suggest a ${mealType}`}
+            style={styles.iconButton}
+          >
+            <MaterialIcons name="auto-awesome" size={22} color={theme.colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('MealEditor', { date, mealType })}
+            accessibilityLabel={`Add ${mealType}`}
+            style={styles.iconButton}
+          >
+            <MaterialIcons name="add-circle-outline" size={22} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {groups[mealType].map(meal => (
+        <Card
+          key={meal.id}
+          pressable
+          onPress={() => navigation.navigate('MealEditor', { date, mealType, mealId: meal.id })}
+          accessibilityLabel={`Edit ${meal.name}`}
+        >
+          <View style={styles.mealRow}>
+            <View style={styles.mealInfo}>
+              <Typography variant="subtitle2">{meal.name}</Typography>
+              <Typography variant="caption" color={theme.colors.textSecondary}>
+                {meal.foods.length === 1 ? '1 item' : `${meal.foods.length} items`}
+              </Typography>
+            </View>
+            <Typography variant="body2">{`${Math.round(meal.totalCalories)} kcal`}</Typography>
+          </View>
+          {renderViolations(meal.foods)}
+        </Card>
+      ))}
+      {renderSuggestion(mealType)}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.dayPicker}>
+        <TouchableOpacity onPress={() => changeDay(-1)} accessibilityLabel="Previous day" style={styles.iconButton}>
+          <MaterialIcons name="chevron-left" size={28} color={theme.colors.primary} />
+        </TouchableOpacity>
+        <Typography variant="subtitle1" bold>{formatDay(date, today)}</Typography>
+        <TouchableOpacity onPress={() => changeDay(1)} accessibilityLabel="Next day" style={styles.iconButton}>
+          <MaterialIcons name="chevron-right" size={28} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && mealEntries.length === 0 ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+      ) : (
+        <>
+          {renderPlan()}
+          {renderTotals()}
+          {MEAL_TYPES.map(renderMealType)}
+        </>
+      )}
+
+      <Alert
+        visible={!!error}
+        type="error"
+        title="Something went wrong"
+        message={error || ''}
+        onDismiss={clearError}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  dayPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.s,
+    paddingTop: theme.spacing.s,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  planCard: {
+    marginHorizontal: theme.spacing.m,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  planButton: {
+    marginTop: theme.spacing.s,
+    alignSelf: 'flex-start',
+  },
+  planOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: theme.spacing.s,
+    marginTop: theme.spacing.s,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.divider,
+  },
+  totalsCard: {
+    margin: theme.spacing.m,
+  },
+  totalsNote: {
+    marginTop: theme.spacing.xs,
+  },
+  target: {
+    marginTop: theme.spacing.s,
+  },
+  targetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  progressContainer: {
+    height: 8,
+    backgroundColor: theme.colors.divider,
+    borderRadius: 4,
+    marginTop: theme.spacing.xs,
+  },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  section: {
+    padding: theme.spacing.m,
+    paddingTop: 0,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  sectionActions: {
+    flexDirection: 'row',
+  },
+  mealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  mealInfo: {
+    flex: 1,
+    marginRight: theme.spacing.s,
+  },
+  violation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  violationText: {
+    flex: 1,
+    marginLeft: theme.spacing.xs,
+  },
+  suggestion: {
+    borderWidth: 1,
+    borderColor: theme.colors.primaryLight,
+  },
+  suggestionActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.s,
+  },
+  loading: {
+    marginVertical: theme.spacing.m,
+  },
+});
+
+export default MealDiary;
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { FoodItem, MealType, useDiet } from '../../contexts/diet/DietContext';
+import { MEAL_TYPES, mealTotals, scaleFood, sumFoods } from '../../services/diet/nutrition';
+import { estimateMealCarbon, estimateMealWater } from '../../services/footprint/foodEmissions';
+import { buildFoodItem, getFoodById, searchFoods, servingGrams } from '../../services/diet/foodDatabase';
+import { FoodRecord } from '../../services/diet/foodData';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/inputs/TextInput';
+import Alert from '../../components/feedback/Alert';
+import { MEAL_TYPE_LABELS } from './MealDiary';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'MealEditor'>;
+
+type NumericField = 'calories' | 'protein' | 'carbs' | 'fat';
+
+const NUMERIC_FIELDS: Array<{ field: NumericField; label: string }> = [
+  { field: 'calories', label: 'kcal' },
+  { field: 'protein', label: 'Protein (g)' },
+  { field: 'carbs', label: 'Carbs (g)' },
+  { field: 'fat', label: 'Fat (g)' },
+];
+
+const SERVING_STEP = 0.5;
+
+const SEARCH_RESULTS = 5;
+
+/**
+ * A food being edited; numbers are kept as typed so fields can be cleared mid-edit
+ */
+interface FoodDraft {
+  food: FoodItem;
+  values: Record<NumericField, string>;
+}
+
+const toDraft = (food: FoodItem): FoodDraft => ({
+  food,
+  values: {
+    calories: String(food.calories),
+    protein: String(food.protein),
+    carbs: String(food.carbs),
+    fat: String(food.fat),
+  },
+});
+
+const parseAmount = (value: string): number => Number(value.replace(',', '.'));
+
+const isValidAmount = (value: string): boolean => {
+  const amount = parseAmount(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0;
+};
+
+const fromDraft = ({ food, values }: FoodDraft): FoodItem => ({
+  ...food,
+  name: food.name.trim(),
+  servingSize: food.servingSize.trim(),
+  calories: parseAmount(values.calories),
+  protein: parseAmount(values.protein),
+  carbs: parseAmount(values.carbs),
+  fat: parseAmount(values.fat),
+});
+
+const servingsOf = (food: FoodItem): number => (food.servings && food.servings > 0 ? food.servings : 1);
+
+/**
+ * Change a food's serving size, recalculating its values when it came from the food database
+ */
+const withServingSize = (draft: FoodDraft, servingSize: string): FoodDraft => {
+  const record = draft.food.foodId ? getFoodById(draft.food.foodId) : null;
+  if (record && servingGrams(servingSize, record) !== null) {
+    const rebuilt = buildFoodItem(record, servingSize, servingsOf(draft.food));
+    return toDraft({ ...rebuilt, id: draft.food.id, name: draft.food.name });
+  }
+  return { ...draft, food: { ...draft.food, servingSize } };
+};
+
+const MealEditorScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { date, mealId } = route.params;
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const { mealEntries, addMealEntry, updateMealEntry, deleteMealEntry, error, clearError } = useDiet();
+
+  const existing = mealId ? mealEntries.find(meal => meal.id === mealId) : undefined;
+
+  const [name, setName] = useState(existing ? existing.name : '');
+  const [mealType, setMealType] = useState<MealType>(existing ? existing.mealType : route.params.mealType);
+  const [drafts, setDrafts] = useState<FoodDraft[]>(existing ? existing.foods.map(toDraft) : []);
+  const [query, setQuery] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const results = searchFoods(query, SEARCH_RESULTS);
+  const validDrafts = drafts.filter(draft => NUMERIC_FIELDS.every(({ field }) => isValidAmount(draft.values[field])));
+  const totals = sumFoods(validDrafts.map(fromDraft));
+
+  const updateDraft = (index: number, update: (draft: FoodDraft) => FoodDraft) => {
+    setDrafts(current => current.map((draft, i) => (i === index ? update(draft) : draft)));
+  };
+
+  const handleAddFood = () => {
+    setDrafts(current => [
+      ...current,
+      toDraft({ id: `food_${Date.now()}`, name: '', servingSize: '', servings: 1, calories: 0, protein: 0, carbs: 0, fat: 0 }),
+    ]);
+  };
+
+  const handleSelectFood = (record: FoodRecord) => {
+    setDrafts(current => [...current, toDraft(buildFoodItem(record))]);
+    setQuery('');
+  };
+
+  const handleRemoveFood = (index: number) => {
+    setDrafts(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleServings = (index: number, change: number) => {
+    updateDraft(index, draft => {
+      const servings = servingsOf(draft.food) + change;
+      if (servings <= 0 || !NUMERIC_FIELDS.every(({ field }) => isValidAmount(draft.values[field]))) {
+        return draft;
+      }
+      return toDraft(scaleFood(fromDraft(draft), servings));
+    });
+  };
+
+  const validate = (): string | null => {
+    if (!name.trim()) return 'Please give the meal a name.';
+    if (drafts.length === 0) return 'Please add at least one food.';
+    if (drafts.some(draft => !draft.food.name.trim())) return 'Every food needs a name.';
+    if (validDrafts.length !== drafts.length) return 'Calories and macros must be zero or more.';
+    return null;
+  };
+
+  const handleSave = async () => {
+    const problem = validate();
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+
+    setIsSaving(true);
+    const foods = drafts.map(fromDraft);
+    const meal = {
+      date: existing ? existing.date : date,
+      mealType,
+      name: name.trim(),
+      foods,
+      ...mealTotals(foods),
+      carbonFootprint: estimateMealCarbon(foods).carbonAmount,
+      waterUsage: estimateMealWater(foods),
+    };
+
+    if (existing) {
+      await updateMealEntry(existing.id, meal);
+      navigation.goBack();
+    } else if (await addMealEntry(meal)) {
+      navigation.goBack();
+    }
+    setIsSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!existing) return;
+    await deleteMealEntry(existing.id);
+    navigation.goBack();
+  };
+
+  const renderFood = (draft: FoodDraft, index: number) => (
+    <Card key={draft.food.id}>
+      <View style={styles.foodHeader}>
+        <Typography variant="subtitle2">{`Food ${index + 1}`}</Typography>
+        <TouchableOpacity onPress={() => handleRemoveFood(index)} accessibilityLabel="Remove food">
+          <MaterialIcons name="delete-outline" size={22} color={theme.colors.error} />
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        label="Name"
+        value={draft.food.name}
+        onChangeText={value => updateDraft(index, current => ({ ...current, food: { ...current.food, name: value } }))}
+        placeholder="e.g. Oat porridge"
+      />
+      <TextInput
+        label="Serving size"
+        value={draft.food.servingSize}
+        onChangeText={value => updateDraft(index, current => withServingSize(current, value))}
+        placeholder="e.g. 150 g"
+      />
+
+      <View style={styles.servings}>
+        <Typography variant="body2">Servings</Typography>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => handleServings(index, -SERVING_STEP)}
+            accessibilityLabel="Fewer servings"
+            style={styles.stepperButton}
+          >
+            <MaterialIcons name="remove" size={20} color={theme.colors.primary} />
+          </TouchableOpacity>
+          <Typography variant="subtitle1" bold>{String(servingsOf(draft.food))}</Typography>
+          <TouchableOpacity
+            onPress={() => handleServings(index, SERVING_STEP)}
+            accessibilityLabel="More servings"
+            style={styles.stepperButton}
+          >
+            <MaterialIcons name="add" size={20} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.macros}>
+        {NUMERIC_FIELDS.map(({ field, label }) => (
+          <TextInput
+            key={field}
+            label={label}
+            value={draft.values[field]}
+            onChangeText={value => updateDraft(index, current => ({ ...current, values: { ...current.values, [field]: value } }))}
+            keyboardType="decimal-pad"
+            error={isValidAmount(draft.values[field]) ? undefined : 'Invalid'}
+            containerStyle={styles.macroInput}
+          />
+        ))}
+      </View>
+    </Card>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TextInput
+        label="Meal"
+        value={name}
+        onChangeText={setName}
+        placeholder="e.g. Lentil curry"
+        required
+      />
+
+      <View style={styles.mealTypes}>
+        {MEAL_TYPES.map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.mealType, mealType === type && styles.mealTypeSelected]}
+            onPress={() => setMealType(type)}
+          >
+            <Typography variant="body2" color={mealType === type ? theme.colors.onPrimary : theme.colors.textPrimary}>
+              {MEAL_TYPE_LABELS[type]}
+            </Typography>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Card elevation={2}>
+        <Typography variant="subtitle2">Meal total</Typography>
+        <Typography variant="body2" color={theme.colors.textSecondary}>
+          {`${Math.round(totals.calories)} kcal · Protein ${totals.protein} g · Carbs ${totals.carbs} g · Fat ${totals.fat} g`}
+        </Typography>
+      </Card>
+
+      {drafts.map(renderFood)}
+
+      <TextInput
+        label="Find a food"
+        value={query}
+        onChangeText={setQuery}
+        placeholder="e.g. lentils, banana, oat milk"
+        leftIcon="search"
+        autoCorrect={false}
+      />
+      {results.map(({ food }) => (
+        <TouchableOpacity
+          key={food.id}
+          style={styles.result}
+          onPress={() => handleSelectFood(food)}
+          accessibilityLabel={`Add ${food.name}`}
+        >
+          <View style={styles.resultInfo}>
+            <Typography variant="body2">{food.name}</Typography>
+            <Typography variant="caption" color={theme.colors.textSecondary}>
+              {`${food.serving.label} · ${Math.round((food.per100g.calories * food.serving.grams) / 100)} kcal`}
+            </Typography>
+          </View>
+          <MaterialIcons name="add-circle-outline" size={22} color={theme.colors.primary} />
+        </TouchableOpacity>
+      ))}
+      {query.trim() !== '' && results.length === 0 && (
+        <Typography variant="caption" color={theme.colors.textSecondary} style={styles.noResults}>
+          No matches. Add it as a custom food below.
+        </Typography>
+      )}
+
+      <Button
+        label="Add custom food"
+        variant="outlined"
+        onPress={handleAddFood}
+        leftIcon={<MaterialIcons name="add" size={18} color={theme.colors.primary} />}
+        style={styles.action}
+      />
+      <Button label="Save meal" onPress={handleSave} loading={isSaving} style={styles.action} />
+      {existing && (
+        <Button label="Delete meal" variant="text" onPress={handleDelete} style={styles.action} />
+      )}
+
+      <Alert
+        visible={!!validationError || !!error}
+        type="error"
+        title={validationError ? 'Check the meal' : 'Something went wrong'}
+        message={validationError || error || ''}
+        onDismiss={() => {
+          setValidationError(null);
+          clearError();
+        }}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.m,
+  },
+  mealTypes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.s,
+  },
+  mealType: {
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.s,
+    marginBottom: theme.spacing.s,
+  },
+  mealTypeSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  foodHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.s,
+  },
+  servings: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.m,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    padding: theme.spacing.xs,
+    marginHorizontal: theme.spacing.s,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.divider,
+  },
+  macros: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  macroInput: {
+    width: '48%',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.s,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  noResults: {
+    marginBottom: theme.spacing.s,
+  },
+  action: {
+    marginTop: theme.spacing.s,
+  },
+});
+
+export default MealEditorScreen;
@@ -0,0 +1,426 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { DietType, useDiet } from '../../contexts/diet/DietContext';
+import {
+  ActivityLevel,
+  BodyMetrics,
+  PlanGoal,
+  Sex,
+  calculateTargets,
+  validateMetrics,
+  validatePlanDates,
+} from '../../services/diet/plans';
+import { MacroTotals } from '../../services/diet/nutrition';
+import { addDays, getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import TextInput from '../../components/inputs/TextInput';
+import Alert from '../../components/feedback/Alert';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'PlanBuilder'>;
+
+const STEPS = ['Diet', 'Preferences', 'Body', 'Targets'];
+
+export const DIET_TYPE_OPTIONS: Array<{ value: DietType; label: string; description: string }> = [
+  { value: 'balanced', label: 'Balanced', description: 'A bit of everything, in sensible proportions' },
+  { value: 'vegetarian', label: 'Vegetarian', description: 'No meat or fish; dairy and eggs are fine' },
+  { value: 'vegan', label: 'Vegan', description: 'Entirely plant-based, the lowest footprint' },
+  { value: 'mediterranean', label: 'Mediterranean', description: 'Vegetables, grains, olive oil and some fish' },
+  { value: 'paleo', label: 'Paleo', description: 'Whole foods with more protein, no grains' },
+  { value: 'keto', label: 'Keto', description: 'Very low carb, high fat' },
+  { value: 'custom', label: 'Custom', description: 'Set your own targets' },
+];
+
+const RESTRICTION_OPTIONS = ['Gluten-free', 'Dairy-free', 'Nut-free', 'Egg-free', 'Soy-free', 'Halal', 'Kosher', 'Low sodium'];
+
+const PREFERENCE_OPTIONS = ['Local', 'Seasonal', 'Organic', 'Low carbon', 'High protein', 'Quick to cook', 'Budget friendly'];
+
+const SEX_OPTIONS: Array<{ value: Sex; label: string }> = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+];
+
+const ACTIVITY_OPTIONS: Array<{ value: ActivityLevel; label: string }> = [
+  { value: 'sedentary', label: 'Sedentary' },
+  { value: 'light', label: 'Light (1-3 days/week)' },
+  { value: 'moderate', label: 'Moderate (3-5 days/week)' },
+  { value: 'active', label: 'Active (6-7 days/week)' },
+  { value: 'very_active', label: 'Very active (physical job or training)' },
+];
+
+const GOAL_OPTIONS: Array<{ value: PlanGoal; label: string }> = [
+  { value: 'lose', label: 'Lose weight' },
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'gain', label: 'Gain weight' },
+];
+
+const TARGET_FIELDS: Array<{ field: keyof MacroTotals; label: string }> = [
+  { field: 'calories', label: 'Calories (kcal)' },
+  { field: 'protein', label: 'Protein (g)' },
+  { field: 'carbs', label: 'Carbs (g)' },
+  { field: 'fat', label: 'Fat (g)' },
+];
+
+const PLAN_WEEKS = 12;
+
+const toggle = (values: string[], value: string): string[] => {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+};
+
+const PlanBuilderScreen: React.FC<Props> = ({ route, navigation }) => {
+  const planId = route.params?.planId;
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const { currentPlan, dietPlans, createDietPlan, updateDietPlan, error, clearError } = useDiet();
+
+  const existing = planId ? dietPlans.find(plan => plan.id === planId) : undefined;
+  const savedMetrics = existing?.metrics || currentPlan?.metrics;
+  const today = toLocalDate(Date.now(), getDeviceTimeZone());
+
+  const [step, setStep] = useState(0);
+  const [dietType, setDietType] = useState<DietType>(existing ? existing.dietType : 'balanced');
+  const [restrictions, setRestrictions] = useState<string[]>(existing ? existing.restrictions : []);
+  const [preferences, setPreferences] = useState<string[]>(existing ? existing.preferences : []);
+  const [customRestriction, setCustomRestriction] = useState('');
+  const [customPreference, setCustomPreference] = useState('');
+
+  const [sex, setSex] = useState<Sex | undefined>(savedMetrics?.sex);
+  const [age, setAge] = useState(savedMetrics ? String(savedMetrics.age) : '');
+  const [height, setHeight] = useState(savedMetrics ? String(savedMetrics.heightCm) : '');
+  const [weight, setWeight] = useState(savedMetrics ? String(savedMetrics.weightKg) : '');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel | undefined>(savedMetrics?.activityLevel);
+  const [goal, setGoal] = useState<PlanGoal>(savedMetrics ? savedMetrics.goal : 'maintain');
+  const [metrics, setMetrics] = useState<BodyMetrics | undefined>(existing?.metrics);
+
+  const [targets, setTargets] = useState<Record<keyof MacroTotals, string>>({
+    calories: existing ? String(existing.calorieTarget) : '',
+    protein: existing ? String(existing.proteinTarget) : '',
+    carbs: existing ? String(existing.carbTarget) : '',
+    fat: existing ? String(existing.fatTarget) : '',
+  });
+  const [name, setName] = useState(existing ? existing.name : '');
+  const [startDate, setStartDate] = useState(existing ? existing.startDate : today);
+  const [endDate, setEndDate] = useState(existing ? existing.endDate : addDays(today, PLAN_WEEKS * 7 - 1));
+
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCalculate = () => {
+    const entered: Partial<BodyMetrics> = {
+      sex,
+      age: Number(age),
+      heightCm: Number(height),
+      weightKg: Number(weight),
+      activityLevel,
+      goal,
+    };
+    const problem = validateMetrics(entered);
+    if (problem) {
+      setValidationError(problem);
+      return;
+    }
+
+    const bodyMetrics = entered as BodyMetrics;
+    const calculated = calculateTargets(bodyMetrics, dietType);
+    setMetrics(bodyMetrics);
+    setTargets({
+      calories: String(calculated.calories),
+      protein: String(calculated.protein),
+      carbs: String(calculated.carbs),
+      fat: String(calculated.fat),
+    });
+    setStep(3);
+  };
+
+  const handleEnterTargets = () => {
+    setMetrics(undefined);
+    setStep(3);
+  };
+
+  const handleSave = async () => {
+    const planName = name.trim() || `${DIET_TYPE_OPTIONS.find(option => option.value === dietType)?.label} plan`;
+    const values = TARGET_FIELDS.map(({ field }) => Number(targets[field]));
+    if (values.some(value => !Number.isFinite(value) || value < 0) || values[0] <= 0) {
+      setValidationError('Targets must be numbers, with a calorie target above zero.');
+      return;
+    }
+    const dateError = validatePlanDates(startDate.trim(), endDate.trim(), today);
+    if (dateError) {
+      setValidationError(dateError);
+      return;
+    }
+
+    const [calorieTarget, proteinTarget, carbTarget, fatTarget] = values;
+    const plan = {
+      name: planName,
+      dietType,
+      startDate: startDate.trim(),
+      endDate: endDate.trim(),
+      calorieTarget,
+      proteinTarget,
+      carbTarget,
+      fatTarget,
+      restrictions,
+      preferences,
+      ...(metrics ? { metrics } : {}),
+    };
+
+    setIsSaving(true);
+    if (existing) {
+      await updateDietPlan(existing.id, plan);
+      navigation.goBack();
+    } else if (await createDietPlan(plan)) {
+      navigation.goBack();
+    }
+    setIsSaving(false);
+  };
+
+  const renderChoice = <T extends string>(value: T, label: string, selected: boolean, onPress: (value: T) => void) => (
+    <TouchableOpacity
+      key={value}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={() => onPress(value)}
+      accessibilityState={{ selected }}
+    >
+      <Typography variant="body2" color={selected ? theme.colors.onPrimary : theme.colors.textPrimary}>
+        {label}
+      </Typography>
+    </TouchableOpacity>
+  );
+
+  const renderTags = (
+    title: string,
+    options: string[],
+    selected: string[],
+    setSelected: (values: string[]) => void,
+    custom: string,
+    setCustom: (value: string) => void
+  ) => (
+    <Card>
+      <Typography variant="h6">{title}</Typography>
+      <View style={styles.chips}>
+        {[...options, ...selected.filter(item => !options.includes(item))].map(option =>
+          renderChoice(option, option, selected.includes(option), value => setSelected(toggle(selected, value)))
+        )}
+      </View>
+      <TextInput
+        label={`Add your own ${title.toLowerCase()}`}
+        value={custom}
+        onChangeText={setCustom}
+        rightIcon="add"
+        onRightIconPress={() => {
+          const value = custom.trim();
+          if (value && !selected.includes(value)) {
+            setSelected([...selected, value]);
+          }
+          setCustom('');
+        }}
+      />
+    </Card>
+  );
+
+  const renderDietStep = () => (
+    <>
+      {DIET_TYPE_OPTIONS.map(option => (
+        <Card
+          key={option.value}
+          pressable
+          onPress={() => setDietType(option.value)}
+          style={dietType === option.value ? styles.selectedCard : undefined}
+          accessibilityState={{ selected: dietType === option.value }}
+        >
+          <Typography variant="subtitle1" bold={dietType === option.value}>{option.label}</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>{option.description}</Typography>
+        </Card>
+      ))}
+      <Button label="Next" onPress={() => setStep(1)} style={styles.action} />
+    </>
+  );
+
+  const renderPreferencesStep = () => (
+    <>
+      {renderTags('Restrictions', RESTRICTION_OPTIONS, restrictions, setRestrictions, customRestriction, setCustomRestriction)}
+      {renderTags('Preferences', PREFERENCE_OPTIONS, preferences, setPreferences, customPreference, setCustomPreference)}
+      <Button label="Next" onPress={() => setStep(2)} style={styles.action} />
+    </>
+  );
+
+  const renderBodyStep = () => (
+    <>
+      <Card>
+        <Typography variant="body2" color={theme.colors.textSecondary} style={styles.note}>
+          We use these to estimate how much energy you need each day. They stay with your plan.
+        </Typography>
+        <Typography variant="subtitle2">Sex</Typography>
+        <View style={styles.chips}>
+          {SEX_OPTIONS.map(option => renderChoice(option.value, option.label, sex === option.value, setSex))}
+        </View>
+        <TextInput label="Age" value={age} onChangeText={setAge} keyboardType="number-pad" />
+        <TextInput label="Height (cm)" value={height} onChangeText={setHeight} keyboardType="decimal-pad" />
+        <TextInput label="Weight (kg)" value={weight} onChangeText={setWeight} keyboardType="decimal-pad" />
+        <Typography variant="subtitle2">Activity level</Typography>
+        <View style={styles.chips}>
+          {ACTIVITY_OPTIONS.map(option =>
+            renderChoice(option.value, option.label, activityLevel === option.value, setActivityLevel)
+          )}
+        </View>
+        <Typography variant="subtitle2">Goal</Typography>
+        <View style={styles.chips}>
+          {GOAL_OPTIONS.map(option => renderChoice(option.value, option.label, goal === option.value, setGoal))}
+        </View>
+      </Card>
+      <Button label="Calculate my targets" onPress={handleCalculate} style={styles.action} />
+      <Button label="I'll enter targets myself" variant="text" onPress={handleEnterTargets} style={styles.action} />
+    </>
+  );
+
+  const renderTargetsStep = () => (
+    <>
+      <Card>
+        <Typography variant="h6">Daily targets</Typography>
+        {metrics && (
+          <Typography variant="body2" color={theme.colors.textSecondary} style={styles.note}>
+            Calculated from your body metrics. Adjust them if you've been given different targets.
+          </Typography>
+        )}
+        <View style={styles.targets}>
+          {TARGET_FIELDS.map(({ field, label }) => (
+            <TextInput
+              key={field}
+              label={label}
+              value={targets[field]}
+              onChangeText={value => setTargets(current => ({ ...current, [field]: value }))}
+              keyboardType="decimal-pad"
+              containerStyle={styles.targetInput}
+            />
+          ))}
+        </View>
+      </Card>
+      <Card>
+        <TextInput label="Plan name" value={name} onChangeText={setName} placeholder="e.g. Spring reset" />
+        <TextInput label="Start date" value={startDate} onChangeText={setStartDate} helperText="YYYY-MM-DD" />
+        <TextInput label="End date" value={endDate} onChangeText={setEndDate} helperText="YYYY-MM-DD" />
+      </Card>
+      <Button
+        label={existing ? 'Save plan' : 'Create plan'}
+        onPress={handleSave}
+        loading={isSaving}
+        style={styles.action}
+      />
+    </>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.steps}>
+        {STEPS.map((label, index) => (
+          <TouchableOpacity
+            key={label}
+            style={styles.step}
+            onPress={() => setStep(index)}
+            disabled={index > step}
+            accessibilityLabel={`Step ${index + 1}: ${label}`}
+          >
+            <View style={[styles.stepDot, index <= step && styles.stepDotActive]}>
+              <Typography variant="caption" color={index <= step ? theme.colors.onPrimary : theme.colors.textSecondary}>
+                {String(index + 1)}
+              </Typography>
+            </View>
+            <Typography variant="caption" color={index === step ? theme.colors.primary : theme.colors.textSecondary}>
+              {label}
+            </Typography>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {step === 0 && renderDietStep()}
+      {step === 1 && renderPreferencesStep()}
+      {step === 2 && renderBodyStep()}
+      {step === 3 && renderTargetsStep()}
+
+      <Alert
+        visible={!!validationError || !!error}
+        type="error"
+        title={validationError ? 'Check your plan' : 'Something went wrong'}
+        message={validationError || error || ''}
+        onDismiss={() => {
+          setValidationError(null);
+          clearError();
+        }}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.m,
+  },
+  steps: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.m,
+  },
+  step: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  stepDot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.divider,
+    marginBottom: theme.spacing.xs,
+  },
+  stepDotActive: {
+    backgroundColor: theme.colors.primary,
+  },
+  selectedCard: {
+    borderWidth: 2,
+    borderColor: theme.colors.primary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: theme.spacing.s,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.m,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.s,
+    marginBottom: theme.spacing.s,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  note: {
+    marginBottom: theme.spacing.s,
+  },
+  targets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.s,
+  },
+  targetInput: {
+    width: '48%',
+  },
+  action: {
+    marginTop: theme.spacing.s,
+  },
+});
+
+export default PlanBuilderScreen;
@@ -0,0 +1,485 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { useProducts, Product, AlternativeProduct } from '../../contexts/products/ProductsContext';
+import { useDiet } from '../../contexts/diet/DietContext';
+import { FactorContribution, ScoringFactor, scoreProduct } from '../../services/sustainability/scoring';
+import { OPEN_FOOD_FACTS_SOURCE } from '../../services/products/openFoodFacts';
+import { hasPurchaseFootprint } from '../../services/products/purchases';
+import { checkIngredients, describeViolation } from '../../services/diet/restrictions';
+import { useLogPurchase } from '../../hooks/useLogPurchase';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ProductDetail'>;
+
+type FactorRating = 'good' | 'fair' | 'poor';
+
+interface ResolvedAlternative {
+  alternative: AlternativeProduct;
+  product: Product | null;
+}
+
+const RATING_COLORS: Record<FactorRating, string> = {
+  good: '#4CAF50',
+  fair: '#FF9800',
+  poor: '#F44336',
+};
+
+const getRating = (contribution: FactorContribution): FactorRating => {
+  if (contribution.subScore >= 70) return 'good';
+  if (contribution.subScore >= 40) return 'fair';
+  return 'poor';
+};
+
+/**
+ * Format the raw product value behind a scoring factor
+ */
+const formatFactorValue = (product: Product, factor: ScoringFactor): string => {
+  switch (factor) {
+    case 'carbonFootprint':
+      return Number.isFinite(product.carbonFootprint) ? `${product.carbonFootprint} kg CO₂e` : 'Unknown';
+    case 'waterUsage':
+      return Number.isFinite(product.waterUsage) ? `${product.waterUsage} L` : 'Unknown';
+    case 'recyclable':
+      return product.recyclable ? 'Yes' : 'No';
+    case 'biodegradable':
+      return product.biodegradable ? 'Yes' : 'No';
+    case 'packaging':
+      return product.packaging || 'Unknown';
+    case 'ingredients':
+      return product.ingredients?.length ? product.ingredients.join(', ') : 'Not listed';
+    case 'certifications':
+      return product.certifications?.length ? product.certifications.join(', ') : 'None';
+  }
+};
+
+const ProductDetailScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { productId, scanId } = route.params;
+  const { getProductById, getAlternativesForProduct } = useProducts();
+  const { dietRules } = useDiet();
+  const { logPurchase, isPurchaseLogged, isLogging, error: purchaseError, clearError: clearPurchaseError } = useLogPurchase();
+
+  const [product, setProduct] = useState<Product | null>(null);
+  const [alternatives, setAlternatives] = useState<ResolvedAlternative[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [quantity, setQuantity] = useState(1);
+  const [purchaseLogged, setPurchaseLogged] = useState(false);
+
+  // The context recreates its functions on every render, so only reload when the product changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProduct = async () => {
+      setIsLoading(true);
+
+      const loadedProduct = await getProductById(productId);
+      const productAlternatives = loadedProduct ? await getAlternativesForProduct(productId) : [];
+      const resolved = await Promise.all(
+        productAlternatives.map(async alternative => ({
+          alternative,
+          product: await getProductById(alternative.alternativeProductId),
+        }))
+      );
+
+      if (cancelled) return;
+
+      resolved.sort((a, b) => b.alternative.sustainabilityImprovement - a.alternative.sustainabilityImprovement);
+
+      setProduct(loadedProduct);
+      setAlternatives(resolved);
+      setIsLoading(false);
+    };
+
+    loadProduct();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#4CAF50" />
+      </View>
+    );
+  }
+
+  if (!product) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyTitle}>Product not found</Text>
+        <Text style={styles.emptyDescription}>We couldn't load details for this product.</Text>
+      </View>
+    );
+  }
+
+  const scoreResult = scoreProduct(product);
+  const alreadyLogged = purchaseLogged || isPurchaseLogged(scanId);
+
+  const handleLogPurchase = async () => {
+    clearPurchaseError();
+    if (await logPurchase({ productId: product.id, scanId, quantity })) {
+      setPurchaseLogged(true);
+    }
+  };
+
+  // Only worth showing when there are ingredients to check and something to check them against
+  const renderDietCheck = () => {
+    const hasRules = dietRules.excludedTags.length > 0 || dietRules.excludedNames.length > 0;
+    if (!product.ingredients?.length || !hasRules) return null;
+
+    const violations = checkIngredients(product.ingredients, dietRules);
+    const unsuitable = violations.some(violation => violation.hard && !violation.trace);
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your Diet</Text>
+        <View
+          style={[styles.factorCard, violations.length > 0 && { borderLeftWidth: 4, borderLeftColor: RATING_COLORS[unsuitable ? 'poor' : 'fair'] }]}
+          testID="diet-check"
+        >
+          {violations.length === 0 ? (
+            <Text style={styles.factorTitle}>Fits your diet and restrictions</Text>
+          ) : (
+            <>
+              <Text style={styles.factorTitle}>{unsuitable ? 'Not suitable for you' : 'Check before eating'}</Text>
+              {violations.map((violation, index) => (
+                <Text key={index} style={styles.factorExplanation}>{describeViolation(violation)}</Text>
+              ))}
+            </>
+          )}
+          <Text style={styles.factorWeight}>Based on the listed ingredients. Always check the label.</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderPurchase = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Bought This?</Text>
+      <View style={styles.factorCard}>
+        {alreadyLogged ? (
+          <Text style={styles.factorExplanation} testID="purchase-logged">
+            Added to your footprint.
+          </Text>
+        ) : (
+          <>
+            <Text style={styles.factorExplanation}>
+              Add {quantity} × {product.carbonFootprint} kg CO₂e to your footprint.
+            </Text>
+            <View style={styles.purchaseRow}>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setQuantity(value => Math.max(1, value - 1))}
+                  disabled={quantity <= 1}
+                  accessibilityLabel="Decrease quantity"
+                >
+                  <Text style={styles.stepperText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>{quantity}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setQuantity(value => value + 1)}
+                  accessibilityLabel="Increase quantity"
+                >
+                  <Text style={styles.stepperText}>+</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={styles.purchaseButton}
+                onPress={handleLogPurchase}
+                disabled={isLogging}
+                testID="log-purchase-button"
+              >
+                {isLogging ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text style={styles.purchaseButtonText}>I bought this</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+        {purchaseError && <Text style={styles.purchaseError}>{purchaseError}</Text>}
+      </View>
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{product.name}</Text>
+        <Text style={styles.subtitle}>{product.brand} · {product.category}</Text>
+        <View style={styles.scoreBadge}>
+          <Text style={styles.scoreValue}>{Math.round(product.sustainabilityScore)}</Text>
+          <Text style={styles.scoreLabel}>/100</Text>
+        </View>
+        <Text style={styles.scoreCaption}>Sustainability Score</Text>
+        {product.ecoScore && (
+          <Text style={styles.scoreCaption}>Eco-Score {product.ecoScore.grade.toUpperCase()}</Text>
+        )}
+      </View>
+
+      {renderDietCheck()}
+
+      {hasPurchaseFootprint(product) && renderPurchase()}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Sustainability Breakdown</Text>
+        {scoreResult.breakdown.map(contribution => (
+          <View key={contribution.factor} style={styles.factorCard} testID={`factor-${contribution.factor}`}>
+            <View style={styles.factorHeader}>
+              <Text style={styles.factorTitle}>{contribution.label}</Text>
+              {contribution.available ? (
+                <View style={styles.factorScore}>
+                  <Text style={styles.factorPoints}>
+                    {contribution.points} pts
+                  </Text>
+                  <View style={[styles.ratingDot, { backgroundColor: RATING_COLORS[getRating(contribution)] }]} />
+                </View>
+              ) : (
+                <Text style={styles.factorWeight}>Not scored</Text>
+              )}
+            </View>
+            <Text style={styles.factorValue}>{formatFactorValue(product, contribution.factor)}</Text>
+            <Text style={styles.factorExplanation}>{contribution.explanation}</Text>
+            {contribution.available && (
+              <Text style={styles.factorWeight}>
+                {Math.round(contribution.weight * 100)}% of the score · sub-score {Math.round(contribution.subScore)}/100
+              </Text>
+            )}
+          </View>
+        ))}
+        <Text style={styles.modelVersion}>Scoring model v{scoreResult.version}</Text>
+        {product.dataSource === OPEN_FOOD_FACTS_SOURCE && (
+          <Text style={styles.modelVersion}>Product data from Open Food Facts</Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Eco-Friendly Alternatives</Text>
+        {alternatives.length === 0 ? (
+          <View style={styles.factorCard}>
+            <Text style={styles.factorExplanation}>No better alternatives found for this product yet.</Text>
+          </View>
+        ) : (
+          alternatives.map(({ alternative, product: alternativeProduct }) => (
+            <TouchableOpacity
+              key={alternative.id}
+              style={styles.alternativeCard}
+              onPress={() => navigation.push('ProductDetail', { productId: alternative.alternativeProductId })}
+              testID={`alternative-${alternative.id}`}
+            >
+              <View style={styles.alternativeInfo}>
+                <Text style={styles.factorTitle}>
+                  {alternativeProduct ? alternativeProduct.name : 'Unknown product'}
+                </Text>
+                {alternativeProduct && (
+                  <Text style={styles.factorExplanation}>{alternativeProduct.brand}</Text>
+                )}
+                <Text style={styles.alternativeReason}>{alternative.reason}</Text>
+              </View>
+              <Text style={styles.improvement}>+{Math.round(alternative.sustainabilityImprovement)}%</Text>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#F5F5F5',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  emptyDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  header: {
+    padding: 20,
+    backgroundColor: '#4CAF50',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'white',
+    marginTop: 5,
+  },
+  scoreBadge: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginTop: 15,
+  },
+  scoreValue: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  scoreLabel: {
+    fontSize: 18,
+    color: 'rgba(255,255,255,0.8)',
+    marginBottom: 6,
+    marginLeft: 2,
+  },
+  scoreCaption: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.8)',
+  },
+  section: {
+    padding: 15,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    color: '#333',
+  },
+  factorCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  factorTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  factorScore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  factorPoints: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginRight: 8,
+  },
+  factorWeight: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 5,
+  },
+  modelVersion: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'right',
+  },
+  ratingDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  factorValue: {
+    fontSize: 15,
+    color: '#333',
+    marginTop: 5,
+  },
+  factorExplanation: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 5,
+  },
+  alternativeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 15,
+    marginBottom: 10,
+    elevation: 2,
+  },
+  alternativeInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  alternativeReason: {
+    fontSize: 14,
+    color: '#4CAF50',
+    marginTop: 5,
+  },
+  purchaseRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    fontSize: 20,
+    color: '#4CAF50',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginHorizontal: 12,
+  },
+  purchaseButton: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    minWidth: 120,
+    alignItems: 'center',
+  },
+  purchaseButtonText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: 'white',
+  },
+  purchaseError: {
+    fontSize: 14,
+    color: '#F44336',
+    marginTop: 8,
+  },
+  improvement: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+});
+
+export default ProductDetailScreen;
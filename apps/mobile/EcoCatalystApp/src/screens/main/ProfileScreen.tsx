@@ -1,199 +1,216 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import React, { useContext } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { AuthContext } from '../../contexts/AuthContext';
+import { useProducts } from '../../contexts/products/ProductsContext';
+import { Achievement, useGamification } from '../../contexts/gamification/GamificationContext';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Alert from '../../components/feedback/Alert';
+import { formatCarbon, getInitials } from '../../utils/format';
+
+const SETTINGS = [
+  'Account Information',
+  'Notification Preferences',
+  'Privacy Settings',
+  'Help & Support',
+  'About EcoCatalyst',
+];
+
+const getAchievementIcon = (achievement: Achievement): keyof typeof MaterialIcons.glyphMap => {
+  return achievement.icon in MaterialIcons.glyphMap
+    ? (achievement.icon as keyof typeof MaterialIcons.glyphMap)
+    : 'emoji-events';
+};
 
 const ProfileScreen: React.FC = () => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+
+  const { user, logout, error: authError, clearError: clearAuthError } = useContext(AuthContext);
+  const { recentScans } = useProducts();
+  const {
+    achievements,
+    userStats,
+    getCompletedAchievements,
+    isLoading,
+    error: gamificationError,
+    clearError: clearGamificationError,
+  } = useGamification();
+
+  const currentError = [
+    { message: authError, clear: clearAuthError },
+    { message: gamificationError, clear: clearGamificationError },
+  ].find(item => item.message);
+
+  const completed = getCompletedAchievements()
+    .sort((a, b) => b.completedAt - a.completedAt)
+    .map(userAchievement => achievements.find(achievement => achievement.id === userAchievement.achievementId))
+    .filter((achievement): achievement is Achievement => !!achievement);
+
+  const stats = [
+    { label: 'Scans', value: String(userStats ? userStats.productsScanned : recentScans.length) },
+    { label: 'Achievements', value: String(completed.length) },
+    { label: 'CO₂ Saved', value: formatCarbon(userStats ? userStats.carbonSaved : 0) },
+  ];
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
         <View style={styles.avatarContainer}>
-          <Text style={styles.avatarText}>JD</Text>
+          <Typography variant="h4" color={theme.colors.primary} bold>
+            {getInitials(user?.displayName, user?.email)}
+          </Typography>
         </View>
-        <Text style={styles.name}>John Doe</Text>
-        <Text style={styles.email}>john.doe@example.com</Text>
+        <Typography variant="h5" color={theme.colors.onPrimary} bold>
+          {user?.displayName || 'EcoCatalyst member'}
+        </Typography>
+        {user?.email && (
+          <Typography variant="body1" color={theme.colors.onPrimary} style={styles.email}>
+            {user.email}
+          </Typography>
+        )}
+        {userStats && (
+          <Typography variant="caption" color={theme.colors.onPrimary}>
+            {`Level ${userStats.level} · ${userStats.totalPoints} points`}
+          </Typography>
+        )}
       </View>
-      
-      <View style={styles.statsContainer}>
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>32</Text>
-          <Text style={styles.statLabel}>Scans</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>8</Text>
-          <Text style={styles.statLabel}>Achievements</Text>
-        </View>
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>15%</Text>
-          <Text style={styles.statLabel}>CO₂ Reduced</Text>
+
+      <Card elevation={3} style={styles.statsCard} withPadding={false}>
+        <View style={styles.statsContainer}>
+          {stats.map(stat => (
+            <View key={stat.label} style={styles.statItem}>
+              <Typography variant="h6" color={theme.colors.primary} bold center>{stat.value}</Typography>
+              <Typography variant="body2" color={theme.colors.textSecondary} center>{stat.label}</Typography>
+            </View>
+          ))}
         </View>
-      </View>
-      
+      </Card>
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Achievements</Text>
-        <View style={styles.achievementCard}>
-          <View style={styles.achievementBadge}>
-            <Text style={styles.achievementBadgeText}>🌱</Text>
-          </View>
-          <View style={styles.achievementInfo}>
-            <Text style={styles.achievementTitle}>Green Beginner</Text>
-            <Text style={styles.achievementDescription}>Completed 5 sustainable actions</Text>
-          </View>
-        </View>
-        <View style={styles.achievementCard}>
-          <View style={styles.achievementBadge}>
-            <Text style={styles.achievementBadgeText}>🔍</Text>
-          </View>
-          <View style={styles.achievementInfo}>
-            <Text style={styles.achievementTitle}>Curious Scanner</Text>
-            <Text style={styles.achievementDescription}>Scanned 10 different products</Text>
-          </View>
-        </View>
+        <Typography variant="h6" style={styles.sectionTitle}>Achievements</Typography>
+        {isLoading && achievements.length === 0 ? (
+          <ActivityIndicator style={styles.loading} color={theme.colors.primary} />
+        ) : completed.length === 0 ? (
+          <Card>
+            <Typography variant="body2" color={theme.colors.textSecondary}>
+              No achievements yet. Keep scanning and logging to earn your first badge.
+            </Typography>
+          </Card>
+        ) : (
+          completed.map(achievement => (
+            <Card key={achievement.id}>
+              <View style={styles.achievementRow}>
+                <View style={styles.achievementBadge}>
+                  <MaterialIcons name={getAchievementIcon(achievement)} size={26} color={theme.colors.primary} />
+                </View>
+                <View style={styles.achievementInfo}>
+                  <Typography variant="subtitle2">{achievement.title}</Typography>
+                  <Typography variant="body2" color={theme.colors.textSecondary}>{achievement.description}</Typography>
+                </View>
+              </View>
+            </Card>
+          ))
+        )}
       </View>
-      
+
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Settings</Text>
-        <TouchableOpacity style={styles.settingItem}>
-          <Text style={styles.settingText}>Account Information</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.settingItem}>
-          <Text style={styles.settingText}>Notification Preferences</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.settingItem}>
-          <Text style={styles.settingText}>Privacy Settings</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.settingItem}>
-          <Text style={styles.settingText}>Help &amp; Support</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.settingItem}>
-          <Text style={styles.settingText}>About EcoCatalyst</Text>
-        </TouchableOpacity>
-        <TouchableOpacity style={[styles.settingItem, styles.logoutButton]}>
-          <Text style={styles.logoutText}>Log Out</Text>
+        <Typography variant="h6" style={styles.sectionTitle}>Settings</Typography>
+        {SETTINGS.map(setting => (
+          <TouchableOpacity key={setting} style={styles.settingItem} accessibilityRole="button">
+            <Typography variant="body1">{setting}</Typography>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.settingItem, styles.logoutButton]}
+          onPress={logout}
+          accessibilityRole="button"
+        >
+          <Typography variant="body1" color={theme.colors.error} bold center>Log Out</Typography>
         </TouchableOpacity>
       </View>
+
+      <Alert
+        visible={!!currentError}
+        type="error"
+        title="Something went wrong"
+        message={currentError?.message || ''}
+        onDismiss={() => currentError?.clear()}
+      />
     </ScrollView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: any) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F5F5F5',
+    backgroundColor: theme.colors.background,
   },
   header: {
-    backgroundColor: '#4CAF50',
-    padding: 20,
+    backgroundColor: theme.colors.primary,
+    padding: theme.spacing.l,
     alignItems: 'center',
   },
   avatarContainer: {
     width: 80,
     height: 80,
     borderRadius: 40,
-    backgroundColor: 'white',
+    backgroundColor: theme.colors.surface,
     justifyContent: 'center',
     alignItems: 'center',
-    marginBottom: 10,
-  },
-  avatarText: {
-    fontSize: 30,
-    fontWeight: 'bold',
-    color: '#4CAF50',
-  },
-  name: {
-    fontSize: 22,
-    fontWeight: 'bold',
-    color: 'white',
+    marginBottom: theme.spacing.s,
   },
   email: {
-    fontSize: 16,
-    color: 'rgba(255,255,255,0.8)',
-    marginTop: 5,
+    opacity: 0.8,
+    marginTop: theme.spacing.xs,
+  },
+  statsCard: {
+    margin: theme.spacing.m,
   },
   statsContainer: {
     flexDirection: 'row',
-    backgroundColor: 'white',
-    borderRadius: 10,
-    margin: 15,
-    elevation: 3,
   },
   statItem: {
     flex: 1,
-    padding: 15,
+    padding: theme.spacing.m,
     alignItems: 'center',
   },
-  statValue: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: '#4CAF50',
-  },
-  statLabel: {
-    fontSize: 14,
-    color: '#666',
-    marginTop: 5,
-  },
   section: {
-    padding: 15,
-    marginBottom: 10,
+    padding: theme.spacing.m,
+    paddingTop: 0,
   },
   sectionTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 10,
-    color: '#333',
+    marginBottom: theme.spacing.xs,
   },
-  achievementCard: {
+  achievementRow: {
     flexDirection: 'row',
-    backgroundColor: 'white',
-    borderRadius: 8,
-    padding: 15,
-    marginBottom: 10,
-    elevation: 2,
     alignItems: 'center',
   },
   achievementBadge: {
     width: 50,
     height: 50,
     borderRadius: 25,
-    backgroundColor: '#E8F5E9',
+    backgroundColor: theme.colors.background,
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 15,
-  },
-  achievementBadgeText: {
-    fontSize: 24,
+    marginRight: theme.spacing.m,
   },
   achievementInfo: {
     flex: 1,
   },
-  achievementTitle: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    color: '#333',
-  },
-  achievementDescription: {
-    fontSize: 14,
-    color: '#666',
-    marginTop: 3,
-  },
   settingItem: {
-    backgroundColor: 'white',
-    borderRadius: 8,
-    padding: 15,
-    marginBottom: 10,
-    elevation: 2,
-  },
-  settingText: {
-    fontSize: 16,
-    color: '#333',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.shape.borderRadius.small,
+    padding: theme.spacing.m,
+    marginBottom: theme.spacing.s,
   },
   logoutButton: {
-    backgroundColor: '#FFEBEE',
-    marginTop: 10,
+    marginTop: theme.spacing.s,
   },
-  logoutText: {
-    fontSize: 16,
-    color: '#F44336',
-    textAlign: 'center',
-    fontWeight: 'bold',
+  loading: {
+    marginVertical: theme.spacing.m,
   },
 });
 
@@ -1,29 +1,256 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CameraView, scanFromURLAsync, useCameraPermissions } from 'expo-camera';
+import { useIsFocused, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { useProducts, Product } from '../../contexts/products/ProductsContext';
+import { ScannedBarcode } from '../../services/scanner/barcode';
+import { CameraFrameSource, FrameSource } from '../../services/scanner/frameSource';
+import { ScanPipeline } from '../../services/scanner/scanPipeline';
+
+type ScanMode = 'barcode' | 'object';
+type ScanStatus = 'scanning' | 'looking_up' | 'found' | 'not_found' | 'no_barcode' | 'lookup_failed';
+
+interface ScanResult {
+  barcode: ScannedBarcode;
+  product: Product | null;
+  scanId?: string;
+}
+
+interface ScannerScreenProps {
+  /**
+   * Frame source to scan from. Defaults to the device camera.
+   */
+  frameSource?: FrameSource;
+}
+
+const BARCODE_TYPES: ('ean13' | 'ean8' | 'upc_a' | 'upc_e' | 'qr')[] = ['ean13', 'ean8', 'upc_a', 'upc_e', 'qr'];
+
+const ScannerScreen: React.FC<ScannerScreenProps> = ({ frameSource }) => {
+  const { scanProduct, addProductScan } = useProducts();
+  const [permission, requestPermission] = useCameraPermissions();
+  const isFocused = useIsFocused();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+
+  const cameraSource = useMemo(() => new CameraFrameSource(), []);
+  const source = frameSource || cameraSource;
+  const usesCamera = !frameSource;
+
+  const cameraRef = useRef<CameraView>(null);
+  const pipelineRef = useRef<ScanPipeline | null>(null);
+  const handleBarcodeRef = useRef<(barcode: ScannedBarcode) => Promise<void>>(async () => {});
+
+  const [scanMode, setScanMode] = useState<ScanMode>('barcode');
+  const [status, setStatus] = useState<ScanStatus>('scanning');
+  const [result, setResult] = useState<ScanResult | null>(null);
+  // A photo without a barcode leaves the live scanner running, so the user can simply try again
+  const isScanning = status === 'scanning' || status === 'no_barcode';
+
+  handleBarcodeRef.current = async (barcode: ScannedBarcode) => {
+    pipelineRef.current?.pause();
+    setStatus('looking_up');
+
+    try {
+      const product = await scanProduct(barcode.value);
+      const scanId = product ? await addProductScan(product.id) : '';
+
+      setResult({ barcode, product, ...(scanId ? { scanId } : {}) });
+      setStatus(product ? 'found' : 'not_found');
+    } catch (error) {
+      console.error('Error looking up scanned product:', error);
+      setResult(null);
+      setStatus('lookup_failed');
+    }
+  };
+
+  useEffect(() => {
+    const pipeline = new ScanPipeline({
+      source,
+      onBarcode: barcode => handleBarcodeRef.current(barcode),
+    });
+    pipelineRef.current = pipeline;
+
+    return () => {
+      pipeline.stop();
+      pipelineRef.current = null;
+    };
+  }, [source]);
+
+  useEffect(() => {
+    const pipeline = pipelineRef.current;
+    if (!pipeline) return;
+
+    if (isFocused && scanMode === 'barcode') {
+      pipeline.start();
+    } else {
+      pipeline.stop();
+    }
+  }, [isFocused, scanMode, source]);
+
+  const handleScanAgain = useCallback(() => {
+    setResult(null);
+    setStatus('scanning');
+    pipelineRef.current?.resume();
+  }, []);
+
+  const handleCapture = async () => {
+    if (!usesCamera || scanMode !== 'barcode' || !cameraRef.current) return;
+
+    try {
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.5 });
+      if (!photo) return;
+
+      const results = await scanFromURLAsync(photo.uri, BARCODE_TYPES);
+      if (results.length === 0) {
+        setStatus('no_barcode');
+        return;
+      }
+
+      cameraSource.handleStillImageResults(results);
+    } catch (error) {
+      console.error('Error scanning captured photo:', error);
+      setStatus('no_barcode');
+    }
+  };
+
+  const renderPreview = () => {
+    if (!usesCamera) {
+      return <Text style={styles.cameraPlaceholder}>Camera Preview</Text>;
+    }
+
+    if (!permission) {
+      return <ActivityIndicator color="white" />;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.permissionContainer}>
+          <Text style={styles.cameraPlaceholder}>Camera access is needed to scan products</Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.scanModeText}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <CameraView
+        ref={cameraRef}
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+        onBarcodeScanned={isScanning && scanMode === 'barcode' ? cameraSource.handleBarcodeScanned : undefined}
+      />
+    );
+  };
+
+  const renderResult = () => {
+    if (status === 'looking_up') {
+      return (
+        <View style={styles.resultCard} testID="scan-looking-up">
+          <ActivityIndicator color="#4CAF50" />
+          <Text style={styles.resultDescription}>Looking up product...</Text>
+        </View>
+      );
+    }
+
+    if (status === 'lookup_failed') {
+      return (
+        <View style={styles.resultCard} testID="scan-lookup-failed">
+          <Text style={styles.resultTitle}>Lookup failed</Text>
+          <Text style={styles.resultDescription}>
+            We couldn't look up this product. Check your connection and try again.
+          </Text>
+          <TouchableOpacity
+            style={[styles.resultButton, styles.secondaryResultButton]}
+            onPress={handleScanAgain}
+            testID="scan-again-button"
+          >
+            <Text style={styles.scanModeText}>Scan Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (!result) return null;
+
+    return (
+      <View style={styles.resultCard} testID="scan-result">
+        {result.product ? (
+          <>
+            <Text style={styles.resultTitle}>{result.product.name}</Text>
+            <Text style={styles.resultDescription}>{result.product.brand}</Text>
+            <Text style={styles.resultScore}>
+              Sustainability Score: {result.product.sustainabilityScore}/100
+            </Text>
+            <TouchableOpacity
+              style={styles.resultButton}
+              onPress={() => navigation.navigate('ProductDetail', { productId: result.product!.id, scanId: result.scanId })}
+              testID="view-details-button"
+            >
+              <Text style={styles.scanModeText}>View Details</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.resultTitle}>Product not found</Text>
+            <Text style={styles.resultDescription}>
+              We don't have data for barcode {result.barcode.value} yet.
+            </Text>
+          </>
+        )}
+        <TouchableOpacity
+          style={[styles.resultButton, styles.secondaryResultButton]}
+          onPress={handleScanAgain}
+          testID="scan-again-button"
+        >
+          <Text style={styles.scanModeText}>Scan Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const instructionText = scanMode === 'object'
+    ? 'Object recognition is not available yet. Switch to Barcode to scan products.'
+    : status === 'no_barcode'
+      ? 'No barcode found. Hold the barcode steady and try again.'
+      : 'Point camera at a product barcode or QR code to scan';
 
-const ScannerScreen: React.FC = () => {
   return (
     <View style={styles.container}>
       <View style={styles.cameraContainer}>
-        <Text style={styles.cameraPlaceholder}>Camera Preview</Text>
+        {renderPreview()}
       </View>
-      
+
       <View style={styles.controlsContainer}>
+        {renderResult()}
+
         <View style={styles.scanModeContainer}>
-          <TouchableOpacity style={[styles.scanModeButton, styles.activeScanMode]}>
+          <TouchableOpacity
+            style={[styles.scanModeButton, scanMode === 'barcode' && styles.activeScanMode]}
+            onPress={() => setScanMode('barcode')}
+          >
             <Text style={styles.scanModeText}>Barcode</Text>
           </TouchableOpacity>
-          <TouchableOpacity style={styles.scanModeButton}>
+          <TouchableOpacity
+            style={[styles.scanModeButton, scanMode === 'object' && styles.activeScanMode]}
+            onPress={() => setScanMode('object')}
+          >
             <Text style={styles.scanModeText}>Object</Text>
           </TouchableOpacity>
         </View>
-        
-        <TouchableOpacity style={styles.captureButton}>
+
+        <TouchableOpacity
+          style={styles.captureButton}
+          onPress={handleCapture}
+          disabled={!isScanning}
+        >
           <View style={styles.captureButtonInner} />
         </TouchableOpacity>
-        
+
         <Text style={styles.instructionText}>
-          Point camera at a product barcode or object to scan
+          {instructionText}
         </Text>
       </View>
     </View>
@@ -44,6 +271,18 @@ const styles = StyleSheet.create({
   cameraPlaceholder: {
     color: 'white',
     fontSize: 18,
+    textAlign: 'center',
+  },
+  permissionContainer: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  permissionButton: {
+    marginTop: 15,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: '#4CAF50',
   },
   controlsContainer: {
     position: 'absolute',
@@ -53,6 +292,43 @@ const styles = StyleSheet.create({
     padding: 20,
     alignItems: 'center',
   },
+  resultCard: {
+    alignSelf: 'stretch',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 20,
+    alignItems: 'center',
+    elevation: 3,
+  },
+  resultTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  resultDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 5,
+    textAlign: 'center',
+  },
+  resultScore: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+    marginTop: 10,
+  },
+  resultButton: {
+    marginTop: 15,
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    backgroundColor: '#4CAF50',
+  },
+  secondaryResultButton: {
+    backgroundColor: '#757575',
+  },
   scanModeContainer: {
     flexDirection: 'row',
     backgroundColor: 'rgba(0,0,0,0.5)',
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity, Share } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../../navigation/types';
+import { useDiet } from '../../contexts/diet/DietContext';
+import { formatShoppingQuantity, generateWeekPlan, shoppingListText, toMealEntry } from '../../services/diet/weekPlanner';
+import { addDays, getDeviceTimeZone, toLocalDate } from '../../services/footprint/summary';
+import { useAppTheme } from '../../theme/ThemeProvider';
+import Card from '../../components/cards/Card';
+import Typography from '../../components/typography/Typography';
+import Button from '../../components/buttons/Button';
+import Alert from '../../components/feedback/Alert';
+import { MACRO_LABELS, MEAL_TYPE_LABELS } from './MealDiary';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'WeekPlanner'>;
+
+type PlannerTab = 'meals' | 'shopping';
+
+const formatDate = (date: string): string => {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+/**
+ * A week of meals planned for the current diet plan, with its shopping list
+ */
+const WeekPlannerScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { theme } = useAppTheme();
+  const styles = createStyles(theme);
+  const { currentPlan, getMealsByDate, addMealEntries, error, clearError } = useDiet();
+
+  const today = toLocalDate(Date.now(), getDeviceTimeZone());
+  const [startDate, setStartDate] = useState(route.params?.startDate || today);
+  const [seed, setSeed] = useState(0);
+  const [tab, setTab] = useState<PlannerTab>('meals');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const week = useMemo(
+    () => (currentPlan ? generateWeekPlan(currentPlan, { startDate, seed }) : null),
+    [currentPlan, startDate, seed]
+  );
+
+  if (!currentPlan || !week) {
+    return (
+      <View style={styles.container}>
+        <Card style={styles.card}>
+          <Typography variant="subtitle2">No diet plan yet</Typography>
+          <Typography variant="body2" color={theme.colors.textSecondary}>
+            Build a plan first so the week can be planned around your targets.
+          </Typography>
+          <Button label="Create a plan" size="small" onPress={() => navigation.replace('PlanBuilder')} style={styles.inlineButton} />
+        </Card>
+      </View>
+    );
+  }
+
+  const daysWithMeals = week.days.filter(day => getMealsByDate(day.date).length > 0).length;
+
+  const changeWeek = (weeks: number) => {
+    setStartDate(current => addDays(current, weeks * 7));
+    setSeed(0);
+  };
+
+  const handleAddToDiary = async () => {
+    setIsSaving(true);
+    const meals = week.days.reduce<ReturnType<typeof toMealEntry>[]>(
+      (all, day) => [...all, ...day.meals.map(meal => toMealEntry(meal, currentPlan.id))],
+      []
+    );
+    const ids = await addMealEntries(meals);
+    setIsSaving(false);
+    if (ids.length > 0) {
+      navigation.goBack();
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ title: 'Shopping list', message: shoppingListText(week.shoppingList) });
+    } catch (shareError) {
+      console.error('Error sharing shopping list:', shareError);
+    }
+  };
+
+  const renderSummary = () => (
+    <Card elevation={3} style={styles.card}>
+      <Typography variant="overline" color={theme.colors.textSecondary}>{currentPlan.name}</Typography>
+      <Typography variant="subtitle1" bold>
+        {`${formatDate(week.days[0].date)} – ${formatDate(week.days[week.days.length - 1].date)}`}
+      </Typography>
+      <Typography variant="body2" color={theme.colors.textSecondary}>
+        {`${week.carbonFootprint.toFixed(1)} kg CO2e · ${Math.round(week.waterUsage)} L water for the week`}
+      </Typography>
+      {week.warnings.map(warning => (
+        <Typography key={warning} variant="caption" color={theme.colors.warning} style={styles.note}>{warning}</Typography>
+      ))}
+      {daysWithMeals > 0 && (
+        <Typography variant="caption" color={theme.colors.textSecondary} style={styles.note}>
+          {`${daysWithMeals} of these days already have meals in your diary. Planned meals are added alongside them.`}
+        </Typography>
+      )}
+    </Card>
+  );
+
+  const renderMeals = () => week.days.map(day => (
+    <Card key={day.date} style={styles.card}>
+      <View style={styles.row}>
+        <Typography variant="subtitle2" style={styles.grow}>{formatDate(day.date)}</Typography>
+        <Typography variant="body2">{`${Math.round(day.totals.calories)} kcal`}</Typography>
+      </View>
+      <Typography variant="caption" color={theme.colors.textSecondary}>
+        {`Protein ${Math.round(day.totals.protein)} g · Carbs ${Math.round(day.totals.carbs)} g · Fat ${Math.round(day.totals.fat)} g · ${day.carbonFootprint.toFixed(1)} kg CO2e`}
+      </Typography>
+      {day.offTarget.length > 0 && (
+        <Typography variant="caption" color={theme.colors.warning}>
+          {`Off target: ${day.offTarget.map(macro => MACRO_LABELS[macro].label.toLowerCase()).join(', ')}`}
+        </Typography>
+      )}
+      {day.meals.map(meal => (
+        <View key={meal.mealType} style={styles.meal}>
+          <View style={styles.grow}>
+            <Typography variant="caption" color={theme.colors.textSecondary}>{MEAL_TYPE_LABELS[meal.mealType]}</Typography>
+            <Typography variant="body2">{meal.name}</Typography>
+          </View>
+          <Typography variant="body2" color={theme.colors.textSecondary}>{`${Math.round(meal.totals.calories)} kcal`}</Typography>
+        </View>
+      ))}
+    </Card>
+  ));
+
+  const renderShoppingList = () => (
+    <>
+      {week.shoppingList.map(({ aisle, items }) => (
+        <Card key={aisle} style={styles.card}>
+          <Typography variant="subtitle2">{aisle}</Typography>
+          {items.map(item => (
+            <View key={item.foodId} style={styles.row}>
+              <Typography variant="body2" style={styles.grow}>{item.name}</Typography>
+              <Typography variant="body2" color={theme.colors.textSecondary}>{formatShoppingQuantity(item)}</Typography>
+            </View>
+          ))}
+        </Card>
+      ))}
+      <Button label="Share list" variant="outlined" leftIcon={<MaterialIcons name="share" size={18} color={theme.colors.primary} />} onPress={handleShare} style={styles.action} />
+    </>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.weekPicker}>
+        <TouchableOpacity onPress={() => changeWeek(-1)} accessibilityLabel="Previous week" style={styles.iconButton}>
+          <MaterialIcons name="chevron-left" size={28} color={theme.colors.primary} />
+        </TouchableOpacity>
+        <Typography variant="subtitle1" bold>{startDate === today ? 'Starting today' : `Starting ${formatDate(startDate)}`}</Typography>
+        <TouchableOpacity onPress={() => changeWeek(1)} accessibilityLabel="Next week" style={styles.iconButton}>
+          <MaterialIcons name="chevron-right" size={28} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {renderSummary()}
+
+      <View style={styles.tabs}>
+        <Button
+          label="Meals"
+          size="small"
+          variant={tab === 'meals' ? 'primary' : 'outlined'}
+          onPress={() => setTab('meals')}
+          style={styles.tab}
+        />
+        <Button
+          label="Shopping list"
+          size="small"
+          variant={tab === 'shopping' ? 'primary' : 'outlined'}
+          onPress={() => setTab('shopping')}
+          style={styles.tab}
+        />
+      </View>
+
+      {tab === 'meals' ? renderMeals() : renderShoppingList()}
+
+      <View style={styles.actions}>
+        <Button label="Shuffle" variant="outlined" leftIcon={<MaterialIcons name="shuffle" size={18} color={theme.colors.primary} />} onPress={() => setSeed(seed + 1)} style={styles.grow} />
+        <Button label="Add week to diary" loading={isSaving} onPress={handleAddToDiary} style={styles.primaryAction} />
+      </View>
+
+      <Alert
+        visible={!!error}
+        type="error"
+        title="Something went wrong"
+        message={error || ''}
+        onDismiss={clearError}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  weekPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.s,
+    paddingTop: theme.spacing.s,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  card: {
+    marginHorizontal: theme.spacing.m,
+  },
+  note: {
+    marginTop: theme.spacing.xs,
+  },
+  inlineButton: {
+    marginTop: theme.spacing.s,
+    alignSelf: 'flex-start',
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginHorizontal: theme.spacing.m,
+    marginVertical: theme.spacing.s,
+  },
+  tab: {
+    marginRight: theme.spacing.s,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  grow: {
+    flex: 1,
+  },
+  meal: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: theme.spacing.s,
+    marginTop: theme.spacing.s,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.divider,
+  },
+  action: {
+    marginHorizontal: theme.spacing.m,
+  },
+  actions: {
+    flexDirection: 'row',
+    padding: theme.spacing.m,
+  },
+  primaryAction: {
+    flex: 1,
+    marginLeft: theme.spacing.s,
+  },
+});
+
+export default WeekPlannerScreen;
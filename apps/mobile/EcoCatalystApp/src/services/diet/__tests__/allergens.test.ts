@@ -0,0 +1,56 @@
+import { allergenGroup, ingredientTags, mentions } from '../allergens';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+describe('ingredientTags', () => {
+  it('maps ingredients to allergen groups and diet rules', () => {
+    expect(ingredientTags('Wheat flour').tags).toEqual(expect.arrayContaining(['gluten', 'grains']));
+    expect(ingredientTags('skimmed _MILK_ powder').tags).toEqual(['dairy']);
+    expect(ingredientTags('Anchovies').tags).toEqual(['fish']);
+    expect(ingredientTags('Shrimp').tags).toEqual(['shellfish']);
+    expect(ingredientTags('Smoked bacon').tags).toEqual(expect.arrayContaining(['meat', 'pork']));
+    expect(ingredientTags('Crème fraîche').tags).toEqual(['dairy']);
+  });
+
+  it("doesn't mistake look-alikes for the group", () => {
+    expect(ingredientTags('Nutmeg').tags).toEqual([]);
+    expect(ingredientTags('Shellfish stock').tags).not.toContain('fish');
+    expect(ingredientTags('Coconut milk').tags).toEqual([]);
+    expect(ingredientTags('Peanut butter').tags).toEqual(expect.arrayContaining(['peanuts', 'legumes']));
+    expect(ingredientTags('Peanut butter').tags).not.toContain('dairy');
+    expect(ingredientTags('Gluten-free bread').tags).not.toContain('gluten');
+    expect(ingredientTags('Dark chocolate (milk free)').tags).not.toContain('dairy');
+  });
+
+  it('only clears what a free-from phrase names', () => {
+    expect(ingredientTags('Lactose-free milk').tags).toEqual(['dairy']);
+    expect(ingredientTags('Lactose-free').tags).toEqual([]);
+    expect(ingredientTags('Wheat-free rye bread').tags).toEqual(expect.arrayContaining(['gluten', 'grains']));
+  });
+
+  it('keeps "may contain" warnings apart', () => {
+    expect(ingredientTags('Oats. May contain traces of nuts and milk')).toEqual({
+      tags: ['grains'],
+      traces: ['dairy', 'nuts'],
+    });
+  });
+});
+
+describe('allergenGroup', () => {
+  it('reads the groups people name in restrictions', () => {
+    expect(allergenGroup('Shellfish')).toEqual(['shellfish']);
+    expect(allergenGroup('peanuts')).toEqual(['peanuts']);
+    expect(allergenGroup('seafood')).toEqual(['fish', 'shellfish']);
+    expect(allergenGroup('mushrooms')).toBeNull();
+  });
+});
+
+describe('mentions', () => {
+  it('matches whole words and plurals', () => {
+    expect(mentions('Button mushrooms', 'mushroom')).toBe(true);
+    expect(mentions('Mushroom risotto', 'mushrooms')).toBe(true);
+    expect(mentions('Peanut sauce', 'pea')).toBe(false);
+  });
+});
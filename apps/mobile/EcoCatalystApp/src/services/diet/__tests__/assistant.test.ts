@@ -0,0 +1,303 @@
+import { DietPlan, DietProfileItem, MealEntry } from '../../../contexts/diet/DietContext';
+import { CarbonFootprintEntry } from '../../../contexts/footprint/FootprintContext';
+import { summarizeFootprint } from '../../footprint/summary';
+import { createLLMClient } from '../../llm/client';
+import { DEFAULT_LLM_CONFIG } from '../../llm/config';
+import { createMockProvider } from '../../llm/mockProvider';
+import { LLMError, LLMToolCall } from '../../llm/types';
+import { dietSystemPrompt, generateMealSuggestion, MealSuggestionError, selectHistory, streamDietResponse } from '../assistant';
+import { AssistantToolContext, runAssistantTool } from '../assistantTools';
+import { foodRules } from '../restrictions';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const plan: DietPlan = {
+  id: 'plan1',
+  userId: 'u1',
+  name: 'Spring plan',
+  startDate: '2024-03-01',
+  endDate: '2024-05-31',
+  dietType: 'vegetarian',
+  calorieTarget: 2000,
+  proteinTarget: 100,
+  carbTarget: 250,
+  fatTarget: 67,
+  restrictions: ['Nut-free'],
+  preferences: [],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const meal: MealEntry = {
+  id: 'm1',
+  userId: 'u1',
+  date: '2024-03-13',
+  mealType: 'breakfast',
+  name: 'Porridge',
+  foods: [{ id: 'f1', name: 'Oats', servingSize: '40 g', calories: 150, protein: 5, carbs: 27, fat: 3 }],
+  totalCalories: 150,
+  totalProtein: 5,
+  totalCarbs: 27,
+  totalFat: 3,
+  carbonFootprint: 0.1,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const footprintEntry: CarbonFootprintEntry = {
+  id: 'e1',
+  userId: 'u1',
+  date: '2024-03-12',
+  timestamp: Date.UTC(2024, 2, 12),
+  category: 'food',
+  activityType: 'test',
+  carbonAmount: 2.5,
+};
+
+const allergy: DietProfileItem = {
+  id: 'i1',
+  userId: 'u1',
+  kind: 'allergy',
+  value: 'peanuts',
+  source: 'chat',
+  evidence: 1,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const context: AssistantToolContext = {
+  today: '2024-03-13',
+  plan,
+  meals: [meal, { ...meal, id: 'm2', date: '2024-03-12' }],
+  footprint: summarizeFootprint([footprintEntry], { now: Date.UTC(2024, 2, 13, 12), timeZone: 'UTC' }),
+  profile: [allergy],
+};
+
+const call = (name: string, args: unknown = {}): LLMToolCall => ({ id: `call_${name}`, name, arguments: JSON.stringify(args) });
+
+describe('runAssistantTool', () => {
+  it("reads the plan, a day's meals and the footprint", () => {
+    expect(runAssistantTool(call('get_diet_plan'), context, 'p1').output).toMatchObject({
+      plan: { name: 'Spring plan', targets: { calories: 2000 }, restrictions: ['Nut-free'] },
+    });
+
+    const meals: any = runAssistantTool(call('get_meals'), context, 'p1').output;
+    expect(meals.date).toBe('2024-03-13');
+    expect(meals.meals).toEqual([expect.objectContaining({ name: 'Porridge', foods: ['Oats (40 g)'], carbonKg: 0.1 })]);
+    expect(meals.progress[0]).toEqual({ macro: 'calories', target: 2000, remaining: 1850 });
+
+    expect(runAssistantTool(call('get_footprint_summary'), context, 'p1').output).toMatchObject({
+      period: 'week',
+      totalKg: 2.5,
+      byCategory: { food: 2.5 },
+    });
+  });
+
+  it('proposes meals with values from the food database', () => {
+    const result = runAssistantTool(call('propose_add_meal', {
+      mealType: 'dinner',
+      name: 'Lentil bowl',
+      foods: [
+        { name: 'lentils', servingSize: '200 g' },
+        { name: 'Spinach', servingSize: '50 g', calories: 999, protein: 0, carbs: 0, fat: 0 },
+        { name: 'Tahini dressing', servingSize: '1 tbsp', calories: 90, protein: 2.6, carbs: 3, fat: 8 },
+      ],
+    }), context, 'proposal_1');
+
+    expect(result.output).toMatchObject({ proposalId: 'proposal_1', status: 'awaiting_confirmation' });
+    expect(result.proposal).toMatchObject({ id: 'proposal_1', type: 'add_meal', status: 'pending' });
+    const proposed = (result.proposal as any).meal;
+    expect(proposed).toMatchObject({ date: '2024-03-13', mealType: 'dinner', dietPlanId: 'plan1' });
+    expect(proposed.foods.map((food: any) => food.foodId)).toEqual(['lentils', 'spinach', undefined]);
+    expect(proposed.foods[1].calories).toBeLessThan(50);
+    expect(proposed.totalCalories).toBeCloseTo(proposed.foods.reduce((sum: number, food: any) => sum + food.calories, 0), 1);
+  });
+
+  it('returns problems to the model instead of proposing', () => {
+    const unknownFood = runAssistantTool(call('propose_add_meal', {
+      mealType: 'lunch',
+      name: 'Mystery stew',
+      foods: [{ name: 'Jackalberry', servingSize: '100 g' }],
+    }), context, 'p1');
+    expect(unknownFood.proposal).toBeUndefined();
+    expect((unknownFood.output as any).error).toContain('Jackalberry');
+
+    expect((runAssistantTool(call('propose_add_meal', { mealType: 'brunch', name: 'Eggs', foods: [] }), context, 'p1').output as any).error)
+      .toContain('mealType');
+    expect((runAssistantTool({ id: 'c', name: 'get_meals', arguments: '{"date":' }, context, 'p1').output as any).error)
+      .toContain('JSON');
+    expect((runAssistantTool(call('delete_everything'), context, 'p1').output as any).error).toContain('no tool');
+  });
+
+  it('refuses meals that break the plan or an allergy', () => {
+    const result = runAssistantTool(call('propose_add_meal', {
+      mealType: 'lunch',
+      name: 'Satay chicken',
+      foods: [{ name: 'Chicken breast', servingSize: '150 g' }, { name: 'Peanut sauce', servingSize: '2 tbsp', calories: 90, protein: 4, carbs: 4, fat: 7 }],
+    }), context, 'p1');
+    expect(result.proposal).toBeUndefined();
+    expect((result.output as any).error).toContain('Chicken breast: contains meat (Vegetarian)');
+    expect((result.output as any).error).toContain('Peanut sauce: contains peanuts');
+  });
+
+  it('proposes plan changes that differ from the plan and are in range', () => {
+    const result = runAssistantTool(call('propose_plan_update', {
+      calorieTarget: 1800.4,
+      proteinTarget: 100,
+      restrictions: ['Nut-free', 'Gluten-free'],
+      reason: 'A gentle deficit for your goal.',
+    }), context, 'proposal_1');
+
+    expect(result.proposal).toMatchObject({
+      type: 'update_plan',
+      planId: 'plan1',
+      changes: { calorieTarget: 1800, restrictions: ['Nut-free', 'Gluten-free'] },
+      summary: 'Calories 2000 → 1800 kcal; Restrictions: Nut-free, Gluten-free. A gentle deficit for your goal.',
+    });
+    expect((result.proposal as any).changes.proteinTarget).toBeUndefined();
+
+    expect(runAssistantTool(call('propose_plan_update', { calorieTarget: 300 }), context, 'p1').proposal).toBeUndefined();
+    expect(runAssistantTool(call('propose_plan_update', { calorieTarget: 1800 }), { ...context, plan: null }, 'p1').proposal).toBeUndefined();
+  });
+
+  it('remembers preferences the user mentions', () => {
+    expect(runAssistantTool(call('remember_preference', { kind: 'dislike', value: '  coriander ' }), context, 'p1').memory)
+      .toEqual({ kind: 'dislike', value: 'coriander' });
+    expect(runAssistantTool(call('remember_preference', { kind: 'favourite', value: 'tea' }), context, 'p1').memory).toBeUndefined();
+  });
+});
+
+describe('selectHistory', () => {
+  it('keeps the newest messages that fit the budget', () => {
+    const messages = ['a'.repeat(400), 'b'.repeat(400), 'c'.repeat(40)].map(content => ({ content }));
+    expect(selectHistory(messages, 120).map(msg => msg.content[0])).toEqual(['b', 'c']);
+    expect(selectHistory(messages, 1).map(msg => msg.content[0])).toEqual(['c']);
+  });
+});
+
+describe('streamDietResponse', () => {
+  const config = { ...DEFAULT_LLM_CONFIG, provider: 'mock' as const };
+
+  it('looks up data with tools, streams the answer and returns proposals', async () => {
+    const provider = createMockProvider(request => {
+      const toolResults = request.messages.filter(message => message.role === 'tool');
+      if (toolResults.length === 0) {
+        return {
+          content: 'Let me check.',
+          toolCalls: [
+            call('get_meals'),
+            call('propose_add_meal', { mealType: 'dinner', name: 'Chickpea curry', foods: [{ name: 'chickpeas', servingSize: '200 g' }] }),
+          ],
+        };
+      }
+      return 'You had porridge, so I suggested a chickpea curry for dinner.';
+    });
+    const pieces: string[] = [];
+
+    const response = await streamDietResponse(
+      createLLMClient(provider, config),
+      'What should I have for dinner?',
+      [{ content: 'Hi', sender: 'user' }],
+      context,
+      text => pieces.push(text)
+    );
+
+    expect(response.content).toBe('Let me check.\n\nYou had porridge, so I suggested a chickpea curry for dinner.');
+    expect(pieces.join('')).toBe(response.content);
+    expect(response.proposals).toEqual([expect.objectContaining({ id: 'proposal_1', type: 'add_meal', status: 'pending' })]);
+
+    const second = provider.requests[1].messages;
+    expect(second[0].content).toContain('Today is 2024-03-13');
+    expect(second.slice(-3).map(message => message.role)).toEqual(['assistant', 'tool', 'tool']);
+    expect(JSON.parse(second[second.length - 2].content).meals[0].name).toBe('Porridge');
+  });
+
+  it('makes the model answer once the tool rounds run out', async () => {
+    const provider = createMockProvider(request =>
+      request.toolChoice === 'none' ? 'Here is what I found.' : { toolCalls: [call('get_diet_plan')] }
+    );
+
+    const response = await streamDietResponse(createLLMClient(provider, config), 'Plan?', [], context, () => {});
+
+    expect(response.content).toBe('Here is what I found.');
+    expect(provider.requests).toHaveLength(4);
+  });
+
+  it('describes the plan and what is known about the user in the system prompt', () => {
+    expect(dietSystemPrompt({ today: '2024-03-13', plan })).toContain('"Spring plan", a vegetarian plan with daily targets of 2000 kcal');
+    expect(dietSystemPrompt({ today: '2024-03-13', plan: null })).toContain('no diet plan yet');
+    expect(dietSystemPrompt(context)).toContain('- Allergies and intolerances (never suggest these): peanuts');
+    expect(dietSystemPrompt({ today: '2024-03-13', plan })).not.toContain('What you know about the user');
+  });
+
+  it('returns what the model asked to remember', async () => {
+    const provider = createMockProvider(request =>
+      request.messages.some(message => message.role === 'tool')
+        ? 'Noted, no mushrooms.'
+        : { toolCalls: [call('remember_preference', { kind: 'dislike', value: 'mushrooms' })] }
+    );
+
+    const response = await streamDietResponse(createLLMClient(provider, config), 'I hate mushrooms', [], context, () => {});
+
+    expect(response.memories).toEqual([{ kind: 'dislike', value: 'mushrooms' }]);
+    expect(response.content).toBe('Noted, no mushrooms.');
+  });
+});
+
+describe('generateMealSuggestion', () => {
+  const config = { ...DEFAULT_LLM_CONFIG, provider: 'mock' as const };
+  const valid = {
+    name: 'Oat porridge',
+    description: 'Oats are a low-carbon staple.',
+    foods: [{ name: 'Oats', servingSize: '40 g', calories: 150, protein: 5, carbs: 27, fat: 3, sustainabilityScore: 90 }],
+    totalCalories: 150,
+    totalProtein: 5,
+    totalCarbs: 27,
+    totalFat: 3,
+  };
+
+  it('shows the model what was wrong and asks again', async () => {
+    const replies = ['Sure! {"name": "Oat porridge",', JSON.stringify({ ...valid, totalCalories: 400 }), JSON.stringify(valid)];
+    const provider = createMockProvider(() => replies.shift()!);
+
+    const suggestion = await generateMealSuggestion(createLLMClient(provider, config), 'breakfast', [], ['Nut-free']);
+
+    expect(suggestion).toEqual(valid);
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[0].messages[1].content).toContain('Restrictions: Nut-free');
+    const lastAsk = provider.requests[2].messages;
+    expect(lastAsk[lastAsk.length - 1].content).toContain('totalCalories is 400 but the foods add up to 150');
+  });
+
+  it('throws a typed error instead of making a meal up', async () => {
+    const invalid = createMockProvider(() => JSON.stringify({ ...valid, foods: [] }));
+    const error = await generateMealSuggestion(createLLMClient(invalid, config), 'lunch', [], []).catch(caught => caught);
+    expect(error).toBeInstanceOf(MealSuggestionError);
+    expect(error).toMatchObject({ kind: 'invalid_output', issues: ['foods must be a non-empty array'] });
+    expect(invalid.requests).toHaveLength(3);
+
+    const offline = createMockProvider(() => {
+      throw new LLMError('not_configured', 'No key');
+    });
+    await expect(generateMealSuggestion(createLLMClient(offline, config), 'lunch', [], []))
+      .rejects.toMatchObject({ kind: 'unavailable', cause: { kind: 'not_configured' } });
+  });
+
+  it('asks again when a food breaks a restriction, and fails if it keeps doing so', async () => {
+    const rules = foodRules('vegetarian', []);
+    const chicken = JSON.stringify({ ...valid, foods: [{ ...valid.foods[0], name: 'Grilled chicken' }] });
+    const replies = [chicken, JSON.stringify(valid)];
+    const provider = createMockProvider(() => replies.shift()!);
+
+    expect(await generateMealSuggestion(createLLMClient(provider, config), 'dinner', [], ['Vegetarian'], rules)).toEqual(valid);
+    const lastAsk = provider.requests[1].messages;
+    expect(lastAsk[lastAsk.length - 1].content).toContain('Grilled chicken contains meat, which "Vegetarian" rules out.');
+
+    const stubborn = createMockProvider(() => chicken);
+    await expect(generateMealSuggestion(createLLMClient(stubborn, config), 'dinner', [], ['Vegetarian'], rules))
+      .rejects.toMatchObject({ kind: 'restricted' });
+    expect(stubborn.requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,56 @@
+import { ChatMessage } from '../../../contexts/diet/DietContext';
+import { DEFAULT_THREAD_TITLE, LEGACY_THREAD_TITLE, legacyThread, rewindTo, threadTitleFrom } from '../chatThreads';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const message = (id: string, sender: 'user' | 'ai', timestamp: number): ChatMessage => ({
+  id,
+  userId: 'u1',
+  threadId: 't1',
+  content: id,
+  sender,
+  timestamp,
+});
+
+describe('threadTitleFrom', () => {
+  it('uses the first line, shortened at a word', () => {
+    expect(threadTitleFrom('  Dinner ideas\nsomething with lentils')).toBe('Dinner ideas');
+    expect(threadTitleFrom('What can I cook tonight that is high in protein and low in carbon?'))
+      .toBe('What can I cook tonight that is high in…');
+    expect(threadTitleFrom('   ')).toBe(DEFAULT_THREAD_TITLE);
+  });
+});
+
+describe('rewindTo', () => {
+  // Stored out of order, as they come from the server
+  const messages = [message('a2', 'ai', 4), message('u1', 'user', 1), message('a1', 'ai', 2), message('u2', 'user', 3)];
+
+  it('goes back to the user message a reply answered', () => {
+    const rewind = rewindTo(messages, 'a1');
+    expect(rewind!.prompt.id).toBe('u1');
+    expect(rewind!.history).toEqual([]);
+    expect(rewind!.removed.map(msg => msg.id)).toEqual(['a1', 'u2', 'a2']);
+  });
+
+  it('starts from the message itself when it is the user’s', () => {
+    const rewind = rewindTo(messages, 'u2');
+    expect(rewind!.prompt.id).toBe('u2');
+    expect(rewind!.history.map(msg => msg.id)).toEqual(['u1', 'a1']);
+    expect(rewind!.removed.map(msg => msg.id)).toEqual(['a2']);
+  });
+
+  it('returns null without a user message to answer', () => {
+    expect(rewindTo(messages, 'missing')).toBeNull();
+    expect(rewindTo([message('a0', 'ai', 1)], 'a0')).toBeNull();
+  });
+});
+
+describe('legacyThread', () => {
+  it('moves messages into a thread spanning their times', () => {
+    const { thread, messages } = legacyThread([message('b', 'ai', 20), { ...message('a', 'user', 10), threadId: undefined as any }], 't9', 'u1');
+    expect(thread).toEqual({ id: 't9', userId: 'u1', title: LEGACY_THREAD_TITLE, createdAt: 10, updatedAt: 20 });
+    expect(messages.map(msg => [msg.id, msg.threadId])).toEqual([['a', 't9'], ['b', 't9']]);
+  });
+});
@@ -0,0 +1,110 @@
+import { DietProfileItem, MealEntry } from '../../../contexts/diet/DietContext';
+import { learnFromMeals, profileConstraints, rememberFromChat, summarizeProfile } from '../dietProfile';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const item = (id: string, overrides: Partial<DietProfileItem>): DietProfileItem => ({
+  id,
+  userId: 'u1',
+  kind: 'like',
+  value: id,
+  source: 'chat',
+  evidence: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const meal = (date: string, foods: Array<{ name: string; foodId?: string }>): MealEntry => ({
+  id: `${date}_${foods[0].name}`,
+  userId: 'u1',
+  date,
+  mealType: 'lunch',
+  name: 'Lunch',
+  foods: foods.map((food, index) => ({ id: `f${index}`, servingSize: '100 g', calories: 100, protein: 1, carbs: 1, fat: 1, ...food })),
+  totalCalories: 100,
+  totalProtein: 1,
+  totalCarbs: 1,
+  totalFat: 1,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('rememberFromChat', () => {
+  it('adds new things and counts repeats', () => {
+    expect(rememberFromChat([], { kind: 'allergy', value: ' shellfish ' })).toEqual({
+      type: 'add',
+      item: { kind: 'allergy', value: 'shellfish', source: 'chat', evidence: 1 },
+    });
+    expect(rememberFromChat([item('oats', { evidence: 2 })], { kind: 'like', value: 'Oats' }))
+      .toEqual({ type: 'update', id: 'oats', updates: { evidence: 3 } });
+  });
+
+  it('lets a new statement replace an old one, even a removed one', () => {
+    expect(rememberFromChat([item('tofu', { source: 'meals', evidence: 5 })], { kind: 'dislike', value: 'tofu' }))
+      .toEqual({ type: 'update', id: 'tofu', updates: { kind: 'dislike', source: 'chat', evidence: 1, dismissed: false } });
+    expect(rememberFromChat([item('tofu', { dismissed: true })], { kind: 'like', value: 'tofu' }))
+      .toMatchObject({ type: 'update', updates: { dismissed: false } });
+    expect(rememberFromChat([], { kind: 'like', value: '   ' })).toBeNull();
+  });
+});
+
+describe('learnFromMeals', () => {
+  const today = '2024-03-13';
+  const meals = [
+    meal('2024-03-13', [{ name: 'Cooked lentils', foodId: 'lentils' }, { name: 'Kimchi' }]),
+    meal('2024-03-10', [{ name: 'lentils', foodId: 'lentils' }, { name: 'kimchi' }]),
+    meal('2024-03-10', [{ name: 'Lentil soup', foodId: 'lentils' }]),
+    meal('2024-03-01', [{ name: 'Lentils', foodId: 'lentils' }, { name: 'Kimchi' }]),
+    meal('2024-01-01', [{ name: 'Tofu' }]),
+    meal('2024-01-02', [{ name: 'Tofu' }]),
+    meal('2024-01-03', [{ name: 'Tofu' }]),
+  ];
+
+  it('learns foods logged on several recent days', () => {
+    const changes = learnFromMeals([], meals, today);
+    expect(changes).toEqual([
+      { type: 'add', item: { kind: 'like', value: 'Lentils', source: 'meals', evidence: 3 } },
+      { type: 'add', item: { kind: 'like', value: 'Kimchi', source: 'meals', evidence: 3 } },
+    ]);
+  });
+
+  it('leaves foods the profile already has to it, and updates its own counts', () => {
+    const changes = learnFromMeals([
+      item('l', { value: 'lentils', source: 'meals', evidence: 2 }),
+      item('k', { value: 'kimchi', kind: 'dislike', source: 'user' }),
+    ], meals, today);
+    expect(changes).toEqual([{ type: 'update', id: 'l', updates: { evidence: 3 } }]);
+    expect(learnFromMeals([item('l', { value: 'Lentils', source: 'meals', evidence: 3, dismissed: true }), item('k', { value: 'Kimchi' })], meals, today))
+      .toEqual([]);
+  });
+});
+
+describe('summarizeProfile', () => {
+  const items = [
+    item('oats', { evidence: 1 }),
+    item('lentils', { evidence: 4 }),
+    item('peanuts', { kind: 'allergy' }),
+    item('tofu', { kind: 'dislike', dismissed: true }),
+    item('eat more fibre', { kind: 'goal', source: 'user' }),
+  ];
+
+  it('lists what is known, allergies first and most evidence first', () => {
+    expect(summarizeProfile(items)).toBe(
+      'What you know about the user:\n' +
+      '- Allergies and intolerances (never suggest these): peanuts\n' +
+      '- Likes (eaten often or mentioned): lentils, oats\n' +
+      '- Goals: eat more fibre'
+    );
+    expect(summarizeProfile([])).toBe('');
+  });
+
+  it('turns the profile into meal suggestion constraints', () => {
+    expect(profileConstraints(items)).toEqual({
+      preferences: ['Likes lentils', 'Likes oats', 'Goal: eat more fibre'],
+      restrictions: ['Allergic to peanuts'],
+    });
+  });
+});
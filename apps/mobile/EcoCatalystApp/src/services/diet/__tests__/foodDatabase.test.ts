@@ -0,0 +1,115 @@
+import { FoodItem } from '../../../contexts/diet/DietContext';
+import { FOODS } from '../foodData';
+import { buildFoodItem, findFood, getFoodById, reconcileFood, searchFoods, servingGrams } from '../foodDatabase';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const item = (overrides: Partial<FoodItem> = {}): FoodItem => ({
+  id: 'f1',
+  name: 'Grilled chicken breast',
+  servingSize: '150 g',
+  calories: 250,
+  protein: 45,
+  carbs: 0,
+  fat: 5,
+  ...overrides,
+});
+
+describe('food data', () => {
+  it('has unique ids and plausible values', () => {
+    expect(new Set(FOODS.map(food => food.id)).size).toBe(FOODS.length);
+    FOODS.forEach(food => {
+      const { protein, carbs, fat } = food.per100g;
+      expect(protein + carbs + fat).toBeLessThanOrEqual(100);
+      expect(food.kgCO2ePerKg).toBeGreaterThan(0);
+      expect(food.serving.grams).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('searchFoods', () => {
+  it('finds foods by name, alias and plural', () => {
+    expect(searchFoods('lentils')[0].food.id).toBe('lentils');
+    expect(searchFoods('spaghetti')[0].food.id).toBe('pasta');
+    expect(searchFoods('cooked rice')[0].food.id).toBe('white_rice');
+  });
+
+  it('tolerates typos and partly typed words', () => {
+    expect(searchFoods('brocoli')[0].food.id).toBe('broccoli');
+    expect(searchFoods('chiken breast')[0].food.id).toBe('chicken_breast');
+    expect(searchFoods('avoc')[0].food.id).toBe('avocado');
+  });
+
+  it('returns nothing for unrelated text', () => {
+    expect(searchFoods('zzzz')).toEqual([]);
+    expect(searchFoods('  ')).toEqual([]);
+  });
+});
+
+describe('findFood', () => {
+  it('matches free-text names that describe a database food', () => {
+    expect(findFood('Grilled chicken breast')?.id).toBe('chicken_breast');
+    expect(findFood('Steamed brown rice')?.id).toBe('brown_rice');
+    expect(findFood('Scrambled eggs')?.id).toBe('egg');
+  });
+
+  it('does not guess for dishes or foods it does not have', () => {
+    expect(findFood('Beef and rice bowl with vegetables')).toBeNull();
+    expect(findFood('Peach')).toBeNull();
+  });
+});
+
+describe('servingGrams', () => {
+  it('converts volumes by density and counts by the typical portion', () => {
+    expect(servingGrams('1 cup', getFoodById('milk')!)).toBeCloseTo(247.2);
+    expect(servingGrams('2 slices', getFoodById('white_bread')!)).toBe(60);
+    expect(servingGrams('to taste', getFoodById('white_bread')!)).toBeNull();
+  });
+});
+
+describe('buildFoodItem', () => {
+  it('fills in nutrients, carbon and water for the serving', () => {
+    const food = buildFoodItem(getFoodById('lentils')!, '200 g', 1.5);
+    expect(food).toMatchObject({
+      foodId: 'lentils',
+      name: 'Lentils (cooked)',
+      servingSize: '200 g',
+      servings: 1.5,
+      calories: 348,
+      protein: 27,
+      carbs: 60,
+      fat: 1.2,
+      carbonFootprint: 0.27,
+      waterUsage: 1200,
+      sustainabilityScore: 90,
+    });
+  });
+
+  it('uses the typical portion without a usable serving size', () => {
+    expect(buildFoodItem(getFoodById('banana')!).servingSize).toBe('1 medium (118 g)');
+    expect(buildFoodItem(getFoodById('banana')!, 'one').calories).toBe(105);
+  });
+});
+
+describe('reconcileFood', () => {
+  it('keeps values close to the database and adds the footprint', () => {
+    const { food, match, corrected } = reconcileFood(item());
+    expect(match?.id).toBe('chicken_breast');
+    expect(corrected).toEqual([]);
+    expect(food).toMatchObject({ calories: 250, protein: 45, carbonFootprint: 0.9, waterUsage: 645, foodId: 'chicken_breast' });
+  });
+
+  it('replaces values that are too far off', () => {
+    const { food, corrected } = reconcileFood(item({ calories: 600, fat: 30 }));
+    expect(corrected).toEqual(['calories', 'fat']);
+    expect(food.calories).toBe(247.5);
+    expect(food.fat).toBe(5.4);
+  });
+
+  it('leaves foods it cannot match or measure alone', () => {
+    expect(reconcileFood(item({ name: 'Mystery stew' }))).toEqual({ food: item({ name: 'Mystery stew' }), match: null, corrected: [] });
+    expect(reconcileFood(item({ servingSize: 'some' })).corrected).toEqual([]);
+  });
+});
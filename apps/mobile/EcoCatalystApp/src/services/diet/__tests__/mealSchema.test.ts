@@ -0,0 +1,67 @@
+import { parseModelJson, validateMealSuggestion } from '../mealSchema';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const meal = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Lentil salad',
+  description: 'Pulses have a small footprint.',
+  foods: [
+    { name: 'Lentils', servingSize: '200 g', calories: 232, protein: 18, carbs: 40, fat: 0.8, sustainabilityScore: 90 },
+    { name: 'Olive oil', servingSize: '1 tbsp', calories: 119, protein: 0, carbs: 0, fat: 13.5 },
+  ],
+  totalCalories: 351,
+  totalProtein: 18,
+  totalCarbs: 40,
+  totalFat: 14.3,
+  ...overrides,
+});
+
+describe('parseModelJson', () => {
+  it('recovers JSON from fences, surrounding text and trailing commas', () => {
+    expect(parseModelJson('{"a":1}')).toEqual({ a: 1 });
+    expect(parseModelJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseModelJson('Here you go: {"a":[1,2,],} Enjoy!')).toEqual({ a: [1, 2] });
+    expect(parseModelJson('{"a":')).toBeUndefined();
+    expect(parseModelJson('No meal today.')).toBeUndefined();
+  });
+});
+
+describe('validateMealSuggestion', () => {
+  it('returns a typed meal, accepting numeric strings', () => {
+    const result: any = validateMealSuggestion(meal({ totalCalories: '351' }));
+    expect(result.totalCalories).toBe(351);
+    expect(result.foods[0]).toEqual(meal().foods[0]);
+    expect(result.foods[1].sustainabilityScore).toBeUndefined();
+  });
+
+  it('lists every field that is missing or out of range', () => {
+    const result = validateMealSuggestion(meal({
+      name: '',
+      foods: [
+        { name: 'Lentils', servingSize: 'some', calories: -5, protein: 'lots', carbs: 40, fat: 1 },
+        { name: 'Oats', servingSize: '40 g', calories: 150, protein: 5, carbs: 27, fat: 3, sustainabilityScore: 140 },
+      ],
+      totalFat: null,
+    }));
+    expect(result).toEqual([
+      'name must be a non-empty string',
+      'foods[0].servingSize must include an amount, such as "150 g" or "1 cup"',
+      'foods[0].calories must be a number, zero or more',
+      'foods[0].protein must be a number, zero or more',
+      'foods[1].sustainabilityScore must be a number from 0 to 100',
+      'totalFat must be a number, zero or more',
+    ]);
+    expect(validateMealSuggestion([])).toEqual(['The response must be a JSON object.']);
+    expect(validateMealSuggestion(meal({ foods: [] }))).toEqual(['foods must be a non-empty array']);
+  });
+
+  it('requires the totals to match the foods', () => {
+    expect(validateMealSuggestion(meal({ totalCalories: 356, totalFat: 15 }))).not.toEqual(expect.any(Array));
+    expect(validateMealSuggestion(meal({ totalCalories: 200, totalProtein: 30 }))).toEqual([
+      'totalCalories is 200 but the foods add up to 351',
+      'totalProtein is 30 but the foods add up to 18',
+    ]);
+  });
+});
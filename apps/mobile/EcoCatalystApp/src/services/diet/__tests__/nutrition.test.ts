@@ -0,0 +1,99 @@
+import { DietPlan, FoodItem, MealEntry } from '../../../contexts/diet/DietContext';
+import { groupByMealType, mealTotals, progressAgainstPlan, scaleFood, sumMeals } from '../nutrition';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const food = (overrides: Partial<FoodItem> = {}): FoodItem => ({
+  id: 'f1',
+  name: 'Oat porridge',
+  servingSize: '250 g',
+  calories: 300,
+  protein: 10,
+  carbs: 54,
+  fat: 6,
+  ...overrides,
+});
+
+const meal = (overrides: Partial<MealEntry> = {}): MealEntry => ({
+  id: 'm1',
+  userId: 'u1',
+  date: '2024-03-01',
+  mealType: 'breakfast',
+  name: 'Porridge',
+  foods: [food()],
+  totalCalories: 300,
+  totalProtein: 10,
+  totalCarbs: 54,
+  totalFat: 6,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const plan = (overrides: Partial<DietPlan> = {}): DietPlan => ({
+  id: 'p1',
+  userId: 'u1',
+  name: 'Plant forward',
+  startDate: '2024-01-01',
+  endDate: '2024-12-31',
+  dietType: 'vegetarian',
+  calorieTarget: 2000,
+  proteinTarget: 80,
+  carbTarget: 250,
+  fatTarget: 0,
+  restrictions: [],
+  preferences: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('mealTotals', () => {
+  it('adds up the macros of every food', () => {
+    expect(mealTotals([food(), food({ id: 'f2', calories: 95.5, protein: 0.5, carbs: 25, fat: 0.3 })])).toEqual({
+      totalCalories: 395.5,
+      totalProtein: 10.5,
+      totalCarbs: 79,
+      totalFat: 6.3,
+    });
+  });
+});
+
+describe('progressAgainstPlan', () => {
+  it('reports each target set in the plan', () => {
+    const totals = sumMeals([meal(), meal({ id: 'm2', mealType: 'lunch', totalCalories: 1900, totalProtein: 30 })]);
+    const progress = progressAgainstPlan(totals, plan());
+
+    expect(progress.map(item => item.macro)).toEqual(['calories', 'protein', 'carbs']);
+    expect(progress[0]).toMatchObject({ macro: 'calories', consumed: 2200, target: 2000, remaining: -200 });
+    expect(progress[0].percent).toBeCloseTo(110);
+    expect(progress[1].remaining).toBe(40);
+  });
+
+  it('is empty without a plan', () => {
+    expect(progressAgainstPlan(sumMeals([meal()]), null)).toEqual([]);
+  });
+});
+
+describe('scaleFood', () => {
+  it('rescales macros, carbon and water from the current servings', () => {
+    const scaled = scaleFood(food({ servings: 2, carbonFootprint: 0.4, waterUsage: 200 }), 3);
+    expect(scaled).toEqual(food({ servings: 3, calories: 450, protein: 15, carbs: 81, fat: 9, carbonFootprint: 0.6, waterUsage: 300 }));
+  });
+
+  it('treats unset servings as one and ignores invalid amounts', () => {
+    expect(scaleFood(food(), 0.5).calories).toBe(150);
+    expect(scaleFood(food(), 0)).toEqual(food());
+  });
+});
+
+describe('groupByMealType', () => {
+  it('puts every meal under its type', () => {
+    const groups = groupByMealType([meal(), meal({ id: 'm2', mealType: 'snack' }), meal({ id: 'm3' })]);
+    expect(groups.breakfast.map(item => item.id)).toEqual(['m1', 'm3']);
+    expect(groups.snack.map(item => item.id)).toEqual(['m2']);
+    expect(groups.lunch).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { DietPlan } from '../../../contexts/diet/DietContext';
+import {
+  BodyMetrics,
+  calculateBmr,
+  calculateTargets,
+  selectActivePlan,
+  validateMetrics,
+  validatePlanDates,
+} from '../plans';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const metrics = (overrides: Partial<BodyMetrics> = {}): BodyMetrics => ({
+  sex: 'female',
+  age: 30,
+  heightCm: 165,
+  weightKg: 60,
+  activityLevel: 'moderate',
+  goal: 'maintain',
+  ...overrides,
+});
+
+const plan = (id: string, overrides: Partial<DietPlan> = {}): DietPlan => ({
+  id,
+  userId: 'u1',
+  name: id,
+  startDate: '2024-03-01',
+  endDate: '2024-05-31',
+  dietType: 'balanced',
+  calorieTarget: 2000,
+  proteinTarget: 100,
+  carbTarget: 250,
+  fatTarget: 67,
+  restrictions: [],
+  preferences: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('calculateBmr', () => {
+  it('uses the Mifflin-St Jeor equation', () => {
+    expect(calculateBmr(metrics())).toBe(1320.25);
+    expect(calculateBmr(metrics({ sex: 'male', weightKg: 80, heightCm: 180 }))).toBe(1780);
+  });
+});
+
+describe('calculateTargets', () => {
+  it('scales by activity and splits calories by diet type', () => {
+    // 1320.25 * 1.55 = 2046.4, rounded to 2050 kcal
+    expect(calculateTargets(metrics(), 'balanced')).toEqual({ calories: 2050, protein: 103, carbs: 256, fat: 68 });
+    expect(calculateTargets(metrics(), 'keto')).toEqual({ calories: 2050, protein: 103, carbs: 26, fat: 171 });
+  });
+
+  it('adjusts for the goal without going below a safe minimum', () => {
+    expect(calculateTargets(metrics({ goal: 'gain' }), 'balanced').calories).toBe(2350);
+    expect(calculateTargets(metrics({ goal: 'lose', activityLevel: 'sedentary', weightKg: 45 }), 'vegan').calories).toBe(1200);
+  });
+});
+
+describe('validateMetrics', () => {
+  it('accepts plausible adult metrics and explains the first problem otherwise', () => {
+    expect(validateMetrics(metrics())).toBeNull();
+    expect(validateMetrics({ ...metrics(), age: NaN })).toBe('Age must be between 14 and 100.');
+    expect(validateMetrics({ ...metrics(), heightCm: 1.65 })).toBe('Height must be between 100 and 250 cm.');
+    expect(validateMetrics({ ...metrics(), activityLevel: undefined })).toBe('Please choose an activity level.');
+  });
+});
+
+describe('validatePlanDates', () => {
+  it('requires real dates in order that have not all passed', () => {
+    expect(validatePlanDates('2024-03-01', '2024-05-31', '2024-03-10')).toBeNull();
+    expect(validatePlanDates('2024-02-30', '2024-05-31', '2024-03-10')).toMatch(/Start date/);
+    expect(validatePlanDates('2024-03-01', '2024-02-01', '2024-01-10')).toMatch(/on or after/);
+    expect(validatePlanDates('2024-01-01', '2024-02-01', '2024-03-10')).toMatch(/already passed/);
+  });
+});
+
+describe('selectActivePlan', () => {
+  it('prefers the most recently activated plan that has not ended', () => {
+    const plans = [
+      plan('newest', { startDate: '2024-04-01' }),
+      plan('chosen', { activatedAt: 200 }),
+      plan('earlier', { activatedAt: 100 }),
+      plan('ended', { endDate: '2024-03-01', activatedAt: 300 }),
+    ];
+    expect(selectActivePlan(plans, '2024-03-10')?.id).toBe('chosen');
+  });
+
+  it('falls back to the latest start date and returns null when every plan has ended', () => {
+    expect(selectActivePlan([plan('a'), plan('b', { startDate: '2024-04-01' })], '2024-03-10')?.id).toBe('b');
+    expect(selectActivePlan([plan('a')], '2024-06-01')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { DietPlan, DietProfileItem } from '../../../contexts/diet/DietContext';
+import { checkFoodItems, checkIngredients, describeViolation, dietRules, foodRules } from '../restrictions';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const plan = (overrides: Partial<DietPlan>): DietPlan => ({
+  id: 'plan1',
+  userId: 'u1',
+  name: 'Plan',
+  startDate: '2024-03-01',
+  endDate: '2024-05-31',
+  dietType: 'balanced',
+  calorieTarget: 2000,
+  proteinTarget: 100,
+  carbTarget: 250,
+  fatTarget: 67,
+  restrictions: [],
+  preferences: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const profileItem = (kind: DietProfileItem['kind'], value: string): DietProfileItem => ({
+  id: value,
+  userId: 'u1',
+  kind,
+  value,
+  source: 'chat',
+  evidence: 1,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('foodRules', () => {
+  it('records which rule excludes what, and whether it may be broken', () => {
+    const rules = foodRules('keto', ['Gluten-free', 'Allergic to shellfish', 'Dislikes tofu', 'no mushrooms']);
+    expect(rules.sources.gluten).toEqual({ rule: 'Gluten-free', hard: true });
+    expect(rules.sources.shellfish).toEqual({ rule: 'Allergic to shellfish', hard: true });
+    expect(rules.sources.high_carb).toEqual({ rule: 'Keto', hard: false });
+    expect(rules.sources.tofu).toEqual({ rule: 'Dislikes tofu', hard: false });
+    expect(rules.excludedNames).toEqual(['tofu', 'mushrooms']);
+    expect(rules.excludedTags).not.toContain('soy');
+  });
+
+  it('adds the allergies and dislikes in the profile to the plan', () => {
+    const rules = dietRules(plan({ dietType: 'vegan' }), [profileItem('allergy', 'peanuts'), profileItem('like', 'oats')]);
+    expect(rules.excludedTags).toEqual(expect.arrayContaining(['dairy', 'peanuts']));
+    expect(rules.sources.peanuts).toEqual({ rule: 'Allergic to peanuts', hard: true });
+    expect(dietRules(null, []).excludedTags).toEqual([]);
+  });
+});
+
+describe('checkIngredients', () => {
+  it('explains what in a product breaks the rules', () => {
+    const violations = checkIngredients(
+      ['Sugar', 'Cocoa butter', 'Whole milk powder', 'May contain hazelnuts'],
+      foodRules('vegan', ['Nut-free'])
+    );
+    expect(violations.map(describeViolation)).toEqual([
+      'Whole milk powder: contains dairy (Vegan)',
+      'May contain hazelnuts: may contain tree nuts (Nut-free)',
+    ]);
+    expect(violations[1]).toMatchObject({ hard: true, trace: true });
+  });
+
+  it('still flags milk and cheese that are only lactose-free', () => {
+    const violations = checkIngredients(['Lactose-free milk', 'Lactose-free cheese'], foodRules('vegan', ['Dairy-free']));
+    expect(violations.map(violation => [violation.item, violation.reason])).toEqual([
+      ['Lactose-free milk', 'dairy'],
+      ['Lactose-free cheese', 'dairy'],
+    ]);
+  });
+});
+
+describe('checkFoodItems', () => {
+  const rules = foodRules('vegetarian', ['No mushrooms', 'Low sodium']);
+
+  it('checks database foods by what they are and others by name', () => {
+    const violations = checkFoodItems([
+      { name: 'Grilled chicken breast' },
+      { name: 'Portobello', foodId: 'mushrooms' },
+      { name: 'Prawn crackers' },
+      { name: 'Lentils', foodId: 'lentils' },
+    ], rules);
+    expect(violations.map(violation => [violation.item, violation.reason, violation.hard])).toEqual([
+      ['Grilled chicken breast', 'meat', true],
+      ['Portobello', 'mushrooms', true],
+      ['Prawn crackers', 'fish and shellfish', true],
+    ]);
+  });
+
+  it('only warns about amounts', () => {
+    expect(checkFoodItems([{ name: 'White rice', foodId: 'white_rice' }], foodRules('keto', [])))
+      .toEqual([expect.objectContaining({ reason: 'a lot of carbs', rule: 'Keto', hard: false })]);
+  });
+});
@@ -0,0 +1,30 @@
+import { parseServing } from '../servingUnits';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+describe('parseServing', () => {
+  it('reads weights, volumes and counts', () => {
+    expect(parseServing('150 g')).toEqual({ kind: 'mass', grams: 150 });
+    expect(parseServing('1.5kg')).toEqual({ kind: 'mass', grams: 1500 });
+    expect(parseServing('250 ml')).toEqual({ kind: 'volume', milliliters: 250 });
+    expect(parseServing('2 fl oz')).toEqual({ kind: 'volume', milliliters: 59.147 });
+    expect(parseServing('2 slices')).toEqual({ kind: 'count', count: 2, unit: 'slices' });
+  });
+
+  it('prefers a weight given alongside a volume', () => {
+    expect(parseServing('1 cup (158 g)')).toEqual({ kind: 'mass', grams: 158 });
+  });
+
+  it('understands fractions', () => {
+    expect(parseServing('1/2 cup')).toEqual({ kind: 'volume', milliliters: 120 });
+    expect(parseServing('1 ½ tbsp')).toEqual({ kind: 'volume', milliliters: 22.5 });
+    expect(parseServing('0,5 l')).toEqual({ kind: 'volume', milliliters: 500 });
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseServing('a handful')).toBeNull();
+    expect(parseServing('')).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { DietPlan } from '../../../contexts/diet/DietContext';
+import { getFoodById } from '../foodDatabase';
+import { MEAL_TEMPLATES } from '../mealTemplates';
+import { foodRules, foodTags, isFoodAllowed } from '../restrictions';
+import {
+  buildShoppingList,
+  formatShoppingQuantity,
+  generateWeekPlan,
+  PlannedMeal,
+  toMealEntry,
+  WeekPlan,
+} from '../weekPlanner';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const plan = (overrides: Partial<DietPlan> = {}): DietPlan => ({
+  id: 'plan1',
+  userId: 'u1',
+  name: 'Plan',
+  startDate: '2024-03-01',
+  endDate: '2024-05-31',
+  dietType: 'balanced',
+  calorieTarget: 2000,
+  proteinTarget: 100,
+  carbTarget: 250,
+  fatTarget: 67,
+  restrictions: [],
+  preferences: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const foodIds = (week: WeekPlan): string[] => {
+  return week.days.reduce<string[]>((ids, day) => [
+    ...ids,
+    ...day.meals.reduce<string[]>((mealIds, meal) => [...mealIds, ...meal.foods.map(food => food.foodId!)], []),
+  ], []);
+};
+
+describe('foodRules', () => {
+  it('combines the diet type with known and free-text restrictions', () => {
+    const rules = foodRules('vegetarian', ['Gluten-free', 'no mushrooms']);
+    expect(rules.excludedTags).toEqual(expect.arrayContaining(['meat', 'fish', 'gluten']));
+    expect(rules.excludedFoodIds).toEqual(['mushrooms']);
+  });
+
+  it('checks foods against their group, listed ingredients and carbs', () => {
+    expect(foodTags(getFoodById('bacon')!)).toEqual(expect.arrayContaining(['meat', 'pork']));
+    expect(isFoodAllowed(getFoodById('bacon')!, foodRules('balanced', ['Halal']))).toBe(false);
+    expect(isFoodAllowed(getFoodById('chicken_breast')!, foodRules('balanced', ['Halal']))).toBe(true);
+    expect(isFoodAllowed(getFoodById('white_rice')!, foodRules('keto', []))).toBe(false);
+  });
+});
+
+describe('meal templates', () => {
+  it('only use foods in the database', () => {
+    MEAL_TEMPLATES.forEach(template => template.components.forEach(component => {
+      component.options.forEach(id => expect(getFoodById(id)).not.toBeNull());
+    }));
+  });
+});
+
+describe('generateWeekPlan', () => {
+  it('fills every slot of every day within the tolerance of the targets', () => {
+    const week = generateWeekPlan(plan(), { startDate: '2024-03-04' });
+
+    expect(week.days.map(day => day.date)).toEqual([
+      '2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08', '2024-03-09', '2024-03-10',
+    ]);
+    week.days.forEach(day => {
+      expect(day.meals.map(meal => meal.mealType)).toEqual(['breakfast', 'lunch', 'dinner', 'snack']);
+      expect(day.offTarget).toEqual([]);
+      expect(day.totals.calories).toBeGreaterThan(1800);
+      expect(day.totals.calories).toBeLessThan(2200);
+    });
+    expect(week.warnings).toEqual([]);
+  });
+
+  it('never plans foods the diet or restrictions rule out', () => {
+    const vegan = generateWeekPlan(plan({ dietType: 'vegan', restrictions: ['Nut-free'] }), { startDate: '2024-03-04' });
+    const rules = foodRules('vegan', ['Nut-free']);
+    foodIds(vegan).forEach(id => expect(isFoodAllowed(getFoodById(id)!, rules)).toBe(true));
+
+    const noMushrooms = generateWeekPlan(plan({ restrictions: ['No mushrooms', 'Gluten-free'] }), { startDate: '2024-03-04' });
+    expect(foodIds(noMushrooms)).not.toContain('mushrooms');
+    expect(foodIds(noMushrooms)).not.toContain('pasta');
+  });
+
+  it('avoids high-carbon foods and leans further when the plan prefers low carbon', () => {
+    const week = generateWeekPlan(plan(), { startDate: '2024-03-04' });
+    const lowCarbon = generateWeekPlan(plan({ preferences: ['Low carbon'] }), { startDate: '2024-03-04' });
+
+    expect(foodIds(week)).not.toContain('ground_beef');
+    expect(lowCarbon.carbonFootprint).toBeLessThanOrEqual(week.carbonFootprint);
+  });
+
+  it('varies meals without repeating one within a day', () => {
+    const week = generateWeekPlan(plan(), { startDate: '2024-03-04' });
+    const templateIds = week.days.map(day => day.meals.map(meal => meal.templateId));
+
+    templateIds.forEach(ids => expect(new Set(ids).size).toBe(ids.length));
+    expect(new Set(templateIds.map(ids => ids[2])).size).toBeGreaterThan(3);
+  });
+
+  it('gives the same plan for the same seed and another plan for another seed', () => {
+    const names = (week: WeekPlan) => week.days.map(day => day.meals.map(meal => meal.templateId).join());
+    const seeded = generateWeekPlan(plan(), { startDate: '2024-03-04', seed: 7 });
+
+    expect(names(generateWeekPlan(plan(), { startDate: '2024-03-04', seed: 7 }))).toEqual(names(seeded));
+    expect(names(generateWeekPlan(plan(), { startDate: '2024-03-04' }))).not.toEqual(names(seeded));
+  });
+
+  it('warns about slots no meal fits', () => {
+    const week = generateWeekPlan(plan({ dietType: 'vegan', restrictions: ['Soy-free', 'Nut-free', 'No hummus', 'No apple', 'No orange'] }), {
+      startDate: '2024-03-04',
+      days: 1,
+      mealTypes: ['snack'],
+    });
+    expect(week.days[0].meals).toEqual([]);
+    expect(week.warnings[0]).toMatch(/No snack meals/);
+  });
+});
+
+describe('buildShoppingList', () => {
+  const meal = (foods: Array<[string, string]>): PlannedMeal => ({
+    date: '2024-03-04',
+    mealType: 'dinner',
+    templateId: 't',
+    name: 'Meal',
+    foods: foods.map(([foodId, servingSize], index) => ({
+      id: `f${index}`,
+      foodId,
+      name: foodId,
+      servingSize,
+      calories: 0,
+      protein: 0,
+      carbs: 0,
+      fat: 0,
+    })),
+    totals: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    carbonFootprint: 0,
+    waterUsage: 0,
+  });
+
+  it('adds up each food across meals and groups them by aisle', () => {
+    const list = buildShoppingList([
+      meal([['white_rice', '260 g'], ['tomato', '150 g'], ['olive_oil', '10 g']]),
+      meal([['white_rice', '130 g'], ['tomato', '100 g'], ['apple', '182 g']]),
+    ]);
+
+    expect(list.map(aisle => aisle.aisle)).toEqual(['Fruit & vegetables', 'Bakery & grains', 'Oils & spreads']);
+    expect(list[0].items.map(item => item.name)).toEqual(['Apple', 'Tomato']);
+    expect(list[0].items[1]).toMatchObject({ grams: 250, meals: 2, dry: false });
+    // 390 g cooked rice is 150 g dry
+    expect(list[1].items[0]).toMatchObject({ foodId: 'white_rice', grams: 150, dry: true });
+    expect(formatShoppingQuantity(list[1].items[0])).toBe('150 g dry');
+    expect(formatShoppingQuantity(list[2].items[0])).toBe('15 ml');
+  });
+
+  it('lists the ingredients of a generated week', () => {
+    const week = generateWeekPlan(plan(), { startDate: '2024-03-04' });
+    const listed = week.shoppingList.reduce<string[]>((ids, aisle) => [...ids, ...aisle.items.map(item => item.foodId)], []);
+    expect(listed.sort()).toEqual(Array.from(new Set(foodIds(week))).sort());
+  });
+});
+
+describe('toMealEntry', () => {
+  it('keeps the planned foods, totals and footprint', () => {
+    const planned = generateWeekPlan(plan(), { startDate: '2024-03-04', days: 1 }).days[0].meals[0];
+    expect(toMealEntry(planned, 'plan1')).toMatchObject({
+      dietPlanId: 'plan1',
+      date: '2024-03-04',
+      mealType: 'breakfast',
+      foods: planned.foods,
+      totalCalories: planned.totals.calories,
+      carbonFootprint: planned.carbonFootprint,
+    });
+  });
+});
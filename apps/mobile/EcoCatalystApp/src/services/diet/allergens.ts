@@ -0,0 +1,146 @@
+import { FoodTag } from './foodData';
+
+export interface IngredientTags {
+  tags: FoodTag[]; // what the ingredient contains or is
+  traces: FoodTag[]; // what it only may contain, from "may contain" and "traces of" warnings
+}
+
+/**
+ * Words that put an ingredient in an allergen group or under a diet rule. Matched as whole words,
+ * plurals too, so "nut" doesn't match "nutmeg" and "fish" doesn't match "shellfish".
+ */
+const TAG_KEYWORDS: Partial<Record<FoodTag, string[]>> = {
+  gluten: ['gluten', 'wheat', 'barley', 'rye', 'spelt', 'semolina', 'durum', 'couscous', 'bulgur', 'seitan', 'farro', 'kamut', 'triticale', 'malt', 'bread', 'breadcrumb', 'pasta'],
+  dairy: ['dairy', 'milk', 'cream', 'butter', 'buttermilk', 'creme fraiche', 'cheese', 'yogurt', 'yoghurt', 'whey', 'casein', 'caseinate', 'lactose', 'ghee', 'kefir', 'curd', 'paneer', 'mozzarella', 'cheddar', 'parmesan', 'ricotta'],
+  eggs: ['egg', 'albumen', 'albumin', 'mayonnaise', 'meringue'],
+  soy: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+  nuts: ['nut', 'tree nut', 'almond', 'hazelnut', 'walnut', 'cashew', 'pecan', 'pistachio', 'macadamia', 'brazil nut', 'praline', 'marzipan'],
+  peanuts: ['peanut', 'groundnut', 'arachis'],
+  fish: ['fish', 'anchovy', 'salmon', 'tuna', 'cod', 'sardine', 'mackerel', 'trout', 'haddock', 'pollock', 'herring', 'tilapia', 'hake'],
+  shellfish: ['shellfish', 'crustacean', 'shrimp', 'prawn', 'crab', 'lobster', 'mussel', 'oyster', 'clam', 'scallop', 'squid', 'crayfish', 'langoustine', 'octopus'],
+  meat: ['meat', 'beef', 'pork', 'chicken', 'lamb', 'mutton', 'turkey', 'veal', 'duck', 'venison', 'bacon', 'ham', 'sausage', 'salami', 'chorizo', 'pepperoni', 'prosciutto', 'pancetta', 'lard', 'gelatin', 'gelatine'],
+  pork: ['pork', 'bacon', 'ham', 'lard', 'salami', 'chorizo', 'pepperoni', 'prosciutto', 'pancetta', 'gelatin', 'gelatine'],
+  sugar: ['sugar', 'syrup', 'dextrose', 'glucose', 'fructose', 'sucrose', 'honey', 'molasses', 'treacle'],
+  legumes: ['legume', 'bean', 'lentil', 'chickpea', 'pea', 'lupin', 'soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'peanut', 'hummus'],
+  grains: ['grain', 'wheat', 'barley', 'rye', 'spelt', 'oat', 'rice', 'corn', 'maize', 'millet', 'sorghum', 'flour', 'bread', 'pasta', 'couscous', 'bulgur'],
+};
+
+// Phrases that look like a group but aren't in it, removed before matching that group
+const NOT_IN_GROUP: Partial<Record<FoodTag, RegExp>> = {
+  dairy: /\b(coconut|almond|oat|soy|soya|rice|cashew|hazelnut|nut|plant|cocoa|peanut|shea|apple)[- ](milk|cream|butter|yogh?urt|cheese|drink)s?\b|\bcream of tartar\b/g,
+};
+
+// Names of allergen groups as people write them in restrictions, e.g. "Allergic to shellfish"
+const GROUP_NAMES: Record<string, FoodTag[]> = {
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  coeliac: ['gluten'],
+  celiac: ['gluten'],
+  dairy: ['dairy'],
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  egg: ['eggs'],
+  soy: ['soy'],
+  soya: ['soy'],
+  nut: ['nuts'],
+  'tree nut': ['nuts'],
+  peanut: ['peanuts'],
+  fish: ['fish'],
+  shellfish: ['shellfish'],
+  crustacean: ['shellfish'],
+  seafood: ['fish', 'shellfish'],
+  pork: ['pork'],
+  meat: ['meat'],
+  sugar: ['sugar'],
+  legume: ['legumes'],
+};
+
+const TRACE_PATTERN = /\b(may contain|may also contain|traces? of|made in a factory|produced in a factory|made on equipment|processed in a facility)\b/;
+// "gluten-free", "milk free", "no added sugar", "without egg": the group named is absent
+const FREE_FROM_PATTERN = /\b([a-z]+)[- ]free\b|\b(?:no|without|non)[- ](?:added )?([a-z]+)\b/g;
+// Only part of their group: "lactose-free milk" is still milk and "wheat-free rye bread" still has gluten
+const PART_OF_GROUP = new Set(['lactose', 'wheat']);
+
+const escape = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * A whole-word pattern for a keyword and its plural ("anchovy" and "anchovies")
+ */
+const keywordPattern = (keyword: string): RegExp => {
+  const base = escape(keyword);
+  const plural = keyword.endsWith('y') ? `${escape(keyword.slice(0, -1))}ies` : `${base}(?:e?s)`;
+  return new RegExp(`\\b(?:${base}|${plural})\\b`);
+};
+
+const PATTERNS = (Object.keys(TAG_KEYWORDS) as FoodTag[]).map(tag => ({
+  tag,
+  patterns: (TAG_KEYWORDS[tag] || []).map(keywordPattern),
+}));
+
+const normalize = (text: string): string => {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/_/g, ' ') // Open Food Facts marks allergens like _milk_
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const matchTags = (text: string): FoodTag[] => {
+  const absent = new Set<FoodTag>();
+  const present = text.replace(FREE_FROM_PATTERN, (phrase, free?: string, none?: string) => {
+    const name = free || none || '';
+    if (!PART_OF_GROUP.has(name)) {
+      (allergenGroup(name) || []).forEach(tag => absent.add(tag));
+    }
+    return ' ';
+  });
+  return PATTERNS
+    .filter(({ tag, patterns }) => {
+      if (absent.has(tag)) return false;
+      const exclusions = NOT_IN_GROUP[tag];
+      const checked = exclusions ? present.replace(exclusions, ' ') : present;
+      return patterns.some(pattern => pattern.test(checked));
+    })
+    .map(({ tag }) => tag);
+};
+
+/**
+ * The allergen groups and diet rule tags an ingredient, or a food's name, falls under. The part
+ * after a "may contain" warning counts as traces only.
+ */
+export const ingredientTags = (ingredient: string): IngredientTags => {
+  const text = normalize(ingredient);
+  const trace = text.match(TRACE_PATTERN);
+  if (!trace || trace.index === undefined) {
+    return { tags: matchTags(text), traces: [] };
+  }
+
+  const tags = matchTags(text.slice(0, trace.index));
+  return {
+    tags,
+    traces: matchTags(text.slice(trace.index)).filter(tag => !tags.includes(tag)),
+  };
+};
+
+/**
+ * The groups a restriction names, such as "shellfish" or "lactose", or null when it names
+ * something else, like a single food
+ */
+export const allergenGroup = (name: string): FoodTag[] | null => {
+  const key = normalize(name);
+  const singular = key.length > 3 && key.endsWith('s') && !key.endsWith('ss') ? key.slice(0, -1) : key;
+  return GROUP_NAMES[key] || GROUP_NAMES[singular] || null;
+};
+
+/**
+ * Whether text mentions a word or phrase, as a whole word or its plural
+ */
+export const mentions = (text: string, name: string): boolean => {
+  const keyword = normalize(name);
+  if (!keyword) return false;
+  const normalized = normalize(text);
+  const singular = keyword.endsWith('s') ? keyword.slice(0, -1) : keyword;
+  return keywordPattern(keyword).test(normalized) || keywordPattern(singular).test(normalized);
+};
@@ -0,0 +1,241 @@
+import { ChatMessage, ProposedAction } from '../../contexts/diet/DietContext';
+import { LLMClient } from '../llm/client';
+import { LLMDeltaHandler, LLMError, LLMMessage } from '../llm/types';
+import { ASSISTANT_TOOLS, AssistantToolContext, runAssistantTool } from './assistantTools';
+import { ProfileMemory, summarizeProfile } from './dietProfile';
+import { MEAL_SUGGESTION_FORMAT, MealSuggestionResponse, parseModelJson, validateMealSuggestion } from './mealSchema';
+import { FoodRules, checkFoodItems } from './restrictions';
+
+export interface AssistantResponse {
+  content: string;
+  proposals: ProposedAction[]; // changes waiting for the user to confirm
+  memories: ProfileMemory[]; // things to remember about the user
+  error?: string;
+}
+
+export type MealSuggestionErrorKind =
+  | 'unavailable' // the model could not be reached
+  | 'invalid_output' // the model's meal still failed validation after asking it to fix it
+  | 'restricted'; // the model's meal still broke an allergy or restriction after asking it to fix it
+
+export class MealSuggestionError extends Error {
+  readonly kind: MealSuggestionErrorKind;
+  readonly issues: string[]; // what was wrong with the last reply
+  readonly cause?: LLMError;
+
+  constructor(kind: MealSuggestionErrorKind, message: string, details: { issues?: string[]; cause?: LLMError } = {}) {
+    super(message);
+    this.name = 'MealSuggestionError';
+    this.kind = kind;
+    this.issues = details.issues || [];
+    this.cause = details.cause;
+  }
+}
+
+const HISTORY_TOKEN_BUDGET = 1500;
+const MAX_MEAL_REPAIRS = 2; // times the model is asked to fix an invalid meal
+const MAX_TOOL_ROUNDS = 3; // after this the model has to answer with what it has
+
+/**
+ * A rough token count, about four characters per token
+ */
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * The most recent messages that fit in the token budget, oldest first. The newest one is kept
+ * even when it is over the budget on its own.
+ */
+export const selectHistory = <T extends { content: string }>(messages: T[], budget: number = HISTORY_TOKEN_BUDGET): T[] => {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content);
+    if (used + tokens > budget && start < messages.length) break;
+    used += tokens;
+    start--;
+  }
+  return messages.slice(start);
+};
+
+/**
+ * The system prompt, with today's date, the user's plan and what is known about them, so simple
+ * questions need no tool calls
+ */
+export const dietSystemPrompt = ({ today, plan, profile = [] }: Pick<AssistantToolContext, 'today' | 'plan'> & Partial<Pick<AssistantToolContext, 'profile'>>): string => {
+  const planText = plan
+    ? `The user follows "${plan.name}", a ${plan.dietType} plan with daily targets of ${plan.calorieTarget} kcal, ` +
+      `${plan.proteinTarget} g protein, ${plan.carbTarget} g carbs and ${plan.fatTarget} g fat. ` +
+      `Restrictions: ${plan.restrictions?.length ? plan.restrictions.join(', ') : 'none'}. ` +
+      `Preferences: ${plan.preferences?.length ? plan.preferences.join(', ') : 'none'}.`
+    : 'The user has no diet plan yet.';
+  const profileText = summarizeProfile(profile);
+
+  return 'You are EcoDiet Assistant, an expert in sustainable nutrition and diet planning. ' +
+    'Provide advice on eco-friendly food choices, sustainable meal planning, and the environmental ' +
+    'impact of different foods. Focus on plant-based options, local foods, and low-carbon-footprint meals. ' +
+    'Provide nutritional advice that balances environmental impact with health benefits. ' +
+    'Keep responses concise and actionable, with specific food suggestions when appropriate.\n\n' +
+    `Today is ${today}. ${planText}\n\n` +
+    (profileText ? `${profileText}\n\n` : '') +
+    'Use the tools to look up their plan, logged meals and footprint rather than guessing. ' +
+    'To log a meal or change the plan, call propose_add_meal or propose_plan_update. The user confirms ' +
+    'these in the app, so say what you proposed rather than that it is done. When the user mentions a ' +
+    'lasting like, dislike, allergy or goal, save it with remember_preference.';
+};
+
+/**
+ * A past message as the model sees it, including what happened to anything it proposed
+ */
+const toHistoryMessage = (msg: Pick<ChatMessage, 'content' | 'sender' | 'proposals'>): LLMMessage => {
+  const proposals = (msg.proposals || []).map(proposal => `[Proposed: ${proposal.summary} (${proposal.status})]`);
+  return {
+    role: msg.sender === 'user' ? 'user' : 'assistant',
+    content: [msg.content, ...proposals].join('\n'),
+  };
+};
+
+/**
+ * Answer a chat message, streaming the reply's text to `onDelta`. The model can call tools to read
+ * the user's plan, meals and footprint, and to propose changes, which are returned for the user to
+ * confirm. Text from before and after tool calls is joined into one reply.
+ */
+export const streamDietResponse = async (
+  llm: LLMClient,
+  prompt: string,
+  chatHistory: Array<Pick<ChatMessage, 'content' | 'sender' | 'proposals'>>,
+  context: AssistantToolContext,
+  onDelta: LLMDeltaHandler
+): Promise<AssistantResponse> => {
+  const proposals: ProposedAction[] = [];
+  const memories: ProfileMemory[] = [];
+  let content = '';
+  let separate = false;
+  const emit = (text: string) => {
+    if (separate) {
+      separate = false;
+      content += '\n\n';
+      onDelta('\n\n');
+    }
+    content += text;
+    onDelta(text);
+  };
+
+  try {
+    let messages: LLMMessage[] = [
+      { role: 'system', content: dietSystemPrompt(context) },
+      ...chatHistory.map(toHistoryMessage),
+      { role: 'user', content: prompt }
+    ];
+
+    for (let round = 0; ; round++) {
+      const response = await llm.stream(
+        messages,
+        { maxTokens: 500, tools: ASSISTANT_TOOLS, toolChoice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none' },
+        emit
+      );
+      const toolCalls = response.toolCalls || [];
+      if (toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
+
+      const results = toolCalls.map((call): LLMMessage => {
+        const result = runAssistantTool(call, context, `proposal_${proposals.length + 1}`);
+        if (result.proposal) proposals.push(result.proposal);
+        if (result.memory) memories.push(result.memory);
+        return { role: 'tool', toolCallId: call.id, content: JSON.stringify(result.output) };
+      });
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response.content, toolCalls },
+        ...results,
+      ];
+      separate = content !== '';
+    }
+
+    return {
+      content: content || (proposals.length > 0 ? 'Here is what I suggest:' : memories.length > 0 ? 'Got it, I\'ll remember that.' : 'I couldn\'t generate a response. Please try again.'),
+      proposals,
+      memories
+    };
+  } catch (error) {
+    console.error('Error generating diet response:', error);
+    return {
+      content: 'Sorry, I encountered an error while generating a response. Please try again later.',
+      proposals,
+      memories,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+/**
+ * Generate a meal suggestion. The reply is validated, and the model is shown what was wrong and
+ * asked again when it doesn't parse, doesn't match the format, its totals don't match its foods,
+ * or a food breaks one of the hard rules given. Throws a MealSuggestionError rather than making a
+ * meal up.
+ */
+export const generateMealSuggestion = async (
+  llm: LLMClient,
+  mealType: string,
+  preferences: string[],
+  restrictions: string[],
+  rules?: FoodRules
+): Promise<MealSuggestionResponse> => {
+  const promptText = `Generate a sustainable ${mealType} recipe that is environmentally friendly.
+      Preferences: ${preferences.length > 0 ? preferences.join(', ') : 'none'}
+      Restrictions: ${restrictions.length > 0 ? restrictions.join(', ') : 'none'}
+      
+      Include a brief description that mentions environmental benefits. Each food's values are
+      for its serving, and the totals must equal the sum of the foods.
+      
+      Respond with JSON in this format, without any additional text:
+      ${MEAL_SUGGESTION_FORMAT}`;
+  
+  let messages: LLMMessage[] = [
+    { role: 'system', content: 'You are a sustainable diet expert. Respond only with JSON.' },
+    { role: 'user', content: promptText }
+  ];
+  let issues: string[] = [];
+  let restricted = false;
+  
+  for (let attempt = 0; attempt <= MAX_MEAL_REPAIRS; attempt++) {
+    let content: string;
+    try {
+      content = (await llm.complete(messages, { maxTokens: 800, responseFormat: 'json' })).content;
+    } catch (error) {
+      console.error('Error generating meal suggestion:', error);
+      throw new MealSuggestionError('unavailable', 'The meal suggestion could not be generated.', {
+        issues,
+        cause: error instanceof LLMError ? error : undefined
+      });
+    }
+    
+    const parsed = parseModelJson(content);
+    const result = parsed === undefined ? ['The response was not valid JSON.'] : validateMealSuggestion(parsed);
+    if (Array.isArray(result)) {
+      issues = result;
+      restricted = false;
+    } else {
+      const violations = rules ? checkFoodItems(result.foods, rules).filter(violation => violation.hard) : [];
+      if (violations.length === 0) {
+        return result;
+      }
+      issues = violations.map(violation => `${violation.item} contains ${violation.reason}, which "${violation.rule}" rules out.`);
+      restricted = true;
+    }
+    
+    messages = [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That meal has problems:\n- ${issues.join('\n- ')}\n` +
+          'Reply with the corrected meal as JSON only, in the same format.'
+      }
+    ];
+  }
+  
+  console.error('Invalid meal suggestion:', issues);
+  if (restricted) {
+    throw new MealSuggestionError('restricted', 'The suggested meal broke the user\'s restrictions.', { issues });
+  }
+  throw new MealSuggestionError('invalid_output', 'The suggested meal did not pass validation.', { issues });
+};
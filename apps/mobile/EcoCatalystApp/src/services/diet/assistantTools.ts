@@ -0,0 +1,408 @@
+import { DietPlan, DietProfileItem, FoodItem, MealEntry, MealType, PlanChanges, ProposedAction } from '../../contexts/diet/DietContext';
+import { FootprintSummary } from '../../contexts/footprint/FootprintContext';
+import { SummaryPeriod } from '../footprint/summary';
+import { LLMTool, LLMToolCall } from '../llm/types';
+import { PROFILE_KINDS, ProfileMemory, cleanProfileValue } from './dietProfile';
+import { buildFoodItem, findFood } from './foodDatabase';
+import { MEAL_TYPES, mealTotals, progressAgainstPlan, sumMeals } from './nutrition';
+import { checkFoodItems, describeViolation, dietRules } from './restrictions';
+
+/**
+ * The app data the assistant's tools read from
+ */
+export interface AssistantToolContext {
+  today: string; // local date, YYYY-MM-DD
+  plan: DietPlan | null;
+  meals: MealEntry[];
+  footprint: FootprintSummary;
+  profile: DietProfileItem[];
+}
+
+export interface ToolResult {
+  output: unknown; // sent back to the model as JSON
+  proposal?: ProposedAction;
+  memory?: ProfileMemory; // saved to the user's profile without asking; they can review it there
+}
+
+const SUMMARY_PERIODS: SummaryPeriod[] = ['day', 'week', 'month', 'year'];
+
+// Targets outside these ranges are refused rather than proposed
+const TARGET_LIMITS: Record<'calorieTarget' | 'proteinTarget' | 'carbTarget' | 'fatTarget', { min: number; max: number; unit: string; label: string }> = {
+  calorieTarget: { min: 800, max: 6000, unit: 'kcal', label: 'Calories' },
+  proteinTarget: { min: 0, max: 500, unit: 'g', label: 'Protein' },
+  carbTarget: { min: 0, max: 800, unit: 'g', label: 'Carbs' },
+  fatTarget: { min: 0, max: 400, unit: 'g', label: 'Fat' },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Tool arguments come from the model, so nothing in them is trusted until it has been checked
+type ToolArguments = Record<string, unknown>;
+
+const MEAL_FOOD_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    servingSize: { type: 'string', description: 'An amount such as "150 g", "1 cup" or "2 slices"' },
+    servings: { type: 'number', description: 'How many servingSize portions, 1 when left out' },
+    calories: { type: 'number', description: 'For all servings; only needed for foods the app does not know' },
+    protein: { type: 'number' },
+    carbs: { type: 'number' },
+    fat: { type: 'number' },
+  },
+  required: ['name', 'servingSize'],
+};
+
+export const ASSISTANT_TOOLS: LLMTool[] = [
+  {
+    name: 'get_diet_plan',
+    description: "The user's current diet plan: diet type, dates, daily targets, restrictions and preferences.",
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_meals',
+    description: 'Meals the user logged on a day, with their totals and progress against the plan targets.',
+    parameters: {
+      type: 'object',
+      properties: { date: { type: 'string', description: 'YYYY-MM-DD, today when left out' } },
+    },
+  },
+  {
+    name: 'get_footprint_summary',
+    description: "The user's carbon footprint (kg CO2e) and water use over a recent period, by category, with the trend.",
+    parameters: {
+      type: 'object',
+      properties: { period: { type: 'string', enum: SUMMARY_PERIODS, description: 'The last day, 7 days, month or year; week when left out' } },
+    },
+  },
+  {
+    name: 'propose_add_meal',
+    description: "Suggest logging a meal in the user's diary. The user confirms it in the app before it is added. Meals that break the user's allergies or restrictions are refused.",
+    parameters: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'YYYY-MM-DD, today when left out' },
+        mealType: { type: 'string', enum: MEAL_TYPES },
+        name: { type: 'string' },
+        description: { type: 'string' },
+        foods: { type: 'array', items: MEAL_FOOD_SCHEMA },
+      },
+      required: ['mealType', 'name', 'foods'],
+    },
+  },
+  {
+    name: 'propose_plan_update',
+    description: "Suggest changing the current plan's daily targets, restrictions or preferences. The user confirms it in the app before it is changed.",
+    parameters: {
+      type: 'object',
+      properties: {
+        calorieTarget: { type: 'number' },
+        proteinTarget: { type: 'number', description: 'grams' },
+        carbTarget: { type: 'number', description: 'grams' },
+        fatTarget: { type: 'number', description: 'grams' },
+        restrictions: { type: 'array', items: { type: 'string' }, description: 'The full new list' },
+        preferences: { type: 'array', items: { type: 'string' }, description: 'The full new list' },
+        reason: { type: 'string', description: 'Why, in one sentence for the user' },
+      },
+      required: ['reason'],
+    },
+  },
+  {
+    name: 'remember_preference',
+    description: 'Save something lasting the user said about their eating: a food they like or dislike, an allergy or intolerance, or a goal. Not for one-off choices.',
+    parameters: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: PROFILE_KINDS },
+        value: { type: 'string', description: 'A food or ingredient, or a short goal, e.g. "mushrooms" or "eat more fibre"' },
+      },
+      required: ['kind', 'value'],
+    },
+  },
+];
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const describeServing = (food: FoodItem): string => {
+  return food.servings && food.servings !== 1 ? `${food.servings} × ${food.servingSize}` : food.servingSize;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const isOneOf = <T extends string>(options: T[], value: unknown): value is T => {
+  return typeof value === 'string' && (options as string[]).includes(value);
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const dateOr = (value: unknown, fallback: string): string => {
+  return typeof value === 'string' && DATE_PATTERN.test(value) ? value : fallback;
+};
+
+/**
+ * A number of zero or more, or null for anything else
+ */
+const amount = (value: unknown): number | null => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+const stringList = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+};
+
+const getDietPlan = ({ plan }: AssistantToolContext) => {
+  if (!plan) return { plan: null };
+  return {
+    plan: {
+      name: plan.name,
+      dietType: plan.dietType,
+      startDate: plan.startDate,
+      endDate: plan.endDate,
+      targets: { calories: plan.calorieTarget, protein: plan.proteinTarget, carbs: plan.carbTarget, fat: plan.fatTarget },
+      restrictions: plan.restrictions || [],
+      preferences: plan.preferences || [],
+    },
+  };
+};
+
+const getMeals = (args: ToolArguments, { today, plan, meals }: AssistantToolContext) => {
+  const date = dateOr(args.date, today);
+  const dayMeals = meals.filter(meal => meal.date === date);
+  const totals = sumMeals(dayMeals);
+
+  return {
+    date,
+    meals: dayMeals.map(meal => ({
+      mealType: meal.mealType,
+      name: meal.name,
+      calories: meal.totalCalories,
+      protein: meal.totalProtein,
+      carbs: meal.totalCarbs,
+      fat: meal.totalFat,
+      ...(typeof meal.carbonFootprint === 'number' ? { carbonKg: meal.carbonFootprint } : {}),
+      foods: (meal.foods || []).map(food => `${food.name} (${describeServing(food)})`),
+    })),
+    totals,
+    progress: progressAgainstPlan(totals, plan).map(({ macro, target, remaining }) => ({ macro, target, remaining })),
+  };
+};
+
+const getFootprintSummary = (args: ToolArguments, { footprint }: AssistantToolContext) => {
+  const period: SummaryPeriod = isOneOf(SUMMARY_PERIODS, args.period) ? args.period : 'week';
+  const totals = footprint.rolling[period];
+  const byCategory = Object.keys(totals.byCategory)
+    .filter(category => totals.byCategory[category as keyof typeof totals.byCategory] > 0)
+    .reduce<Record<string, number>>((categories, category) => ({
+      ...categories,
+      [category]: round(totals.byCategory[category as keyof typeof totals.byCategory], 2),
+    }), {});
+  const trend = period === 'week' || period === 'month' ? footprint.trends[period].total : null;
+
+  return {
+    period,
+    start: totals.start,
+    end: totals.end,
+    totalKg: round(totals.total, 2),
+    byCategory,
+    waterLiters: round(footprint.water.rolling[period].total),
+    averagePerDayKg: round(footprint.averagePerDay, 2), // over the days tracked in the last month
+    ...(trend ? { previousPeriodKg: round(trend.previous, 2), changePercent: trend.changePercent } : {}),
+  };
+};
+
+const proposeAddMeal = (args: ToolArguments, { today, plan, profile }: AssistantToolContext, id: string): ToolResult => {
+  const mealType = args.mealType;
+  if (!isOneOf<MealType>(MEAL_TYPES, mealType)) {
+    return { output: { error: `mealType must be one of ${MEAL_TYPES.join(', ')}.` } };
+  }
+  const name = text(args.name);
+  if (!name) {
+    return { output: { error: 'The meal needs a name.' } };
+  }
+  if (!Array.isArray(args.foods) || args.foods.length === 0) {
+    return { output: { error: 'The meal needs at least one food.' } };
+  }
+
+  // Foods the database knows get its values; others need the model's macros
+  const foods: FoodItem[] = [];
+  const unknown: string[] = [];
+  args.foods.forEach((item: unknown, index: number) => {
+    const food = isRecord(item) ? item : {};
+    const foodName = text(food.name);
+    const servingSize = text(food.servingSize) || undefined;
+    const servings = amount(food.servings) || 1;
+    const match = foodName ? findFood(foodName) : null;
+    const [calories, protein, carbs, fat] = [food.calories, food.protein, food.carbs, food.fat].map(amount);
+
+    if (match) {
+      foods.push(buildFoodItem(match, servingSize, servings));
+    } else if (foodName && calories !== null && protein !== null && carbs !== null && fat !== null) {
+      foods.push({
+        id: `food_${Math.random().toString(36).substring(2, 9)}_${index}`,
+        name: foodName,
+        servingSize: servingSize || '1 serving',
+        servings,
+        calories: round(calories),
+        protein: round(protein),
+        carbs: round(carbs),
+        fat: round(fat),
+      });
+    } else {
+      unknown.push(foodName || `food ${index + 1}`);
+    }
+  });
+
+  if (unknown.length > 0) {
+    return {
+      output: {
+        error: `These foods are not in the app's database: ${unknown.join(', ')}. Give their calories, protein, carbs and fat, or use other foods.`,
+      },
+    };
+  }
+
+  // Allergies and restrictions are never proposed; diet goals like keto are passed on as warnings
+  const violations = checkFoodItems(foods, dietRules(plan, profile));
+  const broken = violations.filter(violation => violation.hard);
+  if (broken.length > 0) {
+    return {
+      output: {
+        error: `This meal breaks the user's restrictions: ${broken.map(describeViolation).join('; ')}. Use other foods.`,
+      },
+    };
+  }
+
+  const date = dateOr(args.date, today);
+  const description = text(args.description) || undefined;
+  const meal = {
+    date,
+    mealType,
+    name,
+    ...(description ? { description } : {}),
+    ...(plan ? { dietPlanId: plan.id } : {}),
+    foods,
+    ...mealTotals(foods),
+  };
+
+  return {
+    output: {
+      proposalId: id,
+      status: 'awaiting_confirmation',
+      meal: {
+        date,
+        mealType,
+        name,
+        calories: meal.totalCalories,
+        protein: meal.totalProtein,
+        carbs: meal.totalCarbs,
+        fat: meal.totalFat,
+        foods: foods.map(food => `${food.name} (${describeServing(food)})`),
+      },
+      ...(violations.length > 0 ? { warnings: violations.map(describeViolation) } : {}),
+    },
+    proposal: {
+      id,
+      type: 'add_meal',
+      summary: `Add ${name} as ${mealType}${date === today ? ' today' : ` on ${date}`} (${Math.round(meal.totalCalories)} kcal)`,
+      status: 'pending',
+      meal,
+    },
+  };
+};
+
+const proposePlanUpdate = (args: ToolArguments, { plan }: AssistantToolContext, id: string): ToolResult => {
+  if (!plan) {
+    return { output: { error: 'The user has no diet plan to change.' } };
+  }
+
+  const changes: PlanChanges = {};
+  const described: string[] = [];
+
+  for (const key of Object.keys(TARGET_LIMITS) as Array<keyof typeof TARGET_LIMITS>) {
+    if (args[key] === undefined || args[key] === null) continue;
+    const { min, max, unit, label } = TARGET_LIMITS[key];
+    const value = Number(args[key]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return { output: { error: `${key} must be between ${min} and ${max} ${unit}.` } };
+    }
+    const rounded = Math.round(value);
+    if (rounded !== plan[key]) {
+      changes[key] = rounded;
+      described.push(`${label} ${plan[key]} → ${rounded} ${unit}`);
+    }
+  }
+
+  (['restrictions', 'preferences'] as const).forEach(key => {
+    const list = stringList(args[key]);
+    if (list && list.join('\n') !== (plan[key] || []).join('\n')) {
+      changes[key] = list;
+      const label = key === 'restrictions' ? 'Restrictions' : 'Preferences';
+      described.push(`${label}: ${list.length > 0 ? list.join(', ') : 'none'}`);
+    }
+  });
+
+  if (described.length === 0) {
+    return { output: { error: 'Nothing in the proposal differs from the current plan.' } };
+  }
+
+  const reason = text(args.reason);
+  return {
+    output: { proposalId: id, status: 'awaiting_confirmation', changes },
+    proposal: {
+      id,
+      type: 'update_plan',
+      summary: `${described.join('; ')}${reason ? `. ${reason}` : ''}`,
+      status: 'pending',
+      planId: plan.id,
+      changes,
+    },
+  };
+};
+
+const rememberPreference = (args: ToolArguments): ToolResult => {
+  const kind = args.kind;
+  if (!isOneOf(PROFILE_KINDS, kind)) {
+    return { output: { error: `kind must be one of ${PROFILE_KINDS.join(', ')}.` } };
+  }
+  const value = typeof args.value === 'string' ? cleanProfileValue(args.value) : null;
+  if (!value) {
+    return { output: { error: 'value must be a short, non-empty description.' } };
+  }
+  return { output: { saved: true, kind, value }, memory: { kind, value } };
+};
+
+/**
+ * Run one tool call against the app's data. Problems with the call are returned as an `error`
+ * for the model to correct, rather than thrown. Proposals get `proposalId`.
+ */
+export const runAssistantTool = (call: LLMToolCall, context: AssistantToolContext, proposalId: string): ToolResult => {
+  let parsed: unknown;
+  try {
+    parsed = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch (error) {
+    return { output: { error: 'The arguments were not valid JSON.' } };
+  }
+  const args: ToolArguments = isRecord(parsed) ? parsed : {};
+
+  switch (call.name) {
+    case 'get_diet_plan':
+      return { output: getDietPlan(context) };
+    case 'get_meals':
+      return { output: getMeals(args, context) };
+    case 'get_footprint_summary':
+      return { output: getFootprintSummary(args, context) };
+    case 'propose_add_meal':
+      return proposeAddMeal(args, context, proposalId);
+    case 'propose_plan_update':
+      return proposePlanUpdate(args, context, proposalId);
+    case 'remember_preference':
+      return rememberPreference(args);
+    default:
+      return { output: { error: `There is no tool called ${call.name}.` } };
+  }
+};
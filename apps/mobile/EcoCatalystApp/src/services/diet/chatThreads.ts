@@ -0,0 +1,78 @@
+import { ChatMessage, ChatThread } from '../../contexts/diet/DietContext';
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+export const LEGACY_THREAD_TITLE = 'Earlier conversation';
+export const CHAT_PAGE_SIZE = 30; // messages loaded at a time
+
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * A title for a thread from its first message: the first line, shortened at a word boundary
+ */
+export const threadTitleFrom = (content: string): string => {
+  const line = content.trim().split(/\r?\n/)[0].replace(/\s+/g, ' ');
+  if (!line) return DEFAULT_THREAD_TITLE;
+  if (line.length <= MAX_TITLE_LENGTH) return line;
+
+  const cut = line.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+};
+
+/**
+ * Threads with the most recently active first
+ */
+export const sortThreads = (threads: ChatThread[]): ChatThread[] => {
+  return [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const sortMessages = (messages: ChatMessage[]): ChatMessage[] => {
+  return [...messages].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export interface Rewind {
+  prompt: ChatMessage; // the user message to answer again
+  history: ChatMessage[]; // the conversation before it
+  removed: ChatMessage[]; // everything after it, which answered the old conversation
+}
+
+/**
+ * Go back to a point in a thread so a reply can be generated again. For a user message (being
+ * edited) that is the message itself; for an assistant reply it is the user message it answered.
+ * Null when there is no user message to answer.
+ */
+export const rewindTo = (messages: ChatMessage[], messageId: string): Rewind | null => {
+  const sorted = sortMessages(messages);
+  const index = sorted.findIndex(message => message.id === messageId);
+  if (index === -1) return null;
+
+  let promptIndex = index;
+  while (promptIndex >= 0 && sorted[promptIndex].sender !== 'user') {
+    promptIndex--;
+  }
+  if (promptIndex === -1) return null;
+
+  return {
+    prompt: sorted[promptIndex],
+    history: sorted.slice(0, promptIndex),
+    removed: sorted.slice(promptIndex + 1),
+  };
+};
+
+/**
+ * A thread holding messages saved before chats had threads
+ */
+export const legacyThread = (messages: ChatMessage[], id: string, userId: string): { thread: ChatThread; messages: ChatMessage[] } => {
+  const sorted = sortMessages(messages);
+  const now = Date.now();
+  return {
+    thread: {
+      id,
+      userId,
+      title: LEGACY_THREAD_TITLE,
+      createdAt: sorted.length > 0 ? sorted[0].timestamp : now,
+      updatedAt: sorted.length > 0 ? sorted[sorted.length - 1].timestamp : now,
+    },
+    messages: sorted.map(message => ({ ...message, threadId: id })),
+  };
+};
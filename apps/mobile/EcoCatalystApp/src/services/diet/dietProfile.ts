@@ -0,0 +1,137 @@
+import { DietProfileItem, DietProfileKind, MealEntry } from '../../contexts/diet/DietContext';
+import { addDays } from '../footprint/summary';
+import { getFoodById } from './foodDatabase';
+
+export const PROFILE_KINDS: DietProfileKind[] = ['allergy', 'dislike', 'like', 'goal'];
+
+export const PROFILE_KIND_LABELS: Record<DietProfileKind, string> = {
+  allergy: 'Allergies and intolerances',
+  dislike: 'Dislikes',
+  like: 'Likes',
+  goal: 'Goals',
+};
+
+export type NewProfileItem = Omit<DietProfileItem, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * A change to the profile: a new item, or new values for an existing one
+ */
+export type ProfileChange =
+  | { type: 'add'; item: NewProfileItem }
+  | { type: 'update'; id: string; updates: Partial<NewProfileItem> };
+
+/**
+ * Something the assistant was told in chat and should remember
+ */
+export interface ProfileMemory {
+  kind: DietProfileKind;
+  value: string;
+}
+
+const MAX_VALUE_LENGTH = 60;
+const LEARNING_WINDOW_DAYS = 30;
+const MIN_LOGGED_DAYS = 3; // days in the window a food must be logged on to count as liked
+// How many of each kind go into prompts, most evidence first; allergies are never left out
+const PROMPT_LIMITS: Record<DietProfileKind, number> = { allergy: Infinity, dislike: 15, like: 15, goal: 5 };
+
+/**
+ * A value tidied for saving, or null when there is nothing usable
+ */
+export const cleanProfileValue = (value: string): string | null => {
+  const cleaned = (value || '').trim().replace(/\s+/g, ' ');
+  if (!cleaned || cleaned.length > MAX_VALUE_LENGTH) return null;
+  return cleaned;
+};
+
+const sameValue = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Items the user hasn't removed, most evidence first
+ */
+export const activeProfileItems = (items: DietProfileItem[], kind?: DietProfileKind): DietProfileItem[] => {
+  return items
+    .filter(item => !item.dismissed && (!kind || item.kind === kind))
+    .sort((a, b) => b.evidence - a.evidence || b.updatedAt - a.updatedAt);
+};
+
+/**
+ * The change that records something said in chat. A new statement about a known food replaces
+ * what was known, so "I've gone off mushrooms" turns a like into a dislike, and brings back an
+ * item the user had removed. Null for a value that can't be saved.
+ */
+export const rememberFromChat = (items: DietProfileItem[], memory: ProfileMemory): ProfileChange | null => {
+  const value = cleanProfileValue(memory.value);
+  if (!value || !PROFILE_KINDS.includes(memory.kind)) return null;
+
+  const existing = items.find(item => sameValue(item.value, value));
+  if (!existing) {
+    return { type: 'add', item: { kind: memory.kind, value, source: 'chat', evidence: 1 } };
+  }
+  if (existing.kind === memory.kind && !existing.dismissed) {
+    return { type: 'update', id: existing.id, updates: { evidence: existing.evidence + 1 } };
+  }
+  return { type: 'update', id: existing.id, updates: { kind: memory.kind, source: 'chat', evidence: 1, dismissed: false } };
+};
+
+/**
+ * Likes learned from the meal log: foods logged on several days of the last month. Foods the
+ * profile already mentions, in any way, are left to it; only the counts of learned likes change.
+ */
+export const learnFromMeals = (items: DietProfileItem[], meals: MealEntry[], today: string): ProfileChange[] => {
+  const from = addDays(today, -(LEARNING_WINDOW_DAYS - 1));
+  const days = new Map<string, { value: string; dates: Set<string> }>();
+
+  meals
+    .filter(meal => meal.date >= from && meal.date <= today)
+    .forEach(meal => meal.foods.forEach(food => {
+      const record = food.foodId ? getFoodById(food.foodId) : null;
+      // "Lentils (cooked)" is remembered as "Lentils"
+      const value = cleanProfileValue(record ? record.name.replace(/\s*\(.*\)$/, '') : food.name);
+      if (!value) return;
+
+      const key = value.toLowerCase();
+      const entry = days.get(key) || { value, dates: new Set<string>() };
+      entry.dates.add(meal.date);
+      days.set(key, entry);
+    }));
+
+  const changes: ProfileChange[] = [];
+  days.forEach(({ value, dates }) => {
+    const existing = items.find(item => sameValue(item.value, value));
+    if (!existing) {
+      if (dates.size >= MIN_LOGGED_DAYS) {
+        changes.push({ type: 'add', item: { kind: 'like', value, source: 'meals', evidence: dates.size } });
+      }
+    } else if (existing.source === 'meals' && !existing.dismissed && existing.evidence !== dates.size) {
+      changes.push({ type: 'update', id: existing.id, updates: { evidence: dates.size } });
+    }
+  });
+  return changes;
+};
+
+/**
+ * What the assistant should know about the user, for the system prompt. Empty when nothing is known.
+ */
+export const summarizeProfile = (items: DietProfileItem[]): string => {
+  const lines = PROFILE_KINDS
+    .map(kind => {
+      const values = activeProfileItems(items, kind).slice(0, PROMPT_LIMITS[kind]).map(item => item.value);
+      if (values.length === 0) return null;
+      const note = kind === 'allergy' ? ' (never suggest these)' : kind === 'like' ? ' (eaten often or mentioned)' : '';
+      return `- ${PROFILE_KIND_LABELS[kind]}${note}: ${values.join(', ')}`;
+    })
+    .filter((line): line is string => line !== null);
+
+  return lines.length > 0 ? `What you know about the user:\n${lines.join('\n')}` : '';
+};
+
+/**
+ * The profile as preferences and restrictions for a meal suggestion, alongside the plan's own
+ */
+export const profileConstraints = (items: DietProfileItem[]): { preferences: string[]; restrictions: string[] } => {
+  const values = (kind: DietProfileKind) => activeProfileItems(items, kind).slice(0, PROMPT_LIMITS[kind]).map(item => item.value);
+  return {
+    preferences: [...values('like').map(value => `Likes ${value}`), ...values('goal').map(value => `Goal: ${value}`)],
+    restrictions: [...values('allergy').map(value => `Allergic to ${value}`), ...values('dislike').map(value => `Dislikes ${value}`)],
+  };
+};
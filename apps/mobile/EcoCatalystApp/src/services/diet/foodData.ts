@@ -0,0 +1,163 @@
+import { MacroTotals } from './nutrition';
+
+/**
+ * Version of the bundled food database. Bump whenever a value changes.
+ */
+export const FOOD_DATABASE_VERSION = 1;
+
+export type FoodGroup =
+  | 'meat'
+  | 'fish'
+  | 'eggs'
+  | 'dairy'
+  | 'plant_protein'
+  | 'grains'
+  | 'vegetables'
+  | 'fruit'
+  | 'nuts'
+  | 'fats'
+  | 'drinks'
+  | 'sweets';
+
+/**
+ * Ingredients and traits that diet types and restrictions rule out. Most follow from the food's
+ * group; the rest are listed on the food.
+ */
+export type FoodTag =
+  | 'meat'
+  | 'pork'
+  | 'fish'
+  | 'shellfish'
+  | 'eggs'
+  | 'dairy'
+  | 'gluten'
+  | 'grains'
+  | 'legumes'
+  | 'nuts'
+  | 'peanuts'
+  | 'soy'
+  | 'sugar'
+  | 'high_carb'
+  | 'high_sodium';
+
+export interface FoodRecord {
+  id: string;
+  name: string;
+  aliases: string[];
+  group: FoodGroup;
+  per100g: MacroTotals; // as eaten, e.g. cooked rice
+  kgCO2ePerKg: number;
+  waterLitersPerKg: number;
+  serving: { label: string; grams: number }; // a typical portion
+  density?: number; // g per ml, for volume servings; as dense as water when unset
+  cookedYield?: number; // g cooked per g dry, for foods listed cooked but bought dry
+  contains?: FoodTag[];
+}
+
+type FoodExtras = Partial<Pick<FoodRecord, 'density' | 'cookedYield' | 'contains'>>;
+
+/**
+ * Sources: nutrients from USDA FoodData Central (SR Legacy); carbon from the median values in
+ * Poore & Nemecek (2018), scaled to cooked weight where the food is listed cooked; water from
+ * Mekonnen & Hoekstra (2011, 2012), or Poore & Nemecek freshwater withdrawals where they have no figure.
+ */
+const food = (
+  id: string,
+  name: string,
+  aliases: string[],
+  group: FoodGroup,
+  [calories, protein, carbs, fat]: [number, number, number, number],
+  kgCO2ePerKg: number,
+  waterLitersPerKg: number,
+  [label, grams]: [string, number],
+  extras: FoodExtras = {}
+): FoodRecord => ({
+  id,
+  name,
+  aliases,
+  group,
+  per100g: { calories, protein, carbs, fat },
+  kgCO2ePerKg,
+  waterLitersPerKg,
+  serving: { label, grams },
+  ...extras,
+});
+
+export const FOODS: FoodRecord[] = [
+  food('beef_steak', 'Beef steak', ['steak', 'sirloin', 'ribeye'], 'meat', [271, 25, 0, 19], 60, 15400, ['1 steak', 200]),
+  food('ground_beef', 'Ground beef', ['minced beef', 'beef mince', 'mince'], 'meat', [254, 17, 0, 20], 60, 15400, ['1 portion', 125]),
+  food('beef_burger', 'Beef burger patty', ['burger', 'hamburger', 'beef patty'], 'meat', [250, 17, 0, 20], 60, 15400, ['1 patty', 113]),
+  food('lamb', 'Lamb', ['lamb chop', 'mutton'], 'meat', [282, 25, 0, 20], 24, 10400, ['1 portion', 125]),
+  food('pork_chop', 'Pork chop', ['pork', 'pork loin'], 'meat', [231, 26, 0, 14], 7, 6000, ['1 chop', 150], { contains: ['pork'] }),
+  food('bacon', 'Bacon', ['streaky bacon', 'back bacon'], 'meat', [541, 37, 1.4, 42], 9, 6000, ['1 slice', 8], { contains: ['pork', 'high_sodium'] }),
+  food('ham', 'Ham', ['sliced ham'], 'meat', [145, 21, 1.5, 6], 7, 6000, ['1 slice', 28], { contains: ['pork', 'high_sodium'] }),
+  food('pork_sausage', 'Pork sausage', ['sausage', 'banger'], 'meat', [301, 12, 2, 27], 7, 6000, ['1 sausage', 50], { contains: ['pork', 'high_sodium'] }),
+  food('chicken_breast', 'Chicken breast', ['chicken', 'chicken fillet'], 'meat', [165, 31, 0, 3.6], 6, 4300, ['1 breast', 170]),
+  food('chicken_thigh', 'Chicken thigh', [], 'meat', [209, 26, 0, 11], 6, 4300, ['1 thigh', 115]),
+  food('turkey_breast', 'Turkey breast', ['turkey'], 'meat', [135, 30, 0, 1], 6, 4300, ['1 portion', 125]),
+
+  food('salmon', 'Salmon', ['salmon fillet'], 'fish', [208, 20, 0, 13], 5, 3700, ['1 fillet', 125]),
+  food('tuna', 'Tuna', ['canned tuna', 'tuna steak'], 'fish', [132, 28, 0, 1], 5, 3700, ['1 can', 120]),
+  food('cod', 'Cod', ['white fish', 'cod fillet'], 'fish', [82, 18, 0, 0.7], 5, 3700, ['1 fillet', 125]),
+  food('prawns', 'Prawns', ['shrimp'], 'fish', [99, 24, 0.2, 0.3], 12, 3500, ['1 portion', 85], { contains: ['shellfish'] }),
+
+  food('egg', 'Egg', ['boiled egg', 'fried egg', 'scrambled eggs', 'omelette'], 'eggs', [143, 12.6, 0.7, 9.5], 4.5, 3300, ['1 large', 50]),
+
+  food('milk', 'Milk', ['whole milk', 'cow milk'], 'dairy', [61, 3.2, 4.8, 3.3], 3.2, 1000, ['1 cup', 244], { density: 1.03 }),
+  food('skimmed_milk', 'Skimmed milk', ['skim milk', 'low fat milk'], 'dairy', [34, 3.4, 5, 0.1], 3.2, 1000, ['1 cup', 245], { density: 1.03 }),
+  food('yogurt', 'Plain yogurt', ['yogurt', 'yoghurt', 'natural yogurt'], 'dairy', [61, 3.5, 4.7, 3.3], 3.2, 1000, ['1 pot', 150]),
+  food('greek_yogurt', 'Greek yogurt', [], 'dairy', [97, 9, 3.9, 5], 4, 1000, ['1 pot', 170]),
+  food('cheddar', 'Cheddar cheese', ['cheddar', 'cheese'], 'dairy', [403, 25, 1.3, 33], 21, 5000, ['1 slice', 28]),
+  food('mozzarella', 'Mozzarella', [], 'dairy', [280, 28, 3.1, 17], 21, 5000, ['1 ball', 125]),
+  food('butter', 'Butter', [], 'fats', [717, 0.9, 0.1, 81], 12, 5550, ['1 tbsp', 14], { contains: ['dairy'] }),
+
+  food('tofu', 'Tofu', ['bean curd'], 'plant_protein', [76, 8, 1.9, 4.8], 3, 2100, ['1 portion', 125], { contains: ['soy', 'legumes'] }),
+  food('tempeh', 'Tempeh', [], 'plant_protein', [192, 20, 7.6, 11], 3, 2100, ['1 portion', 100], { contains: ['soy', 'legumes'] }),
+  food('lentils', 'Lentils (cooked)', ['lentil', 'dal', 'dhal'], 'plant_protein', [116, 9, 20, 0.4], 0.9, 4000, ['1 cup', 198], { contains: ['legumes'], cookedYield: 2.5 }),
+  food('chickpeas', 'Chickpeas (cooked)', ['chickpea', 'garbanzo beans'], 'plant_protein', [164, 8.9, 27, 2.6], 0.9, 4000, ['1 cup', 164], { contains: ['legumes'], cookedYield: 2.2 }),
+  food('black_beans', 'Black beans (cooked)', ['beans', 'kidney beans'], 'plant_protein', [132, 8.9, 24, 0.5], 0.9, 4000, ['1 cup', 172], { contains: ['legumes'], cookedYield: 2.4 }),
+  food('green_peas', 'Green peas', ['peas'], 'vegetables', [81, 5.4, 14, 0.4], 0.9, 1600, ['1 cup', 145], { contains: ['legumes'] }),
+  food('hummus', 'Hummus', [], 'plant_protein', [166, 7.9, 14, 9.6], 1.2, 4000, ['2 tbsp', 30], { contains: ['legumes'] }),
+
+  food('peanut_butter', 'Peanut butter', [], 'nuts', [588, 25, 20, 50], 2.5, 2800, ['1 tbsp', 16], { contains: ['peanuts', 'legumes'] }),
+  food('almonds', 'Almonds', ['almond'], 'nuts', [579, 21, 22, 50], 0.3, 16000, ['1 handful', 30]),
+  food('walnuts', 'Walnuts', ['walnut'], 'nuts', [654, 15, 14, 65], 0.3, 9300, ['1 handful', 30]),
+
+  food('white_rice', 'White rice (cooked)', ['rice', 'steamed rice', 'boiled rice'], 'grains', [130, 2.7, 28, 0.3], 1.6, 1000, ['1 cup', 158], { cookedYield: 2.6 }),
+  food('brown_rice', 'Brown rice (cooked)', [], 'grains', [123, 2.7, 26, 1], 1.6, 1000, ['1 cup', 195], { cookedYield: 2.5 }),
+  food('pasta', 'Pasta (cooked)', ['spaghetti', 'penne', 'macaroni', 'noodles'], 'grains', [158, 5.8, 31, 0.9], 0.7, 800, ['1 cup', 140], { contains: ['gluten'], cookedYield: 2.25 }),
+  food('white_bread', 'White bread', ['bread', 'toast'], 'grains', [265, 9, 49, 3.2], 1.4, 1600, ['1 slice', 30], { contains: ['gluten'] }),
+  food('wholemeal_bread', 'Wholemeal bread', ['whole wheat bread', 'brown bread', 'wholegrain bread'], 'grains', [247, 13, 41, 3.4], 1.4, 1600, ['1 slice', 32], { contains: ['gluten'] }),
+  food('oats', 'Oats', ['rolled oats', 'porridge oats', 'oatmeal'], 'grains', [389, 17, 66, 6.9], 2.5, 1800, ['1 serving', 40]),
+  food('quinoa', 'Quinoa (cooked)', [], 'grains', [120, 4.4, 21, 1.9], 0.5, 650, ['1 cup', 185], { cookedYield: 2.7 }),
+  food('bagel', 'Bagel', [], 'grains', [257, 10, 50, 1.6], 1.4, 1600, ['1 bagel', 105], { contains: ['gluten'] }),
+  food('tortilla', 'Flour tortilla', ['tortilla', 'wrap'], 'grains', [312, 8, 52, 8], 1.4, 1600, ['1 wrap', 50], { contains: ['gluten'] }),
+
+  food('potato', 'Potato', ['boiled potato', 'baked potato'], 'vegetables', [87, 1.9, 20, 0.1], 0.5, 290, ['1 medium', 170]),
+  food('sweet_potato', 'Sweet potato', [], 'vegetables', [86, 1.6, 20, 0.1], 0.5, 380, ['1 medium', 130]),
+  food('broccoli', 'Broccoli', [], 'vegetables', [34, 2.8, 6.6, 0.4], 0.5, 290, ['1 cup', 91]),
+  food('spinach', 'Spinach', [], 'vegetables', [23, 2.9, 3.6, 0.4], 0.5, 290, ['1 cup', 30]),
+  food('carrot', 'Carrot', [], 'vegetables', [41, 0.9, 9.6, 0.2], 0.4, 200, ['1 medium', 61]),
+  food('tomato', 'Tomato', [], 'vegetables', [18, 0.9, 3.9, 0.2], 2.1, 210, ['1 medium', 123]),
+  food('lettuce', 'Lettuce', ['salad leaves', 'mixed salad', 'green salad'], 'vegetables', [15, 1.4, 2.9, 0.2], 0.5, 240, ['1 cup', 36]),
+  food('onion', 'Onion', [], 'vegetables', [40, 1.1, 9.3, 0.1], 0.5, 270, ['1 medium', 110]),
+  food('bell_pepper', 'Bell pepper', ['pepper', 'capsicum'], 'vegetables', [31, 1, 6, 0.3], 0.7, 380, ['1 medium', 120]),
+  food('mushrooms', 'Mushrooms', ['mushroom'], 'vegetables', [22, 3.1, 3.3, 0.3], 2, 300, ['1 cup', 70]),
+
+  food('avocado', 'Avocado', [], 'fruit', [160, 2, 8.5, 15], 1.3, 2000, ['1 avocado', 150]),
+  food('apple', 'Apple', [], 'fruit', [52, 0.3, 14, 0.2], 0.4, 820, ['1 medium', 182]),
+  food('banana', 'Banana', [], 'fruit', [89, 1.1, 23, 0.3], 0.9, 790, ['1 medium', 118]),
+  food('orange', 'Orange', [], 'fruit', [47, 0.9, 12, 0.1], 0.4, 560, ['1 medium', 131]),
+  food('berries', 'Mixed berries', ['berries', 'strawberries', 'blueberries', 'raspberries'], 'fruit', [45, 0.7, 11, 0.3], 1.5, 500, ['1 cup', 145]),
+  food('grapes', 'Grapes', [], 'fruit', [69, 0.7, 18, 0.2], 1.5, 610, ['1 cup', 151]),
+
+  food('olive_oil', 'Olive oil', ['extra virgin olive oil'], 'fats', [884, 0, 0, 100], 5.4, 14500, ['1 tbsp', 14], { density: 0.92 }),
+  food('dark_chocolate', 'Dark chocolate', ['chocolate'], 'sweets', [546, 4.9, 61, 31], 18.7, 17000, ['2 squares', 20], { contains: ['sugar', 'dairy'] }),
+  food('sugar', 'Sugar', ['white sugar', 'cane sugar'], 'sweets', [387, 0, 100, 0], 2.6, 1800, ['1 tsp', 4], { contains: ['sugar'] }),
+
+  food('coffee', 'Coffee (brewed)', ['coffee', 'black coffee', 'espresso', 'americano'], 'drinks', [1, 0.1, 0, 0], 0.7, 580, ['1 cup', 240]),
+  food('tea', 'Tea (brewed)', ['black tea', 'green tea'], 'drinks', [1, 0, 0.3, 0], 0.05, 125, ['1 cup', 240]),
+  food('orange_juice', 'Orange juice', ['juice'], 'drinks', [45, 0.7, 10, 0.2], 0.7, 1000, ['1 glass', 250], { contains: ['sugar'], density: 1.04 }),
+  food('oat_milk', 'Oat milk', ['oat drink'], 'drinks', [46, 1, 6.6, 1.5], 0.9, 48, ['1 cup', 240], { density: 1.03 }),
+  food('soy_milk', 'Soy milk', ['soya milk', 'soy drink'], 'drinks', [54, 3.3, 6, 1.8], 1, 28, ['1 cup', 243], { contains: ['soy', 'legumes'], density: 1.03 }),
+];
@@ -0,0 +1,256 @@
+import { FoodItem } from '../../contexts/diet/DietContext';
+import { FOODS, FoodRecord } from './foodData';
+import { Macro, MacroTotals } from './nutrition';
+import { parseServing } from './servingUnits';
+
+export interface FoodMatch {
+  food: FoodRecord;
+  score: number; // 0-1, higher is closer
+}
+
+export interface FoodReconciliation {
+  food: FoodItem;
+  match: FoodRecord | null;
+  corrected: Macro[]; // values replaced because they were too far from the database
+}
+
+const MIN_SEARCH_SCORE = 0.6;
+const MIN_LOOKUP_SCORE = 0.85;
+// How much of a free-text name the database name must account for, so "beef and rice bowl" isn't rice
+const MIN_LOOKUP_COVERAGE = 0.5;
+const EXTRA_WORD_PENALTY = 0.05;
+
+// Words that describe preparation or portion rather than the food
+const DESCRIPTORS = new Set([
+  'a', 'an', 'the', 'of', 'with', 'and', 'in', 'on',
+  'fresh', 'raw', 'cooked', 'grilled', 'boiled', 'baked', 'steamed', 'roasted', 'fried',
+  'sliced', 'chopped', 'diced', 'organic', 'plain', 'small', 'medium', 'large',
+]);
+
+// Differences from the database allowed before an outside value is replaced: a share of the
+// expected value, or an absolute amount for small values
+const TOLERANCES: Record<Macro, { share: number; absolute: number }> = {
+  calories: { share: 0.25, absolute: 30 },
+  protein: { share: 0.35, absolute: 5 },
+  carbs: { share: 0.35, absolute: 5 },
+  fat: { share: 0.35, absolute: 5 },
+};
+
+const MACROS: Macro[] = ['calories', 'protein', 'carbs', 'fat'];
+
+const singular = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ches|shes|sses|xes|oes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Lowercase singular words without accents or descriptors like "grilled"
+ */
+const keywords = (text: string): string[] => {
+  const words = (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(singular);
+  const meaningful = words.filter(word => !DESCRIPTORS.has(word));
+  return meaningful.length > 0 ? meaningful : words;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * 1 for the same word, less for each typo. While searching, a word being typed also counts
+ * as a close match for the words it starts.
+ */
+const wordSimilarity = (word: string, other: string, allowPrefix: boolean): number => {
+  if (word === other) return 1;
+  if (allowPrefix && word.length >= 3 && other.startsWith(word)) return 0.9;
+  return 1 - levenshtein(word, other) / Math.max(word.length, other.length);
+};
+
+/**
+ * Average similarity of each word to its closest word in `against`
+ */
+const coverage = (words: string[], against: string[], allowPrefix: boolean): number => {
+  if (words.length === 0 || against.length === 0) return 0;
+  const total = words.reduce(
+    (sum, word) => sum + Math.max(...against.map(other => wordSimilarity(word, other, allowPrefix))),
+    0
+  );
+  return total / words.length;
+};
+
+const INDEX = FOODS.map(food => ({
+  food,
+  names: [food.name, ...food.aliases].map(keywords),
+}));
+
+export const getFoodById = (id: string): FoodRecord | null => {
+  return FOODS.find(food => food.id === id) || null;
+};
+
+/**
+ * Foods matching a search, best first. Tolerates typos, plurals and partly typed words.
+ */
+export const searchFoods = (query: string, limit: number = 10): FoodMatch[] => {
+  const words = keywords(query);
+  if (words.length === 0) return [];
+
+  return INDEX
+    .map(({ food, names }) => ({
+      food,
+      score: Math.max(...names.map(name =>
+        coverage(words, name, true) - EXTRA_WORD_PENALTY * Math.max(0, name.length - words.length)
+      )),
+    }))
+    .filter(match => match.score >= MIN_SEARCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.food.name.length - b.food.name.length)
+    .slice(0, limit);
+};
+
+/**
+ * The database food a free-text name like "Grilled chicken breast" refers to, or null when
+ * nothing matches closely enough to trust its values
+ */
+export const findFood = (name: string): FoodRecord | null => {
+  const words = keywords(name);
+  if (words.length === 0) return null;
+
+  let best: { food: FoodRecord; score: number; covered: number; length: number } | null = null;
+  for (const { food, names } of INDEX) {
+    for (const nameWords of names) {
+      const score = coverage(nameWords, words, false);
+      const covered = coverage(words, nameWords, false);
+      if (score < MIN_LOOKUP_SCORE || covered < MIN_LOOKUP_COVERAGE) continue;
+      if (
+        !best ||
+        score > best.score ||
+        (score === best.score && (covered > best.covered || (covered === best.covered && nameWords.length > best.length)))
+      ) {
+        best = { food, score, covered, length: nameWords.length };
+      }
+    }
+  }
+  return best ? best.food : null;
+};
+
+/**
+ * Grams in a serving of the food: weights as given, volumes through the food's density, and counts
+ * ("2 slices") as that many typical portions. Null when the serving size has no usable amount.
+ */
+export const servingGrams = (servingSize: string, food: FoodRecord): number | null => {
+  const serving = parseServing(servingSize);
+  if (!serving) return null;
+
+  switch (serving.kind) {
+    case 'mass':
+      return serving.grams;
+    case 'volume':
+      return serving.milliliters * (food.density || 1);
+    case 'count':
+      return serving.count * food.serving.grams;
+  }
+};
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export const nutrientsFor = (food: FoodRecord, grams: number): MacroTotals => ({
+  calories: round((food.per100g.calories * grams) / 100),
+  protein: round((food.per100g.protein * grams) / 100),
+  carbs: round((food.per100g.carbs * grams) / 100),
+  fat: round((food.per100g.fat * grams) / 100),
+});
+
+/**
+ * 0-100 from carbon intensity, on the same scale as FoodItem.sustainabilityScore
+ */
+export const sustainabilityScoreFor = (kgCO2ePerKg: number): number => {
+  if (kgCO2ePerKg <= 0.5) return 95;
+  if (kgCO2ePerKg <= 1) return 90;
+  if (kgCO2ePerKg <= 2) return 80;
+  if (kgCO2ePerKg <= 5) return 65;
+  if (kgCO2ePerKg <= 10) return 50;
+  if (kgCO2ePerKg <= 25) return 30;
+  return 15;
+};
+
+const footprintFor = (food: FoodRecord, grams: number) => ({
+  carbonFootprint: round((food.kgCO2ePerKg * grams) / 1000, 3),
+  waterUsage: round((food.waterLitersPerKg * grams) / 1000),
+  sustainabilityScore: sustainabilityScoreFor(food.kgCO2ePerKg),
+});
+
+/**
+ * A FoodItem with the database's values for `servings` of `servingSize`. Uses the food's typical
+ * portion when no serving size is given or it has no usable amount.
+ */
+export const buildFoodItem = (food: FoodRecord, servingSize?: string, servings: number = 1): FoodItem => {
+  const grams = servingSize ? servingGrams(servingSize, food) : null;
+  const portionGrams = grams !== null ? grams : food.serving.grams;
+  const totalGrams = portionGrams * servings;
+
+  return {
+    id: `food_${Math.random().toString(36).substring(2, 9)}`,
+    foodId: food.id,
+    name: food.name,
+    servingSize: grams !== null ? servingSize! : `${food.serving.label} (${food.serving.grams} g)`,
+    servings,
+    ...nutrientsFor(food, totalGrams),
+    ...footprintFor(food, totalGrams),
+  };
+};
+
+/**
+ * Check a food from free text or the LLM against the database. Macros too far from the
+ * database's values are replaced, and missing carbon and water values are filled in.
+ */
+export const reconcileFood = (item: FoodItem): FoodReconciliation => {
+  const match = (item.foodId && getFoodById(item.foodId)) || findFood(item.name);
+  const grams = match ? servingGrams(item.servingSize, match) : null;
+  if (!match || grams === null) {
+    return { food: item, match, corrected: [] };
+  }
+
+  const totalGrams = grams * (item.servings && item.servings > 0 ? item.servings : 1);
+  const expected = nutrientsFor(match, totalGrams);
+  const corrected = MACROS.filter(macro => {
+    const value = item[macro];
+    const { share, absolute } = TOLERANCES[macro];
+    return !Number.isFinite(value) || Math.abs(value - expected[macro]) > Math.max(expected[macro] * share, absolute);
+  });
+
+  const footprint = footprintFor(match, totalGrams);
+  const food: FoodItem = {
+    ...item,
+    foodId: match.id,
+    sustainabilityScore: footprint.sustainabilityScore,
+    carbonFootprint: typeof item.carbonFootprint === 'number' ? item.carbonFootprint : footprint.carbonFootprint,
+    waterUsage: typeof item.waterUsage === 'number' ? item.waterUsage : footprint.waterUsage,
+  };
+  corrected.forEach(macro => {
+    food[macro] = expected[macro];
+  });
+
+  return { food, match, corrected };
+};
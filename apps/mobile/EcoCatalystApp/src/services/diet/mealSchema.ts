@@ -0,0 +1,170 @@
+import { parseServing } from './servingUnits';
+
+export interface MealSuggestionResponse {
+  name: string;
+  description: string;
+  foods: Array<{
+    name: string;
+    servingSize: string;
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    sustainabilityScore?: number; // 0-100
+  }>;
+  totalCalories: number;
+  totalProtein: number;
+  totalCarbs: number;
+  totalFat: number;
+}
+
+/**
+ * The shape the model is asked for, written out for the prompt
+ */
+export const MEAL_SUGGESTION_FORMAT = `{
+  "name": string,
+  "description": string,
+  "foods": [{
+    "name": string,
+    "servingSize": string with an amount, such as "150 g" or "1 cup",
+    "calories": number, "protein": number, "carbs": number, "fat": number (grams, for the serving),
+    "sustainabilityScore": number from 0 to 100
+  }],
+  "totalCalories": number, "totalProtein": number, "totalCarbs": number, "totalFat": number
+}`;
+
+const MAX_FOODS = 20;
+const MACROS = ['calories', 'protein', 'carbs', 'fat'] as const;
+const TOTAL_FIELDS = {
+  calories: 'totalCalories',
+  protein: 'totalProtein',
+  carbs: 'totalCarbs',
+  fat: 'totalFat',
+} as const;
+// How far a total may be from the sum of its foods: a share of the sum, or an absolute amount for small meals
+const TOTAL_TOLERANCE = { share: 0.05, calories: 10, grams: 2 };
+
+/**
+ * JSON from a model reply, tolerating code fences, text around the object and trailing commas.
+ * Undefined when nothing usable can be recovered.
+ */
+export const parseModelJson = (content: string): unknown => {
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    // Fall through to the repairs below
+  }
+
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * A number, accepting numeric strings; NaN for anything else
+ */
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Check a meal suggestion from the model and return it typed, or the list of what is wrong with
+ * it, worded so it can be sent back to the model. Totals must match the sum of the foods.
+ */
+export const validateMealSuggestion = (value: unknown): MealSuggestionResponse | string[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['The response must be a JSON object.'];
+  }
+  const record = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const name = text(record.name);
+  if (!name) issues.push('name must be a non-empty string');
+  if (record.description !== undefined && typeof record.description !== 'string') {
+    issues.push('description must be a string');
+  }
+
+  const foods: MealSuggestionResponse['foods'] = [];
+  if (!Array.isArray(record.foods) || record.foods.length === 0) {
+    issues.push('foods must be a non-empty array');
+  } else if (record.foods.length > MAX_FOODS) {
+    issues.push(`foods must have at most ${MAX_FOODS} items`);
+  } else {
+    record.foods.forEach((item: unknown, index: number) => {
+      const path = `foods[${index}]`;
+      if (!item || typeof item !== 'object') {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      const food = item as Record<string, unknown>;
+      const foodIssues: string[] = [];
+
+      const foodName = text(food.name);
+      if (!foodName) foodIssues.push(`${path}.name must be a non-empty string`);
+      const servingSize = text(food.servingSize);
+      if (!servingSize || !parseServing(servingSize)) {
+        foodIssues.push(`${path}.servingSize must include an amount, such as "150 g" or "1 cup"`);
+      }
+
+      const macros = MACROS.map(macro => toNumber(food[macro]));
+      MACROS.forEach((macro, i) => {
+        if (!Number.isFinite(macros[i]) || macros[i] < 0) foodIssues.push(`${path}.${macro} must be a number, zero or more`);
+      });
+
+      const score = food.sustainabilityScore === undefined ? undefined : toNumber(food.sustainabilityScore);
+      if (score !== undefined && (!Number.isFinite(score) || score < 0 || score > 100)) {
+        foodIssues.push(`${path}.sustainabilityScore must be a number from 0 to 100`);
+      }
+
+      if (foodIssues.length > 0) {
+        issues.push(...foodIssues);
+        return;
+      }
+      foods.push({
+        name: foodName,
+        servingSize,
+        calories: macros[0],
+        protein: macros[1],
+        carbs: macros[2],
+        fat: macros[3],
+        ...(score !== undefined ? { sustainabilityScore: score } : {}),
+      });
+    });
+  }
+
+  const totals = MACROS.map(macro => toNumber(record[TOTAL_FIELDS[macro]]));
+  MACROS.forEach((macro, i) => {
+    if (!Number.isFinite(totals[i]) || totals[i] < 0) issues.push(`${TOTAL_FIELDS[macro]} must be a number, zero or more`);
+  });
+
+  if (issues.length > 0) return issues;
+
+  MACROS.forEach((macro, i) => {
+    const sum = foods.reduce((total, food) => total + food[macro], 0);
+    const allowed = Math.max(sum * TOTAL_TOLERANCE.share, macro === 'calories' ? TOTAL_TOLERANCE.calories : TOTAL_TOLERANCE.grams);
+    if (Math.abs(totals[i] - sum) > allowed) {
+      issues.push(`${TOTAL_FIELDS[macro]} is ${totals[i]} but the foods add up to ${Math.round(sum * 10) / 10}`);
+    }
+  });
+  if (issues.length > 0) return issues;
+
+  return {
+    name,
+    description: text(record.description),
+    foods,
+    totalCalories: totals[0],
+    totalProtein: totals[1],
+    totalCarbs: totals[2],
+    totalFat: totals[3],
+  };
+};
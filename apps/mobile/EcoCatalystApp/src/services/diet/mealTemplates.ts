@@ -0,0 +1,147 @@
+import { MealType } from '../../contexts/diet/DietContext';
+
+export interface TemplateComponent {
+  options: string[]; // interchangeable food ids; the lowest-carbon one the plan allows is used
+  grams: number; // as eaten, for a standard portion of the meal
+  optional?: boolean; // left out when the plan rules out every option
+}
+
+export interface MealTemplate {
+  id: string;
+  name: string;
+  mealTypes: MealType[];
+  components: TemplateComponent[];
+}
+
+const part = (options: string | string[], grams: number, optional: boolean = false): TemplateComponent => ({
+  options: Array.isArray(options) ? options : [options],
+  grams,
+  ...(optional ? { optional } : {}),
+});
+
+const PLANT_MILKS = ['milk', 'oat_milk', 'soy_milk'];
+const YOGURTS = ['greek_yogurt', 'yogurt'];
+const NUTS = ['walnuts', 'almonds'];
+const BREADS = ['wholemeal_bread', 'white_bread'];
+const RICE = ['brown_rice', 'white_rice', 'quinoa'];
+const COOKING_FAT = ['olive_oil', 'butter'];
+
+/**
+ * Simple home-cooked meals the week planner builds days from, using foods in the food database
+ */
+export const MEAL_TEMPLATES: MealTemplate[] = [
+  { id: 'porridge', name: 'Porridge with berries', mealTypes: ['breakfast'], components: [
+    part('oats', 50), part(PLANT_MILKS, 200), part(['berries', 'banana'], 80), part(NUTS, 15, true),
+  ] },
+  { id: 'yogurt_bowl', name: 'Yogurt bowl with oats and fruit', mealTypes: ['breakfast'], components: [
+    part(YOGURTS, 170), part('oats', 30, true), part(['berries', 'banana'], 80, true), part(NUTS, 20, true),
+  ] },
+  { id: 'eggs_on_toast', name: 'Eggs on toast', mealTypes: ['breakfast'], components: [
+    part('egg', 100), part(BREADS, 64), part(['tomato', 'spinach'], 80, true), part(COOKING_FAT, 5, true),
+  ] },
+  { id: 'veggie_omelette', name: 'Vegetable omelette', mealTypes: ['breakfast', 'lunch'], components: [
+    part('egg', 150), part('mushrooms', 50), part(['bell_pepper', 'spinach'], 60), part('cheddar', 20, true), part(COOKING_FAT, 5),
+  ] },
+  { id: 'tofu_scramble', name: 'Tofu scramble', mealTypes: ['breakfast'], components: [
+    part('tofu', 150), part('spinach', 40), part('tomato', 80), part(BREADS, 32, true), part('olive_oil', 5),
+  ] },
+  { id: 'peanut_toast', name: 'Peanut butter and banana toast', mealTypes: ['breakfast', 'snack'], components: [
+    part(BREADS, 64), part('peanut_butter', 32), part('banana', 118),
+  ] },
+  { id: 'avocado_toast', name: 'Avocado toast', mealTypes: ['breakfast', 'lunch'], components: [
+    part(BREADS, 64), part('avocado', 75), part('tomato', 60), part('egg', 50, true),
+  ] },
+  { id: 'salmon_eggs', name: 'Salmon and scrambled eggs', mealTypes: ['breakfast'], components: [
+    part('salmon', 60), part('egg', 100), part('spinach', 40), part(COOKING_FAT, 5),
+  ] },
+  { id: 'bacon_eggs', name: 'Bacon, eggs and mushrooms', mealTypes: ['breakfast'], components: [
+    part('egg', 100), part('bacon', 30), part('mushrooms', 70), part(COOKING_FAT, 7),
+  ] },
+  { id: 'fruit_nut_bowl', name: 'Fruit and nut bowl', mealTypes: ['breakfast', 'snack'], components: [
+    part('banana', 118), part('berries', 100), part(NUTS, 30),
+  ] },
+
+  { id: 'lentil_soup', name: 'Lentil and vegetable soup', mealTypes: ['lunch'], components: [
+    part('lentils', 200), part('carrot', 60), part('onion', 50), part('tomato', 100), part('olive_oil', 7), part(BREADS, 32, true),
+  ] },
+  { id: 'chickpea_salad', name: 'Chickpea salad', mealTypes: ['lunch'], components: [
+    part('chickpeas', 150), part('lettuce', 50), part('tomato', 100), part('bell_pepper', 60), part('olive_oil', 10),
+  ] },
+  { id: 'tuna_wrap', name: 'Tuna salad wrap', mealTypes: ['lunch'], components: [
+    part('tortilla', 50), part('tuna', 100), part('lettuce', 30), part('tomato', 60),
+  ] },
+  { id: 'chicken_rice_bowl', name: 'Chicken and rice bowl', mealTypes: ['lunch', 'dinner'], components: [
+    part('chicken_breast', 130), part(RICE, 180, true), part('broccoli', 90), part('olive_oil', 5),
+  ] },
+  { id: 'bean_quinoa_bowl', name: 'Black bean and quinoa bowl', mealTypes: ['lunch'], components: [
+    part('quinoa', 185), part('black_beans', 120), part('avocado', 50), part('tomato', 60), part('bell_pepper', 60),
+  ] },
+  { id: 'hummus_wrap', name: 'Hummus and vegetable wrap', mealTypes: ['lunch'], components: [
+    part('tortilla', 50), part('hummus', 60), part('lettuce', 30), part('carrot', 60), part('bell_pepper', 60),
+  ] },
+  { id: 'egg_salad', name: 'Egg and avocado salad', mealTypes: ['lunch'], components: [
+    part('egg', 100), part('lettuce', 60), part('tomato', 100), part('avocado', 50), part('olive_oil', 7),
+  ] },
+  { id: 'tuna_avocado_salad', name: 'Tuna and avocado salad', mealTypes: ['lunch'], components: [
+    part('tuna', 100), part('avocado', 75), part('lettuce', 50), part('egg', 50, true), part('olive_oil', 10),
+  ] },
+  { id: 'chicken_salad', name: 'Chicken salad', mealTypes: ['lunch'], components: [
+    part(['chicken_breast', 'turkey_breast'], 130), part('lettuce', 60), part('tomato', 100), part('avocado', 75), part('olive_oil', 10),
+  ] },
+  { id: 'tofu_stir_fry', name: 'Tofu stir-fry', mealTypes: ['lunch', 'dinner'], components: [
+    part(['tofu', 'tempeh'], 150), part('broccoli', 90), part('bell_pepper', 60), part('mushrooms', 50), part(RICE, 150, true), part('olive_oil', 7),
+  ] },
+
+  { id: 'salmon_potatoes', name: 'Salmon with potatoes and greens', mealTypes: ['dinner'], components: [
+    part('salmon', 125), part(['potato', 'sweet_potato'], 200, true), part(['broccoli', 'spinach'], 90), part('olive_oil', 5),
+  ] },
+  { id: 'salmon_avocado', name: 'Salmon with avocado salad', mealTypes: ['dinner'], components: [
+    part('salmon', 150), part('avocado', 75), part(['spinach', 'lettuce'], 60), part('olive_oil', 10),
+  ] },
+  { id: 'roast_chicken', name: 'Roast chicken and vegetables', mealTypes: ['dinner'], components: [
+    part(['chicken_thigh', 'chicken_breast'], 150), part(['sweet_potato', 'potato'], 150, true), part('carrot', 60), part('olive_oil', 7),
+  ] },
+  { id: 'lentil_dal', name: 'Lentil dal with rice', mealTypes: ['dinner'], components: [
+    part('lentils', 200), part('spinach', 60), part('onion', 50), part('tomato', 100), part(RICE, 150, true),
+  ] },
+  { id: 'bean_chili', name: 'Bean chili', mealTypes: ['dinner'], components: [
+    part('black_beans', 170), part('tomato', 150), part('onion', 50), part('bell_pepper', 80), part(RICE, 150, true),
+  ] },
+  { id: 'tomato_pasta', name: 'Tomato and mushroom pasta', mealTypes: ['dinner'], components: [
+    part('pasta', 220), part('tomato', 150), part('mushrooms', 70), part('olive_oil', 10), part('mozzarella', 40, true),
+  ] },
+  { id: 'chickpea_curry', name: 'Chickpea and spinach curry', mealTypes: ['dinner'], components: [
+    part('chickpeas', 160), part('spinach', 60), part('tomato', 120), part('onion', 50), part(RICE, 150, true),
+  ] },
+  { id: 'bolognese', name: 'Spaghetti bolognese', mealTypes: ['dinner'], components: [
+    part('ground_beef', 125), part('pasta', 200), part('tomato', 120), part('onion', 50),
+  ] },
+  { id: 'cod_peas', name: 'Cod with rice and peas', mealTypes: ['dinner'], components: [
+    part('cod', 150), part(RICE, 150, true), part('green_peas', 80, true), part('olive_oil', 5),
+  ] },
+  { id: 'pork_chop_dinner', name: 'Pork chop with potatoes', mealTypes: ['dinner'], components: [
+    part('pork_chop', 150), part('potato', 200, true), part('broccoli', 90),
+  ] },
+  { id: 'prawn_stir_fry', name: 'Prawn stir-fry', mealTypes: ['dinner'], components: [
+    part('prawns', 120), part('bell_pepper', 80), part('broccoli', 80), part(RICE, 150, true), part('olive_oil', 7),
+  ] },
+
+  { id: 'apple_peanut_butter', name: 'Apple with peanut butter', mealTypes: ['snack'], components: [
+    part('apple', 182), part('peanut_butter', 16, true),
+  ] },
+  { id: 'yogurt_berries', name: 'Yogurt with berries', mealTypes: ['snack'], components: [
+    part(YOGURTS, 150), part('berries', 80, true),
+  ] },
+  { id: 'nuts_fruit', name: 'Nuts and fruit', mealTypes: ['snack'], components: [
+    part(NUTS, 30), part(['orange', 'apple'], 130),
+  ] },
+  { id: 'hummus_carrots', name: 'Hummus with carrot sticks', mealTypes: ['snack'], components: [
+    part('hummus', 60), part('carrot', 100), part('bell_pepper', 60, true),
+  ] },
+  { id: 'cheese_tomato', name: 'Cheese and tomato', mealTypes: ['snack'], components: [
+    part('cheddar', 30), part('tomato', 100),
+  ] },
+  { id: 'boiled_eggs', name: 'Boiled eggs and tomato', mealTypes: ['snack'], components: [
+    part('egg', 100), part('tomato', 100),
+  ] },
+];
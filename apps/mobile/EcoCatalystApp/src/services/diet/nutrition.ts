@@ -0,0 +1,117 @@
+import { DietPlan, FoodItem, MealEntry, MealType } from '../../contexts/diet/DietContext';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export interface MacroTotals {
+  calories: number;
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+}
+
+export type Macro = keyof MacroTotals;
+
+export interface TargetProgress {
+  macro: Macro;
+  consumed: number;
+  target: number;
+  remaining: number; // negative once the target is passed
+  percent: number; // of the target, not capped
+}
+
+export const emptyMacros = (): MacroTotals => ({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const toNumber = (value: unknown): number => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+export const sumFoods = (foods: FoodItem[]): MacroTotals => {
+  return foods.reduce<MacroTotals>((totals, food) => ({
+    calories: round(totals.calories + toNumber(food.calories)),
+    protein: round(totals.protein + toNumber(food.protein)),
+    carbs: round(totals.carbs + toNumber(food.carbs)),
+    fat: round(totals.fat + toNumber(food.fat)),
+  }), emptyMacros());
+};
+
+export const sumMeals = (meals: MealEntry[]): MacroTotals => {
+  return meals.reduce<MacroTotals>((totals, meal) => ({
+    calories: round(totals.calories + toNumber(meal.totalCalories)),
+    protein: round(totals.protein + toNumber(meal.totalProtein)),
+    carbs: round(totals.carbs + toNumber(meal.totalCarbs)),
+    fat: round(totals.fat + toNumber(meal.totalFat)),
+  }), emptyMacros());
+};
+
+/**
+ * The total fields of a MealEntry for a list of foods
+ */
+export const mealTotals = (foods: FoodItem[]): Pick<MealEntry, 'totalCalories' | 'totalProtein' | 'totalCarbs' | 'totalFat'> => {
+  const totals = sumFoods(foods);
+  return {
+    totalCalories: totals.calories,
+    totalProtein: totals.protein,
+    totalCarbs: totals.carbs,
+    totalFat: totals.fat,
+  };
+};
+
+/**
+ * How far the day's totals are towards the plan's targets. Empty without a plan.
+ */
+export const progressAgainstPlan = (totals: MacroTotals, plan: DietPlan | null): TargetProgress[] => {
+  if (!plan) return [];
+
+  const targets: MacroTotals = {
+    calories: plan.calorieTarget,
+    protein: plan.proteinTarget,
+    carbs: plan.carbTarget,
+    fat: plan.fatTarget,
+  };
+
+  return (Object.keys(targets) as Macro[])
+    .filter(macro => targets[macro] > 0)
+    .map(macro => ({
+      macro,
+      consumed: totals[macro],
+      target: targets[macro],
+      remaining: round(targets[macro] - totals[macro]),
+      percent: (totals[macro] / targets[macro]) * 100,
+    }));
+};
+
+/**
+ * A food with its macros (and any carbon or water values) rescaled to a new number of servings
+ */
+export const scaleFood = (food: FoodItem, servings: number): FoodItem => {
+  const current = food.servings && food.servings > 0 ? food.servings : 1;
+  if (!Number.isFinite(servings) || servings <= 0 || servings === current) {
+    return food;
+  }
+
+  const ratio = servings / current;
+  return {
+    ...food,
+    servings,
+    calories: round(food.calories * ratio),
+    protein: round(food.protein * ratio),
+    carbs: round(food.carbs * ratio),
+    fat: round(food.fat * ratio),
+    ...(typeof food.carbonFootprint === 'number' ? { carbonFootprint: round(food.carbonFootprint * ratio, 3) } : {}),
+    ...(typeof food.waterUsage === 'number' ? { waterUsage: round(food.waterUsage * ratio) } : {}),
+  };
+};
+
+export const groupByMealType = (meals: MealEntry[]): Record<MealType, MealEntry[]> => {
+  const groups: Record<MealType, MealEntry[]> = { breakfast: [], lunch: [], dinner: [], snack: [] };
+  meals.forEach(meal => {
+    (groups[meal.mealType] || groups.snack).push(meal);
+  });
+  return groups;
+};
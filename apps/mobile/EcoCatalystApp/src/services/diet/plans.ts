@@ -0,0 +1,138 @@
+import { DietPlan, DietType } from '../../contexts/diet/DietContext';
+import { MacroTotals } from './nutrition';
+
+export type Sex = 'female' | 'male';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+export type PlanGoal = 'lose' | 'maintain' | 'gain';
+
+export interface BodyMetrics {
+  sex: Sex;
+  age: number; // years
+  heightCm: number;
+  weightKg: number;
+  activityLevel: ActivityLevel;
+  goal: PlanGoal;
+}
+
+/**
+ * Total daily energy expenditure as a multiple of resting metabolic rate
+ */
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+// Daily kcal change from maintenance
+const GOAL_ADJUSTMENTS: Record<PlanGoal, number> = {
+  lose: -500,
+  maintain: 0,
+  gain: 300,
+};
+
+// Lowest daily target we suggest without medical supervision
+const MINIMUM_CALORIES: Record<Sex, number> = {
+  female: 1200,
+  male: 1500,
+};
+
+/**
+ * Share of calories from protein, carbs and fat for each diet type
+ */
+export const MACRO_SPLITS: Record<DietType, { protein: number; carbs: number; fat: number }> = {
+  balanced: { protein: 0.2, carbs: 0.5, fat: 0.3 },
+  vegetarian: { protein: 0.18, carbs: 0.52, fat: 0.3 },
+  vegan: { protein: 0.16, carbs: 0.56, fat: 0.28 },
+  keto: { protein: 0.2, carbs: 0.05, fat: 0.75 },
+  paleo: { protein: 0.3, carbs: 0.3, fat: 0.4 },
+  mediterranean: { protein: 0.18, carbs: 0.47, fat: 0.35 },
+  custom: { protein: 0.2, carbs: 0.5, fat: 0.3 },
+};
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Resting metabolic rate in kcal/day (Mifflin-St Jeor)
+ */
+export const calculateBmr = ({ sex, age, heightCm, weightKg }: Pick<BodyMetrics, 'sex' | 'age' | 'heightCm' | 'weightKg'>): number => {
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+};
+
+/**
+ * Daily calorie and macro targets for the metrics, goal and diet type
+ */
+export const calculateTargets = (metrics: BodyMetrics, dietType: DietType): MacroTotals => {
+  const maintenance = calculateBmr(metrics) * ACTIVITY_MULTIPLIERS[metrics.activityLevel];
+  const calories = Math.round(
+    Math.max(MINIMUM_CALORIES[metrics.sex], maintenance + GOAL_ADJUSTMENTS[metrics.goal]) / 10
+  ) * 10;
+  const split = MACRO_SPLITS[dietType] || MACRO_SPLITS.balanced;
+
+  return {
+    calories,
+    protein: Math.round((calories * split.protein) / KCAL_PER_GRAM.protein),
+    carbs: Math.round((calories * split.carbs) / KCAL_PER_GRAM.carbs),
+    fat: Math.round((calories * split.fat) / KCAL_PER_GRAM.fat),
+  };
+};
+
+/**
+ * The first problem with the metrics, or null when they can be used
+ */
+export const validateMetrics = (metrics: Partial<BodyMetrics>): string | null => {
+  const { age, heightCm, weightKg } = metrics;
+  if (!metrics.sex) return 'Please choose the sex used for the calculation.';
+  if (!metrics.activityLevel) return 'Please choose an activity level.';
+  if (!metrics.goal) return 'Please choose a goal.';
+  if (typeof age !== 'number' || !Number.isFinite(age) || age < 14 || age > 100) {
+    return 'Age must be between 14 and 100.';
+  }
+  if (typeof heightCm !== 'number' || !Number.isFinite(heightCm) || heightCm < 100 || heightCm > 250) {
+    return 'Height must be between 100 and 250 cm.';
+  }
+  if (typeof weightKg !== 'number' || !Number.isFinite(weightKg) || weightKg < 30 || weightKg > 300) {
+    return 'Weight must be between 30 and 300 kg.';
+  }
+  return null;
+};
+
+const isIsoDate = (date: string): boolean => {
+  if (!ISO_DATE.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
+
+/**
+ * The first problem with a plan's date range, or null when it is valid
+ */
+export const validatePlanDates = (startDate: string, endDate: string, today: string): string | null => {
+  if (!isIsoDate(startDate)) return 'Start date must be a valid date (YYYY-MM-DD).';
+  if (!isIsoDate(endDate)) return 'End date must be a valid date (YYYY-MM-DD).';
+  if (endDate < startDate) return 'The end date must be on or after the start date.';
+  if (endDate < today) return 'The end date has already passed.';
+  return null;
+};
+
+/**
+ * The plan to follow today: the most recently activated plan that hasn't ended, falling back to
+ * the one that starts latest for plans that were never explicitly activated
+ */
+export const selectActivePlan = (plans: DietPlan[], today: string): DietPlan | null => {
+  const current = plans.filter(plan => plan.endDate >= today);
+  if (current.length === 0) return null;
+
+  return current.reduce((best, plan) => {
+    const bestActivated = best.activatedAt || 0;
+    const planActivated = plan.activatedAt || 0;
+    if (planActivated !== bestActivated) {
+      return planActivated > bestActivated ? plan : best;
+    }
+    return plan.startDate > best.startDate ? plan : best;
+  });
+};
@@ -0,0 +1,260 @@
+import { DietPlan, DietProfileItem, DietType, FoodItem } from '../../contexts/diet/DietContext';
+import { allergenGroup, ingredientTags, mentions } from './allergens';
+import { profileConstraints } from './dietProfile';
+import { FoodGroup, FoodRecord, FoodTag } from './foodData';
+import { findFood, getFoodById, searchFoods } from './foodDatabase';
+
+// Above this many grams of carbs per 100 g a food doesn't fit a keto day
+const HIGH_CARB_PER_100G = 10;
+const MIN_RESTRICTION_MATCH = 0.85;
+
+const GROUP_TAGS: Partial<Record<FoodGroup, FoodTag[]>> = {
+  meat: ['meat'],
+  fish: ['fish'],
+  eggs: ['eggs'],
+  dairy: ['dairy'],
+  grains: ['grains'],
+  nuts: ['nuts'],
+};
+
+const DIET_TYPE_EXCLUSIONS: Record<DietType, FoodTag[]> = {
+  balanced: [],
+  mediterranean: [],
+  custom: [],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'eggs', 'dairy'],
+  keto: ['high_carb', 'sugar'],
+  paleo: ['grains', 'legumes', 'dairy', 'sugar'],
+};
+
+// Diet types followed as a way of eating rather than for health or belief; breaking them is a warning only
+const SOFT_DIET_TYPES: DietType[] = ['keto', 'paleo'];
+// Tags that are about amounts, not ingredients, so a restriction on them is a warning only
+const SOFT_TAGS: FoodTag[] = ['high_carb', 'sugar', 'high_sodium'];
+
+const DIET_TYPE_NAMES: Record<DietType, string> = {
+  balanced: 'Balanced',
+  mediterranean: 'Mediterranean',
+  custom: 'Custom',
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  keto: 'Keto',
+  paleo: 'Paleo',
+};
+
+const TAG_LABELS: Record<FoodTag, string> = {
+  meat: 'meat',
+  pork: 'pork',
+  fish: 'fish',
+  shellfish: 'shellfish',
+  eggs: 'egg',
+  dairy: 'dairy',
+  gluten: 'gluten',
+  grains: 'grains',
+  legumes: 'legumes',
+  nuts: 'tree nuts',
+  peanuts: 'peanuts',
+  soy: 'soy',
+  sugar: 'sugar',
+  high_carb: 'a lot of carbs',
+  high_sodium: 'a lot of salt',
+};
+
+// Restrictions as chosen in the plan builder, plus common ways of writing them
+const RESTRICTION_EXCLUSIONS: Record<string, FoodTag[]> = {
+  'gluten-free': ['gluten'],
+  'dairy-free': ['dairy'],
+  'lactose-free': ['dairy'],
+  'nut-free': ['nuts', 'peanuts'],
+  'peanut-free': ['peanuts'],
+  'egg-free': ['eggs'],
+  'soy-free': ['soy'],
+  'shellfish-free': ['shellfish'],
+  'sugar-free': ['sugar'],
+  'low sodium': ['high_sodium'],
+  'low carb': ['high_carb'],
+  halal: ['pork'],
+  kosher: ['pork', 'shellfish'],
+  pescatarian: ['meat'],
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'eggs', 'dairy'],
+};
+
+const normalize = (restriction: string): string => {
+  return restriction.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\s*-\s*/g, '-');
+};
+
+/**
+ * Everything the food contains or is, from its group, its listed ingredients and its carbs
+ */
+export const foodTags = (food: FoodRecord): FoodTag[] => {
+  const tags = new Set<FoodTag>([...(GROUP_TAGS[food.group] || []), ...(food.contains || [])]);
+  if (food.per100g.carbs >= HIGH_CARB_PER_100G) tags.add('high_carb');
+  return Array.from(tags);
+};
+
+/**
+ * The diet type or restriction behind an exclusion
+ */
+export interface RuleSource {
+  rule: string; // as the user chose or wrote it, e.g. "Vegan" or "Allergic to peanuts"
+  hard: boolean; // allergies, restrictions and vegetarian diets are never broken; the rest only warn
+}
+
+export interface FoodRules {
+  excludedTags: FoodTag[];
+  excludedFoodIds: string[]; // foods named by restrictions like "no mushrooms"
+  excludedNames: string[]; // those foods as written, for checking names and ingredient lists
+  sources: Record<string, RuleSource>; // by tag, food id or name
+}
+
+/**
+ * A food or ingredient that breaks a rule
+ */
+export interface RestrictionViolation {
+  item: string;
+  rule: string;
+  reason: string; // what it has that the rule rules out, e.g. "dairy" or "mushrooms"
+  hard: boolean;
+  trace: boolean; // only a "may contain" warning
+}
+
+// "Allergic to shellfish", "No mushrooms", "Dislikes tofu", "Peanut allergy" and the like
+const NAMED_PREFIX = /^(no|avoid|allergic to|allergy to|intolerant to|dislikes?) /;
+const NAMED_SUFFIX = /(-free| allergy| intolerance)$/;
+
+const exclude = (rules: FoodRules, key: string, source: RuleSource) => {
+  const existing = rules.sources[key];
+  if (!existing || (source.hard && !existing.hard)) {
+    rules.sources[key] = source;
+  }
+};
+
+/**
+ * What a diet type and its restrictions rule out, and why. Restrictions that aren't a known rule
+ * are read as naming an allergen group, like "Allergic to shellfish", or a food, like "no mushrooms",
+ * which is matched against the database. Dislikes are only warned about.
+ */
+export const foodRules = (dietType: DietType, restrictions: string[]): FoodRules => {
+  const excludedTags = new Set<FoodTag>();
+  const excludedFoodIds = new Set<string>();
+  const excludedNames = new Set<string>();
+  const rules: FoodRules = { excludedTags: [], excludedFoodIds: [], excludedNames: [], sources: {} };
+
+  const excludeTags = (tags: FoodTag[], rule: string, hard: boolean) => tags.forEach(tag => {
+    excludedTags.add(tag);
+    exclude(rules, tag, { rule, hard: hard && !SOFT_TAGS.includes(tag) });
+  });
+
+  excludeTags(DIET_TYPE_EXCLUSIONS[dietType] || [], DIET_TYPE_NAMES[dietType], !SOFT_DIET_TYPES.includes(dietType));
+
+  restrictions.forEach(restriction => {
+    const rule = restriction.trim();
+    const key = normalize(restriction);
+    const known = RESTRICTION_EXCLUSIONS[key];
+    if (known) {
+      excludeTags(known, rule, true);
+      return;
+    }
+
+    const hard = !/^dislikes? /.test(key);
+    const named = key.replace(NAMED_PREFIX, '').replace(NAMED_SUFFIX, '');
+    if (!named) return;
+    const group = allergenGroup(named);
+    if (group) {
+      excludeTags(group, rule, hard);
+      return;
+    }
+
+    excludedNames.add(named);
+    exclude(rules, named, { rule, hard });
+    searchFoods(named, 5)
+      .filter(match => match.score >= MIN_RESTRICTION_MATCH)
+      .forEach(match => {
+        excludedFoodIds.add(match.food.id);
+        exclude(rules, match.food.id, { rule, hard });
+      });
+  });
+
+  return {
+    ...rules,
+    excludedTags: Array.from(excludedTags),
+    excludedFoodIds: Array.from(excludedFoodIds),
+    excludedNames: Array.from(excludedNames),
+  };
+};
+
+/**
+ * The rules for a plan and what the user's profile says they can't or won't eat
+ */
+export const dietRules = (plan: DietPlan | null, profile: DietProfileItem[]): FoodRules => {
+  return foodRules(plan?.dietType || 'balanced', [...(plan?.restrictions || []), ...profileConstraints(profile).restrictions]);
+};
+
+export const isFoodAllowed = (food: FoodRecord, rules: FoodRules): boolean => {
+  if (rules.excludedFoodIds.includes(food.id)) return false;
+  return !foodTags(food).some(tag => rules.excludedTags.includes(tag));
+};
+
+const tagViolations = (item: string, tags: FoodTag[], rules: FoodRules, trace: boolean): RestrictionViolation[] => {
+  return tags
+    .filter(tag => rules.excludedTags.includes(tag))
+    .map(tag => ({ item, reason: TAG_LABELS[tag], trace, ...rules.sources[tag] }));
+};
+
+const nameViolations = (item: string, rules: FoodRules): RestrictionViolation[] => {
+  return rules.excludedNames
+    .filter(name => mentions(item, name))
+    .map(name => ({ item, reason: name, trace: false, ...rules.sources[name] }));
+};
+
+/**
+ * One violation per item and rule, so prawns break "Vegetarian" once, for fish and shellfish
+ */
+const mergeByRule = (violations: RestrictionViolation[]): RestrictionViolation[] => {
+  const merged = new Map<string, RestrictionViolation>();
+  violations.forEach(violation => {
+    const key = `${violation.item}|${violation.rule}|${violation.trace}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, reason: `${existing.reason} and ${violation.reason}` } : violation);
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * What in a product's ingredient list breaks the rules, including "may contain" warnings
+ */
+export const checkIngredients = (ingredients: string[], rules: FoodRules): RestrictionViolation[] => {
+  return ingredients.flatMap(ingredient => {
+    const { tags, traces } = ingredientTags(ingredient);
+    return mergeByRule([
+      ...tagViolations(ingredient, tags, rules, false),
+      ...tagViolations(ingredient, traces, rules, true),
+      ...nameViolations(ingredient, rules),
+    ]);
+  });
+};
+
+/**
+ * What in a meal's foods breaks the rules. Foods the database knows are checked by what they are;
+ * their names are checked too, so "Tofu with peanut sauce" is caught either way.
+ */
+export const checkFoodItems = (foods: Array<Pick<FoodItem, 'name' | 'foodId'>>, rules: FoodRules): RestrictionViolation[] => {
+  return foods.flatMap(food => {
+    const record = (food.foodId ? getFoodById(food.foodId) : null) || findFood(food.name);
+    const tags = new Set<FoodTag>([...(record ? foodTags(record) : []), ...ingredientTags(food.name).tags]);
+    const named = nameViolations(food.name, rules);
+    // "Portobello" logged as the database's mushrooms breaks "no mushrooms" without naming them
+    const byId: RestrictionViolation[] = record && rules.excludedFoodIds.includes(record.id) && named.length === 0
+      ? [{ item: food.name, reason: record.name.toLowerCase(), trace: false, ...rules.sources[record.id] }]
+      : [];
+    return mergeByRule([...tagViolations(food.name, Array.from(tags), rules, false), ...named, ...byId]);
+  });
+};
+
+/**
+ * A violation as a line for the user, e.g. "Milk chocolate: contains dairy (Vegan)"
+ */
+export const describeViolation = (violation: RestrictionViolation): string => {
+  return `${violation.item}: ${violation.trace ? 'may contain' : 'contains'} ${violation.reason} (${violation.rule})`;
+};
@@ -0,0 +1,106 @@
+/**
+ * A serving size read from free text such as "150 g", "1 cup (240 g)", "½ tbsp" or "2 slices"
+ */
+export type ServingQuantity =
+  | { kind: 'mass'; grams: number }
+  | { kind: 'volume'; milliliters: number }
+  | { kind: 'count'; count: number; unit: string | null };
+
+const MASS_UNITS_G: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+  lbs: 453.592,
+  pound: 453.592,
+  pounds: 453.592,
+};
+
+const VOLUME_UNITS_ML: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  liter: 1000,
+  liters: 1000,
+  litre: 1000,
+  litres: 1000,
+  cup: 240,
+  cups: 240,
+  tbsp: 15,
+  tablespoon: 15,
+  tablespoons: 15,
+  tsp: 5,
+  teaspoon: 5,
+  teaspoons: 5,
+  'fl oz': 29.5735,
+};
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '¼': ' 1/4',
+  '½': ' 1/2',
+  '¾': ' 3/4',
+  '⅓': ' 1/3',
+  '⅔': ' 2/3',
+};
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?(?:\\s+\\d+\\/\\d+)?|\\d+\\/\\d+)';
+
+// Longest units first so "fl oz" wins over "oz" and "kg" over "g"
+const UNIT_NAMES = [...Object.keys(MASS_UNITS_G), ...Object.keys(VOLUME_UNITS_ML)]
+  .sort((a, b) => b.length - a.length)
+  .map(unit => unit.replace(' ', '\\s*'));
+
+const MEASURED_PATTERN = new RegExp(`${NUMBER}\\s*(${UNIT_NAMES.join('|')})\\b`, 'gi');
+const COUNT_PATTERN = new RegExp(`^${NUMBER}\\s*([a-z]+)?`, 'i');
+
+/**
+ * "1 1/2", "0,5" or "3/4" as a number
+ */
+const parseAmount = (text: string): number => {
+  return text.trim().split(/\s+/).reduce((total, part) => {
+    const [numerator, denominator] = part.split('/');
+    const value = denominator !== undefined
+      ? Number(numerator) / Number(denominator)
+      : Number(part.replace(',', '.'));
+    return total + value;
+  }, 0);
+};
+
+const normalizeText = (servingSize: string): string => {
+  return Object.keys(VULGAR_FRACTIONS)
+    .reduce((text, fraction) => text.split(fraction).join(VULGAR_FRACTIONS[fraction]), servingSize || '')
+    .trim();
+};
+
+/**
+ * Read a serving size. A weight anywhere in the text wins over a volume, which wins over a count,
+ * so "1 cup (240 g)" is 240 g. Returns null when there is no usable amount.
+ */
+export const parseServing = (servingSize: string): ServingQuantity | null => {
+  const text = normalizeText(servingSize);
+  let volume: ServingQuantity | null = null;
+
+  for (const match of text.matchAll(MEASURED_PATTERN)) {
+    const amount = parseAmount(match[1]);
+    const unit = match[2].toLowerCase().replace(/\s+/g, ' ');
+    if (!(amount > 0)) continue;
+    if (MASS_UNITS_G[unit] !== undefined) {
+      return { kind: 'mass', grams: amount * MASS_UNITS_G[unit] };
+    }
+    if (!volume && VOLUME_UNITS_ML[unit] !== undefined) {
+      volume = { kind: 'volume', milliliters: amount * VOLUME_UNITS_ML[unit] };
+    }
+  }
+  if (volume) return volume;
+
+  const count = text.match(COUNT_PATTERN);
+  if (count) {
+    const amount = parseAmount(count[1]);
+    if (amount > 0) {
+      return { kind: 'count', count: amount, unit: count[2] ? count[2].toLowerCase() : null };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,469 @@
+import { DietPlan, FoodItem, MealEntry, MealType } from '../../contexts/diet/DietContext';
+import { addDays } from '../footprint/summary';
+import { FoodGroup, FoodRecord } from './foodData';
+import { buildFoodItem, getFoodById, servingGrams } from './foodDatabase';
+import { MEAL_TEMPLATES, MealTemplate } from './mealTemplates';
+import { emptyMacros, Macro, MacroTotals, MEAL_TYPES, sumFoods } from './nutrition';
+import { foodRules, FoodRules, isFoodAllowed } from './restrictions';
+
+export interface WeekPlanOptions {
+  startDate: string; // YYYY-MM-DD
+  days?: number;
+  mealTypes?: MealType[];
+  seed?: number; // another number gives a different plan with the same targets
+}
+
+export interface PlannedMeal {
+  date: string;
+  mealType: MealType;
+  templateId: string;
+  name: string;
+  foods: FoodItem[];
+  totals: MacroTotals;
+  carbonFootprint: number; // kg CO2e
+  waterUsage: number; // liters
+}
+
+export interface PlannedDay {
+  date: string;
+  meals: PlannedMeal[];
+  totals: MacroTotals;
+  carbonFootprint: number;
+  offTarget: Macro[]; // targets the day misses by more than the tolerance
+}
+
+export type Aisle =
+  | 'Fruit & vegetables'
+  | 'Meat & fish'
+  | 'Dairy & eggs'
+  | 'Bakery & grains'
+  | 'Beans & plant protein'
+  | 'Nuts & seeds'
+  | 'Oils & spreads'
+  | 'Drinks'
+  | 'Baking & sweets';
+
+export interface ShoppingItem {
+  foodId: string;
+  name: string;
+  grams: number; // to buy; dry weight for foods eaten cooked
+  milliliters?: number; // for liquids
+  dry: boolean;
+  meals: number; // how many planned meals use it
+}
+
+export interface ShoppingAisle {
+  aisle: Aisle;
+  items: ShoppingItem[];
+}
+
+export interface WeekPlan {
+  planId: string;
+  days: PlannedDay[];
+  carbonFootprint: number;
+  waterUsage: number;
+  shoppingList: ShoppingAisle[];
+  warnings: string[];
+}
+
+// How far a day may be from each target and still count as on target
+export const WEEK_PLAN_TOLERANCE: Record<Macro, number> = {
+  calories: 0.1,
+  protein: 0.2,
+  carbs: 0.2,
+  fat: 0.2,
+};
+
+const SLOT_SHARES: Record<MealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.3,
+  dinner: 0.35,
+  snack: 0.1,
+};
+
+const AISLE_ORDER: Aisle[] = [
+  'Fruit & vegetables',
+  'Meat & fish',
+  'Dairy & eggs',
+  'Bakery & grains',
+  'Beans & plant protein',
+  'Nuts & seeds',
+  'Oils & spreads',
+  'Drinks',
+  'Baking & sweets',
+];
+
+const GROUP_AISLES: Record<FoodGroup, Aisle> = {
+  vegetables: 'Fruit & vegetables',
+  fruit: 'Fruit & vegetables',
+  meat: 'Meat & fish',
+  fish: 'Meat & fish',
+  eggs: 'Dairy & eggs',
+  dairy: 'Dairy & eggs',
+  grains: 'Bakery & grains',
+  plant_protein: 'Beans & plant protein',
+  nuts: 'Nuts & seeds',
+  fats: 'Oils & spreads',
+  drinks: 'Drinks',
+  sweets: 'Baking & sweets',
+};
+
+const DEFAULT_DAYS = 7;
+const DEFAULT_CALORIES = 2000;
+// Portions stay recognisable: between 60% and 180% of a template's standard portion
+const MIN_PORTION = 0.6;
+const MAX_PORTION = 1.8;
+const PORTION_STEP_G = 5;
+const IMPROVEMENT_PASSES = 2;
+
+// Objective weights; lower scores are better
+const CARBON_WEIGHT = 0.15; // per kg CO2e
+const LOW_CARBON_WEIGHT = 0.4; // for plans that prefer low-carbon food
+const OFF_TARGET_PENALTY = 1; // per target missed by more than the tolerance
+const SAME_DAY_REPEAT_PENALTY = 2;
+const WEEK_REPEAT_PENALTY = 0.3; // per earlier use this week
+const CONSECUTIVE_REPEAT_PENALTY = 0.5;
+const REUSE_BONUS = 0.15; // for a meal whose ingredients are all already on the list
+const SEED_JITTER = 0.2;
+
+interface Candidate {
+  template: MealTemplate;
+  parts: Array<{ food: FoodRecord; grams: number }>;
+  base: MacroTotals;
+  baseCarbon: number;
+}
+
+interface Choice {
+  mealType: MealType;
+  candidate: Candidate;
+  scale: number;
+}
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1), so a seed always gives the same plan
+ */
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const planTargets = (plan: DietPlan): MacroTotals => ({
+  calories: plan.calorieTarget > 0 ? plan.calorieTarget : DEFAULT_CALORIES,
+  protein: plan.proteinTarget,
+  carbs: plan.carbTarget,
+  fat: plan.fatTarget,
+});
+
+/**
+ * The template with the lowest-carbon food the rules allow for each component, or null when a
+ * required component has no allowed food
+ */
+const resolveTemplate = (template: MealTemplate, rules: FoodRules): Candidate | null => {
+  const parts: Candidate['parts'] = [];
+
+  for (const component of template.components) {
+    const allowed = component.options
+      .map(getFoodById)
+      .filter((food): food is FoodRecord => food !== null && isFoodAllowed(food, rules))
+      .sort((a, b) => a.kgCO2ePerKg - b.kgCO2ePerKg);
+    if (allowed.length === 0) {
+      if (component.optional) continue;
+      return null;
+    }
+    parts.push({ food: allowed[0], grams: component.grams });
+  }
+
+  const base = parts.reduce<MacroTotals>((totals, { food, grams }) => ({
+    calories: totals.calories + (food.per100g.calories * grams) / 100,
+    protein: totals.protein + (food.per100g.protein * grams) / 100,
+    carbs: totals.carbs + (food.per100g.carbs * grams) / 100,
+    fat: totals.fat + (food.per100g.fat * grams) / 100,
+  }), emptyMacros());
+  const baseCarbon = parts.reduce((sum, { food, grams }) => sum + (food.kgCO2ePerKg * grams) / 1000, 0);
+
+  return base.calories > 0 ? { template, parts, base, baseCarbon } : null;
+};
+
+/**
+ * Targets the totals miss by more than the tolerance. Targets of zero aren't checked.
+ */
+export const offTargetMacros = (totals: MacroTotals, targets: MacroTotals): Macro[] => {
+  return (Object.keys(WEEK_PLAN_TOLERANCE) as Macro[]).filter(macro =>
+    targets[macro] > 0 && Math.abs(totals[macro] - targets[macro]) > targets[macro] * WEEK_PLAN_TOLERANCE[macro]
+  );
+};
+
+/**
+ * Size every meal for its share of the day's calories, then nudge the whole day towards the
+ * calorie target where the portion limits left it short or over
+ */
+const scaleDay = (choices: Array<Omit<Choice, 'scale'>>, slotCalories: Record<MealType, number>, calorieTarget: number): Choice[] => {
+  const scaled = choices.map(choice => ({
+    ...choice,
+    scale: clamp(slotCalories[choice.mealType] / choice.candidate.base.calories, MIN_PORTION, MAX_PORTION),
+  }));
+  const calories = scaled.reduce((sum, { candidate, scale }) => sum + candidate.base.calories * scale, 0);
+  if (calories <= 0) return scaled;
+  const correction = calorieTarget / calories;
+  return scaled.map(choice => ({ ...choice, scale: clamp(choice.scale * correction, MIN_PORTION, MAX_PORTION) }));
+};
+
+const choiceTotals = (choices: Choice[]): { totals: MacroTotals; carbon: number } => ({
+  totals: choices.reduce<MacroTotals>((totals, { candidate, scale }) => ({
+    calories: totals.calories + candidate.base.calories * scale,
+    protein: totals.protein + candidate.base.protein * scale,
+    carbs: totals.carbs + candidate.base.carbs * scale,
+    fat: totals.fat + candidate.base.fat * scale,
+  }), emptyMacros()),
+  carbon: choices.reduce((sum, { candidate, scale }) => sum + candidate.baseCarbon * scale, 0),
+});
+
+/**
+ * Whole-number grams, rounded to a sensible step
+ */
+const portionGrams = (grams: number): number => Math.max(PORTION_STEP_G, Math.round(grams / PORTION_STEP_G) * PORTION_STEP_G);
+
+const toPlannedMeal = (date: string, { mealType, candidate, scale }: Choice): PlannedMeal => {
+  const foods = candidate.parts.map(({ food, grams }) => buildFoodItem(food, `${portionGrams(grams * scale)} g`));
+  return {
+    date,
+    mealType,
+    templateId: candidate.template.id,
+    name: candidate.template.name,
+    foods,
+    totals: sumFoods(foods),
+    carbonFootprint: round(foods.reduce((sum, food) => sum + (food.carbonFootprint || 0), 0), 3),
+    waterUsage: round(foods.reduce((sum, food) => sum + (food.waterUsage || 0), 0)),
+  };
+};
+
+/**
+ * Plan a week of meals for a diet plan. Each day is built from meal templates whose foods the plan
+ * allows, picking the combination that lands closest to the plan's targets with the least carbon,
+ * while favouring ingredients already bought for earlier days and avoiding repeats.
+ */
+export const generateWeekPlan = (plan: DietPlan, options: WeekPlanOptions): WeekPlan => {
+  const days = options.days || DEFAULT_DAYS;
+  const mealTypes = options.mealTypes && options.mealTypes.length > 0 ? options.mealTypes : MEAL_TYPES;
+  const random = options.seed ? seededRandom(options.seed) : null;
+  const targets = planTargets(plan);
+  const rules = foodRules(plan.dietType, plan.restrictions || []);
+  const prefersLowCarbon = (plan.preferences || []).some(preference => preference.trim().toLowerCase() === 'low carbon');
+  const carbonWeight = prefersLowCarbon ? LOW_CARBON_WEIGHT : CARBON_WEIGHT;
+  const warnings: string[] = [];
+
+  if (!(plan.calorieTarget > 0)) {
+    warnings.push(`The plan has no calorie target, so days are planned for ${DEFAULT_CALORIES} kcal.`);
+  }
+
+  const shareTotal = mealTypes.reduce((sum, mealType) => sum + SLOT_SHARES[mealType], 0);
+  const slotCalories = MEAL_TYPES.reduce<Record<MealType, number>>((slots, mealType) => ({
+    ...slots,
+    [mealType]: (targets.calories * SLOT_SHARES[mealType]) / shareTotal,
+  }), {} as Record<MealType, number>);
+
+  const candidates = mealTypes.reduce<Record<MealType, Candidate[]>>((slots, mealType) => ({
+    ...slots,
+    [mealType]: MEAL_TEMPLATES
+      .filter(template => template.mealTypes.includes(mealType))
+      .map(template => resolveTemplate(template, rules))
+      .filter((candidate): candidate is Candidate => candidate !== null),
+  }), {} as Record<MealType, Candidate[]>);
+  const slots = mealTypes.filter(mealType => {
+    if (candidates[mealType].length > 0) return true;
+    warnings.push(`No ${mealType} meals fit this plan's diet and restrictions, so ${mealType} is left empty.`);
+    return false;
+  });
+
+  const uses: Record<string, number> = {};
+  const bought = new Set<string>();
+  let previousDay: Choice[] = [];
+  const plannedDays: PlannedDay[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const date = addDays(options.startDate, day);
+    const jitter: Record<string, number> = {};
+    if (random) {
+      slots.forEach(mealType => candidates[mealType].forEach(({ template }) => {
+        jitter[`${mealType}:${template.id}`] = random() * SEED_JITTER;
+      }));
+    }
+
+    const score = (choices: Array<Omit<Choice, 'scale'>>): number => {
+      const scaled = scaleDay(choices, slotCalories, targets.calories);
+      const { totals, carbon } = choiceTotals(scaled);
+      let total = carbonWeight * carbon + OFF_TARGET_PENALTY * offTargetMacros(totals, targets).length;
+
+      (Object.keys(targets) as Macro[]).forEach(macro => {
+        if (targets[macro] > 0) total += Math.abs(totals[macro] - targets[macro]) / targets[macro];
+      });
+
+      const templateIds = choices.map(({ candidate }) => candidate.template.id);
+      choices.forEach(({ mealType, candidate }) => {
+        const id = candidate.template.id;
+        if (templateIds.indexOf(id) !== templateIds.lastIndexOf(id)) total += SAME_DAY_REPEAT_PENALTY / 2;
+        total += WEEK_REPEAT_PENALTY * (uses[id] || 0);
+        if (previousDay.some(previous => previous.mealType === mealType && previous.candidate.template.id === id)) {
+          total += CONSECUTIVE_REPEAT_PENALTY;
+        }
+        const reused = candidate.parts.filter(({ food }) => bought.has(food.id)).length;
+        total -= (REUSE_BONUS * reused) / candidate.parts.length;
+        total += jitter[`${mealType}:${id}`] || 0;
+      });
+      return total;
+    };
+
+    // Start from each slot's best meal on its own, then swap meals while that improves the whole day
+    const choices = slots.map(mealType => ({ mealType, candidate: candidates[mealType][0] }));
+    for (let pass = 0; pass <= IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+      choices.forEach((choice, index) => {
+        let best = score(choices);
+        candidates[choice.mealType].forEach(candidate => {
+          const trial = choices.map((other, otherIndex) => (otherIndex === index ? { ...other, candidate } : other));
+          const trialScore = score(trial);
+          if (trialScore < best - 1e-9) {
+            best = trialScore;
+            choices[index] = { ...choice, candidate };
+            improved = true;
+          }
+        });
+      });
+      if (!improved) break;
+    }
+
+    const scaled = scaleDay(choices, slotCalories, targets.calories);
+    scaled.forEach(({ candidate }) => {
+      uses[candidate.template.id] = (uses[candidate.template.id] || 0) + 1;
+      candidate.parts.forEach(({ food }) => bought.add(food.id));
+    });
+    previousDay = scaled;
+
+    const meals = scaled.map(choice => toPlannedMeal(date, choice));
+    const totals = meals.reduce<MacroTotals>((sum, meal) => ({
+      calories: round(sum.calories + meal.totals.calories),
+      protein: round(sum.protein + meal.totals.protein),
+      carbs: round(sum.carbs + meal.totals.carbs),
+      fat: round(sum.fat + meal.totals.fat),
+    }), emptyMacros());
+    plannedDays.push({
+      date,
+      meals,
+      totals,
+      carbonFootprint: round(meals.reduce((sum, meal) => sum + meal.carbonFootprint, 0), 3),
+      offTarget: offTargetMacros(totals, targets),
+    });
+  }
+
+  const offTargetDays = plannedDays.filter(day => day.offTarget.length > 0).length;
+  if (offTargetDays > 0) {
+    warnings.push(`${offTargetDays} of ${days} days miss a target by more than the tolerance.`);
+  }
+
+  const allMeals = plannedDays.reduce<PlannedMeal[]>((meals, day) => [...meals, ...day.meals], []);
+  return {
+    planId: plan.id,
+    days: plannedDays,
+    carbonFootprint: round(allMeals.reduce((sum, meal) => sum + meal.carbonFootprint, 0), 3),
+    waterUsage: round(allMeals.reduce((sum, meal) => sum + meal.waterUsage, 0)),
+    shoppingList: buildShoppingList(allMeals),
+    warnings,
+  };
+};
+
+/**
+ * Everything the meals need, added up per food and grouped by aisle. Foods eaten cooked are
+ * listed by their dry weight, and liquids by volume as well.
+ */
+export const buildShoppingList = (meals: PlannedMeal[]): ShoppingAisle[] => {
+  const eaten: Record<string, { food: FoodRecord; grams: number; meals: number }> = {};
+
+  meals.forEach(meal => {
+    const counted = new Set<string>();
+    meal.foods.forEach(item => {
+      const food = item.foodId ? getFoodById(item.foodId) : null;
+      const portion = food ? servingGrams(item.servingSize, food) : null;
+      if (!food || portion === null) return;
+      const grams = portion * (item.servings || 1);
+
+      const entry = eaten[food.id] || { food, grams: 0, meals: 0 };
+      entry.grams += grams;
+      if (!counted.has(food.id)) {
+        entry.meals += 1;
+        counted.add(food.id);
+      }
+      eaten[food.id] = entry;
+    });
+  });
+
+  const items = Object.keys(eaten).map(id => {
+    const { food, grams, meals: mealCount } = eaten[id];
+    const dry = !!food.cookedYield;
+    const toBuy = Math.ceil(grams / (food.cookedYield || 1) / PORTION_STEP_G) * PORTION_STEP_G;
+    const item: ShoppingItem = { foodId: id, name: food.name, grams: toBuy, dry, meals: mealCount };
+    if (food.density) {
+      item.milliliters = Math.ceil(toBuy / food.density / PORTION_STEP_G) * PORTION_STEP_G;
+    }
+    return { aisle: GROUP_AISLES[food.group], item };
+  });
+
+  return AISLE_ORDER
+    .map(aisle => ({
+      aisle,
+      items: items
+        .filter(entry => entry.aisle === aisle)
+        .map(entry => entry.item)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter(aisle => aisle.items.length > 0);
+};
+
+/**
+ * "450 g dry", "1.2 kg" or "750 ml"
+ */
+export const formatShoppingQuantity = (item: ShoppingItem): string => {
+  if (item.milliliters !== undefined) {
+    return item.milliliters >= 1000 ? `${round(item.milliliters / 1000)} l` : `${item.milliliters} ml`;
+  }
+  const amount = item.grams >= 1000 ? `${round(item.grams / 1000)} kg` : `${item.grams} g`;
+  return item.dry ? `${amount} dry` : amount;
+};
+
+/**
+ * The shopping list as plain text, for sharing
+ */
+export const shoppingListText = (list: ShoppingAisle[]): string => {
+  return list
+    .map(({ aisle, items }) => [aisle, ...items.map(item => `- ${item.name}: ${formatShoppingQuantity(item)}`)].join('\n'))
+    .join('\n\n');
+};
+
+/**
+ * A planned meal as a diary entry for the plan
+ */
+export const toMealEntry = (meal: PlannedMeal, planId: string): Omit<MealEntry, 'id' | 'userId' | 'createdAt' | 'updatedAt'> => ({
+  dietPlanId: planId,
+  date: meal.date,
+  mealType: meal.mealType,
+  name: meal.name,
+  foods: meal.foods,
+  totalCalories: meal.totals.calories,
+  totalProtein: meal.totals.protein,
+  totalCarbs: meal.totals.carbs,
+  totalFat: meal.totals.fat,
+  carbonFootprint: meal.carbonFootprint,
+  waterUsage: meal.waterUsage,
+});
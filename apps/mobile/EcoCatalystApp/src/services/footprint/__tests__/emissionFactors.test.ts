@@ -0,0 +1,78 @@
+import {
+  EMISSION_FACTORS_VERSION,
+  calculateEmissions,
+  defaultUnitFor,
+  flightActivityForDistance,
+  getEmissionFactor,
+  listEmissionFactors,
+} from '../emissionFactors';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+describe('emission factors', () => {
+  it('has a factor for every listed activity in each category', () => {
+    const food = listEmissionFactors('food');
+    expect(food.length).toBeGreaterThan(0);
+    expect(food.every(item => item.category === 'food')).toBe(true);
+    expect(getEmissionFactor('food', 'beef')!.kgCO2ePerUnit).toBeGreaterThan(getEmissionFactor('food', 'tofu')!.kgCO2ePerUnit);
+    expect(getEmissionFactor('food', 'unknown')).toBeNull();
+  });
+
+  it('uses imperial units only where they differ', () => {
+    expect(defaultUnitFor('distance', 'imperial')).toBe('mi');
+    expect(defaultUnitFor('mass', 'imperial')).toBe('lb');
+    expect(defaultUnitFor('energy', 'imperial')).toBe('kWh');
+    expect(defaultUnitFor('distance', 'metric')).toBe('km');
+  });
+
+  it('bands flights by distance', () => {
+    expect(flightActivityForDistance(300)).toBe('flight_domestic');
+    expect(flightActivityForDistance(1500)).toBe('flight_short_haul');
+    expect(flightActivityForDistance(9000)).toBe('flight_long_haul');
+  });
+});
+
+describe('calculateEmissions', () => {
+  it('multiplies the quantity by the factor and records its source', () => {
+    const result = calculateEmissions({ category: 'transportation', activityType: 'car_petrol', quantity: 100 });
+    expect(result.carbonAmount).toBeCloseTo(16.4);
+    expect(result.unit).toBe('km');
+    expect(result.factor).toEqual({
+      id: 'transportation.car_petrol',
+      kgCO2ePerUnit: 0.164,
+      unit: 'km',
+      source: expect.stringContaining('DEFRA'),
+      version: EMISSION_FACTORS_VERSION,
+    });
+  });
+
+  it('converts imperial quantities for imperial users', () => {
+    const miles = calculateEmissions({ category: 'transportation', activityType: 'car_petrol', quantity: 10 }, 'imperial');
+    expect(miles.unit).toBe('mi');
+    expect(miles.carbonAmount).toBeCloseTo(10 * 1.609344 * 0.164, 2);
+
+    const pounds = calculateEmissions({ category: 'food', activityType: 'beef', quantity: 1, unit: 'lb' });
+    expect(pounds.carbonAmount).toBeCloseTo(0.45359237 * 60, 2);
+  });
+
+  it('resolves a flight into its distance band', () => {
+    const result = calculateEmissions({ category: 'transportation', activityType: 'flight', quantity: 2000, unit: 'mi' });
+    expect(result.factor.id).toBe('transportation.flight_short_haul');
+  });
+
+  it('uses the grid intensity of the region for electricity', () => {
+    const uk = calculateEmissions({ category: 'housing', activityType: 'electricity', quantity: 100, region: 'uk' });
+    const unknown = calculateEmissions({ category: 'housing', activityType: 'electricity', quantity: 100, region: 'atlantis' });
+    expect(uk.factor.region).toBe('uk');
+    expect(uk.carbonAmount).toBeCloseTo(20.7);
+    expect(unknown.factor.region).toBe('world');
+  });
+
+  it('rejects unknown activities, mismatched units and bad quantities', () => {
+    expect(() => calculateEmissions({ category: 'food', activityType: 'unicorn', quantity: 1 })).toThrow();
+    expect(() => calculateEmissions({ category: 'food', activityType: 'beef', quantity: 1, unit: 'km' })).toThrow();
+    expect(() => calculateEmissions({ category: 'food', activityType: 'beef', quantity: -1 })).toThrow();
+  });
+});
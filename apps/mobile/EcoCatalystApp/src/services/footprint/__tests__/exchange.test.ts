@@ -0,0 +1,154 @@
+import { CarbonFootprintEntry } from '../../../contexts/footprint/FootprintContext';
+import {
+  buildGhgReport,
+  entriesToCsv,
+  entriesToJson,
+  parseCsv,
+  parseFootprintImport,
+  reportToCsv,
+  scopeFor,
+} from '../exchange';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const range = { startDate: '2024-03-01', endDate: '2024-03-31' };
+
+const entries: CarbonFootprintEntry[] = [
+  {
+    id: 'e1',
+    userId: 'u1',
+    date: '2024-03-02',
+    timestamp: Date.parse('2024-03-02T08:00:00Z'),
+    category: 'transportation',
+    activityType: 'car_petrol',
+    carbonAmount: 3.28,
+    quantity: 20,
+    unit: 'km',
+    emissionFactor: { id: 'transportation.car_petrol', kgCO2ePerUnit: 0.164, unit: 'km', source: 'DEFRA 2023', version: 1 },
+    description: 'Commute, "short" way',
+  },
+  {
+    id: 'e2',
+    userId: 'u1',
+    date: '2024-03-01',
+    timestamp: Date.parse('2024-03-01T12:00:00Z'),
+    category: 'housing',
+    activityType: 'electricity',
+    carbonAmount: 10,
+    seriesId: 's1',
+    occurrenceDate: '2024-03-01',
+  },
+  {
+    id: 'e3',
+    userId: 'u1',
+    date: '2024-03-03',
+    timestamp: Date.parse('2024-03-03T12:00:00Z'),
+    category: 'food',
+    activityType: 'beef',
+    carbonAmount: 6,
+  },
+];
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and line endings', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+describe('scopeFor', () => {
+  it('classifies fuel, purchased energy and value chain activities', () => {
+    expect(scopeFor('transportation', 'car_diesel')).toBe('scope1');
+    expect(scopeFor('housing', 'natural_gas')).toBe('scope1');
+    expect(scopeFor('housing', 'electricity')).toBe('scope2');
+    expect(scopeFor('transportation', 'flight_long_haul')).toBe('scope3');
+    expect(scopeFor('food', 'beef')).toBe('scope3');
+  });
+});
+
+describe('buildGhgReport', () => {
+  it('totals entries by scope and category', () => {
+    const report = buildGhgReport(entries, range, 0);
+
+    expect(report.total).toBe(19.28);
+    expect(report.byScope).toEqual({ scope1: 3.28, scope2: 10, scope3: 6 });
+    expect(report.byCategory.housing).toBe(10);
+    expect(report.lines).toHaveLength(3);
+    expect(report.sources).toEqual(['DEFRA 2023']);
+    expect(reportToCsv(report)).toContain('Scope 2 (purchased energy) total,,,,10');
+  });
+});
+
+describe('parseFootprintImport', () => {
+  it('round-trips a CSV export', () => {
+    const preview = parseFootprintImport(entriesToCsv(entries), []);
+
+    expect(preview.issues).toEqual([]);
+    expect(preview.entries.map(entry => entry.id)).toEqual(['e2', 'e1', 'e3']);
+    const { userId, ...commute } = entries[0];
+    expect(preview.entries[1]).toEqual(commute);
+    expect(preview.entries[0]).toMatchObject({ seriesId: 's1', occurrenceDate: '2024-03-01' });
+  });
+
+  it('round-trips a JSON export', () => {
+    const preview = parseFootprintImport(entriesToJson(entries, range, 0), []);
+
+    expect(preview.entries).toHaveLength(3);
+    expect(preview.entries[1].emissionFactor).toEqual(entries[0].emissionFactor);
+  });
+
+  it('separates entries already logged or repeated in the file by id', () => {
+    const preview = parseFootprintImport(entriesToJson([...entries, ...entries], range), [entries[2]]);
+
+    expect(preview.entries.map(entry => entry.id)).toEqual(['e2', 'e1']);
+    expect(preview.duplicates).toHaveLength(4);
+  });
+
+  it('keeps identical activities that have their own ids', () => {
+    const again = entries.map(entry => ({ ...entry, id: `again_${entry.id}` }));
+    const preview = parseFootprintImport(entriesToJson([...entries, ...again], range), entries);
+
+    expect(preview.entries.map(entry => entry.id)).toEqual(['again_e2', 'again_e1', 'again_e3']);
+    expect(preview.duplicates).toHaveLength(3);
+  });
+
+  it('matches rows without an id against logged entries only', () => {
+    const csv = [
+      'date,category,activityType,carbonAmount',
+      '2024-03-02,transportation,bus,1.2',
+      '2024-03-02,transportation,bus,1.2',
+      '2024-03-03,food,beef,6',
+    ].join('\n');
+    const preview = parseFootprintImport(csv, [entries[2]]);
+
+    expect(preview.entries).toHaveLength(2);
+    expect(preview.duplicates.map(entry => entry.activityType)).toEqual(['beef']);
+  });
+
+  it('reports invalid rows and keeps the valid ones', () => {
+    const csv = [
+      'date,category,activityType,carbonAmount,unit',
+      '2024-03-01,food,rice,2,kg',
+      '2024-02-30,food,rice,2,kg',
+      '2024-03-01,pets,food,2,',
+      '2024-03-01,food,rice,-1,',
+      '2024-03-02,food,rice,1,stone',
+    ].join('\n');
+    const preview = parseFootprintImport(csv, []);
+
+    expect(preview.entries).toHaveLength(1);
+    expect(preview.issues.map((issue: { row: number }) => issue.row)).toEqual([2, 3, 4, 5]);
+  });
+
+  it('rejects files without the required columns or from a newer version', () => {
+    expect(parseFootprintImport('date,amount\n2024-03-01,2', []).issues[0]).toEqual({
+      row: 0,
+      message: 'Missing columns: category, activityType, carbonAmount',
+    });
+    expect(parseFootprintImport('{"schemaVersion": 99, "entries": []}', []).issues[0].row).toBe(0);
+  });
+});
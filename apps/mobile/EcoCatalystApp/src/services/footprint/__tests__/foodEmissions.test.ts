@@ -0,0 +1,86 @@
+import {
+  DEFAULT_SERVING_KG,
+  estimateFoodCarbon,
+  estimateFoodWater,
+  estimateMealCarbon,
+  estimateMealWater,
+  matchFoodActivity,
+  parseServingKg,
+} from '../foodEmissions';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+describe('parseServingKg', () => {
+  it('converts weights and volumes to kg', () => {
+    expect(parseServingKg('150 g')).toBeCloseTo(0.15);
+    expect(parseServingKg('1.5kg')).toBeCloseTo(1.5);
+    expect(parseServingKg('4 oz')).toBeCloseTo(0.113, 3);
+    expect(parseServingKg('2 cups')).toBeCloseTo(0.48);
+    expect(parseServingKg('250 ml')).toBeCloseTo(0.25);
+  });
+
+  it('falls back to a default serving', () => {
+    expect(parseServingKg('1 slice')).toBe(DEFAULT_SERVING_KG);
+    expect(parseServingKg('')).toBe(DEFAULT_SERVING_KG);
+  });
+});
+
+describe('matchFoodActivity', () => {
+  it('matches whole words, plurals and the most intensive ingredient first', () => {
+    expect(matchFoodActivity('Grilled chicken breast')).toBe('poultry');
+    expect(matchFoodActivity('Beef and rice bowl')).toBe('beef');
+    expect(matchFoodActivity('Roasted potatoes')).toBe('vegetables');
+    expect(matchFoodActivity('Overnight oats')).toBe('grains');
+    expect(matchFoodActivity('Peach')).toBeNull();
+  });
+});
+
+describe('estimateFoodCarbon', () => {
+  it('keeps a carbon value the food already has', () => {
+    expect(estimateFoodCarbon({ name: 'Beef stew', servingSize: '300 g', carbonFootprint: 1.2 })).toEqual({
+      carbonAmount: 1.2,
+      activityType: null,
+      estimated: false,
+    });
+  });
+
+  it('estimates from the food emission factors and serving size', () => {
+    expect(estimateFoodCarbon({ name: 'Beef burger', servingSize: '100 g' })).toEqual({
+      carbonAmount: 6,
+      activityType: 'beef',
+      estimated: true,
+    });
+  });
+
+  it('multiplies by the number of servings eaten', () => {
+    expect(estimateFoodCarbon({ name: 'Beef burger', servingSize: '100 g', servings: 2 }).carbonAmount).toBe(12);
+  });
+});
+
+describe('estimateMealCarbon', () => {
+  it('sums the foods and lists the ones it could not identify', () => {
+    const estimate = estimateMealCarbon([
+      { name: 'Lentil soup', servingSize: '300 g' },
+      { name: 'Bread roll', servingSize: '50 g', carbonFootprint: 0.1 },
+      { name: 'Peach', servingSize: '100 g' },
+    ]);
+
+    expect(estimate.carbonAmount).toBeCloseTo(0.27 + 0.1 + 0.25);
+    expect(estimate.estimatedFoods).toBe(2);
+    expect(estimate.unmatchedFoods).toEqual(['Peach']);
+  });
+});
+
+describe('water estimates', () => {
+  it('uses the food value, then the water table, then a default', () => {
+    expect(estimateFoodWater({ name: 'Beef stew', servingSize: '200 g', waterUsage: 900 })).toBe(900);
+    expect(estimateFoodWater({ name: 'Beef steak', servingSize: '200 g' })).toBe(3080);
+    expect(estimateFoodWater({ name: 'Peach', servingSize: '100 g' })).toBe(100);
+    expect(estimateMealWater([
+      { name: 'Rice', servingSize: '100 g' },
+      { name: 'Spinach salad', servingSize: '100 g' },
+    ])).toBe(280);
+  });
+});
@@ -0,0 +1,113 @@
+import { CarbonFootprintEntry } from '../../../contexts/footprint/FootprintContext';
+import { CarbonGoal, detectGoalCrossings, evaluateGoal, periodBounds, settleGoal } from '../goals';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+let counter = 0;
+const entry = (date: string, carbonAmount: number, category: CarbonFootprintEntry['category'] = 'food'): CarbonFootprintEntry => ({
+  id: `e${++counter}`,
+  userId: 'u1',
+  date,
+  timestamp: Date.parse(date),
+  category,
+  activityType: 'test',
+  carbonAmount,
+});
+
+const goal = (overrides: Partial<CarbonGoal> = {}): CarbonGoal => ({
+  id: 'g1',
+  userId: 'u1',
+  period: 'month',
+  budget: 100,
+  createdAt: Date.UTC(2024, 0, 1),
+  ...overrides,
+});
+
+// 2024-04-10, day 10 of a 30-day month
+const NOW = Date.UTC(2024, 3, 10, 12);
+const options = { now: NOW, timeZone: 'UTC' };
+
+describe('periodBounds', () => {
+  it('covers the calendar month or year', () => {
+    expect(periodBounds('month', '2024-02-15')).toEqual({ start: '2024-02-01', end: '2024-02-29' });
+    expect(periodBounds('year', '2024-02-15')).toEqual({ start: '2024-01-01', end: '2024-12-31' });
+  });
+});
+
+describe('evaluateGoal', () => {
+  it('projects the end-of-period total from the pace so far', () => {
+    const progress = evaluateGoal(goal(), [entry('2024-04-02', 20), entry('2024-04-09', 20), entry('2024-03-30', 50)], options);
+
+    expect(progress.used).toBe(40);
+    expect(progress.daysElapsed).toBe(10);
+    expect(progress.daysInPeriod).toBe(30);
+    expect(progress.projected).toBeCloseTo(120);
+    expect(progress.remaining).toBe(60);
+    expect(progress.status).toBe('at_risk');
+  });
+
+  it('only counts the goal category', () => {
+    const progress = evaluateGoal(
+      goal({ category: 'transportation', budget: 10 }),
+      [entry('2024-04-02', 5, 'transportation'), entry('2024-04-03', 50, 'food')],
+      options
+    );
+
+    expect(progress.used).toBe(5);
+    expect(progress.status).toBe('at_risk');
+  });
+
+  it('reports an exceeded budget', () => {
+    expect(evaluateGoal(goal(), [entry('2024-04-01', 150)], options).status).toBe('exceeded');
+    expect(evaluateGoal(goal({ period: 'year', budget: 2000 }), [entry('2024-04-01', 150)], options).status).toBe('on_track');
+  });
+});
+
+describe('detectGoalCrossings', () => {
+  it('raises events when the status gets worse within a period', () => {
+    const onTrack = evaluateGoal(goal(), [entry('2024-04-01', 10)], options);
+    const atRisk = evaluateGoal(goal(), [entry('2024-04-01', 40)], options);
+    const exceeded = evaluateGoal(goal(), [entry('2024-04-01', 140)], options);
+
+    expect(detectGoalCrossings(undefined, exceeded)).toEqual([]);
+    expect(detectGoalCrossings(onTrack, atRisk).map(event => event.type)).toEqual(['goal_at_risk']);
+    expect(detectGoalCrossings(atRisk, exceeded).map(event => event.type)).toEqual(['goal_exceeded']);
+    expect(detectGoalCrossings(exceeded, atRisk)).toEqual([]);
+  });
+});
+
+describe('settleGoal', () => {
+  it('reports how much was saved in the last completed period once', () => {
+    const entries = [entry('2024-02-10', 90), entry('2024-03-05', 30), entry('2024-03-20', 40)];
+
+    expect(settleGoal(goal(), entries, options)).toEqual({
+      type: 'goal_met',
+      goalId: 'g1',
+      periodStart: '2024-03-01',
+      periodEnd: '2024-03-31',
+      budget: 100,
+      used: 70,
+      saved: 20,
+    });
+    expect(settleGoal(goal({ lastSettledPeriod: '2024-03-01' }), entries, options)).toBeNull();
+  });
+
+  it('measures savings against the period before, up to the budget', () => {
+    const entries = [entry('2024-02-10', 300), entry('2024-03-05', 70)];
+
+    expect(settleGoal(goal(), entries, options)).toMatchObject({ type: 'goal_met', saved: 30 });
+    expect(settleGoal(goal({ budget: 100000 }), entries, options)).toMatchObject({ type: 'goal_met', saved: 230 });
+    expect(settleGoal(goal({ budget: 100000 }), [entry('2024-03-05', 70)], options)).toMatchObject({ type: 'goal_met', saved: 0 });
+  });
+
+  it('reports a missed budget', () => {
+    expect(settleGoal(goal(), [entry('2024-03-05', 130)], options)!.type).toBe('goal_missed');
+  });
+
+  it('skips periods the goal did not cover or with nothing logged', () => {
+    expect(settleGoal(goal({ createdAt: Date.UTC(2024, 2, 15) }), [entry('2024-03-20', 5)], options)).toBeNull();
+    expect(settleGoal(goal(), [], options)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  FootprintSeries,
+  cleanRule,
+  detailChanges,
+  entryFromDetails,
+  materializeSeries,
+  occurrencesBetween,
+  occursOn,
+  seriesEntryId,
+} from '../recurrence';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const series = (overrides: Partial<FootprintSeries> = {}): FootprintSeries => ({
+  id: 's1',
+  userId: 'u1',
+  category: 'transportation',
+  activityType: 'car_petrol',
+  carbonAmount: 3.4,
+  rule: { frequency: 'daily', startDate: '2024-03-01' },
+  createdAt: 0,
+  ...overrides,
+});
+
+describe('occursOn', () => {
+  it('only matches weekdays for weekday rules', () => {
+    const rule = { frequency: 'weekdays' as const, startDate: '2024-03-01' };
+    // 2024-03-01 is a Friday
+    expect(occursOn(rule, '2024-03-01')).toBe(true);
+    expect(occursOn(rule, '2024-03-02')).toBe(false);
+    expect(occursOn(rule, '2024-03-03')).toBe(false);
+    expect(occursOn(rule, '2024-03-04')).toBe(true);
+  });
+
+  it('repeats weekly on the weekday of the start date', () => {
+    const rule = { frequency: 'weekly' as const, startDate: '2024-03-01' };
+    expect(occursOn(rule, '2024-03-08')).toBe(true);
+    expect(occursOn(rule, '2024-03-09')).toBe(false);
+  });
+
+  it('falls on the last day of shorter months for monthly rules', () => {
+    const rule = { frequency: 'monthly' as const, startDate: '2024-01-31' };
+    expect(occursOn(rule, '2024-02-29')).toBe(true);
+    expect(occursOn(rule, '2024-02-28')).toBe(false);
+    expect(occursOn(rule, '2024-04-30')).toBe(true);
+    expect(occursOn(rule, '2024-05-31')).toBe(true);
+  });
+
+  it('respects the start and end dates', () => {
+    const rule = { frequency: 'daily' as const, startDate: '2024-03-01', endDate: '2024-03-05' };
+    expect(occursOn(rule, '2024-02-29')).toBe(false);
+    expect(occursOn(rule, '2024-03-05')).toBe(true);
+    expect(occursOn(rule, '2024-03-06')).toBe(false);
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('lists the dates in range that the rule covers', () => {
+    const rule = { frequency: 'weekly' as const, startDate: '2024-03-01', endDate: '2024-03-20' };
+    expect(occurrencesBetween(rule, '2024-02-01', '2024-03-31')).toEqual(['2024-03-01', '2024-03-08', '2024-03-15']);
+  });
+});
+
+describe('materializeSeries', () => {
+  it('creates entries with deterministic ids up to today', () => {
+    const created = materializeSeries(series(), new Set(), '2024-03-03', 1);
+
+    expect(created.map(entry => entry.id)).toEqual(['s1_20240301', 's1_20240302', 's1_20240303']);
+    expect(created[0]).toMatchObject({
+      date: '2024-03-01',
+      seriesId: 's1',
+      occurrenceDate: '2024-03-01',
+      carbonAmount: 3.4,
+      updatedAt: 1,
+    });
+  });
+
+  it('skips existing, skipped and already materialized dates', () => {
+    const created = materializeSeries(
+      series({ skippedDates: ['2024-03-04'], materializedThrough: '2024-03-02' }),
+      new Set([seriesEntryId('s1', '2024-03-03')]),
+      '2024-03-05'
+    );
+
+    expect(created.map(entry => entry.occurrenceDate)).toEqual(['2024-03-05']);
+  });
+});
+
+describe('cleaning', () => {
+  it('drops unset fields the database would reject', () => {
+    expect(cleanRule({ frequency: 'daily', startDate: '2024-03-01', endDate: undefined })).toEqual({
+      frequency: 'daily',
+      startDate: '2024-03-01',
+    });
+    expect(entryFromDetails({
+      category: 'food',
+      activityType: 'beef',
+      carbonAmount: 10,
+      description: undefined,
+      quantity: 0,
+    })).toEqual({ category: 'food', activityType: 'beef', carbonAmount: 10, quantity: 0 });
+    expect(detailChanges({ carbonAmount: 4, unit: undefined, description: '' })).toEqual({ carbonAmount: 4, description: '' });
+  });
+});
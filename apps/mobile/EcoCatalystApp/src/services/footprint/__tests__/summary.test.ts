@@ -0,0 +1,135 @@
+import { CarbonFootprintEntry } from '../../../contexts/footprint/FootprintContext';
+import { addMonths, entriesBetween, startOfWeek, summarizeFootprint, toLocalDate } from '../summary';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+let counter = 0;
+const entry = (date: string, carbonAmount: number, category: CarbonFootprintEntry['category'] = 'food'): CarbonFootprintEntry => ({
+  id: `e${++counter}`,
+  userId: 'u1',
+  date,
+  timestamp: Date.parse(date) || 0,
+  category,
+  activityType: 'test',
+  carbonAmount,
+});
+
+// Wednesday 2024-03-13, 12:00 UTC
+const NOW = Date.UTC(2024, 2, 13, 12);
+
+describe('date helpers', () => {
+  it('finds the local date in a time zone', () => {
+    const lateEvening = Date.UTC(2024, 2, 13, 23, 30);
+    expect(toLocalDate(lateEvening, 'UTC')).toBe('2024-03-13');
+    expect(toLocalDate(lateEvening, 'Asia/Tokyo')).toBe('2024-03-14');
+    expect(toLocalDate(lateEvening, 'America/Los_Angeles')).toBe('2024-03-13');
+  });
+
+  it('clamps month arithmetic to the end of shorter months', () => {
+    expect(addMonths('2024-03-31', -1)).toBe('2024-02-29');
+    expect(addMonths('2023-03-31', -1)).toBe('2023-02-28');
+    expect(addMonths('2024-01-15', -12)).toBe('2023-01-15');
+  });
+
+  it('starts weeks on Monday or Sunday', () => {
+    expect(startOfWeek('2024-03-13', 1)).toBe('2024-03-11');
+    expect(startOfWeek('2024-03-13', 0)).toBe('2024-03-10');
+    expect(startOfWeek('2024-03-10', 1)).toBe('2024-03-04');
+  });
+});
+
+describe('entriesBetween', () => {
+  it('goes by the local date an entry is for, not when it was added', () => {
+    const backDated = { ...entry('2024-02-29', 1), timestamp: NOW };
+    const lateNight = entry('2024-03-31T23:30:00Z', 2);
+    const range = [backDated, lateNight, entry('2024-03-13', 3)];
+
+    expect(entriesBetween(range, '2024-02-01', '2024-02-29', 'UTC')).toEqual([backDated]);
+    expect(entriesBetween(range, '2024-03-01', '2024-03-31', 'UTC').map(item => item.carbonAmount)).toEqual([2, 3]);
+    expect(entriesBetween(range, '2024-03-01', '2024-03-31', 'Asia/Tokyo').map(item => item.carbonAmount)).toEqual([3]);
+  });
+});
+
+describe('summarizeFootprint', () => {
+  it('buckets entries into calendar and rolling periods', () => {
+    const summary = summarizeFootprint(
+      [
+        entry('2024-03-13', 2),
+        entry('2024-03-10', 3),
+        entry('2024-03-01', 5),
+        entry('2024-02-20', 7),
+        entry('2023-12-31', 11),
+      ],
+      { now: NOW, timeZone: 'UTC' }
+    );
+
+    expect(summary.daily).toBe(2);
+    expect(summary.weekly).toBe(5);
+    expect(summary.monthly).toBe(17);
+    expect(summary.yearly).toBe(28);
+    expect(summary.calendar.week.total).toBe(2);
+    expect(summary.calendar.month.total).toBe(10);
+    expect(summary.calendar.year.total).toBe(17);
+    expect(summary.rolling.month.start).toBe('2024-02-14');
+  });
+
+  it('uses the time zone to decide which day an entry counts towards', () => {
+    const lateEvening = entry(new Date(Date.UTC(2024, 2, 12, 20)).toISOString(), 4);
+    expect(summarizeFootprint([lateEvening], { now: NOW, timeZone: 'UTC' }).daily).toBe(0);
+    expect(summarizeFootprint([lateEvening], { now: NOW, timeZone: 'Asia/Tokyo' }).daily).toBe(4);
+  });
+
+  it('builds a daily series ending today', () => {
+    const summary = summarizeFootprint([entry('2024-03-12', 1), entry('2024-03-12', 2, 'transportation')], {
+      now: NOW,
+      timeZone: 'UTC',
+      seriesDays: 3,
+    });
+
+    expect(summary.series.map(day => day.date)).toEqual(['2024-03-11', '2024-03-12', '2024-03-13']);
+    expect(summary.series[1].total).toBe(3);
+    expect(summary.series[1].byCategory.transportation).toBe(2);
+  });
+
+  it('averages over tracked days and compares with the previous period', () => {
+    const summary = summarizeFootprint(
+      [
+        entry('2024-03-13', 4),
+        entry('2024-03-01', 2),
+        entry('2024-03-01', 2, 'housing'),
+        entry('2024-02-10', 10),
+        entry('2024-03-05', 6, 'housing'),
+      ],
+      { now: NOW, timeZone: 'UTC' }
+    );
+
+    expect(summary.daysTracked).toBe(3);
+    expect(summary.averagePerDay).toBeCloseTo(14 / 3);
+    expect(summary.trends.week.total).toEqual({ current: 4, previous: 10, change: -6, changePercent: -60 });
+    expect(summary.trends.week.byCategory.housing.current).toBe(0);
+    expect(summary.trends.month.total.previous).toBe(10);
+    expect(summary.totalSaved).toBe(0);
+    expect(summary.trends.month.byCategory.transportation.changePercent).toBeNull();
+  });
+
+  it('totals water over the same periods, skipping entries without it', () => {
+    const summary = summarizeFootprint(
+      [
+        { ...entry('2024-03-13', 4), waterUsage: 300 },
+        { ...entry('2024-03-12', 1, 'products'), waterUsage: 50 },
+        { ...entry('2024-02-20', 1), waterUsage: 200 },
+        entry('2024-03-13', 3, 'housing'),
+      ],
+      { now: NOW, timeZone: 'UTC' }
+    );
+
+    expect(summary.water.rolling.day.total).toBe(300);
+    expect(summary.water.rolling.week.byCategory).toMatchObject({ food: 300, products: 50, housing: 0 });
+    expect(summary.water.calendar.month.total).toBe(350);
+    expect(summary.water.total).toBe(550);
+    expect(summary.water.series[summary.water.series.length - 1].total).toBe(300);
+    expect(summary.rolling.day.total).toBe(7);
+  });
+});
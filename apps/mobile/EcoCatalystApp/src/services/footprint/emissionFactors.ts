@@ -0,0 +1,262 @@
+import { FootprintCategory } from '../../contexts/footprint/FootprintContext';
+import { MeasurementUnit } from '../../contexts/preferences/PreferencesContext';
+
+/**
+ * Version of the emission factor library. Bump whenever a factor value changes
+ * so entries can be traced back to the numbers they were calculated with.
+ */
+export const EMISSION_FACTORS_VERSION = 1;
+
+export type QuantityDimension = 'distance' | 'energy' | 'mass' | 'volume' | 'spend' | 'count';
+
+export type QuantityUnit = 'km' | 'mi' | 'kWh' | 'kg' | 'lb' | 'L' | 'gal' | 'USD' | 'item';
+
+interface UnitDefinition {
+  dimension: QuantityDimension;
+  toBase: number; // multiplier to the dimension's base unit
+}
+
+const UNITS: Record<QuantityUnit, UnitDefinition> = {
+  km: { dimension: 'distance', toBase: 1 },
+  mi: { dimension: 'distance', toBase: 1.609344 },
+  kWh: { dimension: 'energy', toBase: 1 },
+  kg: { dimension: 'mass', toBase: 1 },
+  lb: { dimension: 'mass', toBase: 0.45359237 },
+  L: { dimension: 'volume', toBase: 1 },
+  gal: { dimension: 'volume', toBase: 3.785411784 }, // US gallon
+  USD: { dimension: 'spend', toBase: 1 },
+  item: { dimension: 'count', toBase: 1 },
+};
+
+const BASE_UNITS: Record<QuantityDimension, QuantityUnit> = {
+  distance: 'km',
+  energy: 'kWh',
+  mass: 'kg',
+  volume: 'L',
+  spend: 'USD',
+  count: 'item',
+};
+
+const IMPERIAL_UNITS: Partial<Record<QuantityDimension, QuantityUnit>> = {
+  distance: 'mi',
+  mass: 'lb',
+  volume: 'gal',
+};
+
+export const isQuantityUnit = (value: string): value is QuantityUnit => {
+  return Object.prototype.hasOwnProperty.call(UNITS, value);
+};
+
+export interface EmissionFactor {
+  id: string;
+  category: FootprintCategory;
+  activityType: string;
+  label: string;
+  dimension: QuantityDimension;
+  kgCO2ePerUnit: number; // per base unit of the dimension
+  source: string;
+}
+
+/**
+ * The factor used for an entry, stored on it so totals can be audited and recalculated
+ */
+export interface EmissionFactorReference {
+  id: string;
+  kgCO2ePerUnit: number;
+  unit: QuantityUnit;
+  source: string;
+  version: number;
+  region?: string;
+}
+
+export interface ActivityInput {
+  category: FootprintCategory;
+  activityType: string;
+  quantity: number;
+  /**
+   * Defaults to the metric or imperial unit for the activity, depending on the preference
+   */
+  unit?: QuantityUnit;
+  /**
+   * Grid region for electricity, e.g. 'us' or 'uk'
+   */
+  region?: string;
+}
+
+export interface EmissionCalculation {
+  carbonAmount: number; // in kg CO2e
+  quantity: number;
+  unit: QuantityUnit;
+  factor: EmissionFactorReference;
+}
+
+const DEFRA = 'UK DEFRA GHG conversion factors 2023';
+const IEA = 'IEA emission factors 2023';
+const POORE_NEMECEK = 'Poore & Nemecek (2018), Science 360:987';
+const EPA_EEIO = 'US EPA supply chain emission factors v1.2';
+
+const factor = (
+  category: FootprintCategory,
+  activityType: string,
+  label: string,
+  dimension: QuantityDimension,
+  kgCO2ePerUnit: number,
+  source: string
+): EmissionFactor => ({
+  id: `${category}.${activityType}`,
+  category,
+  activityType,
+  label,
+  dimension,
+  kgCO2ePerUnit,
+  source,
+});
+
+const FACTORS: EmissionFactor[] = [
+  factor('transportation', 'car_petrol', 'Car (petrol)', 'distance', 0.164, DEFRA),
+  factor('transportation', 'car_diesel', 'Car (diesel)', 'distance', 0.168, DEFRA),
+  factor('transportation', 'car_hybrid', 'Car (hybrid)', 'distance', 0.116, DEFRA),
+  factor('transportation', 'car_plugin_hybrid', 'Car (plug-in hybrid)', 'distance', 0.07, DEFRA),
+  factor('transportation', 'car_electric', 'Car (electric)', 'distance', 0.048, DEFRA),
+  factor('transportation', 'motorcycle', 'Motorcycle', 'distance', 0.113, DEFRA),
+  factor('transportation', 'bus', 'Bus', 'distance', 0.102, DEFRA),
+  factor('transportation', 'train', 'Train', 'distance', 0.035, DEFRA),
+  factor('transportation', 'bicycle', 'Bicycle', 'distance', 0, DEFRA),
+  factor('transportation', 'walking', 'Walking', 'distance', 0, DEFRA),
+  factor('transportation', 'flight_domestic', 'Flight (under 500 km)', 'distance', 0.246, DEFRA),
+  factor('transportation', 'flight_short_haul', 'Flight (500-3,700 km)', 'distance', 0.151, DEFRA),
+  factor('transportation', 'flight_long_haul', 'Flight (over 3,700 km)', 'distance', 0.148, DEFRA),
+
+  factor('housing', 'electricity', 'Electricity', 'energy', 0.475, IEA),
+  factor('housing', 'natural_gas', 'Natural gas', 'energy', 0.183, DEFRA),
+  factor('housing', 'heating_oil', 'Heating oil', 'volume', 2.54, DEFRA),
+  factor('housing', 'lpg', 'LPG', 'volume', 1.56, DEFRA),
+
+  factor('food', 'beef', 'Beef', 'mass', 60, POORE_NEMECEK),
+  factor('food', 'lamb', 'Lamb', 'mass', 24, POORE_NEMECEK),
+  factor('food', 'cheese', 'Cheese', 'mass', 21, POORE_NEMECEK),
+  factor('food', 'pork', 'Pork', 'mass', 7, POORE_NEMECEK),
+  factor('food', 'poultry', 'Poultry', 'mass', 6, POORE_NEMECEK),
+  factor('food', 'fish', 'Fish (farmed)', 'mass', 5, POORE_NEMECEK),
+  factor('food', 'eggs', 'Eggs', 'mass', 4.5, POORE_NEMECEK),
+  factor('food', 'rice', 'Rice', 'mass', 4, POORE_NEMECEK),
+  factor('food', 'milk', 'Milk', 'mass', 3.2, POORE_NEMECEK),
+  factor('food', 'tofu', 'Tofu', 'mass', 3, POORE_NEMECEK),
+  factor('food', 'grains', 'Grains and bread', 'mass', 1.4, POORE_NEMECEK),
+  factor('food', 'fruit', 'Fruit', 'mass', 0.9, POORE_NEMECEK),
+  factor('food', 'legumes', 'Beans and legumes', 'mass', 0.9, POORE_NEMECEK),
+  factor('food', 'vegetables', 'Vegetables', 'mass', 0.5, POORE_NEMECEK),
+  factor('food', 'nuts', 'Nuts', 'mass', 0.3, POORE_NEMECEK),
+
+  factor('products', 'clothing', 'Clothing', 'spend', 0.5, EPA_EEIO),
+  factor('products', 'electronics', 'Electronics', 'spend', 0.4, EPA_EEIO),
+  factor('products', 'furniture', 'Furniture', 'spend', 0.35, EPA_EEIO),
+  factor('products', 'general_goods', 'General goods', 'spend', 0.3, EPA_EEIO),
+
+  factor('services', 'healthcare', 'Healthcare', 'spend', 0.2, EPA_EEIO),
+  factor('services', 'hospitality', 'Restaurants and hotels', 'spend', 0.25, EPA_EEIO),
+  factor('services', 'general_services', 'General services', 'spend', 0.15, EPA_EEIO),
+
+  factor('other', 'landfill_waste', 'Landfill waste', 'mass', 0.467, DEFRA),
+];
+
+/**
+ * Electricity grid intensity in kg CO2e per kWh, by region.
+ * 'world' is used when the region is unknown.
+ */
+export const GRID_INTENSITY: Record<string, number> = {
+  world: 0.475,
+  us: 0.367,
+  ca: 0.12,
+  uk: 0.207,
+  eu: 0.251,
+  fr: 0.056,
+  de: 0.38,
+  au: 0.68,
+  in: 0.71,
+  cn: 0.58,
+};
+
+const FLIGHT_BANDS: Array<{ maxKm: number; activityType: string }> = [
+  { maxKm: 500, activityType: 'flight_domestic' },
+  { maxKm: 3700, activityType: 'flight_short_haul' },
+  { maxKm: Infinity, activityType: 'flight_long_haul' },
+];
+
+/**
+ * Pick the flight activity type whose distance band contains the trip
+ */
+export const flightActivityForDistance = (distanceKm: number): string => {
+  return FLIGHT_BANDS.find(band => distanceKm < band.maxKm)!.activityType;
+};
+
+export const getEmissionFactor = (category: FootprintCategory, activityType: string): EmissionFactor | null => {
+  return FACTORS.find(item => item.category === category && item.activityType === activityType) || null;
+};
+
+export const listEmissionFactors = (category?: FootprintCategory): EmissionFactor[] => {
+  return category ? FACTORS.filter(item => item.category === category) : [...FACTORS];
+};
+
+/**
+ * The unit a quantity is entered in by default for the user's measurement preference
+ */
+export const defaultUnitFor = (dimension: QuantityDimension, measurementUnit: MeasurementUnit): QuantityUnit => {
+  return (measurementUnit === 'imperial' && IMPERIAL_UNITS[dimension]) || BASE_UNITS[dimension];
+};
+
+export const convertToBaseUnit = (quantity: number, unit: QuantityUnit): number => {
+  return quantity * UNITS[unit].toBase;
+};
+
+/**
+ * Convert an activity quantity into kg CO2e and the factor reference to store with it.
+ * Flights are resolved into their distance band; electricity uses the grid region.
+ */
+export const calculateEmissions = (
+  input: ActivityInput,
+  measurementUnit: MeasurementUnit = 'metric'
+): EmissionCalculation => {
+  if (!Number.isFinite(input.quantity) || input.quantity < 0) {
+    throw new Error(`Invalid quantity: ${input.quantity}`);
+  }
+
+  let activityType = input.activityType;
+  if (input.category === 'transportation' && activityType === 'flight') {
+    const unit = input.unit || defaultUnitFor('distance', measurementUnit);
+    activityType = flightActivityForDistance(convertToBaseUnit(input.quantity, unit));
+  }
+
+  const emissionFactor = getEmissionFactor(input.category, activityType);
+  if (!emissionFactor) {
+    throw new Error(`No emission factor for ${input.category} activity "${input.activityType}"`);
+  }
+
+  const unit = input.unit || defaultUnitFor(emissionFactor.dimension, measurementUnit);
+  if (!UNITS[unit] || UNITS[unit].dimension !== emissionFactor.dimension) {
+    throw new Error(`Unit ${unit} cannot be used for ${emissionFactor.label.toLowerCase()}`);
+  }
+
+  let kgCO2ePerUnit = emissionFactor.kgCO2ePerUnit;
+  let region: string | undefined;
+  if (emissionFactor.id === 'housing.electricity') {
+    region = input.region && GRID_INTENSITY[input.region] !== undefined ? input.region : 'world';
+    kgCO2ePerUnit = GRID_INTENSITY[region];
+  }
+
+  const carbonAmount = convertToBaseUnit(input.quantity, unit) * kgCO2ePerUnit;
+
+  return {
+    carbonAmount: Math.round(carbonAmount * 1000) / 1000,
+    quantity: input.quantity,
+    unit,
+    factor: {
+      id: emissionFactor.id,
+      kgCO2ePerUnit,
+      unit: BASE_UNITS[emissionFactor.dimension],
+      source: emissionFactor.source,
+      version: EMISSION_FACTORS_VERSION,
+      ...(region ? { region } : {}),
+    },
+  };
+};
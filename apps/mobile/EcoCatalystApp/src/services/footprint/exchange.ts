@@ -0,0 +1,466 @@
+import { CarbonFootprintEntry, FootprintCategory } from '../../contexts/footprint/FootprintContext';
+import { EmissionFactorReference, isQuantityUnit } from './emissionFactors';
+import { FOOTPRINT_CATEGORIES, emptyCategoryTotals } from './summary';
+
+/**
+ * Version of the export layout. Bump when columns or fields change meaning;
+ * the importer accepts files up to this version.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'csv' | 'json' | 'report';
+
+export interface ExportRange {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Entries as exported: the account they belong to is left out so files can move between accounts
+ */
+export type ExportedEntry = Omit<CarbonFootprintEntry, 'userId'>;
+
+export interface FootprintExport {
+  schemaVersion: number;
+  exportedAt: string;
+  range: ExportRange;
+  entries: ExportedEntry[];
+}
+
+/**
+ * GHG Protocol scopes, applied to a household: direct fuel use, purchased
+ * energy, and everything else in the value chain
+ */
+export type EmissionScope = 'scope1' | 'scope2' | 'scope3';
+
+export interface ReportLine {
+  scope: EmissionScope;
+  category: FootprintCategory;
+  activityType: string;
+  entryCount: number;
+  carbonAmount: number; // kg CO2e
+}
+
+export interface GhgReport {
+  schemaVersion: number;
+  generatedAt: string;
+  range: ExportRange;
+  total: number; // kg CO2e
+  entryCount: number;
+  byScope: Record<EmissionScope, number>;
+  byCategory: Record<FootprintCategory, number>;
+  lines: ReportLine[];
+  sources: string[]; // emission factor sources behind the calculated entries
+}
+
+export interface ImportIssue {
+  row: number; // 1-based data row, or 0 for problems with the file itself
+  message: string;
+}
+
+export interface ImportPreview {
+  entries: ExportedEntry[]; // valid and new
+  duplicates: ExportedEntry[];
+  issues: ImportIssue[];
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+  issues: ImportIssue[];
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'date',
+  'timestamp',
+  'category',
+  'activityType',
+  'carbonAmount',
+  'waterUsage',
+  'quantity',
+  'unit',
+  'description',
+  'factorId',
+  'factorKgCO2ePerUnit',
+  'factorUnit',
+  'factorSource',
+  'factorVersion',
+  'factorRegion',
+  'seriesId',
+  'occurrenceDate',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const SCOPE_LABELS: Record<EmissionScope, string> = {
+  scope1: 'Scope 1 (direct)',
+  scope2: 'Scope 2 (purchased energy)',
+  scope3: 'Scope 3 (value chain)',
+};
+
+const DIRECT_FUEL_ACTIVITIES = new Set([
+  'transportation.car_petrol',
+  'transportation.car_diesel',
+  'transportation.car_hybrid',
+  'transportation.car_plugin_hybrid',
+  'transportation.motorcycle',
+  'housing.natural_gas',
+  'housing.heating_oil',
+  'housing.lpg',
+]);
+
+const PURCHASED_ENERGY_ACTIVITIES = new Set([
+  'housing.electricity',
+  'transportation.car_electric',
+]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const scopeFor = (category: FootprintCategory, activityType: string): EmissionScope => {
+  const key = `${category}.${activityType}`;
+  if (DIRECT_FUEL_ACTIVITIES.has(key)) return 'scope1';
+  if (PURCHASED_ENERGY_ACTIVITIES.has(key)) return 'scope2';
+  return 'scope3';
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const toExported = ({ userId, ...entry }: CarbonFootprintEntry): ExportedEntry => entry;
+
+const byDate = (a: ExportedEntry, b: ExportedEntry) => a.date.localeCompare(b.date) || a.timestamp - b.timestamp;
+
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Split CSV text into rows of fields, following RFC 4180 quoting. Tab-separated text is
+ * read the same way with a tab delimiter.
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+export const entriesToCsv = (entries: CarbonFootprintEntry[]): string => {
+  const rows = entries.map(toExported).sort(byDate).map(entry => {
+    const values: Record<CsvColumn, string | number | undefined> = {
+      id: entry.id,
+      date: entry.date,
+      timestamp: entry.timestamp,
+      category: entry.category,
+      activityType: entry.activityType,
+      carbonAmount: entry.carbonAmount,
+      waterUsage: entry.waterUsage,
+      quantity: entry.quantity,
+      unit: entry.unit,
+      description: entry.description,
+      factorId: entry.emissionFactor?.id,
+      factorKgCO2ePerUnit: entry.emissionFactor?.kgCO2ePerUnit,
+      factorUnit: entry.emissionFactor?.unit,
+      factorSource: entry.emissionFactor?.source,
+      factorVersion: entry.emissionFactor?.version,
+      factorRegion: entry.emissionFactor?.region,
+      seriesId: entry.seriesId,
+      occurrenceDate: entry.occurrenceDate,
+    };
+    return CSV_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const entriesToJson = (entries: CarbonFootprintEntry[], range: ExportRange, now: number = Date.now()): string => {
+  const data: FootprintExport = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    range,
+    entries: entries.map(toExported).sort(byDate),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const buildGhgReport = (entries: CarbonFootprintEntry[], range: ExportRange, now: number = Date.now()): GhgReport => {
+  const byScope: Record<EmissionScope, number> = { scope1: 0, scope2: 0, scope3: 0 };
+  const byCategory = emptyCategoryTotals();
+  const lines = new Map<string, ReportLine>();
+  const sources = new Set<string>();
+  let total = 0;
+
+  entries.forEach(entry => {
+    const scope = scopeFor(entry.category, entry.activityType);
+    const key = `${scope}|${entry.category}|${entry.activityType}`;
+    const line = lines.get(key) || { scope, category: entry.category, activityType: entry.activityType, entryCount: 0, carbonAmount: 0 };
+    line.entryCount += 1;
+    line.carbonAmount += entry.carbonAmount;
+    lines.set(key, line);
+
+    byScope[scope] += entry.carbonAmount;
+    byCategory[entry.category] += entry.carbonAmount;
+    total += entry.carbonAmount;
+    if (entry.emissionFactor) {
+      sources.add(entry.emissionFactor.source);
+    }
+  });
+
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: new Date(now).toISOString(),
+    range,
+    total: round(total),
+    entryCount: entries.length,
+    byScope: {
+      scope1: round(byScope.scope1),
+      scope2: round(byScope.scope2),
+      scope3: round(byScope.scope3),
+    },
+    byCategory: Object.fromEntries(
+      Object.entries(byCategory).map(([category, amount]) => [category, round(amount)])
+    ) as Record<FootprintCategory, number>,
+    lines: Array.from(lines.values())
+      .map(line => ({ ...line, carbonAmount: round(line.carbonAmount) }))
+      .sort((a, b) => a.scope.localeCompare(b.scope) || b.carbonAmount - a.carbonAmount),
+    sources: Array.from(sources).sort(),
+  };
+};
+
+/**
+ * The report as a CSV table of scope lines with subtotals, for spreadsheets and employer programs
+ */
+export const reportToCsv = (report: GhgReport): string => {
+  const rows: Array<Array<string | number>> = [
+    ['Carbon footprint report', `${report.range.startDate} to ${report.range.endDate}`],
+    ['Generated', report.generatedAt],
+    ['Unit', 'kg CO2e'],
+    [],
+    ['Scope', 'Category', 'Activity', 'Entries', 'kg CO2e'],
+  ];
+
+  (Object.keys(SCOPE_LABELS) as EmissionScope[]).forEach(scope => {
+    report.lines
+      .filter(line => line.scope === scope)
+      .forEach(line => rows.push([SCOPE_LABELS[scope], line.category, line.activityType, line.entryCount, line.carbonAmount]));
+    rows.push([`${SCOPE_LABELS[scope]} total`, '', '', '', report.byScope[scope]]);
+  });
+
+  rows.push(['Total', '', '', report.entryCount, report.total]);
+  if (report.sources.length > 0) {
+    rows.push([], ['Emission factor sources'], ...report.sources.map(source => [source]));
+  }
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
+
+/**
+ * Entries that describe the same activity, used to catch rows without an id that were imported before
+ */
+const fingerprint = (entry: Pick<CarbonFootprintEntry, 'date' | 'category' | 'activityType' | 'carbonAmount' | 'description'>) => {
+  return [entry.date, entry.category, entry.activityType, round(entry.carbonAmount), entry.description || ''].join('|');
+};
+
+const parseNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const isValidDate = (value: string): boolean => {
+  return DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+};
+
+const text = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed || undefined;
+};
+
+/**
+ * Check one record from a file and turn it into an entry, or return what is wrong with it
+ */
+const validateRecord = (record: Record<string, unknown>): ExportedEntry | string => {
+  const date = text(record.date);
+  if (!date || !isValidDate(date)) return 'date must be a valid YYYY-MM-DD date';
+
+  const category = text(record.category) as FootprintCategory | undefined;
+  if (!category || !FOOTPRINT_CATEGORIES.includes(category)) {
+    return `category must be one of ${FOOTPRINT_CATEGORIES.join(', ')}`;
+  }
+
+  const activityType = text(record.activityType);
+  if (!activityType) return 'activityType is required';
+
+  const carbonAmount = parseNumber(record.carbonAmount);
+  if (carbonAmount === undefined || Number.isNaN(carbonAmount) || carbonAmount < 0) {
+    return 'carbonAmount must be a number of kg CO2e, zero or more';
+  }
+
+  const waterUsage = parseNumber(record.waterUsage);
+  if (waterUsage !== undefined && (Number.isNaN(waterUsage) || waterUsage < 0)) {
+    return 'waterUsage must be a number of liters, zero or more';
+  }
+
+  const quantity = parseNumber(record.quantity);
+  if (quantity !== undefined && (Number.isNaN(quantity) || quantity < 0)) {
+    return 'quantity must be a number, zero or more';
+  }
+
+  const unit = text(record.unit);
+  if (unit && !isQuantityUnit(unit)) return `unknown unit "${unit}"`;
+
+  const timestamp = parseNumber(record.timestamp);
+  const description = text(record.description);
+  const seriesId = text(record.seriesId);
+  const occurrenceDate = text(record.occurrenceDate);
+  const emissionFactor = parseFactor(record);
+
+  return {
+    id: text(record.id) || '',
+    date,
+    timestamp: timestamp !== undefined && !Number.isNaN(timestamp) ? timestamp : new Date(`${date}T12:00:00`).getTime(),
+    category,
+    activityType,
+    carbonAmount,
+    ...(waterUsage !== undefined ? { waterUsage } : {}),
+    ...(quantity !== undefined ? { quantity } : {}),
+    ...(unit && isQuantityUnit(unit) ? { unit } : {}),
+    ...(description ? { description } : {}),
+    ...(emissionFactor ? { emissionFactor } : {}),
+    ...(seriesId && occurrenceDate ? { seriesId, occurrenceDate } : {}),
+  };
+};
+
+/**
+ * The emission factor of a record, from JSON's nested object or the flattened CSV columns.
+ * Incomplete factors are dropped rather than failing the row.
+ */
+const parseFactor = (record: Record<string, unknown>): EmissionFactorReference | undefined => {
+  const nested = typeof record.emissionFactor === 'object' && record.emissionFactor !== null
+    ? record.emissionFactor as Record<string, unknown>
+    : undefined;
+  const id = text(nested ? nested.id : record.factorId);
+  const kgCO2ePerUnit = parseNumber(nested ? nested.kgCO2ePerUnit : record.factorKgCO2ePerUnit);
+  const unit = text(nested ? nested.unit : record.factorUnit);
+  const source = text(nested ? nested.source : record.factorSource);
+  const version = parseNumber(nested ? nested.version : record.factorVersion);
+  const region = text(nested ? nested.region : record.factorRegion);
+
+  if (!id || kgCO2ePerUnit === undefined || Number.isNaN(kgCO2ePerUnit) || !unit || !isQuantityUnit(unit) || !source) {
+    return undefined;
+  }
+  return {
+    id,
+    kgCO2ePerUnit,
+    unit,
+    source,
+    version: version !== undefined && !Number.isNaN(version) ? version : 0,
+    ...(region ? { region } : {}),
+  };
+};
+
+const readJsonRecords = (content: string): { records: Record<string, unknown>[]; issue?: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { records: [], issue: 'The file is not valid JSON' };
+  }
+
+  const exported: Partial<FootprintExport> = Array.isArray(data) ? { entries: data } : (data as Partial<FootprintExport>) || {};
+  if (typeof exported.schemaVersion === 'number' && exported.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    return { records: [], issue: 'The file was exported by a newer version of the app' };
+  }
+  if (!Array.isArray(exported.entries)) {
+    return { records: [], issue: 'The file has no entries list' };
+  }
+  return { records: exported.entries as unknown as Record<string, unknown>[] };
+};
+
+const readCsvRecords = (content: string): { records: Record<string, unknown>[]; issue?: string } => {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) return { records: [], issue: 'The file is empty' };
+
+  const columns = header.map(column => column.trim());
+  const missing = ['date', 'category', 'activityType', 'carbonAmount'].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return { records: [], issue: `Missing columns: ${missing.join(', ')}` };
+  }
+  return {
+    records: rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index]]))),
+  };
+};
+
+/**
+ * Validate a CSV or JSON export and split it into new entries, duplicates and rows that cannot be
+ * imported. Rows with an id are duplicates when that id is already logged or earlier in the file.
+ * Rows without one are compared with the logged entries only, so two identical trips on a day in
+ * the same file are both kept.
+ */
+export const parseFootprintImport = (content: string, existing: CarbonFootprintEntry[]): ImportPreview => {
+  const isJson = /^\s*[[{]/.test(content);
+  const { records, issue } = isJson ? readJsonRecords(content) : readCsvRecords(content);
+  const preview: ImportPreview = { entries: [], duplicates: [], issues: [] };
+  if (issue) {
+    preview.issues.push({ row: 0, message: issue });
+    return preview;
+  }
+
+  const knownIds = new Set(existing.map(entry => entry.id));
+  const knownFingerprints = new Set(existing.map(fingerprint));
+
+  records.forEach((record, index) => {
+    const result = typeof record === 'object' && record !== null ? validateRecord(record) : 'not an entry';
+    if (typeof result === 'string') {
+      preview.issues.push({ row: index + 1, message: result });
+      return;
+    }
+
+    const isDuplicate = result.id ? knownIds.has(result.id) : knownFingerprints.has(fingerprint(result));
+    if (isDuplicate) {
+      preview.duplicates.push(result);
+      return;
+    }
+
+    if (result.id) knownIds.add(result.id);
+    preview.entries.push(result);
+  });
+
+  return preview;
+};
@@ -0,0 +1,141 @@
+import { FoodItem } from '../../contexts/diet/DietContext';
+import { getEmissionFactor } from './emissionFactors';
+import { parseServing } from '../diet/servingUnits';
+
+/**
+ * Food activity types from the emission factor library, with the words that identify them in
+ * a food name. Ordered from the most carbon-intensive so mixed dishes ("beef and rice") are
+ * counted by their main impact.
+ */
+const FOOD_KEYWORDS: Array<{ activityType: string; keywords: string[] }> = [
+  { activityType: 'beef', keywords: ['beef', 'steak', 'burger', 'hamburger', 'cheeseburger', 'mince', 'veal', 'brisket'] },
+  { activityType: 'lamb', keywords: ['lamb', 'mutton'] },
+  { activityType: 'cheese', keywords: ['cheese', 'cheddar', 'mozzarella', 'parmesan', 'feta', 'pizza'] },
+  { activityType: 'pork', keywords: ['pork', 'bacon', 'ham', 'sausage', 'salami', 'chorizo'] },
+  { activityType: 'poultry', keywords: ['chicken', 'turkey', 'duck'] },
+  { activityType: 'fish', keywords: ['fish', 'salmon', 'tuna', 'cod', 'shrimp', 'prawn', 'sardine', 'trout'] },
+  { activityType: 'eggs', keywords: ['egg', 'omelette', 'omelet', 'frittata'] },
+  { activityType: 'rice', keywords: ['rice', 'risotto', 'sushi'] },
+  { activityType: 'milk', keywords: ['milk', 'yogurt', 'yoghurt', 'latte', 'cream'] },
+  { activityType: 'tofu', keywords: ['tofu', 'tempeh', 'seitan'] },
+  { activityType: 'legumes', keywords: ['bean', 'lentil', 'chickpea', 'pea', 'hummus', 'falafel', 'dal'] },
+  { activityType: 'nuts', keywords: ['nut', 'almond', 'peanut', 'walnut', 'cashew', 'pistachio'] },
+  { activityType: 'grains', keywords: ['bread', 'toast', 'pasta', 'spaghetti', 'noodle', 'oat', 'porridge', 'cereal', 'wheat', 'quinoa', 'bagel', 'wrap'] },
+  { activityType: 'fruit', keywords: ['fruit', 'apple', 'banana', 'berry', 'berries', 'orange', 'grape', 'mango', 'pear', 'melon', 'avocado'] },
+  { activityType: 'vegetables', keywords: ['vegetable', 'veggie', 'salad', 'broccoli', 'spinach', 'carrot', 'potato', 'tomato', 'pepper', 'onion', 'mushroom', 'soup'] },
+];
+
+/**
+ * kg CO2e per kg for foods that match nothing above, roughly the average of a mixed diet
+ */
+const DEFAULT_FOOD_KG_CO2E_PER_KG = 2.5;
+
+/**
+ * Water footprint in liters per kg by food type (Mekonnen & Hoekstra)
+ */
+const FOOD_WATER_PER_KG: Record<string, number> = {
+  beef: 15400,
+  lamb: 10400,
+  cheese: 5000,
+  pork: 6000,
+  poultry: 4300,
+  eggs: 3300,
+  rice: 2500,
+  milk: 1000,
+  tofu: 2100,
+  legumes: 4000,
+  nuts: 9000,
+  grains: 1600,
+  fruit: 900,
+  vegetables: 300,
+};
+const DEFAULT_FOOD_WATER_PER_KG = 1000;
+
+/**
+ * Assumed weight of a serving when the serving size has no usable amount
+ */
+export const DEFAULT_SERVING_KG = 0.15;
+
+export interface FoodCarbonEstimate {
+  carbonAmount: number; // kg CO2e
+  activityType: string | null; // matched food type, or null when the item carried its own value or matched nothing
+  estimated: boolean;
+}
+
+export interface MealCarbonEstimate {
+  carbonAmount: number; // kg CO2e
+  estimatedFoods: number; // foods without their own carbonFootprint
+  unmatchedFoods: string[]; // estimated with the default intensity
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Weight of a serving in kg, e.g. "150 g", "1 cup" or "4oz". Volumes are converted as if the
+ * food were as dense as water.
+ */
+export const parseServingKg = (servingSize: string): number => {
+  const serving = parseServing(servingSize);
+  if (serving?.kind === 'mass') return serving.grams / 1000;
+  if (serving?.kind === 'volume') return serving.milliliters / 1000;
+  return DEFAULT_SERVING_KG;
+};
+
+export const matchFoodActivity = (name: string): string | null => {
+  const words = (name || '').toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const match = FOOD_KEYWORDS.find(({ keywords }) =>
+    words.some(word => keywords.some(keyword => word === keyword || word === `${keyword}s` || word === `${keyword}es`))
+  );
+  return match ? match.activityType : null;
+};
+
+const servingsOf = (food: Pick<FoodItem, 'servings'>): number => {
+  return food.servings && food.servings > 0 ? food.servings : 1;
+};
+
+export const estimateFoodCarbon = (food: Pick<FoodItem, 'name' | 'servingSize' | 'servings' | 'carbonFootprint'>): FoodCarbonEstimate => {
+  if (typeof food.carbonFootprint === 'number' && Number.isFinite(food.carbonFootprint)) {
+    return { carbonAmount: food.carbonFootprint, activityType: null, estimated: false };
+  }
+
+  const activityType = matchFoodActivity(food.name);
+  const factor = activityType ? getEmissionFactor('food', activityType) : null;
+  const intensity = factor ? factor.kgCO2ePerUnit : DEFAULT_FOOD_KG_CO2E_PER_KG;
+  return {
+    carbonAmount: round(intensity * parseServingKg(food.servingSize) * servingsOf(food)),
+    activityType: factor ? activityType : null,
+    estimated: true,
+  };
+};
+
+/**
+ * Water used to produce a food in liters, using the item's own value when it has one
+ */
+export const estimateFoodWater = (food: Pick<FoodItem, 'name' | 'servingSize' | 'servings' | 'waterUsage'>): number => {
+  if (typeof food.waterUsage === 'number' && Number.isFinite(food.waterUsage)) {
+    return food.waterUsage;
+  }
+
+  const activityType = matchFoodActivity(food.name);
+  const litersPerKg = activityType && FOOD_WATER_PER_KG[activityType] !== undefined
+    ? FOOD_WATER_PER_KG[activityType]
+    : DEFAULT_FOOD_WATER_PER_KG;
+  return Math.round(litersPerKg * parseServingKg(food.servingSize) * servingsOf(food) * 10) / 10;
+};
+
+export const estimateMealWater = (foods: Array<Pick<FoodItem, 'name' | 'servingSize' | 'servings' | 'waterUsage'>>): number => {
+  return Math.round(foods.reduce((total, food) => total + estimateFoodWater(food), 0) * 10) / 10;
+};
+
+export const estimateMealCarbon = (foods: Array<Pick<FoodItem, 'name' | 'servingSize' | 'servings' | 'carbonFootprint'>>): MealCarbonEstimate => {
+  return foods.reduce<MealCarbonEstimate>((estimate, food) => {
+    const result = estimateFoodCarbon(food);
+    return {
+      carbonAmount: round(estimate.carbonAmount + result.carbonAmount),
+      estimatedFoods: estimate.estimatedFoods + (result.estimated ? 1 : 0),
+      unmatchedFoods: result.estimated && !result.activityType
+        ? [...estimate.unmatchedFoods, food.name]
+        : estimate.unmatchedFoods,
+    };
+  }, { carbonAmount: 0, estimatedFoods: 0, unmatchedFoods: [] });
+};
@@ -0,0 +1,175 @@
+import { CarbonFootprintEntry, FootprintCategory } from '../../contexts/footprint/FootprintContext';
+import { addDays, addMonths, entryLocalDate, getDeviceTimeZone, toLocalDate } from './summary';
+
+export type GoalPeriod = 'month' | 'year';
+
+export interface CarbonGoal {
+  id: string;
+  userId: string;
+  period: GoalPeriod;
+  category?: FootprintCategory; // overall budget when missing
+  budget: number; // in kg CO2e per period
+  createdAt: number;
+  updatedAt?: number;
+  lastSettledPeriod?: string; // start date of the last period a met/missed event was raised for
+}
+
+export type GoalStatus = 'on_track' | 'at_risk' | 'exceeded';
+
+export interface GoalProgress {
+  goalId: string;
+  period: GoalPeriod;
+  category?: FootprintCategory;
+  budget: number;
+  periodStart: string; // local date, YYYY-MM-DD
+  periodEnd: string; // local date, YYYY-MM-DD
+  daysElapsed: number;
+  daysInPeriod: number;
+  used: number;
+  remaining: number;
+  percentUsed: number;
+  projected: number; // end-of-period total at the current pace
+  status: GoalStatus;
+}
+
+export type GoalEvent =
+  | { type: 'goal_at_risk'; goalId: string; progress: GoalProgress }
+  | { type: 'goal_exceeded'; goalId: string; progress: GoalProgress }
+  // saved is measured against the period before, capped at the budget, so a generous budget earns nothing extra
+  | { type: 'goal_met'; goalId: string; periodStart: string; periodEnd: string; budget: number; used: number; saved: number }
+  | { type: 'goal_missed'; goalId: string; periodStart: string; periodEnd: string; budget: number; used: number };
+
+export type GoalSettledEvent = Extract<GoalEvent, { type: 'goal_met' | 'goal_missed' }>;
+
+export interface GoalOptions {
+  now?: number;
+  timeZone?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (start: string, end: string): number => {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS) + 1;
+};
+
+/**
+ * The calendar month or year containing a local date
+ */
+export const periodBounds = (period: GoalPeriod, date: string): { start: string; end: string } => {
+  if (period === 'year') {
+    const year = date.slice(0, 4);
+    return { start: `${year}-01-01`, end: `${year}-12-31` };
+  }
+  const start = `${date.slice(0, 7)}-01`;
+  return { start, end: addDays(addMonths(start, 1), -1) };
+};
+
+const entriesBetween = (
+  goal: CarbonGoal,
+  entries: CarbonFootprintEntry[],
+  start: string,
+  end: string,
+  timeZone: string
+): CarbonFootprintEntry[] => {
+  return entries.filter(entry => {
+    if (goal.category && entry.category !== goal.category) return false;
+    if (!Number.isFinite(Number(entry.carbonAmount))) return false;
+    const date = entryLocalDate(entry, timeZone);
+    return date >= start && date <= end;
+  });
+};
+
+const sumCarbon = (entries: CarbonFootprintEntry[]): number => {
+  return entries.reduce((total, entry) => total + Number(entry.carbonAmount), 0);
+};
+
+/**
+ * Progress towards a goal in the current period, projecting the end-of-period
+ * total from the average per day so far
+ */
+export const evaluateGoal = (
+  goal: CarbonGoal,
+  entries: CarbonFootprintEntry[],
+  { now = Date.now(), timeZone = getDeviceTimeZone() }: GoalOptions = {}
+): GoalProgress => {
+  const today = toLocalDate(now, timeZone);
+  const { start, end } = periodBounds(goal.period, today);
+  const daysElapsed = daysBetween(start, today);
+  const daysInPeriod = daysBetween(start, end);
+
+  const used = sumCarbon(entriesBetween(goal, entries, start, today, timeZone));
+  const projected = (used / daysElapsed) * daysInPeriod;
+
+  let status: GoalStatus = 'on_track';
+  if (used > goal.budget) {
+    status = 'exceeded';
+  } else if (projected > goal.budget) {
+    status = 'at_risk';
+  }
+
+  return {
+    goalId: goal.id,
+    period: goal.period,
+    category: goal.category,
+    budget: goal.budget,
+    periodStart: start,
+    periodEnd: end,
+    daysElapsed,
+    daysInPeriod,
+    used,
+    remaining: Math.max(0, goal.budget - used),
+    percentUsed: goal.budget > 0 ? (used / goal.budget) * 100 : 100,
+    projected,
+    status,
+  };
+};
+
+/**
+ * Events for a goal whose status got worse within the same period.
+ * Nothing is raised the first time a goal is seen, so reloading the app does not repeat warnings.
+ */
+export const detectGoalCrossings = (previous: GoalProgress | undefined, next: GoalProgress): GoalEvent[] => {
+  if (!previous || previous.periodStart !== next.periodStart) {
+    return [];
+  }
+
+  const events: GoalEvent[] = [];
+  if (previous.status === 'on_track' && next.status === 'at_risk') {
+    events.push({ type: 'goal_at_risk', goalId: next.goalId, progress: next });
+  }
+  if (previous.status !== 'exceeded' && next.status === 'exceeded') {
+    events.push({ type: 'goal_exceeded', goalId: next.goalId, progress: next });
+  }
+  return events;
+};
+
+/**
+ * The met or missed event for the last completed period, if the goal covered all of it,
+ * something was logged in it and it has not been settled yet. Nothing counts as saved
+ * when nothing was logged in the period before it.
+ */
+export const settleGoal = (
+  goal: CarbonGoal,
+  entries: CarbonFootprintEntry[],
+  { now = Date.now(), timeZone = getDeviceTimeZone() }: GoalOptions = {}
+): GoalSettledEvent | null => {
+  const current = periodBounds(goal.period, toLocalDate(now, timeZone));
+  const { start, end } = periodBounds(goal.period, addDays(current.start, -1));
+
+  if (goal.lastSettledPeriod && goal.lastSettledPeriod >= start) return null;
+  if (toLocalDate(goal.createdAt, timeZone) > start) return null;
+
+  const periodEntries = entriesBetween(goal, entries, start, end, timeZone);
+  // A period with nothing logged says nothing about the footprint
+  if (periodEntries.length === 0) return null;
+
+  const used = sumCarbon(periodEntries);
+  if (used <= goal.budget) {
+    const previous = periodBounds(goal.period, addDays(start, -1));
+    const previousEntries = entriesBetween(goal, entries, previous.start, previous.end, timeZone);
+    const baseline = previousEntries.length > 0 ? Math.min(goal.budget, sumCarbon(previousEntries)) : used;
+    const saved = Math.max(0, baseline - used);
+    return { type: 'goal_met', goalId: goal.id, periodStart: start, periodEnd: end, budget: goal.budget, used, saved };
+  }
+  return { type: 'goal_missed', goalId: goal.id, periodStart: start, periodEnd: end, budget: goal.budget, used };
+};
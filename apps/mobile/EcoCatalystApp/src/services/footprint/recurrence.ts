@@ -0,0 +1,153 @@
+import { CarbonFootprintEntry } from '../../contexts/footprint/FootprintContext';
+import { addDays, addMonths } from './summary';
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string; // YYYY-MM-DD, also fixes the weekday or day of the month
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * The part of an entry that a template or series repeats
+ */
+export type EntryDetails = Pick<CarbonFootprintEntry, 'category' | 'activityType' | 'carbonAmount'> &
+  Partial<Pick<CarbonFootprintEntry, 'waterUsage' | 'quantity' | 'unit' | 'emissionFactor' | 'description'>>;
+
+export type ActivityTemplate = EntryDetails & {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: number;
+  updatedAt?: number;
+};
+
+export type FootprintSeries = EntryDetails & {
+  id: string;
+  userId: string;
+  rule: RecurrenceRule;
+  templateId?: string;
+  skippedDates?: string[]; // occurrences deleted on their own
+  materializedThrough?: string; // last date entries were created up to
+  createdAt: number;
+  updatedAt?: number;
+};
+
+const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const dayOfMonth = (date: string): number => Number(date.slice(8, 10));
+
+/**
+ * Whether a rule has an occurrence on a date. Monthly rules starting on the 29th-31st
+ * fall on the last day of shorter months.
+ */
+export const occursOn = (rule: RecurrenceRule, date: string): boolean => {
+  if (date < rule.startDate || (rule.endDate && date > rule.endDate)) {
+    return false;
+  }
+
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays': {
+      const weekday = weekdayOf(date);
+      return weekday >= 1 && weekday <= 5;
+    }
+    case 'weekly':
+      return weekdayOf(date) === weekdayOf(rule.startDate);
+    case 'monthly': {
+      const lastDay = dayOfMonth(addDays(addMonths(`${date.slice(0, 7)}-01`, 1), -1));
+      return dayOfMonth(date) === Math.min(dayOfMonth(rule.startDate), lastDay);
+    }
+  }
+};
+
+export const occurrencesBetween = (rule: RecurrenceRule, from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let date = from < rule.startDate ? rule.startDate : from; date <= to; date = addDays(date, 1)) {
+    if (rule.endDate && date > rule.endDate) break;
+    if (occursOn(rule, date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+};
+
+/**
+ * Occurrence ids are derived from the series and date, so materializing twice
+ * (or on two devices) writes the same record instead of a duplicate
+ */
+export const seriesEntryId = (seriesId: string, date: string): string => {
+  return `${seriesId}_${date.replace(/-/g, '')}`;
+};
+
+/**
+ * A copy of the rule without unset fields, which the database does not accept
+ */
+export const cleanRule = (rule: RecurrenceRule): RecurrenceRule => {
+  return rule.endDate
+    ? { frequency: rule.frequency, startDate: rule.startDate, endDate: rule.endDate }
+    : { frequency: rule.frequency, startDate: rule.startDate };
+};
+
+/**
+ * Just the repeated fields of a template, series or entry, leaving out unset ones
+ */
+export const entryFromDetails = (details: EntryDetails): EntryDetails => {
+  const { category, activityType, carbonAmount, waterUsage, quantity, unit, emissionFactor, description } = details;
+  return {
+    category,
+    activityType,
+    carbonAmount,
+    ...(waterUsage !== undefined ? { waterUsage } : {}),
+    ...(quantity !== undefined ? { quantity } : {}),
+    ...(unit ? { unit } : {}),
+    ...(emissionFactor ? { emissionFactor } : {}),
+    ...(description ? { description } : {}),
+  };
+};
+
+/**
+ * The repeated fields an update sets, leaving out the ones it doesn't
+ */
+export const detailChanges = (updates: Partial<EntryDetails>): Partial<EntryDetails> => {
+  const { category, activityType, carbonAmount, waterUsage, quantity, unit, emissionFactor, description } = updates;
+  return {
+    ...(category !== undefined ? { category } : {}),
+    ...(activityType !== undefined ? { activityType } : {}),
+    ...(carbonAmount !== undefined ? { carbonAmount } : {}),
+    ...(waterUsage !== undefined ? { waterUsage } : {}),
+    ...(quantity !== undefined ? { quantity } : {}),
+    ...(unit !== undefined ? { unit } : {}),
+    ...(emissionFactor !== undefined ? { emissionFactor } : {}),
+    ...(description !== undefined ? { description } : {}),
+  };
+};
+
+/**
+ * Entries for the occurrences of a series up to today that do not exist yet.
+ * `existing` holds seriesEntryId keys of the occurrences already logged.
+ */
+export const materializeSeries = (
+  series: FootprintSeries,
+  existing: Set<string>,
+  today: string,
+  now: number = Date.now()
+): CarbonFootprintEntry[] => {
+  const from = series.materializedThrough ? addDays(series.materializedThrough, 1) : series.rule.startDate;
+  const skipped = new Set(series.skippedDates || []);
+
+  return occurrencesBetween(series.rule, from, today)
+    .filter(date => !skipped.has(date) && !existing.has(seriesEntryId(series.id, date)))
+    .map(date => ({
+      id: seriesEntryId(series.id, date),
+      userId: series.userId,
+      date,
+      timestamp: new Date(`${date}T12:00:00`).getTime(),
+      updatedAt: now,
+      ...entryFromDetails(series),
+      seriesId: series.id,
+      occurrenceDate: date,
+    }));
+};
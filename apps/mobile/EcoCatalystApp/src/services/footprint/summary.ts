@@ -0,0 +1,310 @@
+import {
+  CarbonFootprintEntry,
+  FootprintCategory,
+  FootprintSummary,
+} from '../../contexts/footprint/FootprintContext';
+
+export const FOOTPRINT_CATEGORIES: FootprintCategory[] = [
+  'transportation',
+  'food',
+  'housing',
+  'products',
+  'services',
+  'other',
+];
+
+export type SummaryPeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface PeriodTotals {
+  start: string; // local date, YYYY-MM-DD, inclusive
+  end: string; // local date, YYYY-MM-DD, inclusive
+  total: number;
+  byCategory: Record<FootprintCategory, number>;
+}
+
+export interface DailyTotal {
+  date: string; // local date, YYYY-MM-DD
+  total: number;
+  byCategory: Record<FootprintCategory, number>;
+}
+
+export interface FootprintTrend {
+  current: number;
+  previous: number;
+  change: number; // current - previous, negative is an improvement
+  changePercent: number | null; // null when there is nothing to compare against
+}
+
+export interface PeriodTrends {
+  total: FootprintTrend;
+  byCategory: Record<FootprintCategory, FootprintTrend>;
+}
+
+/**
+ * Water use (litres) over the same periods as carbon
+ */
+export interface WaterSummary {
+  total: number; // all time
+  byCategory: Record<FootprintCategory, number>; // all time
+  rolling: Record<SummaryPeriod, PeriodTotals>;
+  calendar: Record<SummaryPeriod, PeriodTotals>;
+  series: DailyTotal[];
+  trends: Record<'week' | 'month', PeriodTrends>;
+}
+
+export interface SummaryOptions {
+  now?: number;
+  /**
+   * IANA time zone used to decide which day an entry falls on. Defaults to the device's.
+   */
+  timeZone?: string;
+  /**
+   * 0 for Sunday, 1 for Monday
+   */
+  weekStartsOn?: 0 | 1;
+  /**
+   * Number of days in the daily series, ending today
+   */
+  seriesDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getDeviceTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatters[timeZone]) {
+    try {
+      formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      });
+    } catch (error) {
+      console.warn(`Unknown time zone ${timeZone}, using the device time zone`);
+      formatters[timeZone] = formatterFor(getDeviceTimeZone());
+    }
+  }
+  return formatters[timeZone];
+};
+
+/**
+ * The calendar date a moment falls on in the given time zone, as YYYY-MM-DD
+ */
+export const toLocalDate = (timestamp: number, timeZone: string): string => {
+  const parts = formatterFor(timeZone).formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find(item => item.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+const toUTC = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const fromUTC = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number): string => {
+  return fromUTC(new Date(toUTC(date).getTime() + days * DAY_MS));
+};
+
+/**
+ * Move a date by whole months, clamping to the end of shorter months (Mar 31 - 1 month = Feb 28)
+ */
+export const addMonths = (date: string, months: number): string => {
+  const current = toUTC(date);
+  const target = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(current.getUTCDate(), lastDay));
+  return fromUTC(target);
+};
+
+export const startOfWeek = (date: string, weekStartsOn: 0 | 1 = 1): string => {
+  const weekday = toUTC(date).getUTCDay();
+  return addDays(date, -((weekday - weekStartsOn + 7) % 7));
+};
+
+/**
+ * The local date an entry counts towards. A plain YYYY-MM-DD date is taken as is;
+ * a full timestamp is converted into the time zone.
+ */
+export const entryLocalDate = (entry: CarbonFootprintEntry, timeZone: string): string => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+    return entry.date;
+  }
+  const parsed = Date.parse(entry.date);
+  return toLocalDate(Number.isNaN(parsed) ? entry.timestamp : parsed, timeZone);
+};
+
+/**
+ * Entries whose local date is between two dates, inclusive, so a range holds the entries the
+ * summary counts for it whenever they were added
+ */
+export const entriesBetween = (
+  entries: CarbonFootprintEntry[],
+  startDate: string,
+  endDate: string,
+  timeZone: string = getDeviceTimeZone()
+): CarbonFootprintEntry[] => {
+  return entries.filter(entry => {
+    const date = entryLocalDate(entry, timeZone);
+    return date >= startDate && date <= endDate;
+  });
+};
+
+export const emptyCategoryTotals = (): Record<FootprintCategory, number> => ({
+  transportation: 0,
+  food: 0,
+  housing: 0,
+  products: 0,
+  services: 0,
+  other: 0,
+});
+
+const totalsBetween = (days: Record<string, DailyTotal>, start: string, end: string): PeriodTotals => {
+  const period: PeriodTotals = { start, end, total: 0, byCategory: emptyCategoryTotals() };
+  Object.keys(days).forEach(date => {
+    if (date >= start && date <= end) {
+      period.total += days[date].total;
+      FOOTPRINT_CATEGORIES.forEach(category => {
+        period.byCategory[category] += days[date].byCategory[category];
+      });
+    }
+  });
+  return period;
+};
+
+const trend = (current: number, previous: number): FootprintTrend => ({
+  current,
+  previous,
+  change: current - previous,
+  changePercent: previous > 0 ? ((current - previous) / previous) * 100 : null,
+});
+
+const trendsBetween = (current: PeriodTotals, previous: PeriodTotals): PeriodTrends => {
+  const byCategory = {} as Record<FootprintCategory, FootprintTrend>;
+  FOOTPRINT_CATEGORIES.forEach(category => {
+    byCategory[category] = trend(current.byCategory[category], previous.byCategory[category]);
+  });
+  return { total: trend(current.total, previous.total), byCategory };
+};
+
+/**
+ * Daily totals of one metric, keyed by local date. Entries without a usable value are skipped.
+ */
+const dailyTotals = (
+  entries: CarbonFootprintEntry[],
+  valueOf: (entry: CarbonFootprintEntry) => unknown,
+  timeZone: string
+): Record<string, DailyTotal> => {
+  const days: Record<string, DailyTotal> = {};
+  entries.forEach(entry => {
+    const raw = valueOf(entry);
+    if (raw === undefined || raw === null) return;
+    const amount = Number(raw);
+    if (!Number.isFinite(amount)) return;
+
+    const date = entryLocalDate(entry, timeZone);
+    if (!days[date]) {
+      days[date] = { date, total: 0, byCategory: emptyCategoryTotals() };
+    }
+    days[date].total += amount;
+    if (entry.category in days[date].byCategory) {
+      days[date].byCategory[entry.category] += amount;
+    } else {
+      days[date].byCategory.other += amount;
+    }
+  });
+  return days;
+};
+
+/**
+ * Rolling and calendar periods, the previous week and month, and the daily series for one metric
+ */
+const periodsOf = (days: Record<string, DailyTotal>, today: string, weekStartsOn: 0 | 1, seriesDays: number) => {
+  const rolling: Record<SummaryPeriod, PeriodTotals> = {
+    day: totalsBetween(days, today, today),
+    week: totalsBetween(days, addDays(today, -6), today),
+    month: totalsBetween(days, addDays(addMonths(today, -1), 1), today),
+    year: totalsBetween(days, addDays(addMonths(today, -12), 1), today),
+  };
+
+  const calendar: Record<SummaryPeriod, PeriodTotals> = {
+    day: rolling.day,
+    week: totalsBetween(days, startOfWeek(today, weekStartsOn), today),
+    month: totalsBetween(days, `${today.slice(0, 7)}-01`, today),
+    year: totalsBetween(days, `${today.slice(0, 4)}-01-01`, today),
+  };
+
+  const previousWeek = totalsBetween(days, addDays(today, -13), addDays(today, -7));
+  const previousMonth = totalsBetween(days, addDays(addMonths(today, -2), 1), addMonths(today, -1));
+
+  const series: DailyTotal[] = [];
+  for (let offset = seriesDays - 1; offset >= 0; offset--) {
+    const date = addDays(today, -offset);
+    series.push(days[date] || { date, total: 0, byCategory: emptyCategoryTotals() });
+  }
+
+  return {
+    rolling,
+    calendar,
+    previousMonth,
+    series,
+    allTime: totalsBetween(days, '0000-01-01', '9999-12-31'),
+    trends: {
+      week: trendsBetween(rolling.week, previousWeek),
+      month: trendsBetween(rolling.month, previousMonth),
+    },
+  };
+};
+
+/**
+ * Summarize footprint entries by calendar and rolling periods in the user's time zone.
+ *
+ * Rolling periods end today: the last 7 days, and since the same date last month or last year.
+ * Trends compare each rolling week and month with the one before it.
+ * byCategory covers every entry. The average is per day with at least one entry in the
+ * rolling month, and totalSaved is how much lower the rolling month is than the one before it.
+ */
+export const summarizeFootprint = (entries: CarbonFootprintEntry[], options: SummaryOptions = {}): FootprintSummary => {
+  const {
+    now = Date.now(),
+    timeZone = getDeviceTimeZone(),
+    weekStartsOn = 1,
+    seriesDays = 30,
+  } = options;
+
+  const today = toLocalDate(now, timeZone);
+  const days = dailyTotals(entries, entry => entry.carbonAmount, timeZone);
+  const carbon = periodsOf(days, today, weekStartsOn, seriesDays);
+  const water = periodsOf(dailyTotals(entries, entry => entry.waterUsage, timeZone), today, weekStartsOn, seriesDays);
+  const { rolling } = carbon;
+
+  const daysTracked = Object.keys(days).filter(date => date >= rolling.month.start && date <= today).length;
+
+  return {
+    daily: rolling.day.total,
+    weekly: rolling.week.total,
+    monthly: rolling.month.total,
+    yearly: rolling.year.total,
+    byCategory: carbon.allTime.byCategory,
+    totalSaved: Math.max(0, carbon.previousMonth.total - rolling.month.total),
+    averagePerDay: daysTracked > 0 ? rolling.month.total / daysTracked : 0,
+    daysTracked,
+    timeZone,
+    rolling,
+    calendar: carbon.calendar,
+    series: carbon.series,
+    trends: carbon.trends,
+    water: {
+      total: water.allTime.total,
+      byCategory: water.allTime.byCategory,
+      rolling: water.rolling,
+      calendar: water.calendar,
+      series: water.series,
+      trends: water.trends,
+    },
+  };
+};
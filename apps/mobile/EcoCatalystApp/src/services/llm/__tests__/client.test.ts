@@ -0,0 +1,141 @@
+import { createLLMClient, createLLMProvider } from '../client';
+import { DEFAULT_LLM_CONFIG, LLMConfig } from '../config';
+import { createMockProvider } from '../mockProvider';
+import { LLMError, LLMProvider, LLMRequest } from '../types';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const config: LLMConfig = { ...DEFAULT_LLM_CONFIG, provider: 'mock', retryDelayMs: 100 };
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+/**
+ * Fails with the given errors in turn, then answers
+ */
+const flakyProvider = (errors: LLMError[]): LLMProvider & { attempts: number } => {
+  const provider = {
+    name: 'flaky',
+    attempts: 0,
+    complete: async (request: LLMRequest) => {
+      provider.attempts++;
+      const error = errors.shift();
+      if (error) throw error;
+      return { content: 'ok', model: request.model };
+    },
+  };
+  return provider;
+};
+
+const recordSleeps = () => {
+  const delays: number[] = [];
+  return { delays, sleep: async (ms: number) => { delays.push(ms); } };
+};
+
+describe('createLLMClient', () => {
+  it('fills in the configured model and limits, letting each call override them', async () => {
+    const provider = createMockProvider();
+    const client = createLLMClient(provider, config);
+
+    const response = await client.complete(messages, { maxTokens: 50, responseFormat: 'json' });
+
+    expect(response.content).toBe('{"echo":"Hello"}');
+    expect(provider.requests[0]).toMatchObject({
+      model: 'gpt-4',
+      temperature: 0.7,
+      maxTokens: 50,
+      responseFormat: 'json',
+    });
+  });
+
+  it('retries temporary failures with backoff, honouring Retry-After', async () => {
+    const provider = flakyProvider([
+      new LLMError('server', 'Bad gateway', { status: 502 }),
+      new LLMError('rate_limit', 'Slow down', { status: 429, retryAfterMs: 5000 }),
+    ]);
+    const { delays, sleep } = recordSleeps();
+
+    const response = await createLLMClient(provider, config, { sleep }).complete(messages);
+
+    expect(response.content).toBe('ok');
+    expect(provider.attempts).toBe(3);
+    expect(delays).toEqual([100, 5000]);
+  });
+
+  it('gives up after the configured retries and never retries permanent failures', async () => {
+    const { sleep } = recordSleeps();
+    const failing = flakyProvider([1, 2, 3].map(() => new LLMError('network', 'Offline')));
+    await expect(createLLMClient(failing, config, { sleep }).complete(messages)).rejects.toMatchObject({ kind: 'network' });
+    expect(failing.attempts).toBe(3);
+
+    const unauthorized = flakyProvider([new LLMError('auth', 'Bad key', { status: 401 })]);
+    await expect(createLLMClient(unauthorized, config, { sleep }).complete(messages)).rejects.toMatchObject({ kind: 'auth' });
+    expect(unauthorized.attempts).toBe(1);
+  });
+
+  it('abandons an attempt after the timeout and aborts its request', async () => {
+    let signal: AbortSignal | null = null;
+    const hanging: LLMProvider = {
+      name: 'hanging',
+      complete: request => {
+        signal = request.signal;
+        return new Promise(() => {});
+      },
+    };
+
+    await expect(createLLMClient(hanging, config).complete(messages, { timeoutMs: 20, maxRetries: 0 }))
+      .rejects.toMatchObject({ kind: 'timeout', retryable: true });
+    expect(signal!.aborted).toBe(true);
+  });
+});
+
+describe('LLMClient.stream', () => {
+  it('passes text on as it arrives and sends tools to the provider', async () => {
+    const provider = createMockProvider(() => 'Try red lentils.');
+    const pieces: string[] = [];
+    const tools = [{ name: 'get_diet_plan', description: 'The plan', parameters: { type: 'object', properties: {} } }];
+
+    const response = await createLLMClient(provider, config).stream(messages, { tools, toolChoice: 'auto' }, text => pieces.push(text));
+
+    expect(pieces).toEqual(['Try', ' red', ' lentils.']);
+    expect(response.content).toBe('Try red lentils.');
+    expect(provider.requests[0]).toMatchObject({ tools, toolChoice: 'auto' });
+  });
+
+  it('falls back to one piece when the provider cannot stream', async () => {
+    const pieces: string[] = [];
+    const response = await createLLMClient(flakyProvider([]), config).stream(messages, {}, text => pieces.push(text));
+    expect(response.content).toBe('ok');
+    expect(pieces).toEqual(['ok']);
+  });
+
+  it('retries before any text arrives but not after', async () => {
+    const { sleep } = recordSleeps();
+    let attempts = 0;
+    const dropping: LLMProvider = {
+      name: 'dropping',
+      complete: async request => ({ content: '', model: request.model }),
+      stream: async (request, onDelta) => {
+        attempts++;
+        if (attempts === 1) throw new LLMError('network', 'Offline');
+        onDelta('Half a');
+        throw new LLMError('network', 'Connection lost');
+      },
+    };
+
+    await expect(createLLMClient(dropping, config, { sleep }).stream(messages, {}, () => {}))
+      .rejects.toMatchObject({ kind: 'network', message: 'Connection lost' });
+    expect(attempts).toBe(2);
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('builds the configured provider and defers missing settings to the first call', async () => {
+    expect(createLLMProvider({ ...config, provider: 'openai', apiKey: 'sk-test' }).name).toBe('openai');
+    expect(createLLMProvider({ ...config, provider: 'mock' }).name).toBe('mock');
+
+    const proxy = createLLMProvider({ ...config, provider: 'proxy' });
+    const client = createLLMClient(proxy, config);
+    await expect(client.complete(messages)).rejects.toMatchObject({ kind: 'not_configured' });
+  });
+});
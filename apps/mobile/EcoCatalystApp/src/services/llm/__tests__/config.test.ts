@@ -0,0 +1,32 @@
+import { DEFAULT_LLM_CONFIG, parseLLMConfig } from '../config';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+describe('parseLLMConfig', () => {
+  it('works offline with the mock provider when nothing is configured', () => {
+    expect(parseLLMConfig({})).toEqual({ ...DEFAULT_LLM_CONFIG, provider: 'mock' });
+  });
+
+  it('prefers the proxy, then OpenAI, unless a provider is named', () => {
+    const env = { EXPO_PUBLIC_LLM_PROXY_URL: 'https://api.example.com/llm', EXPO_PUBLIC_OPENAI_API_KEY: 'sk-test' };
+    expect(parseLLMConfig(env).provider).toBe('proxy');
+    expect(parseLLMConfig({ EXPO_PUBLIC_OPENAI_API_KEY: 'sk-test' }).provider).toBe('openai');
+    expect(parseLLMConfig({ ...env, EXPO_PUBLIC_LLM_PROVIDER: 'OpenAI' }).provider).toBe('openai');
+    expect(parseLLMConfig({ EXPO_PUBLIC_LLM_PROVIDER: 'anthropic' }).provider).toBe('mock');
+  });
+
+  it('reads limits and ignores values out of range', () => {
+    const config = parseLLMConfig({
+      EXPO_PUBLIC_LLM_MODEL: 'gpt-4o-mini',
+      EXPO_PUBLIC_LLM_TEMPERATURE: '0.2',
+      EXPO_PUBLIC_LLM_MAX_TOKENS: '800',
+      EXPO_PUBLIC_LLM_TIMEOUT_MS: '50',
+      EXPO_PUBLIC_LLM_MAX_RETRIES: 'lots',
+    });
+    expect(config).toMatchObject({ model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 800 });
+    expect(config.timeoutMs).toBe(DEFAULT_LLM_CONFIG.timeoutMs);
+    expect(config.maxRetries).toBe(DEFAULT_LLM_CONFIG.maxRetries);
+  });
+});
@@ -0,0 +1,246 @@
+import { createMockProvider } from '../mockProvider';
+import { createOpenAIProvider } from '../openaiProvider';
+import { createProxyProvider } from '../proxyProvider';
+import { LLMRequest } from '../types';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const request = (overrides: Partial<LLMRequest> = {}): LLMRequest => ({
+  messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hi' }],
+  model: 'gpt-4',
+  temperature: 0.7,
+  maxTokens: 300,
+  responseFormat: 'text',
+  signal: new AbortController().signal,
+  ...overrides,
+});
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: (name: string) => headers[name.toLowerCase()] || null },
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+});
+
+/**
+ * A server-sent event response whose body arrives in the given pieces
+ */
+const eventResponse = (pieces: string[], { readable = true } = {}) => {
+  const encoder = new TextEncoder();
+  const queue = [...pieces];
+  return {
+    ok: true,
+    status: 200,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null) },
+    body: readable ? {
+      getReader: () => ({
+        read: async () => {
+          const piece = queue.shift();
+          return piece === undefined ? { done: true, value: undefined } : { done: false, value: encoder.encode(piece) };
+        },
+      }),
+    } : null,
+    text: async () => pieces.join(''),
+  };
+};
+
+const chunk = (delta: unknown, finishReason: string | null = null) =>
+  `data: ${JSON.stringify({ model: 'gpt-4', choices: [{ delta, finish_reason: finishReason }] })}\n\n`;
+
+const toolCallMessages: LLMRequest['messages'] = [
+  { role: 'user', content: 'What is my plan?' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'get_diet_plan', arguments: '{}' }] },
+  { role: 'tool', toolCallId: 'call_1', content: '{"plan":null}' },
+];
+
+describe('createProxyProvider', () => {
+  it('posts the request with the user token and reads either response shape', async () => {
+    const calls: Array<{ url: string; init: any }> = [];
+    const responses = [
+      jsonResponse(200, { content: 'Hello', model: 'gpt-4o', usage: { promptTokens: 12, completionTokens: 3 } }),
+      jsonResponse(200, { model: 'gpt-4', choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }] }),
+    ];
+    const fetch = (async (url: string, init: any) => {
+      calls.push({ url, init });
+      return responses.shift();
+    }) as any;
+    const provider = createProxyProvider({ url: 'https://api.example.com/llm', getAuthToken: async () => 'token', fetch });
+
+    expect(await provider.complete(request())).toEqual({
+      content: 'Hello',
+      model: 'gpt-4o',
+      usage: { promptTokens: 12, completionTokens: 3 },
+    });
+    expect(await provider.complete(request())).toEqual({ content: 'Hi', model: 'gpt-4', finishReason: 'stop' });
+
+    expect(calls[0].url).toBe('https://api.example.com/llm');
+    expect(calls[0].init.headers.Authorization).toBe('Bearer token');
+    expect(JSON.parse(calls[0].init.body)).toEqual({
+      model: 'gpt-4',
+      messages: request().messages,
+      temperature: 0.7,
+      maxTokens: 300,
+      responseFormat: 'text',
+    });
+  });
+
+  it('turns failures into typed errors', async () => {
+    const respondWith = (response: any) => createProxyProvider({
+      url: 'https://api.example.com/llm',
+      fetch: (async () => {
+        if (response instanceof Error) throw response;
+        return response;
+      }) as any,
+    });
+
+    await expect(respondWith(jsonResponse(429, {}, { 'retry-after': '2' })).complete(request()))
+      .rejects.toMatchObject({ kind: 'rate_limit', retryable: true, retryAfterMs: 2000 });
+    await expect(respondWith(jsonResponse(401, {})).complete(request())).rejects.toMatchObject({ kind: 'auth', retryable: false });
+    await expect(respondWith(jsonResponse(503, {})).complete(request())).rejects.toMatchObject({ kind: 'server' });
+    await expect(respondWith(jsonResponse(200, { text: 'Hi' })).complete(request())).rejects.toMatchObject({ kind: 'invalid_response' });
+    await expect(respondWith(new TypeError('Network request failed')).complete(request())).rejects.toMatchObject({ kind: 'network' });
+  });
+});
+
+describe('createProxyProvider streaming', () => {
+  const events = [
+    chunk({ role: 'assistant', content: 'Lentils ' }),
+    chunk({ content: 'are' }).slice(0, 20),
+    chunk({ content: 'are' }).slice(20) + chunk({ content: ' great.' }),
+    chunk({ tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_meals', arguments: '{"da' } }] }),
+    chunk({ tool_calls: [{ index: 0, function: { arguments: 'te":"2024-03-05"}' } }] }, 'tool_calls'),
+    'data: [DONE]\n\n',
+  ];
+  const expected = {
+    content: 'Lentils are great.',
+    model: 'gpt-4',
+    finishReason: 'tool_calls',
+    toolCalls: [{ id: 'call_1', name: 'get_meals', arguments: '{"date":"2024-03-05"}' }],
+  };
+
+  it('reads server-sent chunks as they arrive, joining split events and tool calls', async () => {
+    let body: any = null;
+    const provider = createProxyProvider({
+      url: 'https://api.example.com/llm',
+      fetch: (async (_url: string, init: any) => {
+        body = JSON.parse(init.body);
+        return eventResponse(events);
+      }) as any,
+    });
+    const pieces: string[] = [];
+    const tools = [{ name: 'get_meals', description: 'Meals', parameters: { type: 'object', properties: {} } }];
+
+    expect(await provider.stream!(request({ messages: toolCallMessages, tools }), text => pieces.push(text))).toEqual(expected);
+    expect(pieces).toEqual(['Lentils ', 'are', ' great.']);
+    expect(body).toMatchObject({
+      stream: true,
+      tools: [{ type: 'function', function: { name: 'get_meals' } }],
+      messages: [
+        { role: 'user', content: 'What is my plan?' },
+        { role: 'assistant', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_diet_plan', arguments: '{}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"plan":null}' },
+      ],
+    });
+  });
+
+  it('reads the whole body when it cannot be streamed, and accepts plain JSON', async () => {
+    const unreadable = createProxyProvider({ url: 'https://api.example.com/llm', fetch: (async () => eventResponse(events, { readable: false })) as any });
+    expect(await unreadable.stream!(request(), () => {})).toEqual(expected);
+
+    const pieces: string[] = [];
+    const plain = createProxyProvider({ url: 'https://api.example.com/llm', fetch: (async () => jsonResponse(200, { content: 'Hi' })) as any });
+    expect((await plain.stream!(request(), text => pieces.push(text))).content).toBe('Hi');
+    expect(pieces).toEqual(['Hi']);
+  });
+});
+
+describe('createOpenAIProvider', () => {
+  it('sends chat completions and maps API errors', async () => {
+    const bodies: any[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async (body: any) => {
+            bodies.push(body);
+            if (bodies.length > 1) throw Object.assign(new Error('Rate limited'), { status: 429, headers: { 'retry-after': '1' } });
+            return { model: 'gpt-4-0613', choices: [{ message: { content: '{}' }, finish_reason: 'stop' }] };
+          },
+        },
+      },
+    } as any;
+    const provider = createOpenAIProvider({ client });
+
+    expect(await provider.complete(request({ responseFormat: 'json' }))).toEqual({
+      content: '{}',
+      model: 'gpt-4-0613',
+      finishReason: 'stop',
+    });
+    expect(bodies[0]).toMatchObject({ model: 'gpt-4', max_tokens: 300, response_format: { type: 'json_object' } });
+    await expect(provider.complete(request())).rejects.toMatchObject({ kind: 'rate_limit', retryAfterMs: 1000 });
+  });
+
+  it('returns tool calls and streams chunks', async () => {
+    const bodies: any[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async (body: any) => {
+            bodies.push(body);
+            if (!body.stream) {
+              return {
+                model: 'gpt-4',
+                choices: [{
+                  message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_diet_plan', arguments: '{}' } }] },
+                  finish_reason: 'tool_calls',
+                }],
+              };
+            }
+            return (async function* () {
+              yield { model: 'gpt-4', choices: [{ delta: { content: 'Eat ' }, finish_reason: null }] };
+              yield { model: 'gpt-4', choices: [{ delta: { content: 'beans.' }, finish_reason: 'stop' }] };
+            })();
+          },
+        },
+      },
+    } as any;
+    const provider = createOpenAIProvider({ client });
+    const tools = [{ name: 'get_diet_plan', description: 'The plan', parameters: { type: 'object', properties: {} } }];
+
+    expect(await provider.complete(request({ tools, toolChoice: 'none' }))).toEqual({
+      content: '',
+      model: 'gpt-4',
+      finishReason: 'tool_calls',
+      toolCalls: [{ id: 'call_1', name: 'get_diet_plan', arguments: '{}' }],
+    });
+    expect(bodies[0]).toMatchObject({ tools: [{ type: 'function', function: { name: 'get_diet_plan' } }], tool_choice: 'none' });
+
+    const pieces: string[] = [];
+    expect(await provider.stream!(request(), text => pieces.push(text))).toEqual({ content: 'Eat beans.', model: 'gpt-4', finishReason: 'stop' });
+    expect(pieces).toEqual(['Eat ', 'beans.']);
+    expect(bodies[1].stream).toBe(true);
+  });
+
+  it('reports a missing key instead of calling the API', async () => {
+    await expect(createOpenAIProvider({}).complete(request())).rejects.toMatchObject({ kind: 'not_configured' });
+  });
+});
+
+describe('createMockProvider', () => {
+  it('echoes by default and records requests', async () => {
+    const provider = createMockProvider();
+    expect((await provider.complete(request())).content).toBe('Echo: Hi');
+    expect(provider.requests).toHaveLength(1);
+
+    const scripted = createMockProvider(() => 'Try lentils.');
+    expect((await scripted.complete(request())).content).toBe('Try lentils.');
+  });
+
+  it('can script tool calls', async () => {
+    const toolCalls = [{ id: 'call_1', name: 'get_diet_plan', arguments: '{}' }];
+    const provider = createMockProvider(() => ({ toolCalls }));
+    expect(await provider.complete(request())).toEqual({ content: '', model: 'gpt-4', finishReason: 'tool_calls', toolCalls });
+  });
+});
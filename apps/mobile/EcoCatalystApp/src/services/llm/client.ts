@@ -0,0 +1,143 @@
+import { computeBackoffDelay } from '../sync/syncEngine';
+import { LLMConfig } from './config';
+import { createMockProvider } from './mockProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { createProxyProvider } from './proxyProvider';
+import { LLMDeltaHandler, LLMError, LLMMessage, LLMOptions, LLMProvider, LLMResponse } from './types';
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * What the rest of the app talks to: a provider plus defaults, timeouts and retries
+ */
+export interface LLMClient {
+  provider: string;
+  config: LLMConfig;
+  complete: (messages: LLMMessage[], options?: LLMOptions) => Promise<LLMResponse>;
+  // Like complete, passing the reply's text on as it arrives. Falls back to one piece when the provider can't stream.
+  stream: (messages: LLMMessage[], options: LLMOptions, onDelta: LLMDeltaHandler) => Promise<LLMResponse>;
+}
+
+export interface LLMClientOptions {
+  sleep?: (ms: number) => Promise<void>; // for tests
+}
+
+export interface LLMProviderDependencies {
+  getAuthToken?: () => Promise<string | null>;
+  fetch?: typeof fetch; // one that can stream response bodies
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * The provider named in the config. A provider missing its settings fails when called, not here.
+ */
+export const createLLMProvider = (config: LLMConfig, dependencies: LLMProviderDependencies = {}): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: config.apiKey, baseUrl: config.baseUrl, fetch: dependencies.fetch });
+    case 'proxy':
+      if (!config.proxyUrl) {
+        return {
+          name: 'proxy',
+          complete: async () => {
+            throw new LLMError('not_configured', 'The LLM proxy has no URL.');
+          },
+        };
+      }
+      return createProxyProvider({ url: config.proxyUrl, getAuthToken: dependencies.getAuthToken, fetch: dependencies.fetch });
+    default:
+      return createMockProvider();
+  }
+};
+
+/**
+ * Wrap a provider so every call gets the configured model and limits, is abandoned after the
+ * timeout, and is retried with backoff when the failure is temporary. While streaming, the timeout
+ * restarts with each piece, and a reply that has started arriving is not retried.
+ */
+export const createLLMClient = (provider: LLMProvider, config: LLMConfig, { sleep = defaultSleep }: LLMClientOptions = {}): LLMClient => {
+  const attempt = async (
+    messages: LLMMessage[],
+    options: LLMOptions,
+    timeoutMs: number,
+    onDelta?: LLMDeltaHandler
+  ): Promise<LLMResponse> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let rejectTimeout: (error: LLMError) => void = () => {};
+    const timeout = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    const startTimer = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        controller.abort();
+        rejectTimeout(new LLMError('timeout', `No response from ${provider.name} after ${timeoutMs} ms.`));
+      }, timeoutMs);
+    };
+    startTimer();
+
+    const request = {
+      messages,
+      model: options.model || config.model,
+      temperature: options.temperature ?? config.temperature,
+      maxTokens: options.maxTokens ?? config.maxTokens,
+      responseFormat: options.responseFormat || 'text',
+      ...(options.tools ? { tools: options.tools } : {}),
+      ...(options.toolChoice ? { toolChoice: options.toolChoice } : {}),
+      signal: controller.signal,
+    };
+
+    const run = async (): Promise<LLMResponse> => {
+      if (!onDelta) return provider.complete(request);
+      if (!provider.stream) {
+        const response = await provider.complete(request);
+        if (response.content) onDelta(response.content);
+        return response;
+      }
+      return provider.stream(request, text => {
+        startTimer();
+        onDelta(text);
+      });
+    };
+
+    try {
+      return await Promise.race([run(), timeout]);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  };
+
+  const withRetries = async (messages: LLMMessage[], options: LLMOptions, onDelta?: LLMDeltaHandler): Promise<LLMResponse> => {
+    const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+    const maxRetries = options.maxRetries ?? config.maxRetries;
+    let streamed = false;
+    const forward = onDelta && ((text: string) => {
+      streamed = true;
+      onDelta(text);
+    });
+
+    for (let attempts = 1; ; attempts++) {
+      try {
+        return await attempt(messages, options, timeoutMs, forward);
+      } catch (caught) {
+        const error = caught instanceof LLMError
+          ? caught
+          : new LLMError('unknown', caught instanceof Error ? caught.message : String(caught));
+        if (!error.retryable || attempts > maxRetries || streamed) {
+          throw error;
+        }
+        const backoff = computeBackoffDelay(attempts, config.retryDelayMs, MAX_RETRY_DELAY_MS);
+        await sleep(Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, error.retryAfterMs || 0)));
+      }
+    }
+  };
+
+  return {
+    provider: provider.name,
+    config,
+    complete: (messages: LLMMessage[], options: LLMOptions = {}) => withRetries(messages, options),
+    stream: (messages: LLMMessage[], options: LLMOptions, onDelta: LLMDeltaHandler) => withRetries(messages, options, onDelta),
+  };
+};
@@ -0,0 +1,93 @@
+export type LLMProviderName = 'openai' | 'proxy' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number; // per attempt
+  maxRetries: number; // attempts after the first, for timeouts, network, rate limit and server errors
+  retryDelayMs: number; // before the first retry, doubling after each
+  apiKey?: string; // OpenAI only; ends up in the app bundle, so use the proxy for release builds
+  baseUrl?: string; // OpenAI-compatible API other than api.openai.com
+  proxyUrl?: string; // server that holds the key and forwards requests
+}
+
+export const DEFAULT_LLM_CONFIG: Omit<LLMConfig, 'provider'> = {
+  model: 'gpt-4',
+  temperature: 0.7,
+  maxTokens: 500,
+  timeoutMs: 30000,
+  maxRetries: 2,
+  retryDelayMs: 1000,
+};
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'proxy', 'mock'];
+
+/**
+ * Settings as they appear in the environment, e.g. EXPO_PUBLIC_LLM_MODEL
+ */
+export interface LLMEnvironment {
+  EXPO_PUBLIC_LLM_PROVIDER?: string;
+  EXPO_PUBLIC_LLM_MODEL?: string;
+  EXPO_PUBLIC_LLM_TEMPERATURE?: string;
+  EXPO_PUBLIC_LLM_MAX_TOKENS?: string;
+  EXPO_PUBLIC_LLM_TIMEOUT_MS?: string;
+  EXPO_PUBLIC_LLM_MAX_RETRIES?: string;
+  EXPO_PUBLIC_LLM_PROXY_URL?: string;
+  EXPO_PUBLIC_OPENAI_API_KEY?: string;
+  EXPO_PUBLIC_OPENAI_BASE_URL?: string;
+}
+
+const numberInRange = (value: string | undefined, min: number, max: number, fallback: number): number => {
+  if (value === undefined || value.trim() === '') return fallback;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : fallback;
+};
+
+const text = (value: string | undefined): string | undefined => {
+  const trimmed = (value || '').trim();
+  return trimmed || undefined;
+};
+
+/**
+ * Build a config from environment values, ignoring ones that are out of range. Without an explicit
+ * provider the proxy is used when it has a URL, then OpenAI when there is a key, and otherwise the
+ * offline mock.
+ */
+export const parseLLMConfig = (env: LLMEnvironment): LLMConfig => {
+  const proxyUrl = text(env.EXPO_PUBLIC_LLM_PROXY_URL);
+  const apiKey = text(env.EXPO_PUBLIC_OPENAI_API_KEY);
+  const requested = text(env.EXPO_PUBLIC_LLM_PROVIDER)?.toLowerCase() as LLMProviderName | undefined;
+  const provider = requested && PROVIDERS.includes(requested)
+    ? requested
+    : proxyUrl ? 'proxy' : apiKey ? 'openai' : 'mock';
+
+  return {
+    provider,
+    model: text(env.EXPO_PUBLIC_LLM_MODEL) || DEFAULT_LLM_CONFIG.model,
+    temperature: numberInRange(env.EXPO_PUBLIC_LLM_TEMPERATURE, 0, 2, DEFAULT_LLM_CONFIG.temperature),
+    maxTokens: Math.round(numberInRange(env.EXPO_PUBLIC_LLM_MAX_TOKENS, 1, 32000, DEFAULT_LLM_CONFIG.maxTokens)),
+    timeoutMs: numberInRange(env.EXPO_PUBLIC_LLM_TIMEOUT_MS, 1000, 300000, DEFAULT_LLM_CONFIG.timeoutMs),
+    maxRetries: Math.round(numberInRange(env.EXPO_PUBLIC_LLM_MAX_RETRIES, 0, 5, DEFAULT_LLM_CONFIG.maxRetries)),
+    retryDelayMs: DEFAULT_LLM_CONFIG.retryDelayMs,
+    ...(apiKey ? { apiKey } : {}),
+    ...(text(env.EXPO_PUBLIC_OPENAI_BASE_URL) ? { baseUrl: text(env.EXPO_PUBLIC_OPENAI_BASE_URL) } : {}),
+    ...(proxyUrl ? { proxyUrl } : {}),
+  };
+};
+
+/**
+ * The config for this build. Expo only inlines EXPO_PUBLIC_ variables that are read by name.
+ */
+export const readLLMConfig = (): LLMConfig => parseLLMConfig({
+  EXPO_PUBLIC_LLM_PROVIDER: process.env.EXPO_PUBLIC_LLM_PROVIDER,
+  EXPO_PUBLIC_LLM_MODEL: process.env.EXPO_PUBLIC_LLM_MODEL,
+  EXPO_PUBLIC_LLM_TEMPERATURE: process.env.EXPO_PUBLIC_LLM_TEMPERATURE,
+  EXPO_PUBLIC_LLM_MAX_TOKENS: process.env.EXPO_PUBLIC_LLM_MAX_TOKENS,
+  EXPO_PUBLIC_LLM_TIMEOUT_MS: process.env.EXPO_PUBLIC_LLM_TIMEOUT_MS,
+  EXPO_PUBLIC_LLM_MAX_RETRIES: process.env.EXPO_PUBLIC_LLM_MAX_RETRIES,
+  EXPO_PUBLIC_LLM_PROXY_URL: process.env.EXPO_PUBLIC_LLM_PROXY_URL,
+  EXPO_PUBLIC_OPENAI_API_KEY: process.env.EXPO_PUBLIC_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+  EXPO_PUBLIC_OPENAI_BASE_URL: process.env.EXPO_PUBLIC_OPENAI_BASE_URL,
+});
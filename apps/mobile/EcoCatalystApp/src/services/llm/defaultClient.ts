@@ -0,0 +1,18 @@
+import { fetch as expoFetch } from 'expo/fetch';
+import { auth } from '../firebase';
+import { createLLMClient, createLLMProvider, LLMClient } from './client';
+import { readLLMConfig } from './config';
+
+const config = readLLMConfig();
+
+/**
+ * The client for this build's configured provider. Proxy requests carry the signed-in user's
+ * Firebase ID token. Expo's fetch is used because it can stream response bodies.
+ */
+export const defaultLLMClient: LLMClient = createLLMClient(
+  createLLMProvider(config, {
+    getAuthToken: async () => (auth.currentUser ? auth.currentUser.getIdToken() : null),
+    fetch: expoFetch as unknown as typeof fetch,
+  }),
+  config
+);
@@ -0,0 +1,55 @@
+import { LLMDeltaHandler, LLMProvider, LLMRequest, LLMResponse, LLMToolCall } from './types';
+
+/**
+ * A scripted reply that calls tools, or answers with text
+ */
+export interface MockReply {
+  content?: string;
+  toolCalls?: LLMToolCall[];
+}
+
+export type MockResponder = (request: LLMRequest) => string | MockReply | Promise<string | MockReply>;
+
+export interface MockProvider extends LLMProvider {
+  requests: LLMRequest[]; // every request received, oldest first
+}
+
+/**
+ * Echo the last user message, as JSON when JSON was asked for
+ */
+export const echoResponder: MockResponder = request => {
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+  const text = lastUser ? lastUser.content : '';
+  return request.responseFormat === 'json' ? JSON.stringify({ echo: text }) : `Echo: ${text}`;
+};
+
+/**
+ * A provider that answers locally, for tests and offline development. Responses come from
+ * `respond`, or echo the last user message. Streamed replies arrive a word at a time.
+ */
+export const createMockProvider = (respond: MockResponder = echoResponder): MockProvider => {
+  const requests: LLMRequest[] = [];
+
+  const reply = async (request: LLMRequest): Promise<LLMResponse> => {
+    requests.push(request);
+    const answer = await respond(request);
+    const { content = '', toolCalls = [] } = typeof answer === 'string' ? { content: answer } : answer;
+    return {
+      content,
+      model: request.model,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  };
+
+  return {
+    name: 'mock',
+    requests,
+    complete: reply,
+    stream: async (request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> => {
+      const response = await reply(request);
+      (response.content.match(/\s*\S+/g) || []).forEach(onDelta);
+      return response;
+    },
+  };
+};
@@ -0,0 +1,104 @@
+import OpenAI from 'openai';
+import { LLMDeltaHandler, LLMMessage, LLMResponse, LLMTool, LLMToolCall, LLMUsage } from './types';
+
+/**
+ * Messages in the chat completions format, which both the OpenAI provider and the proxy send
+ */
+export const toOpenAIMessages = (messages: LLMMessage[]): OpenAI.ChatCompletionMessageParam[] => {
+  return messages.map((message): OpenAI.ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+};
+
+export const toOpenAITools = (tools: LLMTool[]): OpenAI.ChatCompletionTool[] => {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+};
+
+/**
+ * Tool calls from a completed chat completions message
+ */
+export const readToolCalls = (toolCalls: any): LLMToolCall[] => {
+  if (!Array.isArray(toolCalls)) return [];
+  return toolCalls
+    .filter(call => call && typeof call.function?.name === 'string')
+    .map(call => ({
+      id: String(call.id || ''),
+      name: call.function.name,
+      arguments: typeof call.function.arguments === 'string' ? call.function.arguments : '',
+    }));
+};
+
+export interface ChunkAccumulator {
+  add: (chunk: any) => void;
+  result: () => LLMResponse;
+}
+
+/**
+ * Builds a response from streamed chat completions chunks, passing text on as it arrives.
+ * Tool calls arrive in pieces keyed by their index and are joined back together.
+ */
+export const createChunkAccumulator = (model: string, onDelta: LLMDeltaHandler): ChunkAccumulator => {
+  let content = '';
+  let responseModel = model;
+  let finishReason: string | undefined;
+  let usage: LLMUsage | undefined;
+  const toolCalls: LLMToolCall[] = [];
+
+  return {
+    add: chunk => {
+      if (typeof chunk?.model === 'string' && chunk.model) responseModel = chunk.model;
+      if (chunk?.usage) {
+        usage = {
+          promptTokens: Number(chunk.usage.prompt_tokens) || 0,
+          completionTokens: Number(chunk.usage.completion_tokens) || 0,
+        };
+      }
+
+      const choice = Array.isArray(chunk?.choices) ? chunk.choices[0] : null;
+      if (!choice) return;
+
+      const delta = choice.delta || {};
+      if (typeof delta.content === 'string' && delta.content) {
+        content += delta.content;
+        onDelta(delta.content);
+      }
+      if (Array.isArray(delta.tool_calls)) {
+        delta.tool_calls.forEach((part: any) => {
+          const index = typeof part.index === 'number' ? part.index : toolCalls.length;
+          const call = toolCalls[index] || (toolCalls[index] = { id: '', name: '', arguments: '' });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        });
+      }
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    },
+    result: () => {
+      const calls = toolCalls.filter(call => call && call.name);
+      return {
+        content,
+        model: responseModel,
+        ...(finishReason ? { finishReason } : {}),
+        ...(usage ? { usage } : {}),
+        ...(calls.length > 0 ? { toolCalls: calls } : {}),
+      };
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import OpenAI from 'openai';
+import { createChunkAccumulator, readToolCalls, toOpenAIMessages, toOpenAITools } from './openaiFormat';
+import { LLMDeltaHandler, LLMError, llmErrorForStatus, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  fetch?: typeof fetch; // one that can stream response bodies
+  client?: Pick<OpenAI, 'chat'>; // for tests
+}
+
+/**
+ * Map an OpenAI SDK error to an LLMError
+ */
+const toLLMError = (error: any): LLMError => {
+  if (error instanceof LLMError) return error;
+  if (error instanceof OpenAI.APIConnectionTimeoutError) return new LLMError('timeout', error.message);
+  if (error instanceof OpenAI.APIConnectionError) return new LLMError('network', error.message);
+  if (error && typeof error.status === 'number') {
+    const retryAfter = Number(error.headers?.['retry-after']);
+    return llmErrorForStatus(error.status, error.message, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+  }
+  return new LLMError('unknown', error instanceof Error ? error.message : String(error));
+};
+
+/**
+ * Calls the OpenAI chat completions API directly from the app. The SDK client is created on first
+ * use, so a build without a key can still load.
+ */
+export const createOpenAIProvider = ({ apiKey, baseUrl, fetch: fetchImpl, client }: OpenAIProviderOptions): LLMProvider => {
+  let openai: Pick<OpenAI, 'chat'> | null = client || null;
+
+  const getClient = (): Pick<OpenAI, 'chat'> => {
+    if (openai) return openai;
+    if (!apiKey) {
+      throw new LLMError('not_configured', 'No OpenAI API key is configured.');
+    }
+    openai = new OpenAI({
+      apiKey,
+      ...(baseUrl ? { baseURL: baseUrl } : {}),
+      ...(fetchImpl ? { fetch: fetchImpl } : {}),
+      dangerouslyAllowBrowser: true, // Required for React Native/Expo
+      maxRetries: 0, // the LLM client retries
+    });
+    return openai;
+  };
+
+  const body = (request: LLMRequest) => ({
+    model: request.model,
+    messages: toOpenAIMessages(request.messages),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    ...(request.tools && request.tools.length > 0 ? {
+      tools: toOpenAITools(request.tools),
+      ...(request.toolChoice ? { tool_choice: request.toolChoice } : {}),
+    } : {}),
+  });
+
+  return {
+    name: 'openai',
+    complete: async (request: LLMRequest): Promise<LLMResponse> => {
+      try {
+        const completion = await getClient().chat.completions.create(body(request), { signal: request.signal });
+
+        const choice = completion.choices[0];
+        const toolCalls = choice ? readToolCalls(choice.message?.tool_calls) : [];
+        if (!choice || (typeof choice.message?.content !== 'string' && toolCalls.length === 0)) {
+          throw new LLMError('invalid_response', 'The completion had no content.');
+        }
+        return {
+          content: choice.message.content || '',
+          model: completion.model || request.model,
+          ...(choice.finish_reason ? { finishReason: choice.finish_reason } : {}),
+          ...(completion.usage ? {
+            usage: { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens },
+          } : {}),
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        };
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    },
+    stream: async (request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> => {
+      try {
+        const chunks = await getClient().chat.completions.create(
+          { ...body(request), stream: true },
+          { signal: request.signal }
+        );
+        const accumulator = createChunkAccumulator(request.model, onDelta);
+        for await (const chunk of chunks) {
+          accumulator.add(chunk);
+        }
+        return accumulator.result();
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,179 @@
+import { createChunkAccumulator, readToolCalls, toOpenAIMessages, toOpenAITools } from './openaiFormat';
+import { LLMDeltaHandler, LLMError, llmErrorForStatus, LLMProvider, LLMRequest, LLMResponse } from './types';
+
+export interface ProxyProviderOptions {
+  url: string;
+  getAuthToken?: () => Promise<string | null>; // sent as a bearer token so the server can check the user
+  fetch?: typeof fetch; // one that can stream response bodies, or a fake for tests
+}
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+};
+
+/**
+ * Splits server-sent events into their `data:` payloads. Text is pushed as it arrives; a line
+ * split across two pieces waits for the rest.
+ */
+const createEventParser = (onData: (data: string) => void) => {
+  let buffer = '';
+  const flush = (line: string) => {
+    if (line.startsWith('data:')) onData(line.slice(5).trim());
+  };
+  return {
+    push: (text: string) => {
+      buffer += text;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      lines.forEach(flush);
+    },
+    end: () => {
+      flush(buffer);
+      buffer = '';
+    },
+  };
+};
+
+/**
+ * Read the completion out of a JSON response body
+ */
+const parseCompletion = (body: any, request: LLMRequest): LLMResponse => {
+  const choice = Array.isArray(body?.choices) ? body.choices[0] : null;
+  const content = choice ? choice.message?.content : body?.content;
+  const toolCalls = readToolCalls(choice ? choice.message?.tool_calls : body?.toolCalls);
+  if (typeof content !== 'string' && toolCalls.length === 0) {
+    throw new LLMError('invalid_response', 'LLM proxy response had no content.');
+  }
+
+  const usage = body.usage;
+  const finishReason = choice ? choice.finish_reason : body.finishReason;
+  return {
+    content: content || '',
+    model: typeof body.model === 'string' ? body.model : request.model,
+    ...(typeof finishReason === 'string' ? { finishReason } : {}),
+    ...(usage ? {
+      usage: {
+        promptTokens: Number(usage.promptTokens ?? usage.prompt_tokens) || 0,
+        completionTokens: Number(usage.completionTokens ?? usage.completion_tokens) || 0,
+      },
+    } : {}),
+    ...(toolCalls.length > 0 ? { toolCalls } : {}),
+  };
+};
+
+/**
+ * Sends requests to our own server, which holds the provider's key and forwards them.
+ *
+ * The server receives `{ model, messages, temperature, maxTokens, responseFormat }`, plus `tools`
+ * and `toolChoice` when tools are offered; messages and tools are in the chat completions format
+ * so they can be forwarded unchanged. It answers `{ content, model?, finishReason?, usage?, toolCalls? }`
+ * or an OpenAI-style `choices` response.
+ *
+ * Streaming requests add `stream: true` and expect server-sent events carrying chat completions
+ * chunks, ending with `data: [DONE]`. A server that answers with plain JSON instead still works,
+ * with the whole reply arriving at once.
+ */
+export const createProxyProvider = ({ url, getAuthToken, fetch: fetchImpl = fetch }: ProxyProviderOptions): LLMProvider => {
+  const send = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const token = getAuthToken ? await getAuthToken() : null;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(stream ? { Accept: 'text/event-stream' } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: toOpenAIMessages(request.messages),
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          responseFormat: request.responseFormat,
+          ...(request.tools && request.tools.length > 0 ? {
+            tools: toOpenAITools(request.tools),
+            ...(request.toolChoice ? { toolChoice: request.toolChoice } : {}),
+          } : {}),
+          ...(stream ? { stream: true } : {}),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw new LLMError('network', error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw llmErrorForStatus(
+        response.status,
+        `LLM proxy responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  };
+
+  const readJson = async (response: Response, request: LLMRequest): Promise<LLMResponse> => {
+    let body: any;
+    try {
+      body = await response.json();
+    } catch (error) {
+      throw new LLMError('invalid_response', 'LLM proxy returned invalid JSON.');
+    }
+    return parseCompletion(body, request);
+  };
+
+  return {
+    name: 'proxy',
+    complete: async (request: LLMRequest): Promise<LLMResponse> => readJson(await send(request, false), request),
+    stream: async (request: LLMRequest, onDelta: LLMDeltaHandler): Promise<LLMResponse> => {
+      const response = await send(request, true);
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('text/event-stream')) {
+        const completion = await readJson(response, request);
+        if (completion.content) onDelta(completion.content);
+        return completion;
+      }
+
+      const accumulator = createChunkAccumulator(request.model, onDelta);
+      const events = createEventParser(data => {
+        if (!data || data === '[DONE]') return;
+        try {
+          accumulator.add(JSON.parse(data));
+        } catch (error) {
+          throw new LLMError('invalid_response', 'LLM proxy sent an event that was not JSON.');
+        }
+      });
+
+      try {
+        // React Native's own fetch has no body stream; the events are then read in one go
+        const reader = response.body ? response.body.getReader() : null;
+        if (reader) {
+          const decoder = new TextDecoder();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            events.push(decoder.decode(value, { stream: true }));
+          }
+        } else {
+          events.push(await response.text());
+        }
+        events.end();
+      } catch (error) {
+        if (error instanceof LLMError) throw error;
+        throw new LLMError('network', error instanceof Error ? error.message : String(error));
+      }
+      return accumulator.result();
+    },
+  };
+};
@@ -0,0 +1,126 @@
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * A function the model asked to call. `arguments` is the JSON text the model wrote, which may not parse.
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // assistant messages that called tools
+  toolCallId?: string; // tool messages: the call this is the result of
+}
+
+/**
+ * A function the model may call, with its parameters as a JSON schema
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type LLMToolChoice = 'auto' | 'none';
+
+export type LLMResponseFormat = 'text' | 'json';
+
+/**
+ * Per-call settings; anything left out comes from the client's config
+ */
+export interface LLMOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: LLMResponseFormat;
+  timeoutMs?: number; // when streaming, how long to wait for the next piece
+  maxRetries?: number;
+  tools?: LLMTool[];
+  toolChoice?: LLMToolChoice; // 'none' to make the model answer without calling tools
+}
+
+/**
+ * What a provider is asked to do for one attempt, with every setting filled in
+ */
+export interface LLMRequest {
+  messages: LLMMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  responseFormat: LLMResponseFormat;
+  tools?: LLMTool[];
+  toolChoice?: LLMToolChoice;
+  signal: AbortSignal; // aborted when the attempt times out
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage?: LLMUsage;
+  toolCalls?: LLMToolCall[];
+}
+
+/**
+ * Receives each piece of a streamed reply's text as it arrives
+ */
+export type LLMDeltaHandler = (text: string) => void;
+
+/**
+ * A backend that turns messages into a completion. Providers make a single attempt;
+ * timeouts and retries are handled by the client. Providers that can't stream leave out `stream`.
+ */
+export interface LLMProvider {
+  name: string;
+  complete: (request: LLMRequest) => Promise<LLMResponse>;
+  stream?: (request: LLMRequest, onDelta: LLMDeltaHandler) => Promise<LLMResponse>;
+}
+
+export type LLMErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'rate_limit'
+  | 'server'
+  | 'auth'
+  | 'bad_request'
+  | 'invalid_response'
+  | 'not_configured'
+  | 'unknown';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['timeout', 'network', 'rate_limit', 'server'];
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // how long the server asked us to wait
+
+  constructor(kind: LLMErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * The error for an unsuccessful HTTP status
+ */
+export const llmErrorForStatus = (status: number, message: string, retryAfterMs?: number): LLMError => {
+  if (status === 401 || status === 403) return new LLMError('auth', message, { status });
+  if (status === 408) return new LLMError('timeout', message, { status });
+  if (status === 429) return new LLMError('rate_limit', message, { status, retryAfterMs });
+  if (status >= 500) return new LLMError('server', message, { status, retryAfterMs });
+  return new LLMError('bad_request', message, { status });
+};
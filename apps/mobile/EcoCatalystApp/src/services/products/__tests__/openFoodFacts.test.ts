@@ -0,0 +1,154 @@
+import {
+  OpenFoodFactsDataset,
+  importOpenFoodFactsDump,
+  mapOpenFoodFactsProduct,
+  parseOpenFoodFactsCsv,
+  parseOpenFoodFactsJson,
+} from '../openFoodFacts';
+import { lookupBarcodeInSources } from '../productDataSource';
+import { openFoodFactsFixture } from '../fixtures/openFoodFactsFixture';
+import { SCORING_VERSION } from '../../sustainability/scoring';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const nutella = openFoodFactsFixture[0];
+
+describe('mapOpenFoodFactsProduct', () => {
+  it('maps ecoscore, packaging, ingredients and labels to a product', () => {
+    const product = mapOpenFoodFactsProduct(nutella);
+    expect(product).not.toBeNull();
+    expect(product!.id).toBe('off_3017620422003');
+    expect(product!.barcode).toBe('3017620422003');
+    expect(product!.brand).toBe('Ferrero');
+    expect(product!.category).toBe('Food');
+    expect(product!.ecoScore).toEqual({ grade: 'd', score: 28 });
+    expect(product!.carbonFootprint).toBeCloseTo(2.016, 3);
+    expect(product!.packaging).toBe('Glass, Jar, Plastic, Lid');
+    expect(product!.recyclable).toBe(true);
+    expect(product!.biodegradable).toBe(false);
+    expect(product!.ingredients[1]).toBe('palm oil');
+    expect(product!.ingredients).toContain('emulsifier: lecithins (soya)');
+    expect(product!.dataSource).toBe('openfoodfacts');
+    expect(product!.scoringVersion).toBe(SCORING_VERSION);
+    expect(product!.sustainabilityScore).toBeGreaterThan(0);
+  });
+
+  it('turns labels into certifications and scores labelled products higher', () => {
+    const muesli = mapOpenFoodFactsProduct(openFoodFactsFixture[4]);
+    expect(muesli!.certifications).toEqual(['Organic', 'Eu Organic', 'Fair Trade']);
+    expect(muesli!.biodegradable).toBe(true);
+    expect(muesli!.sustainabilityScore).toBeGreaterThan(mapOpenFoodFactsProduct(nutella)!.sustainabilityScore);
+  });
+
+  it('stores UPC codes recorded as EAN-13 under their 12-digit form', () => {
+    const product = mapOpenFoodFactsProduct(openFoodFactsFixture[6]);
+    expect(product!.barcode).toBe('049000028911');
+    expect(product!.ecoScore).toBeUndefined();
+  });
+
+  it('rejects records without a barcode or name', () => {
+    expect(mapOpenFoodFactsProduct({ code: '', product_name: 'Nothing' })).toBeNull();
+    expect(mapOpenFoodFactsProduct({ code: '3017620422003' })).toBeNull();
+  });
+
+  it('leaves carbon and water unscored when there is no data for them', () => {
+    const product = mapOpenFoodFactsProduct({ code: '87157246', product_name: 'Chocolate' });
+    expect(Number.isFinite(product!.carbonFootprint)).toBe(false);
+    expect(Number.isFinite(product!.waterUsage)).toBe(false);
+    const unweighed = mapOpenFoodFactsProduct({ code: '87157246', product_name: 'Chocolate', categories_tags: ['en:chocolates'] });
+    expect(Number.isFinite(unweighed!.waterUsage)).toBe(false);
+    expect(product!.sustainabilityScore).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('parsing dumps', () => {
+  it('reads API responses, search results and JSONL', () => {
+    const response = JSON.stringify({ code: nutella.code, product: { ...nutella, code: undefined } });
+    expect(parseOpenFoodFactsJson(response)[0].code).toBe(nutella.code);
+
+    const search = JSON.stringify({ products: openFoodFactsFixture.slice(0, 2) });
+    expect(parseOpenFoodFactsJson(search)).toHaveLength(2);
+
+    const jsonl = openFoodFactsFixture.slice(0, 3).map(record => JSON.stringify(record)).join('\n');
+    expect(parseOpenFoodFactsJson(jsonl)).toHaveLength(3);
+  });
+
+  it('skips and counts corrupt JSONL lines', () => {
+    const lines = openFoodFactsFixture.slice(0, 3).map(record => JSON.stringify(record));
+    lines.splice(1, 0, '{"code": "5449000000996", "product_name": ');
+    const result = importOpenFoodFactsDump(lines.join('\n'), 'json');
+    expect(result.products).toHaveLength(3);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('reads tab-separated exports', () => {
+    const tsv = [
+      'code\tproduct_name\tbrands\tpackaging_tags\tlabels_tags\tco2_total\tproduct_quantity',
+      '5449000000996\tCoca-Cola\tCoca-Cola\ten:aluminium,en:can\t\t0.34\t330',
+    ].join('\n');
+    const [record] = parseOpenFoodFactsCsv(tsv);
+    expect(record.packaging_tags).toEqual(['en:aluminium', 'en:can']);
+    expect(record.labels_tags).toBeUndefined();
+    expect(mapOpenFoodFactsProduct(record)!.carbonFootprint).toBeCloseTo(0.112, 3);
+  });
+
+  it('reads comma-separated exports with quoted fields and counts skipped rows', () => {
+    const csv = [
+      'code,product_name,ingredients_text',
+      '7394376616228,"Oat Drink, Barista","Water, oats 10%, ""rapeseed"" oil"',
+      ',Missing code,Water',
+    ].join('\n');
+    const result = importOpenFoodFactsDump(csv, 'csv');
+    expect(result.skipped).toBe(1);
+    expect(result.products[0].name).toBe('Oat Drink, Barista');
+    expect(result.products[0].ingredients).toEqual(['Water', 'oats 10%', '"rapeseed" oil']);
+  });
+
+  it('keeps rows apart when a quoted field spans lines', () => {
+    const csv = [
+      'code,product_name,ingredients_text',
+      '7394376616228,Oat Drink,"Water, oats,',
+      'calcium"',
+      '5449000000996,Coca-Cola,Water',
+    ].join('\r\n');
+    const records = parseOpenFoodFactsCsv(csv);
+    expect(records.map(record => record.code)).toEqual(['7394376616228', '5449000000996']);
+    expect(records[0].ingredients_text).toBe('Water, oats,\r\ncalcium');
+  });
+});
+
+describe('OpenFoodFactsDataset', () => {
+  const dataset = new OpenFoodFactsDataset(openFoodFactsFixture);
+
+  it('looks products up by any form of their barcode', async () => {
+    expect(dataset.size).toBe(openFoodFactsFixture.length);
+    expect((await dataset.getProductByBarcode('0049000028911'))!.name).toBe('Diet Coke');
+    expect((await dataset.getProductByBarcode('049000028911'))!.name).toBe('Diet Coke');
+    expect(await dataset.getProductByBarcode('0000000000000')).toBeNull();
+  });
+
+  it('only resolves ids it issued', async () => {
+    expect((await dataset.getProductById('off_87157246'))!.name).toBe('Dark Chocolate 72%');
+    expect(await dataset.getProductById('87157246')).toBeNull();
+  });
+
+  it('falls through sources in order', async () => {
+    const failing = {
+      name: 'failing',
+      getProductByBarcode: async () => {
+        throw new Error('offline');
+      },
+      getProductById: async () => null,
+    };
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      const product = await lookupBarcodeInSources([failing, dataset], '5449000000996');
+      expect(product!.name).toBe('Coca-Cola');
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { AlternativeProduct, Product, ProductScan } from '../../../contexts/products/ProductsContext';
+import {
+  findReplacedAlternative,
+  hasPurchaseFootprint,
+  previouslyScannedProductIds,
+  purchaseEntry,
+} from '../purchases';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p1',
+  barcode: '4006381333931',
+  name: 'Oat drink',
+  brand: 'Oatly',
+  category: 'beverages',
+  sustainabilityScore: 80,
+  carbonFootprint: 0.35,
+  waterUsage: 48,
+  recyclable: true,
+  biodegradable: false,
+  packaging: 'Carton',
+  ingredients: [],
+  certifications: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+const scan = (id: string, productId: string, timestamp: number): ProductScan => ({ id, productId, userId: 'u1', timestamp });
+
+describe('purchaseEntry', () => {
+  it('scales the product footprint by quantity and links the scan', () => {
+    expect(purchaseEntry(product(), 3, '2024-03-01', 's1')).toEqual({
+      date: '2024-03-01',
+      category: 'products',
+      activityType: 'purchase',
+      carbonAmount: 1.05,
+      waterUsage: 144,
+      quantity: 3,
+      unit: 'item',
+      description: 'Oat drink (Oatly)',
+      productId: 'p1',
+      scanId: 's1',
+    });
+  });
+
+  it('leaves water out when the product has no water data', () => {
+    expect(purchaseEntry(product({ waterUsage: NaN }), 1, '2024-03-01').waterUsage).toBeUndefined();
+  });
+
+  it('needs a known carbon footprint', () => {
+    expect(hasPurchaseFootprint(product())).toBe(true);
+    expect(hasPurchaseFootprint(product({ carbonFootprint: NaN }))).toBe(false);
+  });
+});
+
+describe('alternative detection', () => {
+  it('lists other products scanned before the purchase, newest first', () => {
+    const scans = [scan('a', 'milk', 100), scan('b', 'p1', 200), scan('c', 'juice', 300), scan('d', 'milk', 150), scan('e', 'soda', 900)];
+    expect(previouslyScannedProductIds(scans, 'p1', 500)).toEqual(['juice', 'milk']);
+  });
+
+  it('finds the listing that suggested the purchased product', () => {
+    const alternatives: AlternativeProduct[] = [
+      { id: 'alt1', originalProductId: 'milk', alternativeProductId: 'soy', sustainabilityImprovement: 20, reason: 'Lower emissions' },
+      { id: 'alt2', originalProductId: 'milk', alternativeProductId: 'p1', sustainabilityImprovement: 35, reason: 'Lower emissions' },
+    ];
+    expect(findReplacedAlternative('p1', alternatives)?.id).toBe('alt2');
+    expect(findReplacedAlternative('rice', alternatives)).toBeNull();
+  });
+});
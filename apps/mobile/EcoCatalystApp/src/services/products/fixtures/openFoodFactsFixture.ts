@@ -0,0 +1,149 @@
+import { OpenFoodFactsProduct } from '../openFoodFacts';
+
+/**
+ * A small Open Food Facts extract bundled with the app so unknown barcodes
+ * can still be resolved offline and in tests
+ */
+export const openFoodFactsFixture: OpenFoodFactsProduct[] = [
+  {
+    code: '3017620422003',
+    product_name: 'Nutella',
+    brands: 'Ferrero',
+    categories_tags: ['en:breakfasts', 'en:spreads', 'en:sweet-spreads', 'en:chocolate-spreads'],
+    quantity: '400 g',
+    product_quantity: 400,
+    ecoscore_grade: 'd',
+    ecoscore_score: 28,
+    ecoscore_data: { agribalyse: { co2_total: 5.04 } },
+    packaging: 'Glass jar, Plastic lid',
+    packaging_tags: ['en:glass', 'en:jar', 'en:plastic', 'en:lid'],
+    packaging_recycling_tags: ['en:recycle', 'en:discard'],
+    ingredients_text: 'Sugar, palm oil, hazelnuts 13%, skimmed milk powder 8.7%, fat-reduced cocoa 7.4%, emulsifier: lecithins (soya), vanillin.',
+    labels_tags: [],
+    created_t: 1457680652,
+    last_modified_t: 1697040000,
+  },
+  {
+    code: '5449000000996',
+    product_name: 'Coca-Cola',
+    brands: 'Coca-Cola',
+    categories_tags: ['en:beverages', 'en:carbonated-drinks', 'en:sodas', 'en:colas'],
+    quantity: '330 ml',
+    product_quantity: 330,
+    ecoscore_grade: 'd',
+    ecoscore_score: 32,
+    ecoscore_data: { agribalyse: { co2_total: 0.34 } },
+    packaging: 'Aluminium can',
+    packaging_tags: ['en:aluminium', 'en:can'],
+    packaging_recycling_tags: ['en:recycle'],
+    ingredients_text: 'Carbonated water, sugar, colour (caramel E150d), acid (phosphoric acid), natural flavourings including caffeine.',
+    labels_tags: [],
+    created_t: 1339154025,
+    last_modified_t: 1696000000,
+  },
+  {
+    code: '7394376616228',
+    product_name: 'Oat Drink',
+    brands: 'Oatly',
+    categories_tags: ['en:beverages', 'en:plant-based-foods', 'en:plant-based-milk-alternatives', 'en:oat-based-drinks'],
+    quantity: '1 l',
+    product_quantity: 1000,
+    ecoscore_grade: 'b',
+    ecoscore_score: 72,
+    ecoscore_data: { agribalyse: { co2_total: 0.42 } },
+    packaging: 'Carton',
+    packaging_tags: ['en:tetra-pak', 'en:carton'],
+    packaging_recycling_tags: ['en:recycle'],
+    ingredients_text: 'Oat base (water, oats 10%), rapeseed oil, calcium carbonate, vitamins (D2, riboflavin, B12), salt.',
+    labels_tags: ['en:vegan', 'en:no-milk'],
+    created_t: 1476260000,
+    last_modified_t: 1690000000,
+  },
+  {
+    code: '3274080005003',
+    product_name: 'Eau de source',
+    brands: 'Cristaline',
+    categories_tags: ['en:beverages', 'en:waters', 'en:spring-waters'],
+    quantity: '1.5 l',
+    product_quantity: 1500,
+    ecoscore_grade: 'c',
+    ecoscore_score: 55,
+    ecoscore_data: { agribalyse: { co2_total: 0.18 } },
+    packaging: 'PET bottle',
+    packaging_tags: ['en:pet-1-polyethylene-terephthalate', 'en:bottle'],
+    packaging_recycling_tags: ['en:recycle'],
+    ingredients_text: 'Natural spring water.',
+    labels_tags: [],
+    created_t: 1343000000,
+    last_modified_t: 1680000000,
+  },
+  {
+    code: '3229820129488',
+    product_name: 'Organic Muesli',
+    brands: 'Bjorg',
+    categories_tags: ['en:plant-based-foods', 'en:cereals-and-potatoes', 'en:breakfast-cereals', 'en:mueslis'],
+    quantity: '375 g',
+    product_quantity: 375,
+    ecoscore_grade: 'a',
+    ecoscore_score: 82,
+    ecoscore_data: { agribalyse: { co2_total: 1.35 } },
+    packaging: 'Cardboard box, Paper bag',
+    packaging_tags: ['en:cardboard', 'en:box', 'en:paper', 'en:bag'],
+    packaging_recycling_tags: ['en:recycle'],
+    ingredients_text: 'Oat flakes*, raisins* (raisins*, sunflower oil*), wheat flakes*, hazelnuts* 5%. *Organic ingredients',
+    labels_tags: ['en:organic', 'en:eu-organic', 'en:fair-trade'],
+    created_t: 1400000000,
+    last_modified_t: 1685000000,
+  },
+  {
+    code: '038000138416',
+    product_name: 'Corn Flakes',
+    brands: "Kellogg's",
+    categories_tags: ['en:plant-based-foods', 'en:cereals-and-potatoes', 'en:breakfast-cereals'],
+    quantity: '12 oz',
+    product_quantity: 340,
+    ecoscore_grade: 'c',
+    ecoscore_score: 51,
+    ecoscore_data: { agribalyse: { co2_total: 1.6 } },
+    packaging: 'Cardboard box, Plastic bag',
+    packaging_tags: ['en:cardboard', 'en:box', 'en:plastic', 'en:bag'],
+    packaging_recycling_tags: ['en:recycle', 'en:discard'],
+    ingredients_text: 'Milled corn, sugar, malt flavor, contains 2% or less of salt.',
+    labels_tags: [],
+    created_t: 1350000000,
+    last_modified_t: 1670000000,
+  },
+  {
+    code: '0049000028911',
+    product_name: 'Diet Coke',
+    brands: 'Coca-Cola',
+    categories_tags: ['en:beverages', 'en:carbonated-drinks', 'en:sodas', 'en:diet-sodas'],
+    quantity: '2 l',
+    product_quantity: 2000,
+    ecoscore_data: { agribalyse: { co2_total: 0.3 } },
+    packaging: 'Plastic bottle',
+    packaging_tags: ['en:plastic', 'en:bottle'],
+    ingredients_text: 'Carbonated water, caramel color, aspartame, phosphoric acid, potassium benzoate, natural flavors, citric acid, caffeine.',
+    labels_tags: [],
+    created_t: 1360000000,
+    last_modified_t: 1660000000,
+  },
+  {
+    code: '87157246',
+    product_name: 'Dark Chocolate 72%',
+    brands: 'Tony\'s Chocolonely',
+    categories_tags: ['en:snacks', 'en:sweet-snacks', 'en:cocoa-and-its-products', 'en:chocolates', 'en:dark-chocolates'],
+    quantity: '50 g',
+    product_quantity: 50,
+    ecoscore_grade: 'c',
+    ecoscore_score: 46,
+    ecoscore_data: { agribalyse: { co2_total: 6.8 } },
+    packaging: 'Paper wrapper',
+    packaging_tags: ['en:paper', 'en:wrapper'],
+    packaging_recycling_tags: ['en:recycle'],
+    ingredients_text: 'Cocoa mass, sugar, cocoa butter, emulsifier (soy lecithin). Cocoa solids: 72% minimum.',
+    labels_tags: ['en:fair-trade', 'en:fairtrade-international'],
+    created_t: 1500000000,
+    last_modified_t: 1675000000,
+  },
+];
@@ -0,0 +1,341 @@
+import { Product } from '../../contexts/products/ProductsContext';
+import { parseCsv } from '../footprint/exchange';
+import { normalizeProductCode } from '../scanner/barcode';
+import { scoreProduct } from '../sustainability/scoring';
+import { ProductDataSource } from './productDataSource';
+
+/**
+ * The subset of an Open Food Facts product record we map. Field names follow the
+ * Open Food Facts API and its JSONL/CSV data dumps.
+ */
+export interface OpenFoodFactsProduct {
+  code: string;
+  product_name?: string;
+  brands?: string;
+  categories_tags?: string[];
+  quantity?: string;
+  product_quantity?: number | string; // grams or milliliters
+  ecoscore_grade?: string;
+  ecoscore_score?: number | string;
+  ecoscore_data?: {
+    agribalyse?: {
+      co2_total?: number; // kg CO2e per kg of product
+    };
+  };
+  packaging?: string;
+  packaging_tags?: string[];
+  packaging_recycling_tags?: string[];
+  ingredients_text?: string;
+  ingredients?: Array<{ text: string }>;
+  labels_tags?: string[];
+  image_url?: string;
+  created_t?: number | string;
+  last_modified_t?: number | string;
+}
+
+export const OPEN_FOOD_FACTS_SOURCE = 'openfoodfacts';
+export const OPEN_FOOD_FACTS_ID_PREFIX = 'off_';
+
+const RECYCLABLE_MATERIALS = /glass|cardboard|paper|carton|alumin|metal|steel|\bpet\b|hdpe|plastic-bottle/;
+const BIODEGRADABLE_MATERIALS = /paper|cardboard|compostable|wood/;
+const NON_BIODEGRADABLE_MATERIALS = /plastic|\bpet\b|hdpe|pp\b|metal|alumin|glass|steel/;
+
+// Typical water footprint per kg by category when the dump has no water data (Mekonnen & Hoekstra)
+const WATER_PER_KG_BY_CATEGORY: Array<{ tag: string; liters: number }> = [
+  { tag: 'en:beef', liters: 15400 },
+  { tag: 'en:chocolate-spreads', liters: 10000 },
+  { tag: 'en:chocolates', liters: 17000 },
+  { tag: 'en:coffees', liters: 18900 },
+  { tag: 'en:cheeses', liters: 5000 },
+  { tag: 'en:rices', liters: 2500 },
+  { tag: 'en:breakfast-cereals', liters: 1600 },
+  { tag: 'en:breads', liters: 1600 },
+  { tag: 'en:milks', liters: 1000 },
+  { tag: 'en:plant-based-milk-alternatives', liters: 300 },
+  { tag: 'en:fruits', liters: 900 },
+  { tag: 'en:vegetables', liters: 300 },
+  { tag: 'en:sodas', liters: 200 },
+  { tag: 'en:waters', liters: 3 },
+];
+
+const BEVERAGE_TAGS = ['en:beverages', 'en:waters', 'en:sodas', 'en:plant-based-milk-alternatives'];
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const round = (value: number, decimals: number = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Turn an Open Food Facts tag such as `en:fair-trade` into a label such as `Fair Trade`
+ */
+export const humanizeTag = (tag: string): string => {
+  const name = tag.includes(':') ? tag.slice(tag.indexOf(':') + 1) : tag;
+  return name
+    .split('-')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const parseIngredients = (raw: OpenFoodFactsProduct): string[] => {
+  if (raw.ingredients && raw.ingredients.length > 0) {
+    return raw.ingredients.map(ingredient => ingredient.text.trim()).filter(Boolean);
+  }
+  if (!raw.ingredients_text) {
+    return [];
+  }
+  // Split on commas that are not inside parentheses
+  const ingredients: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of raw.ingredients_text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      ingredients.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  ingredients.push(current);
+  return ingredients.map(ingredient => ingredient.replace(/[._]+$/, '').trim()).filter(Boolean);
+};
+
+const describePackaging = (raw: OpenFoodFactsProduct): string => {
+  if (raw.packaging_tags && raw.packaging_tags.length > 0) {
+    return raw.packaging_tags.map(humanizeTag).join(', ');
+  }
+  return (raw.packaging || '').trim();
+};
+
+/**
+ * Water for the product from its category's typical footprint, or NaN when the category has no
+ * figure or the quantity is unknown, so it is left unscored rather than guessed
+ */
+const estimateWaterUsage = (raw: OpenFoodFactsProduct, grams: number | undefined): number => {
+  const tags = raw.categories_tags || [];
+  const match = WATER_PER_KG_BY_CATEGORY.find(entry => tags.includes(entry.tag));
+  if (!match || !grams || grams <= 0) {
+    return NaN;
+  }
+  return round(match.liters * (grams / 1000), 1);
+};
+
+/**
+ * Map an Open Food Facts record to our Product interface.
+ * Impact values are per product (using its net quantity). Carbon falls back to per kg when the quantity is
+ * unknown; water is left unknown then.
+ * Returns null for records without a usable barcode or name.
+ */
+export const mapOpenFoodFactsProduct = (raw: OpenFoodFactsProduct): Product | null => {
+  const code = (raw.code || '').trim();
+  const name = (raw.product_name || '').trim();
+  if (!/^\d{8,14}$/.test(code) || !name) {
+    return null;
+  }
+
+  const barcode = normalizeProductCode(code);
+  const grams = toNumber(raw.product_quantity);
+  const kilograms = grams && grams > 0 ? grams / 1000 : 1;
+  const co2PerKg = toNumber(raw.ecoscore_data?.agribalyse?.co2_total);
+
+  const packaging = describePackaging(raw);
+  const packagingText = [packaging, ...(raw.packaging_tags || [])].join(' ').toLowerCase();
+  const recyclable = (raw.packaging_recycling_tags || []).some(tag => tag.endsWith(':recycle'))
+    || RECYCLABLE_MATERIALS.test(packagingText);
+  const biodegradable = BIODEGRADABLE_MATERIALS.test(packagingText) && !NON_BIODEGRADABLE_MATERIALS.test(packagingText);
+
+  const categories = raw.categories_tags || [];
+  const category = categories.some(tag => BEVERAGE_TAGS.includes(tag)) ? 'Beverages' : 'Food';
+
+  const ecoScoreValue = toNumber(raw.ecoscore_score);
+  const ecoScoreGrade = (raw.ecoscore_grade || '').toLowerCase();
+  const hasEcoScore = /^[a-e]$/.test(ecoScoreGrade);
+
+  const createdAt = (toNumber(raw.created_t) || 0) * 1000;
+  const updatedAt = (toNumber(raw.last_modified_t) || 0) * 1000 || createdAt;
+
+  const product: Product = {
+    id: `${OPEN_FOOD_FACTS_ID_PREFIX}${barcode}`,
+    barcode,
+    name,
+    brand: (raw.brands || '').split(',')[0].trim(),
+    category,
+    sustainabilityScore: 0,
+    carbonFootprint: co2PerKg !== undefined ? round(co2PerKg * kilograms, 3) : NaN,
+    waterUsage: estimateWaterUsage(raw, grams),
+    recyclable,
+    biodegradable,
+    packaging,
+    ingredients: parseIngredients(raw),
+    certifications: (raw.labels_tags || []).map(humanizeTag),
+    imageUrl: raw.image_url,
+    ecoScore: hasEcoScore ? { grade: ecoScoreGrade, score: ecoScoreValue } : undefined,
+    dataSource: OPEN_FOOD_FACTS_SOURCE,
+    createdAt,
+    updatedAt,
+  };
+
+  const result = scoreProduct(product);
+  return {
+    ...product,
+    sustainabilityScore: result.score,
+    scoringVersion: result.version,
+  };
+};
+
+const TAG_COLUMNS = ['categories_tags', 'packaging_tags', 'packaging_recycling_tags', 'labels_tags'];
+
+/**
+ * Parse an Open Food Facts CSV export. The official dump is tab-separated;
+ * comma-separated files with quoted fields are accepted too.
+ */
+export const parseOpenFoodFactsCsv = (text: string): OpenFoodFactsProduct[] => {
+  // Quoted fields may span lines, so rows are only split by the parser
+  const delimiter = text.split(/\r?\n/, 1)[0].includes('\t') ? '\t' : ',';
+  const rows = parseCsv(text, delimiter);
+  if (rows.length < 2) {
+    return [];
+  }
+
+  const header = rows[0].map(column => column.trim());
+
+  return rows.slice(1).map(fields => {
+    const record: Record<string, unknown> = {};
+
+    header.forEach((column, index) => {
+      const value = (fields[index] || '').trim();
+      if (value === '') return;
+
+      if (TAG_COLUMNS.includes(column)) {
+        record[column] = value.split(',').map(tag => tag.trim()).filter(Boolean);
+      } else if (column === 'co2_total') {
+        record.ecoscore_data = { agribalyse: { co2_total: Number(value) } };
+      } else {
+        record[column] = value;
+      }
+    });
+
+    return record as unknown as OpenFoodFactsProduct;
+  });
+};
+
+// Fields are checked when the record is mapped, so any object will do here
+const isProductRecord = (value: unknown): value is OpenFoodFactsProduct & Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * The product records in a parsed API response, search response or array
+ */
+const recordsFrom = (value: unknown): OpenFoodFactsProduct[] => {
+  if (Array.isArray(value)) return value.filter(isProductRecord);
+  if (!isProductRecord(value)) return [];
+  if (Array.isArray(value.products)) return value.products.filter(isProductRecord);
+  if (isProductRecord(value.product)) {
+    // API responses keep the barcode next to the product
+    return [{ ...value.product, code: value.product.code ?? (typeof value.code === 'string' ? value.code : undefined) }];
+  }
+  if (typeof value.code === 'string') return [value];
+  return [];
+};
+
+/**
+ * Records in JSON or JSONL, counting JSONL lines that aren't valid JSON instead of failing on them
+ */
+const parseJsonRecords = (text: string): { records: OpenFoodFactsProduct[]; malformed: number } => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { records: [], malformed: 0 };
+  }
+
+  try {
+    return { records: recordsFrom(JSON.parse(trimmed)), malformed: 0 };
+  } catch {
+    // Not a single document, so a JSONL dump
+  }
+
+  const records: OpenFoodFactsProduct[] = [];
+  let malformed = 0;
+  trimmed
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .forEach(line => {
+      try {
+        records.push(...recordsFrom(JSON.parse(line)));
+      } catch {
+        malformed++;
+      }
+    });
+  return { records, malformed };
+};
+
+/**
+ * Parse Open Food Facts JSON: a single API response (`{ product }`), a search
+ * response (`{ products: [] }`), an array of products, or a JSONL dump.
+ * Malformed JSONL lines are skipped.
+ */
+export const parseOpenFoodFactsJson = (text: string): OpenFoodFactsProduct[] => {
+  return parseJsonRecords(text).records;
+};
+
+export interface ImportResult {
+  products: Product[];
+  skipped: number;
+}
+
+/**
+ * Parse and map an Open Food Facts dump, reporting how many records could not be used
+ */
+export const importOpenFoodFactsDump = (text: string, format: 'json' | 'csv'): ImportResult => {
+  const { records, malformed } = format === 'csv' ? { records: parseOpenFoodFactsCsv(text), malformed: 0 } : parseJsonRecords(text);
+  const products: Product[] = [];
+
+  records.forEach(record => {
+    const product = mapOpenFoodFactsProduct(record);
+    if (product) {
+      products.push(product);
+    }
+  });
+
+  return { products, skipped: records.length - products.length + malformed };
+};
+
+/**
+ * Product source backed by a set of Open Food Facts records held in memory
+ */
+export class OpenFoodFactsDataset implements ProductDataSource {
+  readonly name = OPEN_FOOD_FACTS_SOURCE;
+  private readonly byBarcode = new Map<string, Product>();
+
+  constructor(records: OpenFoodFactsProduct[]) {
+    records.forEach(record => {
+      const product = mapOpenFoodFactsProduct(record);
+      if (product) {
+        this.byBarcode.set(product.barcode, product);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.byBarcode.size;
+  }
+
+  async getProductByBarcode(barcode: string): Promise<Product | null> {
+    return this.byBarcode.get(normalizeProductCode(barcode)) || null;
+  }
+
+  async getProductById(id: string): Promise<Product | null> {
+    if (!id.startsWith(OPEN_FOOD_FACTS_ID_PREFIX)) {
+      return null;
+    }
+    return this.getProductByBarcode(id.slice(OPEN_FOOD_FACTS_ID_PREFIX.length));
+  }
+}
@@ -0,0 +1,50 @@
+import { Product } from '../../contexts/products/ProductsContext';
+
+/**
+ * A read-only source of product data consulted when a barcode is not in our own database
+ */
+export interface ProductDataSource {
+  name: string;
+  getProductByBarcode: (barcode: string) => Promise<Product | null>;
+  getProductById: (id: string) => Promise<Product | null>;
+}
+
+/**
+ * Ask each source in turn and return the first match
+ */
+export const lookupBarcodeInSources = async (
+  sources: ProductDataSource[],
+  barcode: string
+): Promise<Product | null> => {
+  for (const source of sources) {
+    try {
+      const product = await source.getProductByBarcode(barcode);
+      if (product) {
+        return product;
+      }
+    } catch (error) {
+      console.error(`Error looking up barcode in ${source.name}:`, error);
+    }
+  }
+  return null;
+};
+
+/**
+ * Ask each source in turn for a product it previously returned
+ */
+export const lookupIdInSources = async (
+  sources: ProductDataSource[],
+  id: string
+): Promise<Product | null> => {
+  for (const source of sources) {
+    try {
+      const product = await source.getProductById(id);
+      if (product) {
+        return product;
+      }
+    } catch (error) {
+      console.error(`Error looking up product in ${source.name}:`, error);
+    }
+  }
+  return null;
+};
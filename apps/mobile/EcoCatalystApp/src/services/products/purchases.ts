@@ -0,0 +1,54 @@
+import { AlternativeProduct, Product, ProductScan } from '../../contexts/products/ProductsContext';
+import { CarbonFootprintEntry } from '../../contexts/footprint/FootprintContext';
+
+export type PurchaseEntry = Omit<CarbonFootprintEntry, 'id' | 'userId' | 'timestamp'>;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Whether a product has the impact data a purchase entry needs
+ */
+export const hasPurchaseFootprint = (product: Product): boolean => {
+  return Number.isFinite(product.carbonFootprint) && product.carbonFootprint >= 0;
+};
+
+/**
+ * The 'products' footprint entry for buying `quantity` of a product.
+ * Product impact values are per item, so they scale with the quantity. Water is left out when unknown.
+ */
+export const purchaseEntry = (product: Product, quantity: number, date: string, scanId?: string): PurchaseEntry => ({
+  date,
+  category: 'products',
+  activityType: 'purchase',
+  carbonAmount: round(product.carbonFootprint * quantity),
+  ...(Number.isFinite(product.waterUsage) && product.waterUsage >= 0
+    ? { waterUsage: Math.round(product.waterUsage * quantity * 10) / 10 }
+    : {}),
+  quantity,
+  unit: 'item',
+  description: product.brand ? `${product.name} (${product.brand})` : product.name,
+  productId: product.id,
+  ...(scanId ? { scanId } : {}),
+});
+
+/**
+ * Products scanned before a purchase whose alternatives could include the purchased product,
+ * most recent first and without repeats
+ */
+export const previouslyScannedProductIds = (scans: ProductScan[], productId: string, before: number): string[] => {
+  const ids = scans
+    .filter(scan => scan.productId !== productId && scan.timestamp <= before)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(scan => scan.productId);
+  return Array.from(new Set(ids));
+};
+
+/**
+ * The alternative listing the purchased product replaced, if any
+ */
+export const findReplacedAlternative = (
+  productId: string,
+  alternatives: AlternativeProduct[]
+): AlternativeProduct | null => {
+  return alternatives.find(alternative => alternative.alternativeProductId === productId) || null;
+};
@@ -0,0 +1,113 @@
+import { InMemoryDatabase, createInMemoryBackend } from '../inMemoryRepositories';
+import { paths } from '../paths';
+import { Outbox, KeyValueStorage } from '../../sync/outbox';
+import { SyncEngine } from '../../sync/syncEngine';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const createMemoryStorage = (): KeyValueStorage => {
+  const data: Record<string, string> = {};
+  return {
+    getItem: async (key) => (key in data ? data[key] : null),
+    setItem: async (key, value) => {
+      data[key] = value;
+    },
+  };
+};
+
+describe('InMemoryDatabase', () => {
+  it('reads and writes nested paths', async () => {
+    const db = new InMemoryDatabase({ products: { p1: { name: 'Bottle' } } });
+    expect(await db.get('products/p1/name')).toBe('Bottle');
+
+    await db.set('footprints/u1/e1', { carbonAmount: 2 });
+    expect(await db.get('footprints/u1')).toEqual({ e1: { carbonAmount: 2 } });
+
+    await db.remove('footprints/u1/e1');
+    expect(await db.get('footprints/u1/e1')).toBeNull();
+  });
+
+  it('notifies listeners of writes at, above or below their path', async () => {
+    const db = new InMemoryDatabase();
+    const values: any[] = [];
+    const unsubscribe = db.subscribe('userStats/u1', value => values.push(value));
+
+    await db.set('userStats/u1', { totalPoints: 10 });
+    await db.set('userStats/u1/level', 2 as any);
+    await db.set('userStats/u2', { totalPoints: 5 });
+    unsubscribe();
+    await db.remove('userStats');
+
+    expect(values).toEqual([null, { totalPoints: 10 }, { totalPoints: 10, level: 2 }]);
+  });
+
+  it('creates unique keys', () => {
+    const db = new InMemoryDatabase();
+    expect(db.createKey('footprints/u1')).not.toBe(db.createKey('footprints/u1'));
+  });
+});
+
+describe('in-memory repositories', () => {
+  it('find products by id and barcode and list alternatives', async () => {
+    const backend = createInMemoryBackend({
+      products: {
+        p1: { name: 'Bottle', barcode: '123456789012' },
+        p2: { name: 'Steel Bottle', barcode: '4006381333931' },
+      },
+      alternatives: { p1: { a1: { alternativeProductId: 'p2', sustainabilityImprovement: 40 } } },
+    });
+
+    expect((await backend.products.findByBarcode('4006381333931'))!.id).toBe('p2');
+    expect((await backend.products.findById('p1'))!.name).toBe('Bottle');
+    expect(await backend.products.findById('missing')).toBeNull();
+    expect(await backend.products.getAlternatives('p1')).toEqual([
+      { id: 'a1', alternativeProductId: 'p2', sustainabilityImprovement: 40 },
+    ]);
+  });
+
+  it('applies the same filters as the database queries', async () => {
+    const backend = createInMemoryBackend({
+      mealEntries: { u1: { old: { date: '2024-01-01' }, recent: { date: '2024-03-01' } } },
+      dietChatMessages: { u1: { t1: { a: { timestamp: 1 }, b: { timestamp: 3 }, c: { timestamp: 2 } } } },
+      userStats: { u1: { totalPoints: 50 }, u2: { totalPoints: 120, displayName: 'Sam' }, u3: { totalPoints: 10 } },
+    });
+
+    let meals: any = null;
+    let chat: any = null;
+    backend.diet.subscribeToMeals('u1', '2024-02-01', value => {
+      meals = value;
+    });
+    backend.diet.subscribeToChatMessages('u1', 't1', 2, value => {
+      chat = value;
+    });
+
+    expect(Object.keys(meals)).toEqual(['recent']);
+    expect(Object.keys(chat).sort()).toEqual(['b', 'c']);
+
+    const leaderboard = await backend.gamification.getLeaderboard(2);
+    expect(leaderboard.map(entry => entry.userId)).toEqual(['u2', 'u1']);
+    expect(leaderboard[0].displayName).toBe('Sam');
+  });
+
+  it('receives writes uploaded by the sync engine', async () => {
+    const backend = createInMemoryBackend();
+    const outbox = new Outbox(createMemoryStorage());
+    const engine = new SyncEngine({ outbox, remote: backend.remote });
+    engine.setUser('u1');
+
+    let entries: any = null;
+    const unsubscribe = backend.footprint.subscribeToEntries('u1', value => {
+      entries = value;
+    });
+
+    const id = backend.remote.createKey(paths.footprints('u1'));
+    await outbox.enqueue({ type: 'set', path: `${paths.footprints('u1')}/${id}`, data: { carbonAmount: 4 }, userId: 'u1' });
+    await engine.flush();
+    engine.stop();
+    unsubscribe();
+
+    expect(entries).toEqual({ [id]: { carbonAmount: 4 } });
+  });
+});
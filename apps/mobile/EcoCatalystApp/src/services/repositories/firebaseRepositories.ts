@@ -0,0 +1,116 @@
+import { Product } from '../../contexts/products/ProductsContext';
+import { database } from '../firebase';
+import { ref, onValue, get, query, orderByChild, limitToLast, equalTo, startAt } from 'firebase/database';
+import { firebaseRemoteStore } from '../sync/remoteStore';
+import { paths } from './paths';
+import { firstRecord, toList, toLeaderboardEntries } from './mappers';
+import {
+  DataBackend,
+  DietRepository,
+  FootprintRepository,
+  GamificationRepository,
+  ProductRepository,
+} from './types';
+
+export const firebaseProductRepository: ProductRepository = {
+  subscribeToProducts: (onChange, onError) => {
+    return onValue(ref(database, paths.products()), snapshot => onChange(snapshot.val()), onError);
+  },
+  findById: async (productId) => {
+    const snapshot = await get(ref(database, paths.product(productId)));
+    const data = snapshot.val();
+    return data ? { id: productId, ...data } : null;
+  },
+  findByBarcode: async (barcode) => {
+    const snapshot = await get(query(ref(database, paths.products()), orderByChild('barcode'), equalTo(barcode)));
+    return firstRecord<Product>(snapshot.val());
+  },
+  getAlternatives: async (productId) => {
+    const snapshot = await get(ref(database, paths.alternatives(productId)));
+    return toList(snapshot.val());
+  },
+  subscribeToRecentScans: (userId, limit, onChange) => {
+    const scansQuery = query(ref(database, paths.userScans(userId)), orderByChild('timestamp'), limitToLast(limit));
+    return onValue(scansQuery, snapshot => onChange(snapshot.val()), error => console.error('Error fetching user scans:', error));
+  },
+};
+
+export const firebaseFootprintRepository: FootprintRepository = {
+  subscribeToEntries: (userId, onChange, onError) => {
+    return onValue(ref(database, paths.footprints(userId)), snapshot => onChange(snapshot.val()), onError);
+  },
+  subscribeToGoals: (userId, onChange, onError) => {
+    return onValue(ref(database, paths.footprintGoals(userId)), snapshot => onChange(snapshot.val()), onError);
+  },
+  subscribeToSeries: (userId, onChange, onError) => {
+    return onValue(ref(database, paths.footprintSeries(userId)), snapshot => onChange(snapshot.val()), onError);
+  },
+  subscribeToTemplates: (userId, onChange, onError) => {
+    return onValue(ref(database, paths.activityTemplates(userId)), snapshot => onChange(snapshot.val()), onError);
+  },
+};
+
+export const firebaseDietRepository: DietRepository = {
+  subscribeToPlans: (userId, fromDate, onChange) => {
+    const plansQuery = query(ref(database, paths.dietPlans(userId)), orderByChild('endDate'), startAt(fromDate));
+    return onValue(plansQuery, snapshot => onChange(snapshot.val()), error => console.error('Error fetching diet plan:', error));
+  },
+  subscribeToMeals: (userId, fromDate, onChange) => {
+    const mealsQuery = query(ref(database, paths.mealEntries(userId)), orderByChild('date'), startAt(fromDate));
+    return onValue(mealsQuery, snapshot => onChange(snapshot.val()), error => console.error('Error fetching meal entries:', error));
+  },
+  subscribeToChatThreads: (userId, onChange) => {
+    return onValue(
+      ref(database, paths.dietChatThreads(userId)),
+      snapshot => onChange(snapshot.val()),
+      error => console.error('Error fetching chat threads:', error)
+    );
+  },
+  subscribeToChatMessages: (userId, threadId, limit, onChange) => {
+    const chatQuery = query(ref(database, paths.dietChatMessages(userId, threadId)), orderByChild('timestamp'), limitToLast(limit));
+    return onValue(chatQuery, snapshot => onChange(snapshot.val()), error => console.error('Error fetching chat history:', error));
+  },
+  getLegacyChat: async (userId) => {
+    const snapshot = await get(ref(database, paths.dietChat(userId)));
+    return snapshot.val();
+  },
+  subscribeToProfile: (userId, onChange) => {
+    return onValue(
+      ref(database, paths.dietProfile(userId)),
+      snapshot => onChange(snapshot.val()),
+      error => console.error('Error fetching diet profile:', error)
+    );
+  },
+};
+
+export const firebaseGamificationRepository: GamificationRepository = {
+  subscribeToAchievements: (onChange, onError) => {
+    return onValue(ref(database, paths.achievements()), snapshot => onChange(snapshot.val()), onError);
+  },
+  subscribeToUserAchievements: (userId, onChange) => {
+    return onValue(
+      ref(database, paths.userAchievements(userId)),
+      snapshot => onChange(snapshot.val()),
+      error => console.error('Error fetching user achievements:', error)
+    );
+  },
+  subscribeToUserStats: (userId, onChange) => {
+    return onValue(
+      ref(database, paths.userStats(userId)),
+      snapshot => onChange(snapshot.val()),
+      error => console.error('Error fetching user stats:', error)
+    );
+  },
+  getLeaderboard: async (limit) => {
+    const snapshot = await get(query(ref(database, paths.allUserStats()), orderByChild('totalPoints'), limitToLast(limit)));
+    return toLeaderboardEntries(snapshot.val());
+  },
+};
+
+export const firebaseBackend: DataBackend = {
+  remote: firebaseRemoteStore,
+  products: firebaseProductRepository,
+  footprint: firebaseFootprintRepository,
+  diet: firebaseDietRepository,
+  gamification: firebaseGamificationRepository,
+};
@@ -0,0 +1,194 @@
+import { Product } from '../../contexts/products/ProductsContext';
+import { RemoteStore } from '../sync/remoteStore';
+import { paths } from './paths';
+import { firstRecord, toList, toLeaderboardEntries } from './mappers';
+import {
+  DataBackend,
+  DietRepository,
+  FootprintRepository,
+  GamificationRepository,
+  ProductRepository,
+  Unsubscribe,
+} from './types';
+
+type ValueListener = (value: any) => void;
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+const clone = <T>(value: T): T => (value === undefined || value === null ? value : JSON.parse(JSON.stringify(value)));
+
+const isRelated = (a: string, b: string): boolean => {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+};
+
+/**
+ * A JSON tree held in memory that behaves like the realtime database:
+ * path-based reads and writes, and listeners notified when anything under their path changes.
+ */
+export class InMemoryDatabase implements RemoteStore {
+  private root: Record<string, any> = {};
+  private listeners: Array<{ path: string; listener: ValueListener }> = [];
+  private keyCounter = 0;
+
+  constructor(seed: Record<string, any> = {}) {
+    this.root = clone(seed);
+  }
+
+  read(path: string): any {
+    let node: any = this.root;
+    for (const segment of splitPath(path)) {
+      if (node === null || typeof node !== 'object' || !(segment in node)) {
+        return null;
+      }
+      node = node[segment];
+    }
+    return clone(node);
+  }
+
+  async get(path: string): Promise<any> {
+    return this.read(path);
+  }
+
+  async set(path: string, data: Record<string, any>): Promise<void> {
+    this.write(path, clone(data));
+  }
+
+  async remove(path: string): Promise<void> {
+    this.write(path, null);
+  }
+
+  createKey(_path: string): string {
+    this.keyCounter += 1;
+    return `mem_${Date.now().toString(36)}_${String(this.keyCounter).padStart(6, '0')}`;
+  }
+
+  subscribe(path: string, listener: ValueListener): Unsubscribe {
+    const entry = { path, listener };
+    this.listeners.push(entry);
+    listener(this.read(path));
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== entry);
+    };
+  }
+
+  private write(path: string, value: any) {
+    const segments = splitPath(path);
+    if (segments.length === 0) {
+      this.root = value || {};
+    } else {
+      let node = this.root;
+      segments.slice(0, -1).forEach(segment => {
+        if (node[segment] === null || typeof node[segment] !== 'object') {
+          node[segment] = {};
+        }
+        node = node[segment];
+      });
+
+      const last = segments[segments.length - 1];
+      if (value === null) {
+        delete node[last];
+      } else {
+        node[last] = value;
+      }
+    }
+
+    this.listeners
+      .filter(entry => isRelated(entry.path, path))
+      .forEach(entry => entry.listener(this.read(entry.path)));
+  }
+}
+
+/**
+ * Keep records whose `child` field is at least `from`, like orderByChild(child) + startAt(from)
+ */
+const startingAt = (data: Record<string, any> | null, child: string, from: string | number): Record<string, any> | null => {
+  if (!data) return null;
+  const filtered: Record<string, any> = {};
+  Object.keys(data).forEach(key => {
+    if (data[key] && data[key][child] >= from) {
+      filtered[key] = data[key];
+    }
+  });
+  return Object.keys(filtered).length > 0 ? filtered : null;
+};
+
+/**
+ * Keep the `limit` records with the highest `child` value, like orderByChild(child) + limitToLast(limit)
+ */
+const lastBy = (data: Record<string, any> | null, child: string, limit: number): Record<string, any> | null => {
+  if (!data) return null;
+  const keys = Object.keys(data)
+    .sort((a, b) => (data[a][child] || 0) - (data[b][child] || 0))
+    .slice(-limit);
+  const limited: Record<string, any> = {};
+  keys.forEach(key => {
+    limited[key] = data[key];
+  });
+  return keys.length > 0 ? limited : null;
+};
+
+export const createInMemoryProductRepository = (db: InMemoryDatabase): ProductRepository => ({
+  subscribeToProducts: (onChange) => db.subscribe(paths.products(), onChange),
+  findById: async (productId) => {
+    const data = db.read(paths.product(productId));
+    return data ? { id: productId, ...data } : null;
+  },
+  findByBarcode: async (barcode) => {
+    const products = db.read(paths.products()) || {};
+    const matches: Record<string, any> = {};
+    Object.keys(products).forEach(key => {
+      if (products[key].barcode === barcode) {
+        matches[key] = products[key];
+      }
+    });
+    return firstRecord<Product>(matches);
+  },
+  getAlternatives: async (productId) => toList(db.read(paths.alternatives(productId))),
+  subscribeToRecentScans: (userId, limit, onChange) => {
+    return db.subscribe(paths.userScans(userId), data => onChange(lastBy(data, 'timestamp', limit)));
+  },
+});
+
+export const createInMemoryFootprintRepository = (db: InMemoryDatabase): FootprintRepository => ({
+  subscribeToEntries: (userId, onChange) => db.subscribe(paths.footprints(userId), onChange),
+  subscribeToGoals: (userId, onChange) => db.subscribe(paths.footprintGoals(userId), onChange),
+  subscribeToSeries: (userId, onChange) => db.subscribe(paths.footprintSeries(userId), onChange),
+  subscribeToTemplates: (userId, onChange) => db.subscribe(paths.activityTemplates(userId), onChange),
+});
+
+export const createInMemoryDietRepository = (db: InMemoryDatabase): DietRepository => ({
+  subscribeToPlans: (userId, fromDate, onChange) => {
+    return db.subscribe(paths.dietPlans(userId), data => onChange(startingAt(data, 'endDate', fromDate)));
+  },
+  subscribeToMeals: (userId, fromDate, onChange) => {
+    return db.subscribe(paths.mealEntries(userId), data => onChange(startingAt(data, 'date', fromDate)));
+  },
+  subscribeToChatThreads: (userId, onChange) => db.subscribe(paths.dietChatThreads(userId), onChange),
+  subscribeToChatMessages: (userId, threadId, limit, onChange) => {
+    return db.subscribe(paths.dietChatMessages(userId, threadId), data => onChange(lastBy(data, 'timestamp', limit)));
+  },
+  getLegacyChat: async (userId) => db.read(paths.dietChat(userId)),
+  subscribeToProfile: (userId, onChange) => db.subscribe(paths.dietProfile(userId), onChange),
+});
+
+export const createInMemoryGamificationRepository = (db: InMemoryDatabase): GamificationRepository => ({
+  subscribeToAchievements: (onChange) => db.subscribe(paths.achievements(), onChange),
+  subscribeToUserAchievements: (userId, onChange) => db.subscribe(paths.userAchievements(userId), onChange),
+  subscribeToUserStats: (userId, onChange) => db.subscribe(paths.userStats(userId), onChange),
+  getLeaderboard: async (limit) => toLeaderboardEntries(lastBy(db.read(paths.allUserStats()), 'totalPoints', limit)),
+});
+
+/**
+ * A complete backend with no server, for tests and local development
+ */
+export const createInMemoryBackend = (seed: Record<string, any> = {}): DataBackend & { database: InMemoryDatabase } => {
+  const db = new InMemoryDatabase(seed);
+  return {
+    database: db,
+    remote: db,
+    products: createInMemoryProductRepository(db),
+    footprint: createInMemoryFootprintRepository(db),
+    diet: createInMemoryDietRepository(db),
+    gamification: createInMemoryGamificationRepository(db),
+  };
+};
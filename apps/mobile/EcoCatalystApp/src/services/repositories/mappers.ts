@@ -0,0 +1,37 @@
+import { LeaderboardEntry } from '../../contexts/gamification/GamificationContext';
+
+/**
+ * Turn the first record of a keyed query result into an object with its id
+ */
+export const firstRecord = <T extends { id: string }>(data: Record<string, any> | null): T | null => {
+  if (!data) return null;
+  const keys = Object.keys(data);
+  if (keys.length === 0) return null;
+  return { id: keys[0], ...data[keys[0]] } as T;
+};
+
+/**
+ * Turn keyed records into a list with ids
+ */
+export const toList = <T extends { id: string }>(data: Record<string, any> | null): T[] => {
+  if (!data) return [];
+  return Object.keys(data).map(key => ({ id: key, ...data[key] }) as T);
+};
+
+/**
+ * Build leaderboard entries, highest score first, from the `userStats` records
+ */
+export const toLeaderboardEntries = (data: Record<string, any> | null): LeaderboardEntry[] => {
+  if (!data) return [];
+
+  const entries = Object.keys(data).map(key => ({
+    userId: key,
+    displayName: data[key].displayName || 'Anonymous',
+    photoURL: data[key].photoURL,
+    totalPoints: data[key].totalPoints || 0,
+    level: data[key].level || 1
+  }));
+
+  entries.sort((a, b) => b.totalPoints - a.totalPoints);
+  return entries;
+};
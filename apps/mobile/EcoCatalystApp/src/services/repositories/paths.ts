@@ -0,0 +1,23 @@
+/**
+ * Database paths shared by the repositories and the sync outbox
+ */
+export const paths = {
+  products: () => 'products',
+  product: (productId: string) => `products/${productId}`,
+  alternatives: (productId: string) => `alternatives/${productId}`,
+  userScans: (userId: string) => `userScans/${userId}`,
+  footprints: (userId: string) => `footprints/${userId}`,
+  footprintGoals: (userId: string) => `footprintGoals/${userId}`,
+  footprintSeries: (userId: string) => `footprintSeries/${userId}`,
+  activityTemplates: (userId: string) => `activityTemplates/${userId}`,
+  dietPlans: (userId: string) => `dietPlans/${userId}`,
+  mealEntries: (userId: string) => `mealEntries/${userId}`,
+  dietChat: (userId: string) => `dietChat/${userId}`, // messages saved before chats had threads
+  dietChatThreads: (userId: string) => `dietChatThreads/${userId}`,
+  dietChatMessages: (userId: string, threadId: string) => `dietChatMessages/${userId}/${threadId}`,
+  dietProfile: (userId: string) => `dietProfile/${userId}`,
+  achievements: () => 'achievements',
+  userAchievements: (userId: string) => `userAchievements/${userId}`,
+  allUserStats: () => 'userStats',
+  userStats: (userId: string) => `userStats/${userId}`,
+};
@@ -0,0 +1,87 @@
+import { Product, ProductScan, AlternativeProduct } from '../../contexts/products/ProductsContext';
+import { CarbonFootprintEntry } from '../../contexts/footprint/FootprintContext';
+import { CarbonGoal } from '../footprint/goals';
+import { ActivityTemplate, FootprintSeries } from '../footprint/recurrence';
+import { DietPlan, MealEntry, ChatMessage, ChatThread, DietProfileItem } from '../../contexts/diet/DietContext';
+import { Achievement, UserAchievement, UserStats, LeaderboardEntry } from '../../contexts/gamification/GamificationContext';
+import { RemoteStore } from '../sync/remoteStore';
+
+export type Unsubscribe = () => void;
+
+/**
+ * Records keyed by id, as stored in the database (the id is the key, not a field)
+ */
+export type RecordMap<T extends { id: string }> = Record<string, Omit<T, 'id'>>;
+
+export type ErrorListener = (error: Error) => void;
+
+export interface ProductRepository {
+  subscribeToProducts: (onChange: (products: RecordMap<Product> | null) => void, onError?: ErrorListener) => Unsubscribe;
+  findById: (productId: string) => Promise<Product | null>;
+  findByBarcode: (barcode: string) => Promise<Product | null>;
+  getAlternatives: (productId: string) => Promise<AlternativeProduct[]>;
+  subscribeToRecentScans: (
+    userId: string,
+    limit: number,
+    onChange: (scans: RecordMap<ProductScan> | null) => void
+  ) => Unsubscribe;
+}
+
+export interface FootprintRepository {
+  subscribeToEntries: (
+    userId: string,
+    onChange: (entries: RecordMap<CarbonFootprintEntry> | null) => void,
+    onError?: ErrorListener
+  ) => Unsubscribe;
+  subscribeToGoals: (
+    userId: string,
+    onChange: (goals: RecordMap<CarbonGoal> | null) => void,
+    onError?: ErrorListener
+  ) => Unsubscribe;
+  subscribeToSeries: (
+    userId: string,
+    onChange: (series: RecordMap<FootprintSeries> | null) => void,
+    onError?: ErrorListener
+  ) => Unsubscribe;
+  subscribeToTemplates: (
+    userId: string,
+    onChange: (templates: RecordMap<ActivityTemplate> | null) => void,
+    onError?: ErrorListener
+  ) => Unsubscribe;
+}
+
+export interface DietRepository {
+  /** Plans whose end date is on or after `fromDate` (YYYY-MM-DD) */
+  subscribeToPlans: (userId: string, fromDate: string, onChange: (plans: RecordMap<DietPlan> | null) => void) => Unsubscribe;
+  /** Meals dated on or after `fromDate` (YYYY-MM-DD) */
+  subscribeToMeals: (userId: string, fromDate: string, onChange: (meals: RecordMap<MealEntry> | null) => void) => Unsubscribe;
+  subscribeToChatThreads: (userId: string, onChange: (threads: RecordMap<ChatThread> | null) => void) => Unsubscribe;
+  /** The newest `limit` messages of a thread; a larger limit loads older ones */
+  subscribeToChatMessages: (
+    userId: string,
+    threadId: string,
+    limit: number,
+    onChange: (messages: RecordMap<ChatMessage> | null) => void
+  ) => Unsubscribe;
+  /** Messages saved before chats had threads, so they can be moved into one */
+  getLegacyChat: (userId: string) => Promise<RecordMap<ChatMessage> | null>;
+  subscribeToProfile: (userId: string, onChange: (items: RecordMap<DietProfileItem> | null) => void) => Unsubscribe;
+}
+
+export interface GamificationRepository {
+  subscribeToAchievements: (onChange: (achievements: RecordMap<Achievement> | null) => void, onError?: ErrorListener) => Unsubscribe;
+  subscribeToUserAchievements: (userId: string, onChange: (achievements: RecordMap<UserAchievement> | null) => void) => Unsubscribe;
+  subscribeToUserStats: (userId: string, onChange: (stats: Omit<UserStats, 'id'> | null) => void) => Unsubscribe;
+  getLeaderboard: (limit: number) => Promise<LeaderboardEntry[]>;
+}
+
+/**
+ * Everything the providers need from a backend: typed reads plus the store the sync engine writes to
+ */
+export interface DataBackend {
+  remote: RemoteStore;
+  products: ProductRepository;
+  footprint: FootprintRepository;
+  diet: DietRepository;
+  gamification: GamificationRepository;
+}
@@ -0,0 +1,143 @@
+import { computeCheckDigit, expandUpcE, isValidGtin, normalizeBarcode } from '../barcode';
+import { LuminanceImage, decodeLinearBarcode } from '../linearDecoder';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const R_CODES = L_CODES.map(code => code.split('').map(bit => (bit === '0' ? '1' : '0')).join(''));
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLL', 'LGLGGL', 'LGGLGL'];
+
+const encodeEan13 = (code: string): string => {
+  const parity = EAN13_PARITY[Number(code[0])];
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    modules += parity[i - 1] === 'L' ? L_CODES[Number(code[i])] : G_CODES[Number(code[i])];
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) {
+    modules += R_CODES[Number(code[i])];
+  }
+  return `${modules}101`;
+};
+
+const encodeEan8 = (code: string): string => {
+  let modules = '101';
+  for (let i = 0; i < 4; i++) modules += L_CODES[Number(code[i])];
+  modules += '01010';
+  for (let i = 4; i < 8; i++) modules += R_CODES[Number(code[i])];
+  return `${modules}101`;
+};
+
+/**
+ * Render a module string into a grayscale image with quiet zones and some noise
+ */
+const renderModules = (modules: string, moduleWidth = 3, height = 20): LuminanceImage => {
+  const quiet = 12 * moduleWidth;
+  const width = modules.length * moduleWidth + quiet * 2;
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const moduleIndex = Math.floor((x - quiet) / moduleWidth);
+      const dark = x >= quiet && moduleIndex < modules.length && modules[moduleIndex] === '1';
+      const noise = (x * 7 + y * 13) % 20;
+      data[y * width + x] = dark ? 20 + noise : 220 + noise;
+    }
+  }
+
+  return { width, height, data };
+};
+
+const flipHorizontally = (image: LuminanceImage): LuminanceImage => {
+  const data = new Uint8Array(image.data.length);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      data[y * image.width + x] = image.data[y * image.width + (image.width - 1 - x)];
+    }
+  }
+  return { ...image, data };
+};
+
+describe('barcode validation', () => {
+  it('computes GS1 check digits', () => {
+    expect(computeCheckDigit('400638133393')).toBe(1);
+    expect(computeCheckDigit('03600029145')).toBe(2);
+    expect(computeCheckDigit('9638507')).toBe(4);
+  });
+
+  it('validates GTIN lengths and check digits', () => {
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('12345')).toBe(false);
+    expect(isValidGtin('40063813339a1')).toBe(false);
+  });
+
+  it('expands UPC-E codes to UPC-A', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264');
+    expect(expandUpcE('01234565')).toBe('012345000065');
+    expect(expandUpcE('04252615')).toBeNull();
+  });
+
+  it('normalizes EAN-13 codes with a leading zero to UPC-A', () => {
+    expect(normalizeBarcode({ type: 'ean13', data: '0036000291452' })).toEqual({
+      format: 'upc_a',
+      value: '036000291452',
+      raw: '0036000291452',
+    });
+  });
+
+  it('accepts platform type names', () => {
+    expect(normalizeBarcode({ type: 'org.gs1.EAN-13', data: '4006381333931' })?.value).toBe('4006381333931');
+    expect(normalizeBarcode({ type: 'upc_e', data: '04252614' })?.value).toBe('042100005264');
+  });
+
+  it('rejects codes with a wrong check digit or length', () => {
+    expect(normalizeBarcode({ type: 'ean13', data: '4006381333932' })).toBeNull();
+    expect(normalizeBarcode({ type: 'ean8', data: '4006381333931' })).toBeNull();
+    expect(normalizeBarcode({ type: 'code128', data: '4006381333931' })).toBeNull();
+  });
+
+  it('extracts GTINs from QR payloads', () => {
+    expect(normalizeBarcode({ type: 'qr', data: 'https://id.gs1.org/01/04006381333931/10/ABC' })).toEqual({
+      format: 'qr',
+      value: '4006381333931',
+      raw: 'https://id.gs1.org/01/04006381333931/10/ABC',
+    });
+    expect(normalizeBarcode({ type: 'qr', data: '96385074' })?.value).toBe('96385074');
+    expect(normalizeBarcode({ type: 'qr', data: 'https://example.com/promo' })).toBeNull();
+  });
+});
+
+describe('decodeLinearBarcode', () => {
+  it('decodes an EAN-13 still image', () => {
+    const image = renderModules(encodeEan13('4006381333931'));
+    expect(decodeLinearBarcode(image)).toEqual({ type: 'ean13', data: '4006381333931' });
+  });
+
+  it('reports EAN-13 codes starting with zero as UPC-A', () => {
+    const image = renderModules(encodeEan13('0036000291452'), 2);
+    expect(decodeLinearBarcode(image)).toEqual({ type: 'upc_a', data: '036000291452' });
+  });
+
+  it('decodes an EAN-8 still image', () => {
+    const image = renderModules(encodeEan8('96385074'));
+    expect(decodeLinearBarcode(image)).toEqual({ type: 'ean8', data: '96385074' });
+  });
+
+  it('decodes a barcode held upside down', () => {
+    const image = flipHorizontally(renderModules(encodeEan13('4006381333931')));
+    expect(decodeLinearBarcode(image)).toEqual({ type: 'ean13', data: '4006381333931' });
+  });
+
+  it('returns null for an image without a barcode', () => {
+    const width = 200;
+    const height = 10;
+    const data = new Uint8Array(width * height).fill(200);
+    expect(decodeLinearBarcode({ width, height, data })).toBeNull();
+  });
+});
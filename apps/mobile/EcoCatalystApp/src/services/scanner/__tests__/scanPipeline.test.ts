@@ -0,0 +1,139 @@
+import { ManualFrameSource, StillImageFrameSource } from '../frameSource';
+import { ScanPipeline } from '../scanPipeline';
+import { ScannedBarcode } from '../barcode';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+describe('ScanPipeline', () => {
+  it('validates and forwards barcodes from a fake camera', async () => {
+    const camera = new ManualFrameSource();
+    const reads: ScannedBarcode[] = [];
+    const invalid: string[] = [];
+    const pipeline = new ScanPipeline({
+      source: camera,
+      onBarcode: barcode => {
+        reads.push(barcode);
+      },
+      onInvalid: barcode => invalid.push(barcode.data),
+    });
+
+    pipeline.start();
+    expect(camera.isActive).toBe(true);
+
+    const accepted = await pipeline.processFrame({
+      timestamp: 0,
+      detected: [{ type: 'ean13', data: '4006381333932' }, { type: 'ean13', data: '4006381333931' }],
+    });
+
+    expect(accepted?.value).toBe('4006381333931');
+    expect(invalid).toEqual(['4006381333932']);
+    expect(reads).toHaveLength(1);
+
+    pipeline.stop();
+    expect(camera.isActive).toBe(false);
+  });
+
+  it('debounces repeated reads of the same code', async () => {
+    let now = 1000;
+    const reads: string[] = [];
+    const pipeline = new ScanPipeline({
+      source: new ManualFrameSource(),
+      onBarcode: barcode => {
+        reads.push(barcode.value);
+      },
+      debounceMs: 2000,
+      now: () => now,
+    });
+    const frame = { timestamp: 0, detected: [{ type: 'upc_a', data: '036000291452' }] };
+
+    await pipeline.processFrame(frame);
+    now += 500;
+    await pipeline.processFrame(frame);
+    now += 2000;
+    await pipeline.processFrame(frame);
+    await pipeline.processFrame({ timestamp: 0, detected: [{ type: 'ean8', data: '96385074' }] });
+
+    expect(reads).toEqual(['036000291452', '036000291452', '96385074']);
+  });
+
+  it('ignores frames while a lookup is in flight or paused', async () => {
+    let finishLookup: () => void = () => {};
+    const reads: string[] = [];
+    const pipeline = new ScanPipeline({
+      source: new ManualFrameSource(),
+      onBarcode: barcode => {
+        reads.push(barcode.value);
+        return new Promise<void>(resolve => {
+          finishLookup = resolve;
+        });
+      },
+    });
+
+    const first = pipeline.processFrame({ timestamp: 0, detected: [{ type: 'ean8', data: '96385074' }] });
+    expect(await pipeline.processFrame({ timestamp: 1, detected: [{ type: 'ean13', data: '4006381333931' }] })).toBeNull();
+
+    finishLookup();
+    await first;
+
+    pipeline.pause();
+    expect(await pipeline.processFrame({ timestamp: 2, detected: [{ type: 'ean13', data: '4006381333931' }] })).toBeNull();
+
+    pipeline.resume();
+    const second = pipeline.processFrame({ timestamp: 3, detected: [{ type: 'ean8', data: '96385074' }] });
+    finishLookup();
+    await second;
+
+    expect(reads).toEqual(['96385074', '96385074']);
+  });
+
+  it('reports failed lookups for frames pushed by the source', async () => {
+    const camera = new ManualFrameSource();
+    const errors: unknown[] = [];
+    const failure = new Error('Network request failed');
+    const pipeline = new ScanPipeline({
+      source: camera,
+      onBarcode: () => Promise.reject(failure),
+      onError: error => errors.push(error),
+    });
+
+    pipeline.start();
+    camera.push({ detected: [{ type: 'ean8', data: '96385074' }] });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(errors).toEqual([failure]);
+
+    camera.push({ detected: [{ type: 'ean13', data: '4006381333931' }] });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(errors).toHaveLength(2);
+  });
+
+  it('decodes frames from still images', async () => {
+    // EAN-8 96385074 rendered at one pixel per module
+    const modules = ['101', '0001011', '0101111', '0111101', '0110111', '01010', '1001110', '1110010', '1000100', '1011100', '101'].join('');
+    const quiet = 10;
+    const width = modules.length + quiet * 2;
+    const row = new Uint8Array(width).fill(255);
+    modules.split('').forEach((bit, index) => {
+      row[quiet + index] = bit === '1' ? 0 : 255;
+    });
+    const image = { width, height: 1, data: row };
+
+    const reads: string[] = [];
+    await new Promise<void>(resolve => {
+      const pipeline = new ScanPipeline({
+        source: new StillImageFrameSource([image]),
+        onBarcode: barcode => {
+          reads.push(barcode.value);
+          pipeline.stop();
+          resolve();
+        },
+      });
+      pipeline.start();
+    });
+
+    expect(reads).toEqual(['96385074']);
+  });
+});
@@ -0,0 +1,205 @@
+export type BarcodeFormat = 'ean13' | 'ean8' | 'upc_a' | 'upc_e' | 'qr';
+
+/**
+ * A barcode as reported by a decoder, before validation
+ */
+export interface RawBarcode {
+  type: string;
+  data: string;
+}
+
+/**
+ * A validated barcode. `value` is the canonical product code used for lookups:
+ * UPC-E is expanded to UPC-A and EAN-13 codes with a leading zero are reported as UPC-A.
+ */
+export interface ScannedBarcode {
+  format: BarcodeFormat;
+  value: string;
+  raw: string;
+}
+
+const TYPE_ALIASES: Record<string, BarcodeFormat> = {
+  ean13: 'ean13',
+  ean_13: 'ean13',
+  'org.gs1.ean-13': 'ean13',
+  ean8: 'ean8',
+  ean_8: 'ean8',
+  'org.gs1.ean-8': 'ean8',
+  upc_a: 'upc_a',
+  upca: 'upc_a',
+  upc_e: 'upc_e',
+  upce: 'upc_e',
+  'org.gs1.upc-e': 'upc_e',
+  qr: 'qr',
+  qrcode: 'qr',
+  'org.iso.qrcode': 'qr',
+};
+
+const GS1_DIGITAL_LINK_GTIN = /\/01\/(\d{8}|\d{12,14})(?:[/?#]|$)/;
+
+/**
+ * Map a platform barcode type name to one of the supported formats
+ */
+export const toBarcodeFormat = (type: string): BarcodeFormat | null => {
+  return TYPE_ALIASES[type.toLowerCase()] || null;
+};
+
+/**
+ * Compute the GS1 modulo-10 check digit for the given digits (without check digit)
+ */
+export const computeCheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Check whether a GTIN (EAN-8, UPC-A, EAN-13 or GTIN-14) has a valid check digit
+ */
+export const isValidGtin = (code: string): boolean => {
+  if (!/^\d+$/.test(code) || ![8, 12, 13, 14].includes(code.length)) {
+    return false;
+  }
+  const body = code.slice(0, -1);
+  return computeCheckDigit(body) === Number(code[code.length - 1]);
+};
+
+/**
+ * Expand an 8-digit UPC-E code (number system, six digits, check digit) to its 12-digit UPC-A form
+ */
+export const expandUpcE = (code: string): string | null => {
+  let digits = code;
+  if (digits.length === 6) {
+    digits = `0${digits}`;
+  }
+  if (!/^\d+$/.test(digits) || (digits.length !== 7 && digits.length !== 8)) {
+    return null;
+  }
+
+  const numberSystem = digits[0];
+  if (numberSystem !== '0' && numberSystem !== '1') {
+    return null;
+  }
+
+  const d = digits.slice(1, 7);
+  const last = d[5];
+  let body: string;
+
+  switch (last) {
+    case '0':
+    case '1':
+    case '2':
+      body = `${d[0]}${d[1]}${last}0000${d[2]}${d[3]}${d[4]}`;
+      break;
+    case '3':
+      body = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+      break;
+    case '4':
+      body = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+      break;
+    default:
+      body = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${last}`;
+  }
+
+  const upcBody = `${numberSystem}${body}`;
+  const checkDigit = computeCheckDigit(upcBody);
+
+  if (digits.length === 8 && Number(digits[7]) !== checkDigit) {
+    return null;
+  }
+
+  return `${upcBody}${checkDigit}`;
+};
+
+/**
+ * Reduce a GTIN to the code we store products under (UPC-A for US codes, EAN-13/EAN-8 otherwise)
+ */
+const canonicalGtin = (gtin: string): { format: BarcodeFormat; value: string } | null => {
+  if (!isValidGtin(gtin)) {
+    return null;
+  }
+
+  let code = gtin;
+  if (code.length === 14 && code.startsWith('0')) {
+    code = code.slice(1);
+  }
+
+  switch (code.length) {
+    case 8:
+      return { format: 'ean8', value: code };
+    case 12:
+      return { format: 'upc_a', value: code };
+    case 13:
+      return code.startsWith('0')
+        ? { format: 'upc_a', value: code.slice(1) }
+        : { format: 'ean13', value: code };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Normalize a stored or imported product code the same way scanned codes are normalized,
+ * so lookups match regardless of whether a UPC was recorded as 12 or 13 digits
+ */
+export const normalizeProductCode = (code: string): string => {
+  const trimmed = code.trim();
+  const canonical = canonicalGtin(trimmed);
+  return canonical ? canonical.value : trimmed;
+};
+
+/**
+ * Extract a GTIN from a QR payload, either a bare code or a GS1 Digital Link URL
+ */
+const gtinFromQrPayload = (data: string): string | null => {
+  const trimmed = data.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return trimmed;
+  }
+  const match = trimmed.match(GS1_DIGITAL_LINK_GTIN);
+  return match ? match[1] : null;
+};
+
+/**
+ * Validate a raw decoder result and normalize it to a product code.
+ * Returns null when the payload is malformed or its check digit does not match.
+ */
+export const normalizeBarcode = (barcode: RawBarcode): ScannedBarcode | null => {
+  const format = toBarcodeFormat(barcode.type);
+  const raw = barcode.data.trim();
+
+  if (!format) {
+    return null;
+  }
+
+  if (format === 'qr') {
+    const gtin = gtinFromQrPayload(raw);
+    const canonical = gtin ? canonicalGtin(gtin) : null;
+    return canonical ? { format: 'qr', value: canonical.value, raw } : null;
+  }
+
+  if (format === 'upc_e') {
+    const expanded = expandUpcE(raw);
+    return expanded ? { format: 'upc_e', value: expanded, raw } : null;
+  }
+
+  const expectedLength: Record<Exclude<BarcodeFormat, 'qr' | 'upc_e'>, number[]> = {
+    ean13: [13],
+    ean8: [8],
+    upc_a: [12],
+  };
+
+  if (!expectedLength[format].includes(raw.length)) {
+    return null;
+  }
+
+  const canonical = canonicalGtin(raw);
+  if (!canonical) {
+    return null;
+  }
+
+  return { format: format === 'ean13' ? canonical.format : format, value: canonical.value, raw };
+};
@@ -0,0 +1,95 @@
+import { RawBarcode } from './barcode';
+import { LuminanceImage } from './linearDecoder';
+
+/**
+ * A single frame delivered to the scan pipeline. Camera integrations that decode on the
+ * native side provide `detected`; still images and test fixtures provide `image`.
+ */
+export interface Frame {
+  timestamp: number;
+  image?: LuminanceImage;
+  detected?: RawBarcode[];
+}
+
+export type FrameListener = (frame: Frame) => void;
+
+/**
+ * Anything that can feed frames to the scan pipeline: the device camera,
+ * a set of still images, or a fake camera in tests
+ */
+export interface FrameSource {
+  start: (listener: FrameListener) => void;
+  stop: () => void;
+}
+
+/**
+ * Frame source driven by explicit `push` calls. Used directly as a fake camera in tests.
+ */
+export class ManualFrameSource implements FrameSource {
+  private listener: FrameListener | null = null;
+
+  start(listener: FrameListener) {
+    this.listener = listener;
+  }
+
+  stop() {
+    this.listener = null;
+  }
+
+  get isActive(): boolean {
+    return this.listener !== null;
+  }
+
+  push(frame: Omit<Frame, 'timestamp'> & { timestamp?: number }) {
+    if (!this.listener) return;
+    this.listener({ timestamp: Date.now(), ...frame });
+  }
+}
+
+/**
+ * Bridges expo-camera's `onBarcodeScanned` callback into frames
+ */
+export class CameraFrameSource extends ManualFrameSource {
+  handleBarcodeScanned = (result: RawBarcode) => {
+    this.push({ detected: [{ type: result.type, data: result.data }] });
+  };
+
+  handleStillImageResults = (results: RawBarcode[]) => {
+    this.push({ detected: results.map(result => ({ type: result.type, data: result.data })) });
+  };
+}
+
+/**
+ * Replays a fixed list of still images, one every `intervalMs`
+ */
+export class StillImageFrameSource implements FrameSource {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly images: LuminanceImage[],
+    private readonly intervalMs: number = 0
+  ) {}
+
+  start(listener: FrameListener) {
+    this.stop();
+    let index = 0;
+
+    const emitNext = () => {
+      if (index >= this.images.length) {
+        this.timer = null;
+        return;
+      }
+      listener({ timestamp: Date.now(), image: this.images[index++] });
+      this.timer = setTimeout(emitNext, this.intervalMs);
+    };
+
+    this.timer = setTimeout(emitNext, 0);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
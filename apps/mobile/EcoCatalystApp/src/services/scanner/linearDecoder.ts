@@ -0,0 +1,263 @@
+import { RawBarcode, computeCheckDigit } from './barcode';
+
+/**
+ * A grayscale image, one byte per pixel, row-major
+ */
+export interface LuminanceImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Module widths of the L-code digits, starting with a space. R-codes share these
+// widths starting with a bar, G-codes are the L widths reversed.
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Parity of the six left-hand EAN-13 digits that encodes the leading digit
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLL', 'LGLGGL', 'LGGLGL'];
+
+// Parity of the six UPC-E digits that encodes the check digit for number system 0
+const UPCE_PARITY = ['GGGLLL', 'GGLGLL', 'GGLLGL', 'GGLLLG', 'GLGGLL', 'GLLGGL', 'GLLLGG', 'GLGLGL', 'GLGLLG', 'GLLGLG'];
+
+const MAX_DIGIT_ERROR = 0.42;
+const MAX_GUARD_ERROR = 0.5;
+const SCAN_LINES = [0.5, 0.35, 0.65, 0.2, 0.8];
+
+interface DigitMatch {
+  digit: number;
+  parity: 'L' | 'G';
+}
+
+/**
+ * Average absolute deviation of measured runs from an expected module pattern
+ */
+const patternError = (runs: number[], pattern: number[]): number => {
+  const total = runs.reduce((sum, run) => sum + run, 0);
+  const modules = pattern.reduce((sum, width) => sum + width, 0);
+  const unit = total / modules;
+  let error = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    error += Math.abs(runs[i] / unit - pattern[i]);
+  }
+  return error / pattern.length;
+};
+
+const matchDigit = (runs: number[], allowG: boolean): DigitMatch | null => {
+  let best: DigitMatch | null = null;
+  let bestError = MAX_DIGIT_ERROR;
+
+  for (let digit = 0; digit < 10; digit++) {
+    const lError = patternError(runs, L_PATTERNS[digit]);
+    if (lError < bestError) {
+      bestError = lError;
+      best = { digit, parity: 'L' };
+    }
+    if (allowG) {
+      const gError = patternError(runs, G_PATTERNS[digit]);
+      if (gError < bestError) {
+        bestError = gError;
+        best = { digit, parity: 'G' };
+      }
+    }
+  }
+
+  return best;
+};
+
+const isGuard = (runs: number[], unit: number): boolean => {
+  return runs.every(run => Math.abs(run / unit - 1) <= MAX_GUARD_ERROR);
+};
+
+/**
+ * Decode `count` consecutive digits starting at `offset` in the run list
+ */
+const decodeDigits = (runs: number[], offset: number, count: number, allowG: boolean): DigitMatch[] | null => {
+  const digits: DigitMatch[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = offset + i * 4;
+    const match = matchDigit(runs.slice(start, start + 4), allowG);
+    if (!match) {
+      return null;
+    }
+    digits.push(match);
+  }
+  return digits;
+};
+
+const hasValidCheckDigit = (code: string): boolean => {
+  return computeCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+};
+
+/**
+ * Decode an EAN-13 / UPC-A symbol whose start guard begins at `start` (a bar run)
+ */
+const decodeEan13 = (runs: number[], start: number): RawBarcode | null => {
+  if (start + 59 > runs.length) return null;
+  const unit = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!isGuard(runs.slice(start, start + 3), unit)) return null;
+  if (!isGuard(runs.slice(start + 27, start + 32), unit)) return null;
+  if (!isGuard(runs.slice(start + 56, start + 59), unit)) return null;
+
+  const left = decodeDigits(runs, start + 3, 6, true);
+  if (!left) return null;
+
+  // Right-hand digits start with a bar; their widths are the L widths
+  const right = decodeDigits(runs, start + 32, 6, false);
+  if (!right) return null;
+
+  const parity = left.map(match => match.parity).join('');
+  const firstDigit = EAN13_PARITY.indexOf(parity);
+  if (firstDigit < 0) return null;
+
+  const code = `${firstDigit}${left.map(match => match.digit).join('')}${right.map(match => match.digit).join('')}`;
+  if (!hasValidCheckDigit(code)) return null;
+
+  return firstDigit === 0
+    ? { type: 'upc_a', data: code.slice(1) }
+    : { type: 'ean13', data: code };
+};
+
+/**
+ * Decode an EAN-8 symbol whose start guard begins at `start`
+ */
+const decodeEan8 = (runs: number[], start: number): RawBarcode | null => {
+  if (start + 43 > runs.length) return null;
+  const unit = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!isGuard(runs.slice(start, start + 3), unit)) return null;
+  if (!isGuard(runs.slice(start + 19, start + 24), unit)) return null;
+  if (!isGuard(runs.slice(start + 40, start + 43), unit)) return null;
+
+  const left = decodeDigits(runs, start + 3, 4, false);
+  const right = decodeDigits(runs, start + 24, 4, false);
+  if (!left || !right) return null;
+
+  const code = [...left, ...right].map(match => match.digit).join('');
+  return hasValidCheckDigit(code) ? { type: 'ean8', data: code } : null;
+};
+
+/**
+ * Decode a UPC-E symbol whose start guard begins at `start`
+ */
+const decodeUpcE = (runs: number[], start: number): RawBarcode | null => {
+  if (start + 33 > runs.length) return null;
+  const unit = (runs[start] + runs[start + 1] + runs[start + 2]) / 3;
+  if (!isGuard(runs.slice(start, start + 3), unit)) return null;
+  if (!isGuard(runs.slice(start + 27, start + 33), unit)) return null;
+
+  const digits = decodeDigits(runs, start + 3, 6, true);
+  if (!digits) return null;
+
+  const parity = digits.map(match => match.parity).join('');
+  const inverted = parity.split('').map(p => (p === 'L' ? 'G' : 'L')).join('');
+
+  let numberSystem: number;
+  let checkDigit = UPCE_PARITY.indexOf(parity);
+  if (checkDigit >= 0) {
+    numberSystem = 0;
+  } else {
+    checkDigit = UPCE_PARITY.indexOf(inverted);
+    if (checkDigit < 0) return null;
+    numberSystem = 1;
+  }
+
+  return {
+    type: 'upc_e',
+    data: `${numberSystem}${digits.map(match => match.digit).join('')}${checkDigit}`,
+  };
+};
+
+/**
+ * Binarize one row of pixels and return the widths of alternating runs,
+ * starting with the first dark run
+ */
+export const rowToRuns = (row: ArrayLike<number>): number[] => {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] < min) min = row[i];
+    if (row[i] > max) max = row[i];
+  }
+
+  // Too little contrast to contain a barcode
+  if (max - min < 48) {
+    return [];
+  }
+
+  const threshold = (min + max) / 2;
+  const runs: number[] = [];
+  let current = false;
+  let length = 0;
+  let started = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const dark = row[i] < threshold;
+    if (!started) {
+      if (!dark) continue;
+      started = true;
+      current = true;
+      length = 1;
+      continue;
+    }
+    if (dark === current) {
+      length++;
+    } else {
+      runs.push(length);
+      current = dark;
+      length = 1;
+    }
+  }
+
+  // Only keep the trailing run if it is a bar; a trailing space is the quiet zone
+  if (started && current) {
+    runs.push(length);
+  }
+
+  return runs;
+};
+
+/**
+ * Try every supported symbology on a list of runs, in both reading directions
+ */
+export const decodeRuns = (runs: number[]): RawBarcode | null => {
+  const directions = [runs, [...runs].reverse()];
+
+  for (const candidate of directions) {
+    // Bars sit at even indices, so only those can begin a start guard
+    for (let start = 0; start < candidate.length; start += 2) {
+      const result = decodeEan13(candidate, start) || decodeEan8(candidate, start) || decodeUpcE(candidate, start);
+      if (result) {
+        return result;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Decode EAN-13, UPC-A, EAN-8 and UPC-E symbols from a still image by sampling horizontal scan lines
+ */
+export const decodeLinearBarcode = (image: LuminanceImage): RawBarcode | null => {
+  for (const position of SCAN_LINES) {
+    const y = Math.min(image.height - 1, Math.floor(image.height * position));
+    const row = image.data.subarray(y * image.width, (y + 1) * image.width);
+    const result = decodeRuns(rowToRuns(row));
+    if (result) {
+      return result;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,134 @@
+import { RawBarcode, ScannedBarcode, normalizeBarcode } from './barcode';
+import { Frame, FrameSource } from './frameSource';
+import { decodeLinearBarcode } from './linearDecoder';
+
+export interface ScanPipelineOptions {
+  source: FrameSource;
+  /**
+   * Called once per accepted barcode. The pipeline ignores further frames until the
+   * returned promise settles, so a product lookup never overlaps with the next read.
+   */
+  onBarcode: (barcode: ScannedBarcode) => void | Promise<void>;
+  /**
+   * Called when a decoder reported a payload that failed validation
+   */
+  onInvalid?: (barcode: RawBarcode) => void;
+  /**
+   * Called when onBarcode throws or rejects for a frame delivered by the source.
+   * Defaults to logging the error.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * How long the same code is ignored after it was accepted
+   * @default 3000
+   */
+  debounceMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Turns frames from a FrameSource into validated, de-duplicated barcode reads
+ */
+export class ScanPipeline {
+  private readonly source: FrameSource;
+  private readonly onBarcode: ScanPipelineOptions['onBarcode'];
+  private readonly onInvalid?: ScanPipelineOptions['onInvalid'];
+  private readonly onError: (error: unknown) => void;
+  private readonly debounceMs: number;
+  private readonly now: () => number;
+
+  private running = false;
+  private paused = false;
+  private busy = false;
+  private lastValue: string | null = null;
+  private lastAcceptedAt = 0;
+
+  constructor(options: ScanPipelineOptions) {
+    this.source = options.source;
+    this.onBarcode = options.onBarcode;
+    this.onInvalid = options.onInvalid;
+    this.onError = options.onError || (error => console.error('Error handling scanned barcode:', error));
+    this.debounceMs = options.debounceMs ?? 3000;
+    this.now = options.now || Date.now;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.source.start(frame => {
+      this.processFrame(frame).catch(error => this.onError(error));
+    });
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    this.source.stop();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  /**
+   * Resume after a pause. Forgetting the last value lets the user rescan the same product on purpose.
+   */
+  resume() {
+    this.paused = false;
+    this.lastValue = null;
+  }
+
+  /**
+   * Decode a frame and dispatch the first valid barcode it contains.
+   * Returns the accepted barcode, or null if the frame was skipped.
+   */
+  async processFrame(frame: Frame): Promise<ScannedBarcode | null> {
+    if (this.paused || this.busy) {
+      return null;
+    }
+
+    const candidates = this.decode(frame);
+    let accepted: ScannedBarcode | null = null;
+
+    for (const candidate of candidates) {
+      const barcode = normalizeBarcode(candidate);
+      if (barcode) {
+        accepted = barcode;
+        break;
+      }
+      this.onInvalid?.(candidate);
+    }
+
+    if (!accepted) {
+      return null;
+    }
+
+    const timestamp = this.now();
+    if (accepted.value === this.lastValue && timestamp - this.lastAcceptedAt < this.debounceMs) {
+      return null;
+    }
+
+    this.lastValue = accepted.value;
+    this.lastAcceptedAt = timestamp;
+    this.busy = true;
+
+    try {
+      await this.onBarcode(accepted);
+    } finally {
+      this.busy = false;
+    }
+
+    return accepted;
+  }
+
+  private decode(frame: Frame): RawBarcode[] {
+    if (frame.detected && frame.detected.length > 0) {
+      return frame.detected;
+    }
+    if (frame.image) {
+      const result = decodeLinearBarcode(frame.image);
+      return result ? [result] : [];
+    }
+    return [];
+  }
+}
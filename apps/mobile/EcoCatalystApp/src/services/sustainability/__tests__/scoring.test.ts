@@ -0,0 +1,128 @@
+import {
+  FactorContribution,
+  SCORING_VERSION,
+  ScoringFactor,
+  SustainabilityScoreResult,
+  defaultScoringModel,
+  getWeightsForCategory,
+  needsRescoring,
+  scoreProduct,
+  withCurrentScore,
+} from '../scoring';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+const getFactor = (result: SustainabilityScoreResult, factor: ScoringFactor): FactorContribution => {
+  return result.breakdown.find(entry => entry.factor === factor) as FactorContribution;
+};
+
+const bottle = {
+  category: 'Household',
+  carbonFootprint: 2.3,
+  waterUsage: 40,
+  packaging: 'Cardboard',
+  recyclable: true,
+  biodegradable: false,
+  ingredients: ['Recycled plastic', 'Bamboo'],
+  certifications: ['FSC Certified', 'Carbon Neutral'],
+};
+
+const plasticBottle = {
+  ...bottle,
+  carbonFootprint: 12.7,
+  waterUsage: 900,
+  packaging: 'Plastic film',
+  recyclable: false,
+  certifications: [],
+};
+
+describe('scoreProduct', () => {
+  it('returns a score between 0 and 100 with the current version', () => {
+    const result = scoreProduct(bottle);
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThanOrEqual(100);
+    expect(result.version).toBe(SCORING_VERSION);
+    expect(result.category).toBe('household');
+  });
+
+  it('breaks the score down into per-factor contributions that add up', () => {
+    const result = scoreProduct(bottle);
+    const factors = result.breakdown.map(entry => entry.factor);
+    expect(factors).toEqual([
+      'carbonFootprint',
+      'waterUsage',
+      'packaging',
+      'recyclable',
+      'biodegradable',
+      'certifications',
+      'ingredients',
+    ]);
+
+    const totalPoints = result.breakdown.reduce((sum, entry) => sum + entry.points, 0);
+    const totalWeight = result.breakdown.reduce((sum, entry) => sum + entry.weight, 0);
+    expect(Math.abs(totalPoints - result.score)).toBeLessThan(1);
+    expect(totalWeight).toBeCloseTo(1, 2);
+  });
+
+  it('scores a worse product lower', () => {
+    expect(scoreProduct(plasticBottle).score).toBeLessThan(scoreProduct(bottle).score);
+  });
+
+  it('leaves out factors without data and renormalizes the weights', () => {
+    const result = scoreProduct({ ...bottle, ingredients: [], packaging: '' });
+    const ingredients = getFactor(result, 'ingredients');
+    const packaging = getFactor(result, 'packaging');
+    expect(ingredients.available).toBe(false);
+    expect(ingredients.weight).toBe(0);
+    expect(packaging.available).toBe(false);
+
+    const totalWeight = result.breakdown.reduce((sum, entry) => sum + entry.weight, 0);
+    expect(totalWeight).toBeCloseTo(1, 2);
+  });
+
+  it('flags high-impact ingredients', () => {
+    const result = scoreProduct({ ...bottle, category: 'Food', ingredients: ['Sugar', 'Palm oil', 'Cocoa butter'] });
+    const ingredients = getFactor(result, 'ingredients');
+    expect(ingredients.subScore).toBe(50);
+    expect(ingredients.explanation).toContain('Palm oil');
+  });
+
+  it('applies category weights and caller overrides', () => {
+    expect(getWeightsForCategory('Electronics').carbonFootprint).toBe(0.4);
+    expect(getWeightsForCategory('Unknown').carbonFootprint).toBe(defaultScoringModel.defaultWeights.carbonFootprint);
+
+    const carbonOnly = scoreProduct(bottle, {
+      weights: {
+        carbonFootprint: 1,
+        waterUsage: 0,
+        packaging: 0,
+        recyclable: 0,
+        biodegradable: 0,
+        certifications: 0,
+        ingredients: 0,
+      },
+    });
+    const carbon = getFactor(carbonOnly, 'carbonFootprint');
+    expect(carbon.weight).toBe(1);
+    expect(carbonOnly.score).toBe(Math.round(carbon.subScore));
+  });
+});
+
+describe('score versioning', () => {
+  it('recomputes scores stored by another model version', () => {
+    const stored = { ...bottle, sustainabilityScore: 12, scoringVersion: SCORING_VERSION - 1 };
+    expect(needsRescoring(stored)).toBe(true);
+
+    const rescored = withCurrentScore(stored);
+    expect(rescored.scoringVersion).toBe(SCORING_VERSION);
+    expect(rescored.sustainabilityScore).toBe(scoreProduct(bottle).score);
+  });
+
+  it('keeps scores produced by the current version', () => {
+    const stored = { ...bottle, sustainabilityScore: 12, scoringVersion: SCORING_VERSION };
+    expect(needsRescoring(stored)).toBe(false);
+    expect(withCurrentScore(stored)).toBe(stored);
+  });
+});
@@ -0,0 +1,356 @@
+import { Product } from '../../contexts/products/ProductsContext';
+
+/**
+ * Version of the scoring model. Bump whenever weights, references or sub-score
+ * formulas change so stored scores can be detected as stale and recomputed.
+ */
+export const SCORING_VERSION = 1;
+
+export type ScoringFactor =
+  | 'carbonFootprint'
+  | 'waterUsage'
+  | 'packaging'
+  | 'recyclable'
+  | 'biodegradable'
+  | 'certifications'
+  | 'ingredients';
+
+export type ScoringWeights = Record<ScoringFactor, number>;
+
+export interface ImpactReference {
+  good: number; // value at or below which the sub-score is 100
+  poor: number; // value at or above which the sub-score is 0
+}
+
+export interface ScoringModel {
+  version: number;
+  defaultWeights: ScoringWeights;
+  categoryWeights: Record<string, Partial<ScoringWeights>>;
+  carbonReference: Record<string, ImpactReference>; // kg CO2e per product, by category
+  waterReference: Record<string, ImpactReference>; // liters per product, by category
+}
+
+export interface FactorContribution {
+  factor: ScoringFactor;
+  label: string;
+  available: boolean;
+  weight: number; // share of the final score, 0-1, after renormalizing for missing data
+  subScore: number; // 0-100
+  points: number; // weight * subScore
+  explanation: string;
+}
+
+export interface SustainabilityScoreResult {
+  score: number; // 0-100
+  version: number;
+  category: string;
+  breakdown: FactorContribution[];
+}
+
+export type ScorableProduct = Pick<
+  Product,
+  | 'category'
+  | 'carbonFootprint'
+  | 'waterUsage'
+  | 'packaging'
+  | 'recyclable'
+  | 'biodegradable'
+  | 'certifications'
+  | 'ingredients'
+>;
+
+export interface ScoreOptions {
+  model?: ScoringModel;
+  /**
+   * Overrides applied on top of the model's default and category weights
+   */
+  weights?: Partial<ScoringWeights>;
+}
+
+const FACTOR_LABELS: Record<ScoringFactor, string> = {
+  carbonFootprint: 'Carbon Footprint',
+  waterUsage: 'Water Usage',
+  packaging: 'Packaging',
+  recyclable: 'Recyclable',
+  biodegradable: 'Biodegradable',
+  certifications: 'Certifications',
+  ingredients: 'Ingredients',
+};
+
+const FACTORS = Object.keys(FACTOR_LABELS) as ScoringFactor[];
+
+// Packaging materials scored from least to most problematic; the worst material mentioned wins
+const PACKAGING_SCORES: Array<{ pattern: RegExp; score: number; name: string }> = [
+  { pattern: /polystyrene|styrofoam/, score: 5, name: 'polystyrene' },
+  { pattern: /multi-?layer|tetra|laminate|mixed/, score: 30, name: 'multi-layer material' },
+  { pattern: /plastic|\bpet\b|hdpe|pvc|polyethylene|polypropylene/, score: 35, name: 'plastic' },
+  { pattern: /alumin|metal|\btin\b|steel|\bcan\b/, score: 65, name: 'metal' },
+  { pattern: /glass/, score: 70, name: 'glass' },
+  { pattern: /paper|cardboard|carton/, score: 80, name: 'paper or cardboard' },
+  { pattern: /compostable|bioplastic/, score: 85, name: 'compostable material' },
+  { pattern: /none|unpackaged|loose|bulk|refill/, score: 100, name: 'no packaging' },
+];
+
+// Points awarded per recognised certification; unrecognised labels still earn a little
+const CERTIFICATION_POINTS: Array<{ pattern: RegExp; points: number }> = [
+  { pattern: /organic|gots/, points: 35 },
+  { pattern: /eu ecolabel|cradle to cradle|energy star/, points: 35 },
+  { pattern: /\bfsc\b|rainforest alliance|\bmsc\b|\basc\b/, points: 30 },
+  { pattern: /fair ?trade/, points: 25 },
+  { pattern: /carbon neutral|climate neutral/, points: 25 },
+  { pattern: /b corp/, points: 20 },
+];
+const OTHER_CERTIFICATION_POINTS = 10;
+
+// Ingredients with a well-documented outsized environmental impact
+const HIGH_IMPACT_INGREDIENTS: RegExp[] = [
+  /palm (oil|fat|kernel)/,
+  /\bbeef\b/,
+  /\blamb\b|\bmutton\b/,
+  /cocoa|chocolate/,
+  /coffee/,
+  /shrimp|prawn/,
+  /cheese|butter|cream/,
+  /microbead|polyethylene/,
+  /triclosan/,
+];
+
+export const defaultScoringModel: ScoringModel = {
+  version: SCORING_VERSION,
+  defaultWeights: {
+    carbonFootprint: 0.3,
+    waterUsage: 0.15,
+    packaging: 0.15,
+    recyclable: 0.1,
+    biodegradable: 0.05,
+    certifications: 0.15,
+    ingredients: 0.1,
+  },
+  categoryWeights: {
+    food: { carbonFootprint: 0.35, waterUsage: 0.2, ingredients: 0.15, biodegradable: 0.0 },
+    beverages: { carbonFootprint: 0.3, waterUsage: 0.2, packaging: 0.2, ingredients: 0.1 },
+    household: { packaging: 0.2, recyclable: 0.15, biodegradable: 0.1, ingredients: 0.05, waterUsage: 0.1 },
+    clothing: { waterUsage: 0.25, certifications: 0.2, ingredients: 0.0, packaging: 0.05 },
+    electronics: { carbonFootprint: 0.4, recyclable: 0.2, waterUsage: 0.05, ingredients: 0.0, biodegradable: 0.0 },
+    'personal care': { ingredients: 0.2, packaging: 0.2, waterUsage: 0.1 },
+  },
+  carbonReference: {
+    default: { good: 0.5, poor: 15 },
+    food: { good: 0.3, poor: 10 },
+    beverages: { good: 0.2, poor: 3 },
+    clothing: { good: 2, poor: 30 },
+    electronics: { good: 10, poor: 300 },
+  },
+  waterReference: {
+    default: { good: 10, poor: 2000 },
+    food: { good: 20, poor: 3000 },
+    clothing: { good: 100, poor: 10000 },
+  },
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const round = (value: number, decimals: number = 1): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const normalizeCategory = (category: string | undefined): string => (category || '').trim().toLowerCase();
+
+const lookupByCategory = <T>(table: Record<string, T>, category: string): T => {
+  return table[category] !== undefined ? table[category] : table.default;
+};
+
+/**
+ * Score an impact value on a log scale between the reference "good" and "poor" values
+ */
+const scoreImpact = (value: number, reference: ImpactReference): number => {
+  if (value <= reference.good) return 100;
+  if (value >= reference.poor) return 0;
+  const position = (Math.log(value) - Math.log(reference.good)) / (Math.log(reference.poor) - Math.log(reference.good));
+  return clamp(100 * (1 - position), 0, 100);
+};
+
+/**
+ * Resolve the weights for a category, applying overrides
+ */
+export const getWeightsForCategory = (
+  category: string,
+  model: ScoringModel = defaultScoringModel,
+  overrides: Partial<ScoringWeights> = {}
+): ScoringWeights => {
+  return {
+    ...model.defaultWeights,
+    ...(model.categoryWeights[normalizeCategory(category)] || {}),
+    ...overrides,
+  };
+};
+
+interface SubScore {
+  available: boolean;
+  subScore: number;
+  explanation: string;
+}
+
+const scoreFactor = (factor: ScoringFactor, product: ScorableProduct, category: string, model: ScoringModel): SubScore => {
+  switch (factor) {
+    case 'carbonFootprint': {
+      if (!isNumber(product.carbonFootprint)) {
+        return { available: false, subScore: 0, explanation: 'No carbon footprint data is available.' };
+      }
+      const reference = lookupByCategory(model.carbonReference, category);
+      return {
+        available: true,
+        subScore: scoreImpact(product.carbonFootprint, reference),
+        explanation: `${product.carbonFootprint} kg CO₂e, compared with ${reference.good}–${reference.poor} kg for typical ${category || 'products'}.`,
+      };
+    }
+    case 'waterUsage': {
+      if (!isNumber(product.waterUsage)) {
+        return { available: false, subScore: 0, explanation: 'No water usage data is available.' };
+      }
+      const reference = lookupByCategory(model.waterReference, category);
+      return {
+        available: true,
+        subScore: scoreImpact(product.waterUsage, reference),
+        explanation: `${product.waterUsage} L of water, compared with ${reference.good}–${reference.poor} L for typical ${category || 'products'}.`,
+      };
+    }
+    case 'packaging': {
+      const packaging = (product.packaging || '').toLowerCase();
+      if (!packaging) {
+        return { available: false, subScore: 0, explanation: 'No packaging information is available.' };
+      }
+      const matches = PACKAGING_SCORES.filter(entry => entry.pattern.test(packaging));
+      if (matches.length === 0) {
+        return { available: true, subScore: 50, explanation: 'Packaging material is not recognised, so it scores neutral.' };
+      }
+      const worst = matches.reduce((min, entry) => (entry.score < min.score ? entry : min));
+      return {
+        available: true,
+        subScore: worst.score,
+        explanation: `Scored on its least sustainable material: ${worst.name}.`,
+      };
+    }
+    case 'recyclable':
+      if (typeof product.recyclable !== 'boolean') {
+        return { available: false, subScore: 0, explanation: 'Recyclability is unknown.' };
+      }
+      return {
+        available: true,
+        subScore: product.recyclable ? 100 : 0,
+        explanation: product.recyclable ? 'Can be recycled through standard collection.' : 'Cannot be recycled in most areas.',
+      };
+    case 'biodegradable':
+      if (typeof product.biodegradable !== 'boolean') {
+        return { available: false, subScore: 0, explanation: 'Biodegradability is unknown.' };
+      }
+      return {
+        available: true,
+        subScore: product.biodegradable ? 100 : 0,
+        explanation: product.biodegradable ? 'Breaks down naturally.' : 'Does not break down naturally.',
+      };
+    case 'certifications': {
+      const certifications = product.certifications || [];
+      const points = certifications.reduce((sum, certification) => {
+        const name = certification.toLowerCase();
+        const match = CERTIFICATION_POINTS.find(entry => entry.pattern.test(name));
+        return sum + (match ? match.points : OTHER_CERTIFICATION_POINTS);
+      }, 0);
+      return {
+        available: true,
+        subScore: clamp(points, 0, 100),
+        explanation: certifications.length > 0
+          ? `${certifications.length} certification${certifications.length === 1 ? '' : 's'}: ${certifications.join(', ')}.`
+          : 'No third-party sustainability certifications.',
+      };
+    }
+    case 'ingredients': {
+      const ingredients = product.ingredients || [];
+      if (ingredients.length === 0) {
+        return { available: false, subScore: 0, explanation: 'Ingredients are not listed.' };
+      }
+      const flagged = ingredients.filter(ingredient =>
+        HIGH_IMPACT_INGREDIENTS.some(pattern => pattern.test(ingredient.toLowerCase()))
+      );
+      return {
+        available: true,
+        subScore: clamp(100 - flagged.length * 25, 0, 100),
+        explanation: flagged.length > 0
+          ? `Contains high-impact ingredients: ${flagged.join(', ')}.`
+          : 'No high-impact ingredients found.',
+      };
+    }
+  }
+};
+
+/**
+ * Compute a product's sustainability score with a per-factor breakdown.
+ * Factors without data are left out and the remaining weights are renormalized.
+ */
+export const scoreProduct = (product: ScorableProduct, options: ScoreOptions = {}): SustainabilityScoreResult => {
+  const model = options.model || defaultScoringModel;
+  const category = normalizeCategory(product.category);
+  const weights = getWeightsForCategory(category, model, options.weights);
+
+  const subScores = FACTORS.map(factor => ({ factor, ...scoreFactor(factor, product, category, model) }));
+
+  const totalWeight = subScores.reduce(
+    (sum, entry) => (entry.available ? sum + Math.max(0, weights[entry.factor]) : sum),
+    0
+  );
+
+  const breakdown: FactorContribution[] = subScores.map(entry => {
+    const weight = entry.available && totalWeight > 0 ? Math.max(0, weights[entry.factor]) / totalWeight : 0;
+    return {
+      factor: entry.factor,
+      label: FACTOR_LABELS[entry.factor],
+      available: entry.available,
+      weight: round(weight, 3),
+      subScore: round(entry.subScore),
+      points: round(weight * entry.subScore),
+      explanation: entry.explanation,
+    };
+  });
+
+  const score = totalWeight > 0
+    ? subScores.reduce((sum, entry) => {
+      if (!entry.available) return sum;
+      return sum + (Math.max(0, weights[entry.factor]) / totalWeight) * entry.subScore;
+    }, 0)
+    : 0;
+
+  return {
+    score: Math.round(clamp(score, 0, 100)),
+    version: model.version,
+    category,
+    breakdown,
+  };
+};
+
+/**
+ * Whether a stored score was produced by an older (or unknown) scoring model
+ */
+export const needsRescoring = (product: Pick<Product, 'scoringVersion'>, model: ScoringModel = defaultScoringModel): boolean => {
+  return product.scoringVersion !== model.version;
+};
+
+/**
+ * Recompute a product's stored score if it was produced by a different scoring version
+ */
+export const withCurrentScore = <T extends ScorableProduct & Pick<Product, 'sustainabilityScore' | 'scoringVersion'>>(
+  product: T,
+  model: ScoringModel = defaultScoringModel
+): T => {
+  if (!needsRescoring(product, model)) {
+    return product;
+  }
+  const result = scoreProduct(product, { model });
+  return {
+    ...product,
+    sustainabilityScore: result.score,
+    scoringVersion: result.version,
+  };
+};
@@ -0,0 +1,131 @@
+import { KeyValueStorage, Outbox, OUTBOX_STORAGE_KEY } from '../outbox';
+import { migrateAnonymousRecords } from '../migration';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const createMemoryStorage = (initial: Record<string, string> = {}): KeyValueStorage & { data: Record<string, string> } => {
+  const data = { ...initial };
+  return {
+    data,
+    getItem: async (key) => (key in data ? data[key] : null),
+    setItem: async (key, value) => {
+      data[key] = value;
+    },
+  };
+};
+
+describe('Outbox', () => {
+  it('persists operations and restores them on load', async () => {
+    const storage = createMemoryStorage();
+    const outbox = new Outbox(storage);
+    await outbox.enqueue({ type: 'set', path: 'footprints/u1/a', data: { carbonAmount: 1 }, userId: 'u1' }, 100);
+
+    const restored = new Outbox(storage);
+    await restored.load();
+    expect(restored.getOperations()).toHaveLength(1);
+    expect(restored.getOperations()[0].path).toBe('footprints/u1/a');
+  });
+
+  it('does not overwrite stored operations when enqueueing before load', async () => {
+    const storage = createMemoryStorage();
+    await new Outbox(storage).enqueue({ type: 'remove', path: 'footprints/u1/a', userId: 'u1' }, 100);
+
+    const outbox = new Outbox(storage);
+    await outbox.enqueue({ type: 'remove', path: 'footprints/u1/b', userId: 'u1' }, 200);
+    expect(JSON.parse(storage.data[OUTBOX_STORAGE_KEY])).toHaveLength(2);
+  });
+
+  it('coalesces writes to the same path', async () => {
+    const outbox = new Outbox(createMemoryStorage());
+    await outbox.enqueue({ type: 'set', path: 'mealEntries/u1/m', data: { name: 'Soup', totalCalories: 200 }, userId: 'u1' }, 100);
+    await outbox.enqueue({ type: 'update', path: 'mealEntries/u1/m', data: { totalCalories: 250 }, userId: 'u1' }, 200);
+
+    const [operation] = outbox.getOperations();
+    expect(outbox.size).toBe(1);
+    expect(operation.type).toBe('set');
+    expect(operation.data).toEqual({ name: 'Soup', totalCalories: 250 });
+    expect(operation.updatedAt).toBe(200);
+
+    await outbox.enqueue({ type: 'remove', path: 'mealEntries/u1/m', userId: 'u1' }, 300);
+    expect(outbox.getOperations().map(op => op.type)).toEqual(['remove']);
+  });
+
+  it('drops pending child writes when a parent path is removed', async () => {
+    const outbox = new Outbox(createMemoryStorage());
+    await outbox.enqueue({ type: 'set', path: 'dietChat/u1/a', data: { content: 'hi' }, userId: 'u1' }, 100);
+    await outbox.enqueue({ type: 'set', path: 'dietChat/u2/a', data: { content: 'hi' }, userId: 'u2' }, 100);
+    await outbox.enqueue({ type: 'remove', path: 'dietChat/u1', userId: 'u1' }, 200);
+
+    expect(outbox.getOperations().map(op => op.path)).toEqual(['dietChat/u2/a', 'dietChat/u1']);
+  });
+
+  it('keeps an operation that received a newer write while it was uploading', async () => {
+    const outbox = new Outbox(createMemoryStorage());
+    const operation = await outbox.enqueue({ type: 'update', path: 'userStats/u1', data: { totalPoints: 10 }, userId: 'u1' }, 100);
+    const uploadedAt = operation.updatedAt;
+    await outbox.enqueue({ type: 'update', path: 'userStats/u1', data: { totalPoints: 20 }, userId: 'u1' }, 200);
+
+    await outbox.complete(operation.id, uploadedAt);
+    expect(outbox.size).toBe(1);
+    await outbox.complete(operation.id, 200);
+    expect(outbox.size).toBe(0);
+  });
+
+  it('overlays pending writes onto remote values', async () => {
+    const outbox = new Outbox(createMemoryStorage());
+    await outbox.enqueue({ type: 'set', path: 'footprints/u1/new', data: { carbonAmount: 2 }, userId: 'u1' }, 100);
+    await outbox.enqueue({ type: 'remove', path: 'footprints/u1/old', userId: 'u1' }, 100);
+    await outbox.enqueue({ type: 'update', path: 'footprints/u1/kept', data: { carbonAmount: 5 }, userId: 'u1' }, 100);
+
+    const remote = {
+      old: { carbonAmount: 1 },
+      kept: { carbonAmount: 3, category: 'food' },
+    };
+    expect(outbox.applyPending('footprints/u1', remote, 'u1')).toEqual({
+      kept: { carbonAmount: 5, category: 'food' },
+      new: { carbonAmount: 2 },
+    });
+    expect(outbox.applyPending('footprints/u1', remote, 'u2')).toBe(remote);
+  });
+});
+
+describe('migrateAnonymousRecords', () => {
+  it('uploads local records under new ids and rewrites the cache', async () => {
+    const storage = createMemoryStorage({
+      plan: JSON.stringify({ id: 'local_1', userId: 'anonymous', name: 'Plan' }),
+      meals: JSON.stringify([
+        { id: 'local_2', userId: 'anonymous', name: 'Soup', dietPlanId: 'local_1' },
+        { id: 'remote_1', userId: 'u1', name: 'Salad' },
+      ]),
+    });
+    const outbox = new Outbox(storage);
+    let keyCount = 0;
+    const dependencies = {
+      storage,
+      enqueue: (operation: any) => outbox.enqueue(operation, 100),
+      createKey: () => `key${++keyCount}`,
+    };
+
+    const planIds = await migrateAnonymousRecords(dependencies, { storageKey: 'plan', basePath: 'dietPlans/u1', userId: 'u1' });
+    const mealIds = await migrateAnonymousRecords(dependencies, {
+      storageKey: 'meals',
+      basePath: 'mealEntries/u1',
+      userId: 'u1',
+      idMap: planIds,
+      references: ['dietPlanId'],
+    });
+
+    expect(planIds).toEqual({ local_1: 'key1' });
+    expect(mealIds).toEqual({ local_2: 'key2' });
+    expect(outbox.getOperations().map(op => op.path)).toEqual(['dietPlans/u1/key1', 'mealEntries/u1/key2']);
+    expect(outbox.getOperations()[1].data).toEqual({ userId: 'u1', name: 'Soup', dietPlanId: 'key1' });
+
+    expect(JSON.parse(storage.data.plan).id).toBe('key1');
+    expect(JSON.parse(storage.data.meals).map((meal: any) => meal.id)).toEqual(['key2', 'remote_1']);
+
+    // Running again finds nothing left to migrate
+    expect(await migrateAnonymousRecords(dependencies, { storageKey: 'meals', basePath: 'mealEntries/u1', userId: 'u1' })).toEqual({});
+  });
+});
@@ -0,0 +1,169 @@
+import { KeyValueStorage, Outbox } from '../outbox';
+import { RemoteStore } from '../remoteStore';
+import { SyncEngine, computeBackoffDelay } from '../syncEngine';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void | Promise<void>) => void;
+declare const expect: any;
+
+const createMemoryStorage = (): KeyValueStorage => {
+  const data: Record<string, string> = {};
+  return {
+    getItem: async (key) => (key in data ? data[key] : null),
+    setItem: async (key, value) => {
+      data[key] = value;
+    },
+  };
+};
+
+const createRemote = (initial: Record<string, any> = {}) => {
+  const data: Record<string, any> = { ...initial };
+  let offline = false;
+  const remote: RemoteStore & { data: Record<string, any>; setOffline: (value: boolean) => void } = {
+    data,
+    setOffline: (value) => {
+      offline = value;
+    },
+    get: async (path) => {
+      if (offline) throw new Error('offline');
+      return data[path] ?? null;
+    },
+    set: async (path, value) => {
+      if (offline) throw new Error('offline');
+      data[path] = value;
+    },
+    remove: async (path) => {
+      if (offline) throw new Error('offline');
+      delete data[path];
+    },
+    createKey: () => 'key',
+  };
+  return remote;
+};
+
+const setup = (initialRemote: Record<string, any> = {}) => {
+  let time = 1000;
+  const outbox = new Outbox(createMemoryStorage());
+  const remote = createRemote(initialRemote);
+  const conflicts: string[] = [];
+  const engine = new SyncEngine({
+    outbox,
+    remote,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    now: () => time,
+    onConflict: (operation) => conflicts.push(operation.path),
+  });
+  engine.setUser('u1');
+  return {
+    outbox,
+    remote,
+    engine,
+    conflicts,
+    advance: (ms: number) => {
+      time += ms;
+    },
+    at: () => time,
+  };
+};
+
+describe('computeBackoffDelay', () => {
+  it('doubles the delay per attempt up to the maximum', () => {
+    expect(computeBackoffDelay(1, 100, 1000)).toBe(100);
+    expect(computeBackoffDelay(2, 100, 1000)).toBe(200);
+    expect(computeBackoffDelay(4, 100, 1000)).toBe(800);
+    expect(computeBackoffDelay(10, 100, 1000)).toBe(1000);
+  });
+});
+
+describe('SyncEngine', () => {
+  it('uploads queued writes in order and empties the outbox', async () => {
+    const { outbox, remote, engine, at } = setup({ 'footprints/u1/b': { carbonAmount: 1 } });
+    await outbox.enqueue({ type: 'set', path: 'footprints/u1/a', data: { carbonAmount: 2 }, userId: 'u1' }, at());
+    await outbox.enqueue({ type: 'remove', path: 'footprints/u1/b', userId: 'u1' }, at());
+
+    const result = await engine.flush();
+    engine.stop();
+
+    expect(result).toEqual({ synced: 2, conflicts: 0, failed: false });
+    expect(remote.data).toEqual({ 'footprints/u1/a': { carbonAmount: 2 } });
+    expect(outbox.size).toBe(0);
+    expect(engine.getStatus().lastSyncedAt).toBe(at());
+  });
+
+  it('merges updates into the remote record', async () => {
+    const { outbox, remote, engine, at } = setup({ 'mealEntries/u1/m': { name: 'Soup', totalCalories: 200, updatedAt: 10 } });
+    await outbox.enqueue({ type: 'update', path: 'mealEntries/u1/m', data: { totalCalories: 250, updatedAt: at() }, userId: 'u1' }, at());
+
+    await engine.flush();
+    engine.stop();
+
+    expect(remote.data['mealEntries/u1/m']).toEqual({ name: 'Soup', totalCalories: 250, updatedAt: at() });
+  });
+
+  it('keeps the remote copy when it was updated after the local write', async () => {
+    const { outbox, remote, engine, conflicts, at } = setup({ 'dietPlans/u1/p': { name: 'Newer', updatedAt: 5000 } });
+    await outbox.enqueue({ type: 'set', path: 'dietPlans/u1/p', data: { name: 'Older', updatedAt: at() }, userId: 'u1' }, at());
+
+    const result = await engine.flush();
+    engine.stop();
+
+    expect(result.conflicts).toBe(1);
+    expect(conflicts).toEqual(['dietPlans/u1/p']);
+    expect(remote.data['dietPlans/u1/p'].name).toBe('Newer');
+    expect(outbox.size).toBe(0);
+  });
+
+  it('backs off after a failure and retries once the delay has passed', async () => {
+    const { outbox, remote, engine, advance, at } = setup();
+    await outbox.enqueue({ type: 'set', path: 'userScans/u1/s', data: { productId: 'p1' }, userId: 'u1' }, at());
+
+    remote.setOffline(true);
+    expect((await engine.flush()).failed).toBe(true);
+    const [failed] = outbox.getOperations();
+    expect(failed.attempts).toBe(1);
+    expect(failed.nextAttemptAt).toBe(at() + 100);
+    expect(engine.getStatus().lastError).toBe('offline');
+
+    remote.setOffline(false);
+    expect((await engine.flush()).synced).toBe(0);
+
+    advance(100);
+    expect((await engine.flush()).synced).toBe(1);
+    engine.stop();
+    expect(remote.data['userScans/u1/s']).toEqual({ productId: 'p1' });
+  });
+
+  it('holds back later writes to an overlapping path while an earlier one backs off', async () => {
+    const { outbox, remote, engine, advance, at } = setup();
+    await outbox.enqueue({ type: 'set', path: 'userStats/u1', data: { totalPoints: 10 }, userId: 'u1' }, at());
+
+    remote.setOffline(true);
+    await engine.flush();
+    remote.setOffline(false);
+
+    await outbox.enqueue({ type: 'set', path: 'userStats/u1/level', data: { value: 2 }, userId: 'u1' }, at());
+    await outbox.enqueue({ type: 'set', path: 'userScans/u1/s', data: { productId: 'p1' }, userId: 'u1' }, at());
+
+    expect((await engine.flush()).synced).toBe(1);
+    expect(remote.data).toEqual({ 'userScans/u1/s': { productId: 'p1' } });
+    expect(outbox.getOperations().map(op => op.path)).toEqual(['userStats/u1', 'userStats/u1/level']);
+
+    advance(100);
+    expect((await engine.flush()).synced).toBe(2);
+    engine.stop();
+    expect(outbox.size).toBe(0);
+  });
+
+  it('only uploads writes made by the signed-in user', async () => {
+    const { outbox, remote, engine, at } = setup();
+    await outbox.enqueue({ type: 'set', path: 'footprints/u2/a', data: { carbonAmount: 1 }, userId: 'u2' }, at());
+
+    expect((await engine.flush()).synced).toBe(0);
+    expect(remote.data).toEqual({});
+
+    engine.setUser('u2');
+    expect((await engine.flush()).synced).toBe(1);
+    engine.stop();
+  });
+});
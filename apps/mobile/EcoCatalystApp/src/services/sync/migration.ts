@@ -0,0 +1,81 @@
+import { KeyValueStorage, NewOutboxOperation } from './outbox';
+
+export const LOCAL_ID_PREFIX = 'local_';
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export interface AnonymousMigrationOptions {
+  /** AsyncStorage key holding a cached record or list of records */
+  storageKey: string;
+  /** Remote collection the records belong in, e.g. `footprints/${uid}` */
+  basePath: string;
+  userId: string;
+  /** Old-to-new ids from earlier migrations, applied to the `references` fields */
+  idMap?: Record<string, string>;
+  references?: string[];
+}
+
+export interface MigrationDependencies {
+  storage: KeyValueStorage;
+  enqueue: (operation: NewOutboxOperation) => Promise<unknown>;
+  createKey: (path: string) => string;
+}
+
+interface StoredRecord {
+  id: string;
+  userId?: string;
+  [field: string]: any;
+}
+
+/**
+ * Whether a cached record was created while signed out
+ */
+export const isAnonymousRecord = (record: StoredRecord): boolean => {
+  return record.userId === ANONYMOUS_USER_ID || String(record.id).startsWith(LOCAL_ID_PREFIX);
+};
+
+/**
+ * Queue uploads for records created while signed out and rewrite the cache with
+ * their new ids, so they are owned by the user who just signed in.
+ * Returns a map of old to new ids.
+ */
+export const migrateAnonymousRecords = async (
+  { storage, enqueue, createKey }: MigrationDependencies,
+  { storageKey, basePath, userId, idMap = {}, references = [] }: AnonymousMigrationOptions
+): Promise<Record<string, string>> => {
+  const migrated: Record<string, string> = {};
+  const stored = await storage.getItem(storageKey);
+  if (!stored) {
+    return migrated;
+  }
+
+  const parsed = JSON.parse(stored);
+  const isList = Array.isArray(parsed);
+  const records: StoredRecord[] = isList ? parsed : parsed ? [parsed] : [];
+
+  const updatedRecords: StoredRecord[] = [];
+  for (const record of records) {
+    if (!record || !isAnonymousRecord(record)) {
+      updatedRecords.push(record);
+      continue;
+    }
+
+    const newId = createKey(basePath);
+    const { id, ...data } = record;
+    const owned: Record<string, any> = { ...data, userId };
+    references.forEach(field => {
+      if (owned[field] && idMap[owned[field]]) {
+        owned[field] = idMap[owned[field]];
+      }
+    });
+
+    await enqueue({ type: 'set', path: `${basePath}/${newId}`, data: owned, userId });
+    migrated[id] = newId;
+    updatedRecords.push({ id: newId, ...owned });
+  }
+
+  if (Object.keys(migrated).length > 0) {
+    await storage.setItem(storageKey, JSON.stringify(isList ? updatedRecords : updatedRecords[0]));
+  }
+
+  return migrated;
+};
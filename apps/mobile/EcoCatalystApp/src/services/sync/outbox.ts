@@ -0,0 +1,217 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export const OUTBOX_STORAGE_KEY = 'ecocatalyst_sync_outbox';
+
+export type OutboxOperationType = 'set' | 'update' | 'remove';
+
+/**
+ * A write waiting to be applied to the remote database
+ */
+export interface OutboxOperation {
+  id: string;
+  type: OutboxOperationType;
+  path: string;
+  data?: Record<string, any>;
+  userId: string;
+  updatedAt: number; // when the write was made locally, used for conflict resolution
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type NewOutboxOperation = Pick<OutboxOperation, 'type' | 'path' | 'data' | 'userId'>;
+
+/**
+ * The subset of AsyncStorage the outbox needs, so tests can pass an in-memory store
+ */
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+type OutboxListener = (operations: OutboxOperation[]) => void;
+
+const isWithin = (path: string, basePath: string): boolean => {
+  return path === basePath || path.startsWith(`${basePath}/`);
+};
+
+/**
+ * Durable FIFO queue of pending writes, persisted to AsyncStorage.
+ * Writes to the same path are coalesced so only the latest state is uploaded.
+ */
+export class Outbox {
+  private operations: OutboxOperation[] = [];
+  private loaded = false;
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private listeners = new Set<OutboxListener>();
+  private counter = 0;
+
+  constructor(
+    private readonly storage: KeyValueStorage = AsyncStorage,
+    private readonly storageKey: string = OUTBOX_STORAGE_KEY
+  ) {}
+
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.storage.getItem(this.storageKey)
+        .then(stored => {
+          this.operations = stored ? JSON.parse(stored) : [];
+        })
+        .catch(error => console.error('Failed to load sync outbox:', error))
+        .finally(() => {
+          this.loaded = true;
+          this.notify();
+        });
+    }
+    return this.loading;
+  }
+
+  getOperations(): OutboxOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Operations for the given user that are due for an attempt, in the order they were made.
+   * An operation waiting to be retried holds back later ones for the same or an overlapping path.
+   */
+  getReady(userId: string, now: number = Date.now()): OutboxOperation[] {
+    const waitingPaths: string[] = [];
+    return this.operations.filter(op => {
+      if (op.userId !== userId) return false;
+      const blocked = waitingPaths.some(path => isWithin(op.path, path) || isWithin(path, op.path));
+      if (blocked || op.nextAttemptAt > now) {
+        waitingPaths.push(op.path);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  async enqueue(operation: NewOutboxOperation, now: number = Date.now()): Promise<OutboxOperation> {
+    // Never persist before the stored queue has been read, or it would be overwritten
+    await this.load();
+
+    const pending = this.operations.find(op => op.path === operation.path && op.userId === operation.userId);
+
+    // Merge an update into the pending write for the same record
+    if (operation.type === 'update' && pending && pending.type !== 'remove') {
+      pending.data = { ...(pending.data || {}), ...(operation.data || {}) };
+      pending.updatedAt = now;
+      pending.attempts = 0;
+      pending.nextAttemptAt = now;
+      delete pending.lastError;
+      await this.persist();
+      return pending;
+    }
+
+    // A set or remove supersedes every pending write to the same record and, for remove, its children
+    this.operations = this.operations.filter(op => {
+      if (op.userId !== operation.userId) return true;
+      if (operation.type === 'remove') return !isWithin(op.path, operation.path);
+      return op.path !== operation.path;
+    });
+
+    const queued: OutboxOperation = {
+      ...operation,
+      id: `op_${now}_${this.counter++}`,
+      updatedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+    this.operations.push(queued);
+    await this.persist();
+    return queued;
+  }
+
+  /**
+   * Drop an uploaded operation. Passing the `updatedAt` that was uploaded keeps the
+   * operation if a newer write was merged into it in the meantime.
+   */
+  async complete(id: string, updatedAt?: number): Promise<void> {
+    this.operations = this.operations.filter(op => {
+      if (op.id !== id) return true;
+      return updatedAt !== undefined && op.updatedAt !== updatedAt;
+    });
+    await this.persist();
+  }
+
+  async fail(id: string, error: string, nextAttemptAt: number): Promise<void> {
+    const operation = this.operations.find(op => op.id === id);
+    if (!operation) return;
+
+    operation.attempts += 1;
+    operation.nextAttemptAt = nextAttemptAt;
+    operation.lastError = error;
+    await this.persist();
+  }
+
+  /**
+   * Overlay pending writes for a user onto a value read from `basePath`, so
+   * listeners do not drop local changes that have not been uploaded yet
+   */
+  applyPending<T = any>(basePath: string, value: T | null, userId: string): T | null {
+    let result: any = value;
+
+    this.operations.forEach(op => {
+      if (op.userId !== userId) return;
+
+      if (op.path === basePath) {
+        if (op.type === 'remove') {
+          result = null;
+        } else if (op.type === 'set') {
+          result = op.data;
+        } else {
+          result = { ...(result || {}), ...op.data };
+        }
+        return;
+      }
+
+      if (!op.path.startsWith(`${basePath}/`)) return;
+      const key = op.path.slice(basePath.length + 1);
+      if (key.includes('/')) return;
+
+      const children = { ...(result || {}) };
+      if (op.type === 'remove') {
+        delete children[key];
+      } else if (op.type === 'set') {
+        children[key] = op.data;
+      } else {
+        children[key] = { ...(children[key] || {}), ...op.data };
+      }
+      result = Object.keys(children).length > 0 ? children : null;
+    });
+
+    return result;
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const snapshot = this.getOperations();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private persist(): Promise<void> {
+    this.notify();
+    const serialized = JSON.stringify(this.operations);
+    // Chain saves so an older snapshot never overwrites a newer one
+    this.saving = this.saving
+      .then(() => this.storage.setItem(this.storageKey, serialized))
+      .catch(error => console.error('Failed to persist sync outbox:', error));
+    return this.saving;
+  }
+}
@@ -0,0 +1,23 @@
+import { database } from '../firebase';
+import { ref, get, set, remove, push } from 'firebase/database';
+
+/**
+ * The remote database operations the sync engine relies on
+ */
+export interface RemoteStore {
+  get: (path: string) => Promise<any>;
+  set: (path: string, data: Record<string, any>) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+  createKey: (path: string) => string;
+}
+
+export const firebaseRemoteStore: RemoteStore = {
+  get: async (path) => {
+    const snapshot = await get(ref(database, path));
+    return snapshot.val();
+  },
+  set: (path, data) => set(ref(database, path), data),
+  remove: (path) => remove(ref(database, path)),
+  // Push keys are generated on the device, so this works offline
+  createKey: (path) => push(ref(database, path)).key || `local_${Date.now()}`,
+};
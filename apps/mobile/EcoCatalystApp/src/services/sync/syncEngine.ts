@@ -0,0 +1,197 @@
+import { Outbox, OutboxOperation } from './outbox';
+import { RemoteStore } from './remoteStore';
+
+export interface SyncStatus {
+  pendingCount: number;
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+export interface FlushResult {
+  synced: number;
+  conflicts: number;
+  failed: boolean;
+}
+
+export interface SyncEngineOptions {
+  outbox: Outbox;
+  remote: RemoteStore;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: () => number;
+  /** Called when a local write is dropped because the remote copy is newer */
+  onConflict?: (operation: OutboxOperation, remoteValue: any) => void;
+}
+
+type StatusListener = (status: SyncStatus) => void;
+
+/**
+ * Exponential backoff for the given number of failed attempts, capped at maxDelayMs
+ */
+export const computeBackoffDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number): number => {
+  return Math.min(maxDelayMs, baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+};
+
+const remoteUpdatedAt = (value: any): number | null => {
+  return value && typeof value === 'object' && typeof value.updatedAt === 'number' ? value.updatedAt : null;
+};
+
+/**
+ * Uploads outbox operations for the signed-in user in order, retrying with backoff.
+ * Conflicts are resolved by updatedAt: a remote record changed after the local write wins.
+ */
+export class SyncEngine {
+  private readonly outbox: Outbox;
+  private readonly remote: RemoteStore;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly now: () => number;
+  private readonly onConflict?: (operation: OutboxOperation, remoteValue: any) => void;
+
+  private userId: string | null = null;
+  private flushing: Promise<FlushResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<StatusListener>();
+  private status: SyncStatus = { pendingCount: 0, isSyncing: false, lastSyncedAt: null, lastError: null };
+
+  constructor({ outbox, remote, baseDelayMs = 2000, maxDelayMs = 5 * 60 * 1000, now = Date.now, onConflict }: SyncEngineOptions) {
+    this.outbox = outbox;
+    this.remote = remote;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+    this.now = now;
+    this.onConflict = onConflict;
+
+    this.outbox.subscribe(operations => {
+      this.updateStatus({ pendingCount: operations.filter(op => op.userId === this.userId).length });
+    });
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Only operations made by the signed-in user are uploaded; others wait for that user to return
+   */
+  setUser(userId: string | null) {
+    this.userId = userId;
+    this.updateStatus({
+      pendingCount: this.outbox.getOperations().filter(op => op.userId === userId).length,
+    });
+    this.clearRetry();
+  }
+
+  /**
+   * Upload every due operation. Concurrent calls share the same run.
+   */
+  flush(): Promise<FlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.run().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  stop() {
+    this.clearRetry();
+  }
+
+  private async run(): Promise<FlushResult> {
+    const result: FlushResult = { synced: 0, conflicts: 0, failed: false };
+    const userId = this.userId;
+    if (!userId) return result;
+
+    await this.outbox.load();
+    this.clearRetry();
+    this.updateStatus({ isSyncing: true });
+
+    // Stop at the first failure, and skip writes behind one still backing off, so writes to related paths keep their order
+    for (const operation of this.outbox.getReady(userId, this.now())) {
+      try {
+        const applied = await this.apply(operation);
+        await this.outbox.complete(operation.id, operation.updatedAt);
+        if (applied) {
+          result.synced++;
+        } else {
+          result.conflicts++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const delay = computeBackoffDelay(operation.attempts + 1, this.baseDelayMs, this.maxDelayMs);
+        await this.outbox.fail(operation.id, message, this.now() + delay);
+        this.updateStatus({ lastError: message });
+        result.failed = true;
+        break;
+      }
+    }
+
+    this.updateStatus({
+      isSyncing: false,
+      ...(result.failed ? {} : { lastSyncedAt: this.now(), lastError: null }),
+    });
+    this.scheduleRetry(userId);
+    return result;
+  }
+
+  /**
+   * Apply one operation, returning false when it lost a conflict and was dropped
+   */
+  private async apply(operation: OutboxOperation): Promise<boolean> {
+    const current = await this.remote.get(operation.path);
+    const currentUpdatedAt = remoteUpdatedAt(current);
+
+    if (currentUpdatedAt !== null && currentUpdatedAt > operation.updatedAt) {
+      this.onConflict?.(operation, current);
+      return false;
+    }
+
+    switch (operation.type) {
+      case 'remove':
+        await this.remote.remove(operation.path);
+        break;
+      case 'update':
+        await this.remote.set(operation.path, { ...(current || {}), ...(operation.data || {}) });
+        break;
+      default:
+        await this.remote.set(operation.path, operation.data || {});
+    }
+    return true;
+  }
+
+  private scheduleRetry(userId: string) {
+    const now = this.now();
+    const waiting = this.outbox.getOperations().filter(op => op.userId === userId);
+    if (waiting.length === 0) return;
+
+    // Operations held back behind one that is backing off are due, but go no sooner than it does
+    const delay = this.outbox.getReady(userId, now).length > 0
+      ? 0
+      : Math.min(...waiting.map(op => op.nextAttemptAt).filter(at => at > now)) - now;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
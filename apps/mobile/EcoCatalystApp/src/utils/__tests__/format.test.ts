@@ -0,0 +1,39 @@
+import { formatCarbon, formatChange, formatWater, getInitials } from '../format';
+
+declare const describe: (name: string, fn: () => void) => void;
+declare const it: (name: string, fn: () => void) => void;
+declare const expect: any;
+
+describe('formatCarbon', () => {
+  it('uses kg below a tonne and tonnes above', () => {
+    expect(formatCarbon(2.345)).toBe('2.3 kg CO₂e');
+    expect(formatCarbon(250.4)).toBe('250 kg CO₂e');
+    expect(formatCarbon(2300)).toBe('2.3 t CO₂e');
+    expect(formatCarbon(NaN)).toBe('Unknown');
+  });
+});
+
+describe('formatWater', () => {
+  it('uses liters below a cubic meter and cubic meters above', () => {
+    expect(formatWater(48.6)).toBe('49 L water');
+    expect(formatWater(15400)).toBe('15.4 m³ water');
+    expect(formatWater(NaN)).toBe('Unknown');
+  });
+});
+
+describe('formatChange', () => {
+  it('describes the direction of the change', () => {
+    expect(formatChange(-12.4, 'last month')).toBe('12% lower than last month');
+    expect(formatChange(30, 'last week')).toBe('30% higher than last week');
+    expect(formatChange(0.2, 'last week')).toBe('About the same as last week');
+    expect(formatChange(null, 'last month')).toBe('Nothing logged last month to compare with');
+  });
+});
+
+describe('getInitials', () => {
+  it('uses up to two words of the name, then the email', () => {
+    expect(getInitials('Ada Lovelace King', 'ada@example.com')).toBe('AL');
+    expect(getInitials('', 'sam@example.com')).toBe('S');
+    expect(getInitials(null, null)).toBe('?');
+  });
+});
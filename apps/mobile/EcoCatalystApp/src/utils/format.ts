@@ -0,0 +1,50 @@
+/**
+ * Format an amount in kg CO2e, switching to tonnes from 1,000 kg
+ */
+export const formatCarbon = (kg: number): string => {
+  if (!Number.isFinite(kg)) return 'Unknown';
+  if (Math.abs(kg) >= 1000) {
+    return `${(kg / 1000).toFixed(1)} t CO₂e`;
+  }
+  return `${Math.abs(kg) < 10 ? kg.toFixed(1) : Math.round(kg)} kg CO₂e`;
+};
+
+/**
+ * Format a volume of water in liters, switching to cubic meters from 1,000 L
+ */
+export const formatWater = (liters: number): string => {
+  if (!Number.isFinite(liters)) return 'Unknown';
+  if (Math.abs(liters) >= 1000) {
+    return `${(liters / 1000).toFixed(1)} m³ water`;
+  }
+  return `${Math.round(liters)} L water`;
+};
+
+/**
+ * Describe a percentage change against an earlier period, e.g. "12% lower than last month"
+ */
+export const formatChange = (changePercent: number | null, previousLabel: string): string => {
+  if (changePercent === null) {
+    return `Nothing logged ${previousLabel} to compare with`;
+  }
+  const rounded = Math.round(Math.abs(changePercent));
+  if (rounded === 0) {
+    return `About the same as ${previousLabel}`;
+  }
+  return `${rounded}% ${changePercent < 0 ? 'lower' : 'higher'} than ${previousLabel}`;
+};
+
+/**
+ * Initials for an avatar from a display name, falling back to the email address
+ */
+export const getInitials = (displayName?: string | null, email?: string | null): string => {
+  const source = (displayName || '').trim();
+  if (source) {
+    return source
+      .split(/\s+/)
+      .slice(0, 2)
+      .map(part => part[0].toUpperCase())
+      .join('');
+  }
+  return email ? email[0].toUpperCase() : '?';
+};